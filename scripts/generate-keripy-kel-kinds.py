@@ -0,0 +1,80 @@
+#!/usr/bin/env python3
+"""
+Generate KERIpy CBOR and MessagePack KEL fixtures for kerits.
+
+For each serialization kind, KERIpy builds a self-addressing inception and
+the rotation after it, and signs each with its current key. The event, its
+Serder.raw bytes and the signature are written to
+src/kel/fixtures/kel-kinds-expected.json, which
+src/kel/fixtures/kel-kinds-cross-validation.test.ts checks byte for byte.
+
+Usage:
+    pip install keri==1.3.4
+    python3 scripts/generate-keripy-kel-kinds.py
+"""
+
+import json
+from importlib.metadata import version
+from pathlib import Path
+
+from keri.core import coring, eventing
+from keri.kering import Kinds
+
+try:
+    from keri.core.signing import Signer
+except ImportError:  # KERIpy before 1.2
+    from keri.core.coring import Signer
+
+OUT = Path(__file__).resolve().parent.parent / "src" / "kel" / "fixtures" / "kel-kinds-expected.json"
+
+# Ed25519 seeds: inception key, rotation key, key committed to by the rotation.
+SEEDS = [bytes([0xAB]) * 32, bytes([0xCD]) * 32, bytes([0xEF]) * 32]
+
+
+def entry(serder, signer):
+    return {
+        "event": serder.ked,
+        "rawHex": serder.raw.hex(),
+        "sigQb64": signer.sign(serder.raw).qb64,
+    }
+
+
+def main():
+    signers = [Signer(raw=seed, transferable=True) for seed in SEEDS]
+    digests = [coring.Diger(ser=signer.verfer.qb64b).qb64 for signer in signers]
+
+    expected = {}
+    for kind in (Kinds.cbor, Kinds.mgpk):
+        icp = eventing.incept(
+            keys=[signers[0].verfer.qb64],
+            ndigs=[digests[1]],
+            code=coring.MtrDex.Blake3_256,
+            kind=kind,
+        )
+        rot = eventing.rotate(
+            pre=icp.pre,
+            keys=[signers[1].verfer.qb64],
+            dig=icp.said,
+            ndigs=[digests[2]],
+            sn=1,
+            kind=kind,
+        )
+        expected[f"icp-{kind.lower()}"] = entry(icp, signers[0])
+        expected[f"rot-{kind.lower()}"] = entry(rot, signers[1])
+
+    OUT.write_text(
+        json.dumps(
+            {
+                "_comment": "Generated by scripts/generate-keripy-kel-kinds.py using KERIpy. Do not edit by hand.",
+                "_keripy_version": version("keri"),
+                "expected": expected,
+            },
+            indent=2,
+        )
+        + "\n"
+    )
+    print(f"Wrote {OUT}")
+
+
+if __name__ == "__main__":
+    main()
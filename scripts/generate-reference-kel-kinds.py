@@ -0,0 +1,146 @@
+#!/usr/bin/env python3
+"""
+Generate reference CBOR and MessagePack KEL fixtures for kerits without KERIpy.
+
+Where KERIpy cannot be installed, this rebuilds the inception and rotation of
+scripts/generate-keripy-kel-kinds.py the way KERIpy's eventing.incept(),
+eventing.rotate() and Serder do: the same field order, '#' placeholders for
+the SAID fields, version string sizing and Blake3-256 digests, serialized with
+the same libraries KERIpy calls (cbor2.dumps, msgpack.dumps). Ed25519 is
+deterministic, so the signatures are the ones KERIpy's libsodium signer makes.
+
+The output has the same shape as the KERIpy script's, which replaces it:
+src/kel/fixtures/kel-kinds-expected.json.
+
+Usage:
+    pip install cbor2 msgpack blake3 cryptography
+    python3 scripts/generate-reference-kel-kinds.py
+"""
+
+import base64
+import json
+from importlib.metadata import version
+from pathlib import Path
+
+import blake3
+import cbor2
+import msgpack
+from cryptography.hazmat.primitives.asymmetric.ed25519 import Ed25519PrivateKey
+from cryptography.hazmat.primitives.serialization import Encoding, PublicFormat
+
+OUT = Path(__file__).resolve().parent.parent / "src" / "kel" / "fixtures" / "kel-kinds-expected.json"
+
+# Same seeds as scripts/generate-keripy-kel-kinds.py.
+SEEDS = [bytes([0xAB]) * 32, bytes([0xCD]) * 32, bytes([0xEF]) * 32]
+
+DUMMY = "#" * 44
+
+
+def qb64(code, raw):
+    """CESR qb64 of a fixed-size primitive: code, then raw with lead bytes, base64url."""
+    lead = len(code) % 4
+    return code + base64.urlsafe_b64encode(bytes(lead) + raw).decode()[lead:]
+
+
+def dumps(ked, kind):
+    return cbor2.dumps(ked) if kind == "CBOR" else msgpack.dumps(ked)
+
+
+def versify(kind, size):
+    return f"KERI10{kind}{size:06x}_"
+
+
+def saidify(ked, kind, fields):
+    """Serder(makify=True): size v over '#'-filled SAID fields, digest, then fill them."""
+    ked = dict(ked)
+    for field in fields:
+        ked[field] = DUMMY
+    ked["v"] = versify(kind, 0)
+    ked["v"] = versify(kind, len(dumps(ked, kind)))
+    said = qb64("E", blake3.blake3(dumps(ked, kind)).digest())
+    for field in fields:
+        ked[field] = said
+    return ked, dumps(ked, kind)
+
+
+class Signer:
+    def __init__(self, seed):
+        self.key = Ed25519PrivateKey.from_private_bytes(seed)
+        self.verfer = qb64("D", self.key.public_key().public_bytes(Encoding.Raw, PublicFormat.Raw))
+
+    def sign(self, raw):
+        return qb64("0B", self.key.sign(raw))
+
+
+def entry(ked, raw, signer):
+    return {"event": ked, "rawHex": raw.hex(), "sigQb64": signer.sign(raw)}
+
+
+def main():
+    signers = [Signer(seed) for seed in SEEDS]
+    digests = [qb64("E", blake3.blake3(signer.verfer.encode()).digest()) for signer in signers]
+
+    expected = {}
+    for kind in ("CBOR", "MGPK"):
+        icp, icp_raw = saidify(
+            {
+                "v": "",
+                "t": "icp",
+                "d": "",
+                "i": "",
+                "s": "0",
+                "kt": "1",
+                "k": [signers[0].verfer],
+                "nt": "1",
+                "n": [digests[1]],
+                "bt": "0",
+                "b": [],
+                "c": [],
+                "a": [],
+            },
+            kind,
+            ["d", "i"],
+        )
+        rot, rot_raw = saidify(
+            {
+                "v": "",
+                "t": "rot",
+                "d": "",
+                "i": icp["i"],
+                "s": "1",
+                "p": icp["d"],
+                "kt": "1",
+                "k": [signers[1].verfer],
+                "nt": "1",
+                "n": [digests[2]],
+                "bt": "0",
+                "br": [],
+                "ba": [],
+                "a": [],
+            },
+            kind,
+            ["d"],
+        )
+        expected[f"icp-{kind.lower()}"] = entry(icp, icp_raw, signers[0])
+        expected[f"rot-{kind.lower()}"] = entry(rot, rot_raw, signers[1])
+
+    OUT.write_text(
+        json.dumps(
+            {
+                "_comment": (
+                    "Generated by scripts/generate-reference-kel-kinds.py, a reconstruction of KERIpy's "
+                    "serialization, not by KERIpy. Replace by running scripts/generate-keripy-kel-kinds.py. "
+                    "Do not edit by hand."
+                ),
+                "_generator": {lib: version(lib) for lib in ("cbor2", "msgpack", "blake3", "cryptography")},
+                "expected": expected,
+            },
+            indent=2,
+        )
+        + "\n"
+    )
+    print(f"Wrote {OUT}")
+
+
+if __name__ == "__main__":
+    main()
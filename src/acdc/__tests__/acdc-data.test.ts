@@ -1,5 +1,6 @@
 import { describe, expect, test } from 'bun:test';
 import { ACDCData } from '../acdc-data.js';
+import type { ACDCRuleBlock } from '../types.js';
 
 describe('ACDCData.isACDC', () => {
   test('returns true for valid credential shape with inline attributes', () => {
@@ -125,3 +126,91 @@ describe('ACDCData.create', () => {
     expect(withRi.d).not.toBe(withRd.d);
   });
 });
+
+describe('ACDCData.compact', () => {
+  const base = {
+    i: 'EDP1vHcw_wc4M0MPoW1gVXEl3XEY2eJMBqhBMBCAFXMq' as any,
+    s: 'EschemaSaid12345678901234567890123456789012' as any,
+  };
+
+  test('replaces a, e and r with their section SAIDs', () => {
+    const a = ACDCData.saidifySection({ i: 'EHolder', name: 'Alice' });
+    const full = ACDCData.create({ ...base, a, e: { d: '', le: 'Eedge' }, r: { usage: 'test' } });
+    const compacted = ACDCData.compact(full);
+
+    expect(compacted.a).toBe(a.d);
+    expect(compacted.e).toBe(ACDCData.saidifySection({ d: '', le: 'Eedge' }).d);
+    expect(compacted.r).toBe(ACDCData.saidifySection({ usage: 'test' }).d);
+    expect(compacted.d).not.toBe(full.d);
+    expect(compacted.v).toMatch(/^ACDC10JSON[0-9a-f]{6}_$/);
+  });
+
+  test('is idempotent and deterministic', () => {
+    const full = ACDCData.create({ ...base, a: { name: 'Alice' } });
+    const once = ACDCData.compact(full);
+    expect(ACDCData.compact(once)).toEqual(once);
+    expect(ACDCData.compact(full)).toEqual(once);
+  });
+
+  test('throws when a section declares a SAID that does not match its content', () => {
+    const a = { ...ACDCData.saidifySection({ name: 'Alice' }), name: 'Mallory' };
+    expect(() => ACDCData.compact(ACDCData.create({ ...base, a }))).toThrow(/section 'a'/);
+  });
+});
+
+describe('ACDCData.saidifyRules', () => {
+  const rules = ACDCData.saidifyRules({
+    usage: { l: 'Usage of this credential does not assert identity.' },
+    privacy: { l: 'Holders consent to:', sharing: { l: 'Sharing with verifiers only.' } },
+  });
+
+  test('gives the section and every nested clause its own SAID', () => {
+    expect(Object.keys(rules)).toEqual(['d', 'usage', 'privacy']);
+    const privacy = rules.privacy as ACDCRuleBlock;
+    expect(privacy.d).toBe(ACDCData.saidifyRules({ l: 'Holders consent to:', sharing: privacy.sharing }).d);
+    expect((privacy.sharing as ACDCRuleBlock).d).toBe(ACDCData.saidifyRules({ l: 'Sharing with verifiers only.' }).d);
+  });
+
+  test('derives each SAID over the block with its clauses compacted', () => {
+    const compacted = ACDCData.compactRuleBlock(rules);
+    expect(compacted.usage).toBe((rules.usage as ACDCRuleBlock).d);
+    expect(ACDCData.saidifySection(compacted).d).toBe(rules.d);
+  });
+
+  test('compact replaces the rules section with its SAID', () => {
+    const full = ACDCData.create({
+      i: 'EDP1vHcw_wc4M0MPoW1gVXEl3XEY2eJMBqhBMBCAFXMq' as any,
+      s: 'EschemaSaid12345678901234567890123456789012' as any,
+      a: { name: 'Alice' },
+      r: rules,
+    });
+    expect(ACDCData.compact(full).r).toBe(rules.d);
+  });
+});
+
+describe('ACDCData blinded attribute blocks', () => {
+  test('attributeBlock derives a SAID over { d, u, label }', () => {
+    const block = ACDCData.attributeBlock('name', 'Alice', '0AAxyHwW6htOZ_rANOaZb2N2');
+    expect(Object.keys(block)).toEqual(['d', 'u', 'name']);
+    expect(block.d).toHaveLength(44);
+    expect(ACDCData.attributeBlock('name', 'Alice', '0AAxyHwW6htOZ_rANOaZb2N2')).toEqual(block);
+    expect(ACDCData.attributeLabel(block)).toBe('name');
+  });
+
+  test('fresh nonces blind identical claims', () => {
+    const u = ACDCData.saltyNonce();
+    expect(u).toMatch(/^0A[A-Za-z0-9_-]{22}$/);
+    expect(ACDCData.attributeBlock('name', 'Alice').d).not.toBe(ACDCData.attributeBlock('name', 'Alice').d);
+  });
+
+  test('createSelective commits to one block SAID per attribute', () => {
+    const { credential, blocks } = ACDCData.createSelective({
+      i: 'EDP1vHcw_wc4M0MPoW1gVXEl3XEY2eJMBqhBMBCAFXMq' as any,
+      s: 'EschemaSaid12345678901234567890123456789012' as any,
+      attributes: { name: 'Alice', age: 30, country: 'NZ' },
+    });
+    expect(credential.a).toBeUndefined();
+    expect(credential.A).toEqual(blocks.map((b) => b.d));
+    expect(ACDCData.selectDisclosure(blocks, ['age']).map(ACDCData.attributeLabel)).toEqual(['age']);
+  });
+});
@@ -1,11 +1,13 @@
 import { describe, expect, test } from 'bun:test';
+import { ACDCData } from '../acdc-data.js';
 import { ACDCOps } from '../ops.js';
-import type { CredentialStatusSource } from '../types.js';
+import type { ACDCCredential, ACDCRuleBlock, CredentialStatusSource } from '../types.js';
 import type { SAID, AID } from '../../common/types.js';
 import { SchemaData } from '../../schema/schema-data.js';
 import type { JSONSchema, ACDCSchema } from '../../schema/types.js';
 import { deriveSaid } from '../../common/derivation-surface.js';
 import { buildACDCCredentialSurface } from '../../said/surfaces.js';
+import keriSaidExpected from '../../said/fixtures/keri-said-expected.json';
 
 const acdcSaid = 'EcredSaid123456789012345678901234567890123' as SAID;
 const rid = 'EridSaid12345678901234567890123456789012345' as SAID;
@@ -155,6 +157,96 @@ describe('ACDCOps.projectAndValidateClaims', () => {
   });
 });
 
+describe('ACDCOps.validateCredential', () => {
+  const edgeSchema = 'EedgeSchema0000000000000000000000000000000' as SAID;
+  const schema = SchemaData.create({
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    properties: {
+      a: { oneOf: [{ type: 'string' }, { type: 'object', required: ['LEI'] }] },
+      e: {
+        oneOf: [
+          { type: 'string' },
+          { type: 'object', properties: { qvi: { properties: { s: { const: edgeSchema } } } }, required: ['qvi'] },
+        ],
+      },
+      r: { oneOf: [{ type: 'string' }, { type: 'object', required: ['usageDisclaimer'] }] },
+    },
+    required: ['s', 'a', 'e', 'r'],
+  });
+  const resolved = { schema, externals: new Map() };
+  const credential = {
+    s: schema.d,
+    a: { LEI: '5493001KJTIIGC8Y1R17' },
+    e: { qvi: { n: 'Equvi', s: edgeSchema } },
+    r: { usageDisclaimer: { l: 'Usage of a valid vLEI credential does not assert...' } },
+  } as any;
+
+  test('validates attributes, edges and rules, expanded or compact', () => {
+    expect(ACDCOps.validateCredential(credential, resolved)).toEqual({ valid: true, errors: undefined });
+    const compact = { ...credential, a: 'Eattrs', e: 'Eedges', r: 'Erules' };
+    expect(ACDCOps.validateCredential(compact, resolved).valid).toBe(true);
+  });
+
+  test('reports edges and rules that violate the schema', () => {
+    const wrongEdge = { ...credential, e: { qvi: { n: 'Equvi', s: 'Eother' } } };
+    expect(ACDCOps.validateCredential(wrongEdge, resolved).errors).toEqual([
+      { path: '/e', message: 'Must match exactly one schema in oneOf (matched 0)', keyword: 'oneOf' },
+    ]);
+    const { r: _r, ...noRules } = credential;
+    expect(ACDCOps.validateCredential(noRules, resolved).errors?.map((e) => e.path)).toEqual(['/r']);
+  });
+
+  test('rejects a credential issued under another schema', () => {
+    const result = ACDCOps.validateCredential({ ...credential, s: edgeSchema }, resolved);
+    expect(result.valid).toBe(false);
+    expect(result.errors?.[0]).toMatchObject({ path: '/s', keyword: 'schema' });
+  });
+});
+
+describe('ACDCOps.verifyRules', () => {
+  const rules = ACDCData.saidifyRules({
+    usage: { l: 'Usage of this credential does not assert identity.' },
+    liability: { l: 'The issuer accepts no liability for:', misuse: { l: 'Misuse by the holder.' } },
+  });
+  const full = ACDCData.create({
+    i: 'EDP1vHcw_wc4M0MPoW1gVXEl3XEY2eJMBqhBMBCAFXMq' as AID,
+    s: 'EschemaSaid12345678901234567890123456789012' as SAID,
+    a: { name: 'Alice' },
+    r: rules,
+  });
+  const compact = ACDCData.compact(full);
+
+  test('accepts the expanded section the credential commits to', () => {
+    expect(ACDCOps.verifyRules(full, rules)).toEqual({ ok: true });
+    expect(ACDCOps.verifyRules(compact, rules)).toEqual({ ok: true });
+  });
+
+  test('accepts clauses presented by SAID', () => {
+    const partial = { ...rules, liability: (rules.liability as ACDCRuleBlock).d };
+    expect(ACDCOps.verifyRules(compact, partial)).toEqual({ ok: true });
+  });
+
+  test('rejects altered clause text', () => {
+    const liability = rules.liability as ACDCRuleBlock;
+    const altered = { ...rules, liability: { ...liability, misuse: { ...(liability.misuse as object), l: 'None.' } } };
+    expect(ACDCOps.verifyRules(compact, altered)).toMatchObject({
+      ok: false,
+      reason: 'said_mismatch',
+      path: '/r/liability/misuse',
+    });
+  });
+
+  test('rejects rules the credential does not commit to', () => {
+    const other = ACDCData.saidifyRules({ usage: { l: 'Anything goes.' } });
+    expect(ACDCOps.verifyRules(compact, other)).toMatchObject({ ok: false, reason: 'not_committed' });
+    expect(ACDCOps.verifyRules(compact, { usage: rules.usage })).toMatchObject({
+      ok: false,
+      reason: 'malformed_block',
+    });
+  });
+});
+
 describe('ACDCOps.validateSaid', () => {
   // Helper: create a valid credential with a correctly computed SAID
   function makeCredential(attrs: Record<string, unknown> = { name: 'Alice' }) {
@@ -208,4 +300,52 @@ describe('ACDCOps.validateSaid', () => {
     const result = ACDCOps.validateSaid(sealed as any);
     expect(result.valid).toBe(true);
   });
+
+  test('accepts the keripy acdc-credential vector, issued with an a section without d', () => {
+    const vector = keriSaidExpected.expected['acdc-credential'];
+    const credential = vector.sealedArtifact as unknown as ACDCCredential;
+    expect(ACDCOps.validateSaid(credential)).toEqual({ valid: true, expected: vector.said, actual: vector.said });
+
+    const created = ACDCData.create({ i: credential.i, s: credential.s, a: { name: 'Alice' } });
+    expect(created.d).toBe(vector.said as SAID);
+  });
+});
+
+describe('ACDCOps.verifyDisclosure', () => {
+  const { credential, blocks } = ACDCData.createSelective({
+    i: 'EDP1vHcw_wc4M0MPoW1gVXEl3XEY2eJMBqhBMBCAFXMq' as AID,
+    s: 'EschemaSaid12345678901234567890123456789012' as SAID,
+    attributes: { name: 'Alice', age: 30, country: 'NZ' },
+  });
+
+  test('returns only the disclosed claims', () => {
+    const result = ACDCOps.verifyDisclosure(credential, ACDCData.selectDisclosure(blocks, ['name', 'country']));
+    expect(result).toEqual({ ok: true, claims: { name: 'Alice', country: 'NZ' } });
+  });
+
+  test('verifies against the compact form of the credential', () => {
+    const compacted = ACDCData.compact(credential);
+    expect(ACDCOps.validateSaid(compacted).valid).toBe(true);
+    expect(ACDCOps.verifyDisclosure(compacted, blocks).ok).toBe(true);
+  });
+
+  test('rejects a block whose claim was altered', () => {
+    const altered = { ...blocks[1]!, age: 21 };
+    const result = ACDCOps.verifyDisclosure(credential, [altered]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.reason).toBe('said_mismatch');
+  });
+
+  test('rejects a valid block the credential does not commit to', () => {
+    const result = ACDCOps.verifyAttributeBlock(credential, ACDCData.attributeBlock('age', 30));
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.reason).toBe('not_committed');
+  });
+
+  test('rejects blocks that are not { d, u, <label> }', () => {
+    const { u: _u, ...noNonce } = blocks[0]!;
+    const result = ACDCOps.verifyAttributeBlock(credential, noNonce as any);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.reason).toBe('malformed_block');
+  });
 });
@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'bun:test';
+import type { AID, SAID } from '../../common/types.js';
+import { ACDCData } from '../acdc-data.js';
+import { ACDCChain } from '../chain.js';
+import type { ACDCCredential, ACDCEdgeGroup, CredentialChainSource, CredentialPolicy } from '../types.js';
+
+const GLEIF = 'EGleif00000000000000000000000000000000000000' as AID;
+const ORG = 'EOrg0000000000000000000000000000000000000000' as AID;
+const ORG_DELEGATE = 'EOrgDelegate0000000000000000000000000000000' as AID;
+const EMPLOYEE = 'EEmployee000000000000000000000000000000000000' as AID;
+const ORG_SCHEMA = 'EOrgSchema00000000000000000000000000000000000' as SAID;
+const EMPLOYEE_SCHEMA = 'EEmployeeSchema000000000000000000000000000000' as SAID;
+const RID = 'ERegistry00000000000000000000000000000000000' as SAID;
+
+const orgCredential = ACDCData.create({ i: GLEIF, s: ORG_SCHEMA, a: { i: ORG, LEI: '5493001KJTIIGC8Y1R17' } });
+
+function employeeCredential(issuer: AID, e: ACDCEdgeGroup): ACDCCredential {
+  return ACDCData.create({
+    i: issuer,
+    s: EMPLOYEE_SCHEMA,
+    a: { i: EMPLOYEE, role: 'engineer' },
+    e: ACDCData.saidifySection(e),
+  });
+}
+
+function sourceOf(credentials: ACDCCredential[], revoked: SAID[] = []): CredentialChainSource {
+  const bySaid = new Map(credentials.map((c) => [c.d, c]));
+  return {
+    credential: async (said) => bySaid.get(said),
+    evidence: async (credential) => [
+      revoked.includes(credential.d as SAID)
+        ? { source: 'tel', status: 'revoked', rid: RID, issSaid: credential.d, revSaid: credential.d, revIndex: 1 }
+        : { source: 'tel', status: 'issued', rid: RID, issSaid: credential.d, issIndex: 0 },
+    ],
+    isDelegate: async (delegate, delegator) => delegate === ORG_DELEGATE && delegator === ORG,
+  };
+}
+
+const telPolicy: CredentialPolicy = (evidence) =>
+  evidence.some((e) => e.status === 'revoked')
+    ? { accepted: false, reason: 'revoked' }
+    : { accepted: true, confidence: 'tel-backed' };
+
+describe('ACDCChain.verifyChain', () => {
+  test('walks an I2I edge to the parent credential', async () => {
+    const employee = employeeCredential(ORG, { org: { n: orgCredential.d, s: ORG_SCHEMA } });
+    const result = await ACDCChain.verifyChain(employee, sourceOf([orgCredential]), telPolicy);
+
+    expect(result).toEqual({
+      ok: true,
+      value: [
+        { said: employee.d, path: '', confidence: 'tel-backed' },
+        { said: orgCredential.d, path: '/org', confidence: 'tel-backed' },
+      ],
+    });
+  });
+
+  test('rejects an I2I edge when the issuer is not the parent issuee', async () => {
+    const employee = employeeCredential(GLEIF, { org: { n: orgCredential.d } });
+    const result = await ACDCChain.verifyChain(employee, sourceOf([orgCredential]), telPolicy);
+
+    expect(!result.ok && result.error).toMatchObject({ reason: 'operator_failed', path: '/org' });
+  });
+
+  test('accepts a delegate of the parent issuee over DI2I, and anyone over NI2I', async () => {
+    const source = sourceOf([orgCredential]);
+    const delegated = employeeCredential(ORG_DELEGATE, { org: { n: orgCredential.d, o: 'DI2I' } });
+    expect((await ACDCChain.verifyChain(delegated, source, telPolicy)).ok).toBe(true);
+
+    const unrelated = employeeCredential(GLEIF, { org: { n: orgCredential.d, o: 'NI2I' } });
+    expect((await ACDCChain.verifyChain(unrelated, source, telPolicy)).ok).toBe(true);
+
+    const i2i = employeeCredential(ORG_DELEGATE, { org: { n: orgCredential.d, o: 'I2I' } });
+    expect((await ACDCChain.verifyChain(i2i, source, telPolicy)).ok).toBe(false);
+  });
+
+  test('checks the far node schema and SAID', async () => {
+    const wrongSchema = employeeCredential(ORG, { org: { n: orgCredential.d, s: EMPLOYEE_SCHEMA } });
+    const result = await ACDCChain.verifyChain(wrongSchema, sourceOf([orgCredential]), telPolicy);
+    expect(!result.ok && result.error.reason).toBe('schema_mismatch');
+
+    const employee = employeeCredential(ORG, { org: { n: orgCredential.d } });
+    const tampered = { ...orgCredential, a: { ...orgCredential.a, LEI: 'OTHER' } };
+    const forged = await ACDCChain.verifyChain(employee, sourceOf([tampered]), telPolicy);
+    expect(!forged.ok && forged.error.reason).toBe('said_mismatch');
+
+    const missing = await ACDCChain.verifyChain(employee, sourceOf([]), telPolicy);
+    expect(!missing.ok && missing.error).toMatchObject({ reason: 'not_found', said: orgCredential.d });
+  });
+
+  test('applies the policy at every hop', async () => {
+    const employee = employeeCredential(ORG, { org: { n: orgCredential.d } });
+    const result = await ACDCChain.verifyChain(
+      employee,
+      sourceOf([orgCredential], [orgCredential.d as SAID]),
+      telPolicy,
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      error: { reason: 'policy_rejected', path: '/org', said: orgCredential.d as SAID, message: 'revoked' },
+    });
+  });
+
+  test('OR groups need one member, NOT groups none', async () => {
+    const source = sourceOf([orgCredential]);
+    const missing = 'EMissing000000000000000000000000000000000000' as SAID;
+
+    const either = employeeCredential(ORG, { any: { o: 'OR', old: { n: missing }, org: { n: orgCredential.d } } });
+    const eitherResult = await ACDCChain.verifyChain(either, source, telPolicy);
+    expect(eitherResult.ok && eitherResult.value.map((h) => h.path)).toEqual(['', '/any/org']);
+
+    const neither = employeeCredential(ORG, { not: { o: 'NOT', org: { n: orgCredential.d } } });
+    const neitherResult = await ACDCChain.verifyChain(neither, source, telPolicy);
+    expect(!neitherResult.ok && neitherResult.error).toMatchObject({ reason: 'operator_failed', path: '/not/org' });
+
+    const absent = employeeCredential(ORG, { not: { o: 'NOT', old: { n: missing } } });
+    expect((await ACDCChain.verifyChain(absent, source, telPolicy)).ok).toBe(true);
+  });
+});
@@ -1,7 +1,15 @@
-import { deriveSaid } from '../common/derivation-surface.js';
+import { digestAlgoOf, encode } from '../cesr/digest.js';
+import { deriveSaid, recomputeSaid } from '../common/derivation-surface.js';
 import type { AID, SAID } from '../common/types.js';
-import { buildACDCCredentialSurface } from '../said/surfaces.js';
-import type { ACDCCredential, ACDCProof } from './types.js';
+import { buildACDCCredentialSurface, buildACDCSectionSurface } from '../said/surfaces.js';
+import { randomBytes } from '../signature/primitives.js';
+import type { ACDCAttributeBlock, ACDCCredential, ACDCProof, ACDCRuleBlock, CompactACDCCredential } from './types.js';
+
+/** Salt_128: 16 random bytes, qb64 code '0A'. */
+const SALT_CODE = '0A';
+
+/** Sections that compact to their SAID. */
+const COMPACTABLE_SECTIONS = ['a', 'e', 'r'] as const;
 
 function isACDC(obj: unknown): obj is ACDCCredential {
   if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return false;
@@ -64,8 +72,153 @@ function create(params: CreateCredentialParams): ACDCCredential {
   return sealed as ACDCCredential;
 }
 
+// ── Rules ───────────────────────────────────────────────────────────
+
+function isRuleBlock(value: unknown): value is ACDCRuleBlock {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * The form of a rule block its SAID is derived over: every sub-clause that
+ * carries a d is replaced by that d. Sub-clauses without d stay inline.
+ */
+function compactRuleBlock(block: Record<string, unknown>): Record<string, unknown> {
+  const compacted: Record<string, unknown> = {};
+  for (const [label, value] of Object.entries(block)) {
+    compacted[label] = isRuleBlock(value) && typeof value.d === 'string' ? value.d : value;
+  }
+  return compacted;
+}
+
+/**
+ * SAIDify a rules section (or one clause) and every clause nested in it,
+ * innermost first. A block without a d field gets one in front; one with a
+ * d (empty or not) keeps its place and gets the derived SAID.
+ */
+function saidifyRules<T extends ACDCRuleBlock>(block: T): T & { d: SAID } {
+  const expanded: Record<string, unknown> = 'd' in block ? {} : { d: '' };
+  for (const [label, value] of Object.entries(block)) {
+    expanded[label] = isRuleBlock(value) ? saidifyRules(value) : value;
+  }
+  const compacted = compactRuleBlock(expanded);
+  const { said } = deriveSaid(compacted, buildACDCSectionSurface(compacted));
+  return { ...expanded, d: said } as T & { d: SAID };
+}
+
+// ── Compaction ──────────────────────────────────────────────────────
+
+/** Fresh salty nonce (qb64 Salt_128) for the u field of a credential or attribute block. */
+function saltyNonce(): string {
+  return encode(randomBytes(16), SALT_CODE);
+}
+
+/**
+ * Derive the SAID of a nested block (attribute, edge or rule section) over its
+ * own fields in insertion order. A block without a d field gets one in front.
+ */
+function saidifySection<T extends Record<string, unknown>>(section: T): T & { d: SAID } {
+  const artifact = 'd' in section ? { ...section } : { d: '', ...section };
+  const { sealed } = deriveSaid(artifact, buildACDCSectionSurface(artifact));
+  return sealed as T & { d: SAID };
+}
+
+/**
+ * SAID of a section in a full credential. A section carrying its own d must
+ * match its content; one without d (or with an empty d) is SAIDified on the fly.
+ */
+function sectionSaid(field: string, section: unknown): SAID {
+  if (typeof section === 'string') return section as SAID;
+  const block = section as Record<string, unknown>;
+  // A rules section commits to its clauses by their SAIDs.
+  const content = field === 'r' ? compactRuleBlock(block) : block;
+  if (!block.d) return saidifySection(content).d;
+  const check = recomputeSaid(content, buildACDCSectionSurface(content));
+  if (!check.matches) {
+    throw new Error(
+      `compact: section '${field}' declares SAID ${check.declared}, content hashes to ${check.recomputed}`,
+    );
+  }
+  return block.d as SAID;
+}
+
+/**
+ * Compact a credential into its most compact form: the a, e and r sections
+ * are replaced by their SAIDs and the top-level d is derived over the result.
+ * Compacting a compact credential is a no-op. Throws when a section's
+ * embedded d does not match its content.
+ */
+function compact(credential: ACDCCredential | CompactACDCCredential): CompactACDCCredential {
+  const artifact: Record<string, unknown> = { ...credential };
+  for (const field of COMPACTABLE_SECTIONS) {
+    if (artifact[field] !== undefined) artifact[field] = sectionSaid(field, artifact[field]);
+  }
+  // Keep the digest algorithm of the credential's own SAID.
+  const algo = digestAlgoOf(credential.d) ?? 'blake3-256';
+  const { sealed } = deriveSaid(artifact, buildACDCCredentialSurface(artifact), undefined, algo);
+  return sealed as CompactACDCCredential;
+}
+
+// ── Selective disclosure ────────────────────────────────────────────
+
+/** The claim label of a blinded attribute block: its one field besides d and u. */
+function attributeLabel(block: ACDCAttributeBlock): string | undefined {
+  const labels = Object.keys(block).filter((k) => k !== 'd' && k !== 'u');
+  return labels.length === 1 ? labels[0] : undefined;
+}
+
+/**
+ * Build a blinded attribute block { d, u, <label>: value } for one claim.
+ * `u` defaults to a fresh salty nonce; pass one only to reproduce a block.
+ */
+function attributeBlock(label: string, value: unknown, u: string = saltyNonce()): ACDCAttributeBlock {
+  if (label === 'd' || label === 'u') throw new Error(`attributeBlock: '${label}' is reserved`);
+  return saidifySection({ d: '', u, [label]: value }) as ACDCAttributeBlock;
+}
+
+/** Blind each attribute into its own block, in the attributes' key order. */
+function blindAttributes(
+  attributes: Record<string, unknown>,
+  nonces: Record<string, string> = {},
+): ACDCAttributeBlock[] {
+  return Object.entries(attributes).map(([label, value]) => attributeBlock(label, value, nonces[label]));
+}
+
+/**
+ * Create a selectively disclosable credential: each attribute is blinded into
+ * its own block and the credential commits to the block SAIDs in A.
+ * The issuer hands the holder both; the holder later discloses a subset.
+ */
+function createSelective(params: Omit<CreateCredentialParams, 'a' | 'A'> & { attributes: Record<string, unknown> }): {
+  credential: ACDCCredential;
+  blocks: ACDCAttributeBlock[];
+} {
+  const { attributes, ...rest } = params;
+  const blocks = blindAttributes(attributes);
+  const credential = create({ ...rest, A: blocks.map((b) => b.d) });
+  return { credential, blocks };
+}
+
+/** The blocks a holder presents to disclose only the claims in `labels`. */
+function selectDisclosure(blocks: readonly ACDCAttributeBlock[], labels: readonly string[]): ACDCAttributeBlock[] {
+  const wanted = new Set(labels);
+  return blocks.filter((b) => {
+    const label = attributeLabel(b);
+    return label !== undefined && wanted.has(label);
+  });
+}
+
 export const ACDCData = {
   isACDC,
   createProof,
   create,
+  saltyNonce,
+  saidifySection,
+  compactRuleBlock,
+  saidifyRules,
+  compact,
+  attributeLabel,
+  attributeBlock,
+  blindAttributes,
+  createSelective,
+  selectDisclosure,
 } as const;
@@ -0,0 +1,219 @@
+/**
+ * Chained-credential verification.
+ *
+ * A credential's e section names other credentials (far nodes) by SAID.
+ * Verifying the chain walks every edge to its far node, checks the far
+ * node's SAID and schema against the edge, checks the edge operator against
+ * the issuer/issuee relationship, and judges each credential on the way
+ * (the root included) with a CredentialPolicy.
+ *
+ * Edge operators, between the near node (the credential holding the edge)
+ * and the far node:
+ * - I2I: the near node's issuer is the far node's issuee
+ * - DI2I: as I2I, or the near node's issuer is a delegate of the far issuee
+ * - NI2I: no constraint
+ * An edge without o is I2I when the far node has an issuee, NI2I otherwise.
+ *
+ * Edge group operators: AND (default) needs every member to verify, OR at
+ * least one, NOT none.
+ *
+ * @module acdc/chain
+ */
+
+import type { AID, SAID } from '../common/types.js';
+import { err, ok, type Result } from '../result.js';
+import { ACDCOps } from './ops.js';
+import type {
+  ACDCCredential,
+  ACDCEdge,
+  ACDCEdgeGroup,
+  CredentialChainError,
+  CredentialChainHop,
+  CredentialChainSource,
+  CredentialPolicy,
+} from './types.js';
+
+/** Upper bound on edges followed from the root to any far node. */
+const MAX_CHAIN_DEPTH = 16;
+
+const GROUP_FIELDS = new Set(['d', 'o', 'w']);
+const EDGE_OPERATORS = new Set(['I2I', 'NI2I', 'DI2I']);
+const GROUP_OPERATORS = new Set(['AND', 'OR', 'NOT']);
+
+type ChainResult = Result<CredentialChainHop[], CredentialChainError>;
+
+type Walk = {
+  source: CredentialChainSource;
+  policy: CredentialPolicy;
+  /** SAIDs of the credentials on the current path, to catch cycles. */
+  visiting: Set<SAID>;
+};
+
+function failure(reason: CredentialChainError['reason'], path: string, said: SAID, message: string): ChainResult {
+  return err({ reason, path, said, message });
+}
+
+function isEdge(value: ACDCEdge | ACDCEdgeGroup): value is ACDCEdge {
+  return typeof value.n === 'string';
+}
+
+/** The labelled edges and subgroups of an edge group, in order. */
+function edgeMembers(group: ACDCEdgeGroup): [string, ACDCEdge | ACDCEdgeGroup][] {
+  const members: [string, ACDCEdge | ACDCEdgeGroup][] = [];
+  for (const [label, value] of Object.entries(group)) {
+    if (GROUP_FIELDS.has(label) || !value || typeof value !== 'object' || Array.isArray(value)) continue;
+    members.push([label, value]);
+  }
+  return members;
+}
+
+/** The issuee of a credential: the i of its attribute section, if any. */
+function issuee(credential: ACDCCredential): AID | undefined {
+  const i = credential.a?.i;
+  return typeof i === 'string' ? (i as AID) : undefined;
+}
+
+async function checkOperator(
+  near: ACDCCredential,
+  far: ACDCCredential,
+  edge: ACDCEdge,
+  path: string,
+  walk: Walk,
+): Promise<ChainResult> {
+  const farIssuee = issuee(far);
+  const operator = edge.o ?? (farIssuee === undefined ? 'NI2I' : 'I2I');
+  if (operator === 'NI2I' || near.i === farIssuee) return ok([]);
+
+  if (farIssuee === undefined) {
+    return failure('operator_failed', path, edge.n, `${operator} edge to a credential without an issuee`);
+  }
+  if (operator === 'DI2I') {
+    if (!walk.source.isDelegate) {
+      return failure('operator_failed', path, edge.n, 'DI2I edge needs a delegation lookup (isDelegate)');
+    }
+    if (await walk.source.isDelegate(near.i as AID, farIssuee)) return ok([]);
+  }
+  return failure(
+    'operator_failed',
+    path,
+    edge.n,
+    `${operator}: issuer ${near.i} is not ${operator === 'DI2I' ? 'the issuee or a delegate of' : 'the issuee'} ${farIssuee}`,
+  );
+}
+
+async function verifyEdge(
+  near: ACDCCredential,
+  edge: ACDCEdge,
+  path: string,
+  depth: number,
+  walk: Walk,
+): Promise<ChainResult> {
+  if (edge.o !== undefined && !EDGE_OPERATORS.has(edge.o)) {
+    return failure('malformed_edge', path, edge.n, `Unknown edge operator: ${edge.o}`);
+  }
+
+  const far = await walk.source.credential(edge.n);
+  if (!far) return failure('not_found', path, edge.n, `Credential ${edge.n} not found`);
+  if (far.d !== edge.n || !ACDCOps.validateSaid(far).valid) {
+    return failure('said_mismatch', path, edge.n, `Credential found for ${edge.n} does not hash to it`);
+  }
+  if (edge.s !== undefined && far.s !== edge.s) {
+    return failure(
+      'schema_mismatch',
+      path,
+      edge.n,
+      `Credential ${edge.n} has schema ${far.s}, edge requires ${edge.s}`,
+    );
+  }
+
+  const operator = await checkOperator(near, far, edge, path, walk);
+  if (!operator.ok) return operator;
+  return verifyNode(far, path, depth + 1, walk);
+}
+
+async function verifyGroup(
+  near: ACDCCredential,
+  group: ACDCEdgeGroup,
+  path: string,
+  depth: number,
+  walk: Walk,
+): Promise<ChainResult> {
+  const operator = group.o ?? 'AND';
+  if (!GROUP_OPERATORS.has(operator)) {
+    return failure('malformed_edge', path, near.d as SAID, `Unknown edge group operator: ${operator}`);
+  }
+
+  const hops: CredentialChainHop[] = [];
+  let firstFailure: ChainResult | undefined;
+  for (const [label, member] of edgeMembers(group)) {
+    const memberPath = `${path}/${label}`;
+    const result = isEdge(member)
+      ? await verifyEdge(near, member, memberPath, depth, walk)
+      : await verifyGroup(near, member, memberPath, depth, walk);
+
+    if (result.ok) {
+      if (operator === 'OR') return result;
+      if (operator === 'NOT') {
+        return failure('operator_failed', memberPath, near.d as SAID, `NOT group member ${memberPath} verifies`);
+      }
+      hops.push(...result.value);
+    } else {
+      if (operator === 'AND') return result;
+      firstFailure ??= result;
+    }
+  }
+
+  if (operator === 'OR') {
+    return firstFailure ?? failure('malformed_edge', path, near.d as SAID, 'OR group has no edges');
+  }
+  return ok(hops);
+}
+
+async function verifyNode(credential: ACDCCredential, path: string, depth: number, walk: Walk): Promise<ChainResult> {
+  const said = credential.d as SAID;
+  if (depth > MAX_CHAIN_DEPTH) {
+    return failure('too_deep', path, said, `Chain is longer than ${MAX_CHAIN_DEPTH} edges`);
+  }
+  if (walk.visiting.has(said)) return failure('cycle', path, said, `Credential ${said} chains back to itself`);
+
+  const judgment = walk.policy(await walk.source.evidence(credential), credential);
+  if (!judgment.accepted) return failure('policy_rejected', path, said, judgment.reason);
+  const hop: CredentialChainHop = { said, path, confidence: judgment.confidence };
+
+  const edges = credential.e;
+  if (edges === undefined) return ok([hop]);
+  if (typeof edges !== 'object') {
+    return failure('malformed_edge', path, said, 'Edge section is compact; the expanded section is needed');
+  }
+
+  walk.visiting.add(said);
+  const result = await verifyGroup(credential, edges, path, depth, walk);
+  walk.visiting.delete(said);
+  return result.ok ? ok([hop, ...result.value]) : result;
+}
+
+/**
+ * Verify a credential and the chain of credentials its edges lead to.
+ *
+ * The credential's own signature and every far node's signature are the
+ * source's responsibility: return only credentials that verified. Each far
+ * node must hash to the SAID its edge names.
+ *
+ * @param credential - The root of the chain, with its e section expanded
+ * @param source - Looks up far nodes, their status evidence and delegations
+ * @param policy - Judges each credential's status evidence
+ * @returns The accepted credentials, root first, or the first failure
+ */
+async function verifyChain(
+  credential: ACDCCredential,
+  source: CredentialChainSource,
+  policy: CredentialPolicy,
+): Promise<ChainResult> {
+  return verifyNode(credential, '', 0, { source, policy, visiting: new Set() });
+}
+
+export const ACDCChain = {
+  verifyChain,
+  edgeMembers,
+  issuee,
+} as const;
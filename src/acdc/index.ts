@@ -1,12 +1,15 @@
 import { ACDCData } from './acdc-data.js';
+import { ACDCChain } from './chain.js';
 import { ACDCOps } from './ops.js';
 
 export const Acdc = {
   ...ACDCData,
   ...ACDCOps,
+  ...ACDCChain,
 } as const;
 
 export { ACDCData } from './acdc-data.js';
-export type { SaidValidationResult, SignatureResult } from './ops.js';
+export { ACDCChain } from './chain.js';
+export type { DisclosureResult, RulesResult, SaidValidationResult, SignatureResult } from './ops.js';
 export { ACDCOps } from './ops.js';
 export * from './types.js';
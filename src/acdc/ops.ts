@@ -1,12 +1,17 @@
 import { recomputeSaid, serializeForSigning } from '../common/derivation-surface.js';
 import type { PublicKey, SAID, Signature } from '../common/types.js';
-import { buildACDCCredentialSurface } from '../said/surfaces.js';
+import { buildACDCCredentialSurface, buildACDCSectionSurface } from '../said/surfaces.js';
 import { SchemaOps } from '../schema/ops.js';
+import type { ResolvedSchema } from '../schema/resolver.js';
 import type { ACDCSchema, SchemaValidationResult } from '../schema/types.js';
 import { verify } from '../signature/verify.js';
+import { ACDCData } from './acdc-data.js';
 import type {
+  ACDCAttributeBlock,
   ACDCCredential,
   ACDCProof,
+  ACDCRuleBlock,
+  CompactACDCCredential,
   CredentialStatus,
   CredentialStatusEvidence,
   CredentialStatusSource,
@@ -144,6 +149,26 @@ function projectAndValidateClaims(
   return { claims, validation };
 }
 
+/**
+ * Validate a whole credential envelope against its resolved schema: the
+ * attribute, edge and rule sections, whether expanded or compact, not just
+ * the projected claims. The credential's s must be the schema's SAID.
+ */
+function validateCredential(
+  credential: ACDCCredential | CompactACDCCredential,
+  resolved: ResolvedSchema,
+): SchemaValidationResult {
+  if (credential.s !== resolved.schema.d) {
+    return {
+      valid: false,
+      errors: [
+        { path: '/s', message: `Credential schema ${credential.s} is not ${resolved.schema.d}`, keyword: 'schema' },
+      ],
+    };
+  }
+  return SchemaOps.validate(resolved.schema, credential, resolved.externals);
+}
+
 // ── SAID validation ─────────────────────────────────────────────────
 
 type SaidValidationResult = { valid: boolean; expected: string; actual: string };
@@ -151,8 +176,9 @@ type SaidValidationResult = { valid: boolean; expected: string; actual: string }
 /**
  * Verify that an ACDC credential's d field matches the recomputed SAID.
  * Dynamically builds the surface from the credential's actual fields.
+ * Works on full and compact credentials alike.
  */
-function validateSaid(credential: ACDCCredential): SaidValidationResult {
+function validateSaid(credential: ACDCCredential | CompactACDCCredential): SaidValidationResult {
   const surface = buildACDCCredentialSurface(credential as unknown as Record<string, unknown>);
   const result = recomputeSaid(credential as unknown as Record<string, unknown>, surface);
   return {
@@ -162,7 +188,126 @@ function validateSaid(credential: ACDCCredential): SaidValidationResult {
   };
 }
 
-export type { SaidValidationResult, SignatureResult };
+// ── Selective disclosure ────────────────────────────────────────────
+
+type DisclosureResult =
+  | { ok: true; claims: Record<string, unknown> }
+  | { ok: false; reason: 'malformed_block' | 'said_mismatch' | 'not_committed'; said: string; message: string };
+
+/**
+ * Verify one disclosed attribute block against a credential: the block must
+ * hold exactly one claim besides d and u, hash to its declared d, and that d
+ * must be among the credential's committed attribute SAIDs (A).
+ */
+function verifyAttributeBlock(
+  credential: ACDCCredential | CompactACDCCredential,
+  block: ACDCAttributeBlock,
+): DisclosureResult {
+  const said = typeof block.d === 'string' ? block.d : '';
+  const label = ACDCData.attributeLabel(block);
+  if (!said || typeof block.u !== 'string' || label === undefined) {
+    return { ok: false, reason: 'malformed_block', said, message: 'Attribute block must be { d, u, <label> }' };
+  }
+
+  const check = recomputeSaid(block, buildACDCSectionSurface(block));
+  if (!check.matches) {
+    return {
+      ok: false,
+      reason: 'said_mismatch',
+      said,
+      message: `Attribute block '${label}' hashes to ${check.recomputed}, not ${said}`,
+    };
+  }
+  if (!(credential.A ?? []).includes(said as SAID)) {
+    return {
+      ok: false,
+      reason: 'not_committed',
+      said,
+      message: `Credential does not commit to attribute block ${said}`,
+    };
+  }
+  return { ok: true, claims: { [label]: block[label] } };
+}
+
+/**
+ * Verify a holder's presentation of some attribute blocks and return the
+ * disclosed claims. Fails on the first block that does not verify.
+ * Checking the credential's own SAID and signature is the caller's job.
+ */
+function verifyDisclosure(
+  credential: ACDCCredential | CompactACDCCredential,
+  blocks: readonly ACDCAttributeBlock[],
+): DisclosureResult {
+  const claims: Record<string, unknown> = {};
+  for (const block of blocks) {
+    const result = verifyAttributeBlock(credential, block);
+    if (!result.ok) return result;
+    Object.assign(claims, result.claims);
+  }
+  return { ok: true, claims };
+}
+
+// ── Rules ───────────────────────────────────────────────────────────
+
+type RulesResult =
+  | { ok: true }
+  | {
+      ok: false;
+      reason: 'malformed_block' | 'said_mismatch' | 'not_committed';
+      said: string;
+      path: string;
+      message: string;
+    };
+
+/** Check a rule block and each clause nested in it against its own d. */
+function verifyRuleBlock(block: ACDCRuleBlock, path: string): RulesResult {
+  if (typeof block.d !== 'string' || !block.d) {
+    return { ok: false, reason: 'malformed_block', said: '', path, message: `Rule block at ${path} has no SAID` };
+  }
+  for (const [label, value] of Object.entries(block)) {
+    if (!value || typeof value !== 'object' || typeof value.d !== 'string') continue;
+    const nested = verifyRuleBlock(value, `${path}/${label}`);
+    if (!nested.ok) return nested;
+  }
+
+  const compacted = ACDCData.compactRuleBlock(block);
+  const check = recomputeSaid(compacted, buildACDCSectionSurface(compacted));
+  if (!check.matches) {
+    return {
+      ok: false,
+      reason: 'said_mismatch',
+      said: block.d,
+      path,
+      message: `Rule block at ${path} hashes to ${check.recomputed}, not ${block.d}`,
+    };
+  }
+  return { ok: true };
+}
+
+/**
+ * Verify a presented rules section against the credential: the section and
+ * every clause in it must hash to their d, and the section's SAID must be the
+ * one the credential commits to in r, compact or expanded. Clauses may be
+ * presented by SAID; only expanded clauses are checked against their text.
+ */
+function verifyRules(credential: ACDCCredential | CompactACDCCredential, rules: ACDCRuleBlock): RulesResult {
+  const verified = verifyRuleBlock(rules, '/r');
+  if (!verified.ok) return verified;
+
+  const committed = typeof credential.r === 'string' ? credential.r : credential.r?.d;
+  if (committed !== rules.d) {
+    return {
+      ok: false,
+      reason: 'not_committed',
+      said: rules.d as string,
+      path: '/r',
+      message: `Credential commits to rules ${committed ?? '(none)'}, not ${rules.d}`,
+    };
+  }
+  return { ok: true };
+}
+
+export type { DisclosureResult, RulesResult, SaidValidationResult, SignatureResult };
 
 export const ACDCOps = {
   status,
@@ -173,5 +318,9 @@ export const ACDCOps = {
   subjectClaims,
   projectClaims,
   projectAndValidateClaims,
+  validateCredential,
   validateSaid,
+  verifyAttributeBlock,
+  verifyDisclosure,
+  verifyRules,
 } as const;
@@ -3,6 +3,43 @@ import type { AID, SAID } from '../common/types.js';
 import { CesrAidSchema, CesrDigestSchema, NonEmpty, TimestampSchema } from '../common/types.js';
 import { ACDCVersionSchema } from '../schema/types.js';
 
+// ── ACDC Edges ──────────────────────────────────────────────────────
+// The e section links a credential (the near node) to other credentials
+// (far nodes). An edge names its far node by SAID in n, may constrain the
+// far node's schema in s, and sets the issuer/issuee relationship in o.
+// Edges nest in groups, whose o combines their members; the section itself
+// is the top-level group and carries its own SAID in d.
+export type ACDCEdgeOperator = 'I2I' | 'NI2I' | 'DI2I';
+export type ACDCEdgeGroupOperator = 'AND' | 'OR' | 'NOT';
+
+export type ACDCEdge = {
+  d?: SAID;
+  n: SAID;
+  s?: SAID;
+  o?: ACDCEdgeOperator;
+  w?: string;
+};
+
+export type ACDCEdgeGroup = {
+  d?: SAID;
+  o?: ACDCEdgeGroupOperator;
+  w?: string;
+  [label: string]: ACDCEdge | ACDCEdgeGroup | string | undefined;
+};
+
+// ── ACDC Rules ──────────────────────────────────────────────────────
+// The r section holds Ricardian contract clauses: legal language in l,
+// optionally nested under labelled sub-clauses. The section and each clause
+// carry their own SAID in d, derived over the block with its sub-clauses
+// replaced by their SAIDs, so a clause may be presented expanded or compact
+// without changing any SAID above it.
+export type ACDCRuleBlock = {
+  d?: SAID;
+  u?: string;
+  l?: string;
+  [label: string]: ACDCRuleBlock | string | undefined;
+};
+
 // ── ACDC Credential ─────────────────────────────────────────────────
 // Keripy v1 canonical order: ['v', 'd', 'u', 'i', 'ri', 's', 'a', 'A', 'e', 'r']
 // No ilk/type field. Protocol 'ACDC' in version string identifies it.
@@ -20,13 +57,45 @@ export const ACDCCredentialSchema = Type.Object(
     s: CesrDigestSchema,
     a: Type.Optional(Type.Record(Type.String(), Type.Unknown())),
     A: Type.Optional(Type.Array(CesrDigestSchema)),
-    e: Type.Optional(Type.Record(Type.String(), Type.Unknown())),
-    r: Type.Optional(Type.Record(Type.String(), Type.Unknown())),
+    e: Type.Optional(Type.Unsafe<ACDCEdgeGroup>(Type.Record(Type.String(), Type.Unknown()))),
+    r: Type.Optional(Type.Unsafe<ACDCRuleBlock>(Type.Record(Type.String(), Type.Unknown()))),
   },
   { additionalProperties: false },
 );
 export type ACDCCredential = Static<typeof ACDCCredentialSchema>;
 
+// ── Compact ACDC ────────────────────────────────────────────────────
+// Most compact form: the a, e and r sections are replaced by their SAIDs.
+// A is already a list of commitments and stays as is. The top-level d is
+// derived over the compact serialization.
+export const CompactACDCCredentialSchema = Type.Object(
+  {
+    v: ACDCVersionSchema,
+    d: CesrDigestSchema,
+    u: Type.Optional(Type.String()),
+    i: CesrAidSchema,
+    ri: Type.Optional(CesrDigestSchema),
+    rd: Type.Optional(CesrDigestSchema),
+    s: CesrDigestSchema,
+    a: Type.Optional(CesrDigestSchema),
+    A: Type.Optional(Type.Array(CesrDigestSchema)),
+    e: Type.Optional(CesrDigestSchema),
+    r: Type.Optional(CesrDigestSchema),
+  },
+  { additionalProperties: false },
+);
+export type CompactACDCCredential = Static<typeof CompactACDCCredentialSchema>;
+
+// ── Blinded attribute block ─────────────────────────────────────────
+// One selectively disclosable claim: { d, u, <label>: value }. The salty
+// nonce u blinds the block so its SAID (committed in the credential's A
+// list) reveals nothing until the holder discloses the block itself.
+export type ACDCAttributeBlock = {
+  d: SAID;
+  u: string;
+  [label: string]: unknown;
+};
+
 // ── ACDC Proof (kerits utility — not part of keripy credential envelope) ──
 // In KERI, proofs are external CESR attachments. This type is a kerits-specific
 // helper for managing proof metadata outside the credential envelope.
@@ -67,3 +136,37 @@ export type CredentialPolicy = (
   evidence: CredentialStatusEvidence[],
   credential?: ACDCCredential,
 ) => CredentialJudgment;
+
+// ── Credential chains ───────────────────────────────────────────────
+/** Where a chain verifier finds far-node credentials and their status. */
+export type CredentialChainSource = {
+  /** The credential with this SAID, or undefined when it is not known. */
+  credential: (said: SAID) => Promise<ACDCCredential | undefined>;
+  /** Status evidence for a credential, judged by the CredentialPolicy. */
+  evidence: (credential: ACDCCredential) => Promise<CredentialStatusEvidence[]>;
+  /** Whether delegate is an AID delegated by delegator. Needed for DI2I edges. */
+  isDelegate?: (delegate: AID, delegator: AID) => Promise<boolean>;
+};
+
+/** A credential accepted on the way along a chain. path is '' for the root. */
+export type CredentialChainHop = {
+  said: SAID;
+  path: string;
+  confidence: 'tel-backed' | 'kel-anchor-only';
+};
+
+export type CredentialChainError = {
+  reason:
+    | 'not_found'
+    | 'said_mismatch'
+    | 'schema_mismatch'
+    | 'operator_failed'
+    | 'policy_rejected'
+    | 'malformed_edge'
+    | 'cycle'
+    | 'too_deep';
+  /** Edge path from the root credential, e.g. '/le/qvi'. */
+  path: string;
+  said: SAID;
+  message: string;
+};
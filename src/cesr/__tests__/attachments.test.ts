@@ -1,5 +1,10 @@
 import { describe, expect, it } from 'bun:test';
-import { encodeAttachmentGroups, decodeAttachmentGroups, decodeAttachmentGroupsFromStream } from '../attachments.js';
+import {
+  decodeAttachmentGroups,
+  decodeAttachmentGroupsFromStream,
+  encodeAttachedMaterial,
+  encodeAttachmentGroups,
+} from '../attachments.js';
 import type { CesrAttachment } from '../../kel/types.js';
 import { Matter, MtrDex } from 'cesr-ts/src/matter';
 import { Counter, CtrDex } from 'cesr-ts/src/counter';
@@ -114,9 +119,8 @@ describe('decodeAttachmentGroups', () => {
     const wire = makeWireBytes(CtrDex.WitnessIdxSigs, 1, [makeSigerQb64(0)]);
     const result = decodeAttachmentGroups(wire);
     expect(result).toHaveLength(1);
-    expect(result[0].kind).toBe('sig');
-    expect(result[0].form).toBe('indexed');
-    expect((result[0] as Extract<CesrAttachment, { form: 'indexed' }>).keyIndex).toBe(0);
+    expect(result[0].kind).toBe('wig');
+    expect((result[0] as Extract<CesrAttachment, { kind: 'wig' }>).keyIndex).toBe(0);
   });
 
   it('truncated counter (only 2 bytes of 4) throws', () => {
@@ -181,6 +185,18 @@ describe('round-trip encode/decode', () => {
     expect(decoded).toHaveLength(1);
     expect(decoded[0]).toEqual(att);
   });
+
+  it('round-trips ECDSA secp256k1 and P-256 indexed signatures', () => {
+    const atts: CesrAttachment[] = [MtrDex.ECDSA_256k1_Sig, MtrDex.ECDSA_256r1_Sig].map((code, keyIndex) => ({
+      kind: 'sig',
+      form: 'indexed',
+      keyIndex,
+      sig: new Matter({ raw: new Uint8Array(64).fill(keyIndex + 1), code }).qb64,
+    }));
+    const wire = encodeAttachmentGroups(atts);
+    expect(new TextDecoder().decode(wire).slice(4, 5)).toBe(IdrDex.ECDSA_256k1_Sig);
+    expect(decodeAttachmentGroups(wire)).toEqual(atts);
+  });
 });
 
 describe('decodeAttachmentGroupsFromStream', () => {
@@ -358,3 +374,136 @@ describe('count boundaries (decode)', () => {
     expect(restored.code).toBe(CtrDex.ControllerIdxSigs);
   });
 });
+
+describe('attached material groups (-V)', () => {
+  it('encodeAttachedMaterial frames groups with a -V quadlet counter', () => {
+    const att: CesrAttachment = { kind: 'sig', form: 'indexed', keyIndex: 0, sig: validSigQb64 };
+    const groups = encodeAttachmentGroups([att]);
+    const framed = encodeAttachedMaterial(groups);
+    const counter = new Counter({ qb64: new TextDecoder().decode(framed) });
+    expect(counter.code).toBe(CtrDex.AttachedMaterialQuadlets);
+    expect(counter.count).toBe(groups.length / 4);
+  });
+
+  it('encodeAttachedMaterial returns empty bytes for no groups', () => {
+    expect(encodeAttachedMaterial(new Uint8Array(0)).length).toBe(0);
+  });
+
+  it('decodes nested groups inside -V', () => {
+    const att: CesrAttachment = { kind: 'sig', form: 'indexed', keyIndex: 0, sig: validSigQb64 };
+    const framed = encodeAttachedMaterial(encodeAttachmentGroups([att]));
+    const result = decodeAttachmentGroupsFromStream(framed);
+    expect(result.attachments).toEqual([att]);
+    expect(result.bytesConsumed).toBe(framed.length);
+  });
+
+  it('throws when -V announces more quadlets than present', () => {
+    const counter = new Counter({ code: CtrDex.AttachedMaterialQuadlets, count: 30 });
+    const wire = new TextEncoder().encode(counter.qb64 + makeSigerQb64(0));
+    expect(() => decodeAttachmentGroups(wire)).toThrow(/attached material/);
+  });
+});
+
+describe('CESR v1 attachment groups (-B through -L)', () => {
+  const aid = 'DKxy2sgzfplyr-tgwIxS19f2OchFHtLwPWD3v4oYimBx';
+  const witness = 'BDg3H7Sr-eES0XWXiO8nvMxW6mD_1LIlbWMFYHBw3HQM';
+  const digest = 'ELC5L3iBVD77d_MYbYGGCUQhqM2J7HOkDGhk3rFiSCY0';
+  const controllerSig: CesrAttachment = { kind: 'sig', form: 'indexed', keyIndex: 0, sig: validSigQb64 };
+
+  function textOf(atts: CesrAttachment[]): string {
+    return new TextDecoder().decode(encodeAttachmentGroups(atts));
+  }
+
+  const cases: Array<[string, CesrAttachment]> = [
+    ['-B witness indexed sig', { kind: 'wig', keyIndex: 2, sig: validSigQb64 }],
+    ['-E first-seen replay couple', { kind: 'fsn', fn: '7', dt: '2020-08-22T17:50:09.988921+00:00' }],
+    [
+      '-F transferable signature group',
+      { kind: 'tsg', seal: { i: aid, s: '3', d: digest }, sigs: [{ keyIndex: 0, sig: validSigQb64 }] },
+    ],
+    ['-G seal source couple', { kind: 'src', seal: { s: '1', d: digest } }],
+    ['-H last establishment signature group', { kind: 'lsg', i: aid, sigs: [{ keyIndex: 1, sig: validSigQb64 }] }],
+    ['-I seal source triple', { kind: 'src', seal: { i: aid, s: '12', d: digest } }],
+    ['-J SAD path signature', { kind: 'sps', path: '-a', sigs: [controllerSig] }],
+    [
+      '-K SAD path signature group',
+      {
+        kind: 'spsg',
+        root: '-',
+        items: [
+          { kind: 'sps', path: '-e-acdc', sigs: [{ kind: 'rct', by: witness, sig: validSigQb64 }] },
+          {
+            kind: 'sps',
+            path: '-a',
+            sigs: [{ kind: 'tsg', seal: { i: aid, s: '0', d: digest }, sigs: [{ keyIndex: 0, sig: validSigQb64 }] }],
+          },
+        ],
+      },
+    ],
+    [
+      '-L pathed material',
+      { kind: 'pathed', path: '-e', attachments: [controllerSig, { kind: 'src', seal: { s: '2', d: digest } }] },
+    ],
+  ];
+
+  for (const [label, att] of cases) {
+    it(`round-trips ${label}`, () => {
+      const text = textOf([att]);
+      expect(text.slice(0, 2)).toBe(label.slice(0, 2));
+      expect(decodeAttachmentGroups(new TextEncoder().encode(text))).toEqual([att]);
+    });
+  }
+
+  it('emits counted groups in counter-code order with path groups last', () => {
+    const atts = cases.map(([, att]) => att).reverse();
+    atts.push(controllerSig);
+    const decoded = decodeAttachmentGroups(encodeAttachmentGroups(atts));
+    expect(decoded.map((a) => a.kind)).toEqual([
+      'sig',
+      'wig',
+      'fsn',
+      'tsg',
+      'src',
+      'lsg',
+      'src',
+      'pathed',
+      'spsg',
+      'sps',
+    ]);
+  });
+
+  it('encodes SAD paths as keripy Pathers', () => {
+    expect(textOf([{ kind: 'sps', path: '-e-acdc', sigs: [controllerSig] }]).slice(4, 16)).toBe('4AACA-e-acdc');
+    expect(textOf([{ kind: 'sps', path: '-a', sigs: [controllerSig] }]).slice(4, 12)).toBe('5AABAA-a');
+  });
+
+  it('encodes first-seen datetimes as Daters', () => {
+    const text = textOf([{ kind: 'fsn', fn: '0', dt: '2020-08-22T17:50:09.988921+00:00' }]);
+    expect(text.endsWith('1AAG2020-08-22T17c50c09d988921p00c00')).toBe(true);
+  });
+
+  it('round-trips sequence numbers beyond 32 bits', () => {
+    const att: CesrAttachment = { kind: 'src', seal: { s: '10000000000000000', d: digest } };
+    expect(decodeAttachmentGroups(encodeAttachmentGroups([att]))).toEqual([att]);
+  });
+
+  it('encodes Seqners from hex sequence numbers', () => {
+    const text = textOf([{ kind: 'src', seal: { s: 'a', d: digest } }]);
+    expect(new Matter({ qb64: text.slice(4, 28) }).raw.at(-1)).toBe(10);
+    expect(() => textOf([{ kind: 'src', seal: { s: '0a', d: digest } }])).toThrow(/Invalid sequence number/);
+  });
+
+  it('throws for a SAD path signature mixing signature kinds', () => {
+    const att: CesrAttachment = {
+      kind: 'sps',
+      path: '-a',
+      sigs: [controllerSig, { kind: 'rct', by: witness, sig: validSigQb64 }] as never,
+    };
+    expect(() => encodeAttachmentGroups([att])).toThrow(/mixes/);
+  });
+
+  it('throws when -L announces more quadlets than present', () => {
+    const text = textOf([{ kind: 'pathed', path: '-e', attachments: [controllerSig] }]);
+    expect(() => decodeAttachmentGroups(new TextEncoder().encode(text.slice(0, -4)))).toThrow(/pathed material/);
+  });
+});
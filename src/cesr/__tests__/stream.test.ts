@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'bun:test';
+import { decodeBase64, encodeBase64 } from '../../common/base64.js';
+import type { AID, KeriKeyPair } from '../../common/types.js';
+import { KeriKeyPairs } from '../../crypto/index.js';
+import { canonicalizeEvent } from '../../kel/event-crypto.js';
+import { KELEvents } from '../../kel/events.js';
+import type { CESREvent, KELEvent } from '../../kel/types.js';
+import { sign } from '../../signature/primitives.js';
+import { encodeAttachmentGroups } from '../attachments.js';
+import { digestVerfer } from '../digest.js';
+import { decodeKey } from '../keys.js';
+import { encodeSig } from '../sigs.js';
+import { parseCesrMessages, parseCesrStream, serializeCesrStream } from '../stream.js';
+
+const KEY1 = KeriKeyPairs.fromSeedNumber(1);
+const KEY2 = KeriKeyPairs.fromSeedNumber(2);
+
+const textEncoder = new TextEncoder();
+
+function signEvent(event: KELEvent, keypair: KeriKeyPair): string {
+  const raw = canonicalizeEvent(event);
+  return encodeSig(sign(raw, decodeKey(keypair.privateKey).raw), true).qb64;
+}
+
+function buildKel(version = 'KERI10JSON000000_'): CESREvent[] {
+  const { unsignedEvent } = KELEvents.buildIcp({
+    keys: [KEY1.publicKey],
+    nextKeyDigests: [digestVerfer(KEY2.publicKey)],
+    signingThreshold: '1',
+    nextThreshold: '1',
+  });
+  const icp = KELEvents.finalize({ ...unsignedEvent, v: version }, true);
+  const { unsignedEvent: unsignedIxn } = KELEvents.buildIxn({
+    aid: icp.event.i as AID,
+    sequence: '1',
+    priorEventSaid: icp.said,
+  });
+  const ixn = KELEvents.finalize({ ...unsignedIxn, v: version }, false);
+  return [icp, ixn].map(({ event, canonFinal }) =>
+    KELEvents.assembleSignedEvent({
+      event,
+      signatures: [{ keyIndex: 0, sig: signEvent(event, KEY1) }],
+      bytesB64: encodeBase64(canonFinal.raw),
+    }),
+  );
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+describe('parseCesrStream', () => {
+  it('parses interleaved bodies and attachment groups into CESREvents', () => {
+    const kel = buildKel();
+    const wire = concat(
+      canonicalizeEvent(kel[0]!.event),
+      encodeAttachmentGroups(kel[0]!.attachments),
+      canonicalizeEvent(kel[1]!.event),
+      encodeAttachmentGroups(kel[1]!.attachments),
+    );
+
+    const parsed = parseCesrStream(wire);
+    expect(parsed).toHaveLength(2);
+    expect(parsed[0]!.event).toEqual(kel[0]!.event);
+    expect(parsed[1]!.event).toEqual(kel[1]!.event);
+    expect(parsed[0]!.attachments).toEqual(kel[0]!.attachments);
+    expect(parsed[1]!.enc).toBe('JSON');
+  });
+
+  it('captures the exact body bytes in bytesB64', () => {
+    const kel = buildKel();
+    const parsed = parseCesrStream(serializeCesrStream(kel));
+    for (let i = 0; i < kel.length; i++) {
+      expect(parsed[i]!.bytesB64).toBe(kel[i]!.bytesB64);
+      expect(decodeBase64(parsed[i]!.bytesB64!)).toEqual(canonicalizeEvent(kel[i]!.event));
+    }
+  });
+
+  it('preserves event key order', () => {
+    const [icp] = parseCesrStream(serializeCesrStream(buildKel()));
+    expect(Object.keys(icp!.event)).toEqual(['v', 't', 'd', 'i', 's', 'kt', 'k', 'nt', 'n', 'bt', 'b', 'c', 'a']);
+  });
+
+  it('accepts events with no attachments', () => {
+    const kel = buildKel().map((e) => ({ ...e, attachments: [] }));
+    const parsed = parseCesrStream(serializeCesrStream(kel));
+    expect(parsed.map((e) => e.attachments)).toEqual([[], []]);
+  });
+
+  for (const kind of ['CBOR', 'MGPK'] as const) {
+    it(`parses ${kind} bodies and records enc`, () => {
+      const kel = buildKel(`KERI10${kind}000000_`);
+      const parsed = parseCesrStream(serializeCesrStream(kel));
+      expect(parsed.map((e) => e.enc)).toEqual([kind, kind]);
+      expect(parsed[1]!.event).toEqual(kel[1]!.event);
+      expect(parsed[0]!.bytesB64).toBe(kel[0]!.bytesB64);
+    });
+  }
+
+  it('throws on an attachment group with no preceding body', () => {
+    const kel = buildKel();
+    expect(() => parseCesrStream(encodeAttachmentGroups(kel[0]!.attachments))).toThrow(/no preceding message body/);
+  });
+
+  it('throws on a truncated body', () => {
+    const body = canonicalizeEvent(buildKel()[0]!.event);
+    expect(() => parseCesrStream(body.slice(0, body.length - 5))).toThrow(/Truncated message/);
+  });
+
+  it('throws on a body without a version string', () => {
+    expect(() => parseCesrStream(textEncoder.encode('{"t":"icp"}'))).toThrow(/version string/);
+  });
+
+  it('throws on malformed attachment material between bodies', () => {
+    const body = canonicalizeEvent(buildKel()[0]!.event);
+    expect(() => parseCesrStream(concat(body, textEncoder.encode('-ZZZ')))).toThrow();
+  });
+
+  it('rejects non-KEL messages; parseCesrMessages returns them', () => {
+    const rpy = '{"v":"KERI10JSON000000_","t":"rpy"}';
+    const sized = rpy.replace('000000', rpy.length.toString(16).padStart(6, '0'));
+    const wire = textEncoder.encode(sized);
+    expect(() => parseCesrStream(wire)).toThrow(/not a KEL event/);
+    const [message] = parseCesrMessages(wire);
+    expect(message!.body.t).toBe('rpy');
+    expect(message!.kind).toBe('JSON');
+    expect(message!.raw).toEqual(wire);
+  });
+});
+
+describe('serializeCesrStream', () => {
+  it('round-trips parse(serialize(events)) and serialize(parse(wire))', () => {
+    const kel = buildKel();
+    const wire = serializeCesrStream(kel);
+    const parsed = parseCesrStream(wire);
+    expect(parsed).toEqual(kel);
+    expect(serializeCesrStream(parsed)).toEqual(wire);
+  });
+
+  it('re-encodes bodies from event + enc when bytesB64 is absent', () => {
+    const kel = buildKel();
+    const withoutBytes = kel.map(({ bytesB64: _omit, ...rest }) => rest);
+    expect(serializeCesrStream(withoutBytes)).toEqual(serializeCesrStream(kel));
+  });
+
+  it('pipelined output wraps attachments in -V and parses back identically', () => {
+    const kel = buildKel();
+    const wire = serializeCesrStream(kel, { pipelined: true });
+    const bodyLength = decodeBase64(kel[0]!.bytesB64!).length;
+    expect(new TextDecoder().decode(wire.slice(bodyLength, bodyLength + 2))).toBe('-V');
+    expect(parseCesrStream(wire)).toEqual(kel);
+    expect(serializeCesrStream(parseCesrStream(wire), { pipelined: true })).toEqual(wire);
+  });
+});
@@ -2,74 +2,140 @@ import { Counter, CtrDex } from 'cesr-ts/src/counter';
 import { IdrDex } from 'cesr-ts/src/indexer';
 import { Matter, MtrDex } from 'cesr-ts/src/matter';
 import { Siger } from 'cesr-ts/src/siger';
-import type { CesrAttachment } from '../kel/types.js';
+import { isSequenceNumber } from '../common/sequence-number.js';
+import type { CesrAttachment, IndexedSignature } from '../kel/types.js';
 
 const textEncoder = new TextEncoder();
 
+type AttachmentOf<K extends CesrAttachment['kind']> = Extract<CesrAttachment, { kind: K }>;
+type IndexedSigAttachment = Extract<CesrAttachment, { kind: 'sig'; form: 'indexed' }>;
+type SadPathSignature = AttachmentOf<'sps'>;
+
 /**
  * Encode CESR attachment groups to wire bytes (qb64 text domain).
  *
- * Supported: controller indexed signatures (counter code -A, indexer code A).
+ * Counted groups are emitted in counter-code order (-A, -B, -C, -D, -E, -F,
+ * -G, -H, -I), one counter per code; path signatures (-J, -K) and pathed
+ * material (-L) follow in their original order, one group each.
  * Throws on unsupported attachment types -- a wire codec must not silently drop material.
  */
 export function encodeAttachmentGroups(attachments: readonly CesrAttachment[]): Uint8Array {
-  if (attachments.length === 0) return new Uint8Array(0);
+  return textEncoder.encode(encodeAttachmentText(attachments));
+}
+
+function encodeAttachmentText(attachments: readonly CesrAttachment[]): string {
+  if (attachments.length === 0) return '';
 
   // Group attachments by kind for counter-based encoding
-  const indexedSigs: Array<Extract<CesrAttachment, { kind: 'sig'; form: 'indexed' }>> = [];
-  const receiptCouples: Array<Extract<CesrAttachment, { kind: 'rct' }>> = [];
-  const transReceiptQuads: Array<Extract<CesrAttachment, { kind: 'vrc' }>> = [];
+  const indexedSigs: IndexedSigAttachment[] = [];
+  const witnessSigs: AttachmentOf<'wig'>[] = [];
+  const receiptCouples: AttachmentOf<'rct'>[] = [];
+  const transReceiptQuads: AttachmentOf<'vrc'>[] = [];
+  const firstSeenCouples: AttachmentOf<'fsn'>[] = [];
+  const transSigGroups: AttachmentOf<'tsg'>[] = [];
+  const sealSourceCouples: string[] = [];
+  const lastSigGroups: AttachmentOf<'lsg'>[] = [];
+  const sealSourceTriples: string[] = [];
+  let trailing = '';
 
   for (const att of attachments) {
-    if (att.kind === 'sig' && att.form === 'indexed') {
-      indexedSigs.push(att as Extract<CesrAttachment, { kind: 'sig'; form: 'indexed' }>);
-    } else if (att.kind === 'rct') {
-      receiptCouples.push(att as Extract<CesrAttachment, { kind: 'rct' }>);
-    } else if (att.kind === 'vrc') {
-      transReceiptQuads.push(att as Extract<CesrAttachment, { kind: 'vrc' }>);
-    } else {
-      throw new Error(
-        `Unsupported attachment type for encoding: kind=${att.kind}${'form' in att ? `, form=${att.form}` : ''}`,
-      );
+    switch (att.kind) {
+      case 'sig':
+        if (att.form !== 'indexed') {
+          throw new Error(`Unsupported attachment type for encoding: kind=sig, form=${att.form}`);
+        }
+        indexedSigs.push(att as IndexedSigAttachment);
+        break;
+      case 'wig':
+        witnessSigs.push(att);
+        break;
+      case 'rct':
+        receiptCouples.push(att);
+        break;
+      case 'vrc':
+        transReceiptQuads.push(att);
+        break;
+      case 'fsn':
+        firstSeenCouples.push(att);
+        break;
+      case 'tsg':
+        transSigGroups.push(att);
+        break;
+      case 'src':
+        if ('i' in att.seal) {
+          sealSourceTriples.push(att.seal.i + encodeSeqner(att.seal.s) + att.seal.d);
+        } else {
+          sealSourceCouples.push(encodeSeqner(att.seal.s) + att.seal.d);
+        }
+        break;
+      case 'lsg':
+        lastSigGroups.push(att);
+        break;
+      case 'sps':
+        trailing += counterQb64(CtrDex.SadPathSig, 1) + encodeSadPathSignature(att);
+        break;
+      case 'spsg':
+        trailing += encodeSadPathSignatureGroup(att);
+        break;
+      case 'pathed':
+        trailing += encodePathedMaterial(att);
+        break;
+      default: {
+        const unknown = att as { kind?: unknown };
+        throw new Error(`Unsupported attachment type for encoding: kind=${String(unknown.kind)}`);
+      }
     }
   }
 
-  let result = '';
+  return (
+    encodeCountedGroup(CtrDex.ControllerIdxSigs, indexedSigs, encodeIndexedSig) +
+    encodeCountedGroup(CtrDex.WitnessIdxSigs, witnessSigs, (att) => encodeSiger(att.keyIndex, att.sig)) +
+    encodeCountedGroup(CtrDex.NonTransReceiptCouples, receiptCouples, encodeReceiptCouple) +
+    encodeCountedGroup(CtrDex.TransReceiptQuadruples, transReceiptQuads, encodeTransReceiptQuadruple) +
+    encodeCountedGroup(
+      CtrDex.FirstSeenReplayCouples,
+      firstSeenCouples,
+      (att) => encodeSeqner(att.fn) + encodeDater(att.dt),
+    ) +
+    encodeCountedGroup(CtrDex.TransIdxSigGroups, transSigGroups, encodeTransSigGroup) +
+    encodeCountedGroup(CtrDex.SealSourceCouples, sealSourceCouples, (couple) => couple) +
+    encodeCountedGroup(CtrDex.TransLastIdxSigGroups, lastSigGroups, (att) => att.i + encodeSigerGroup(att.sigs)) +
+    encodeCountedGroup(CtrDex.SealSourceTriples, sealSourceTriples, (triple) => triple) +
+    trailing
+  );
+}
 
-  if (indexedSigs.length > 0) {
-    const counter = new Counter({
-      code: CtrDex.ControllerIdxSigs,
-      count: indexedSigs.length,
-    });
-    result += counter.qb64;
-    for (const att of indexedSigs) {
-      result += encodeIndexedSig(att);
-    }
-  }
+function counterQb64(code: string, count: number): string {
+  return new Counter({ code, count }).qb64;
+}
 
-  if (receiptCouples.length > 0) {
-    const counter = new Counter({
-      code: CtrDex.NonTransReceiptCouples,
-      count: receiptCouples.length,
-    });
-    result += counter.qb64;
-    for (const att of receiptCouples) {
-      result += encodeReceiptCouple(att);
-    }
-  }
+function encodeCountedGroup<T>(code: string, items: readonly T[], encodeItem: (item: T) => string): string {
+  if (items.length === 0) return '';
+  return counterQb64(code, items.length) + items.map(encodeItem).join('');
+}
 
-  if (transReceiptQuads.length > 0) {
-    const counter = new Counter({
-      code: CtrDex.TransReceiptQuadruples,
-      count: transReceiptQuads.length,
-    });
-    result += counter.qb64;
-    for (const att of transReceiptQuads) {
-      result += encodeTransReceiptQuadruple(att);
-    }
-  }
+/** Largest quadlet count a 2-char-soft `-V` counter can announce (64^2 - 1). */
+const MAX_SMALL_QUADLETS = 4095;
 
-  return textEncoder.encode(result);
+/**
+ * Frame already-encoded attachment groups in an attached material counter
+ * (`-V`, or `-0V` beyond 4095 quadlets), as keripy does for pipelined streams.
+ */
+export function encodeAttachedMaterial(groups: Uint8Array): Uint8Array {
+  if (groups.length === 0) return groups;
+  if (groups.length % 4 !== 0) {
+    throw new Error(`Attached material must be quadlet aligned, got ${groups.length} bytes`);
+  }
+  const count = groups.length / 4;
+  const counter = new Counter({
+    code: count > MAX_SMALL_QUADLETS ? CtrDex.BigAttachedMaterialQuadlets : CtrDex.AttachedMaterialQuadlets,
+    count,
+  });
+  const prefix = textEncoder.encode(counter.qb64);
+  const out = new Uint8Array(prefix.length + groups.length);
+  out.set(prefix);
+  out.set(groups, prefix.length);
+  return out;
 }
 
 const textDecoder = new TextDecoder();
@@ -86,6 +152,9 @@ const textDecoder = new TextDecoder();
  * start with '-', this is a clean stop (not a counter).
  * If it does start with '-' but Counter parse fails, that's a
  * truncation error — a counter was started but couldn't be completed.
+ *
+ * Attached material groups (-V/-0V) are unwrapped and their nested
+ * groups decoded in place.
  */
 export function decodeAttachmentGroupsFromStream(data: Uint8Array): {
   attachments: readonly CesrAttachment[];
@@ -97,62 +166,149 @@ export function decodeAttachmentGroupsFromStream(data: Uint8Array): {
   const attachments: CesrAttachment[] = [];
   let pos = 0;
 
-  while (pos < text.length) {
-    const remaining = text.slice(pos);
-    if (remaining[0] !== '-') break;
-
-    let counter: InstanceType<typeof Counter>;
-    try {
-      counter = new Counter({ qb64: remaining });
-    } catch (e) {
-      throw new Error(
-        `Truncated or malformed CESR counter at position ${pos}: ${e instanceof Error ? e.message : String(e)}`,
-      );
+  while (pos < text.length && text[pos] === '-') {
+    pos = decodeGroup(text, pos, attachments);
+  }
+
+  const bytesConsumed = textEncoder.encode(text.slice(0, pos)).length;
+  return { attachments, bytesConsumed };
+}
+
+function parseCounter(text: string, pos: number): { counter: InstanceType<typeof Counter>; consumed: number } {
+  let counter: InstanceType<typeof Counter>;
+  try {
+    counter = new Counter({ qb64: text.slice(pos) });
+  } catch (e) {
+    throw new Error(
+      `Truncated or malformed CESR counter at position ${pos}: ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+  return { counter, consumed: getCounterSize(counter.code) };
+}
+
+/** Decode the counted items that follow a counter, checking each one starts inside the text. */
+function decodeItems<T>(
+  text: string,
+  pos: number,
+  count: number,
+  label: string,
+  decodeItem: (text: string, pos: number) => { item: T; consumed: number },
+): { items: T[]; consumed: number } {
+  const items: T[] = [];
+  let offset = 0;
+  for (let i = 0; i < count; i++) {
+    if (pos + offset >= text.length) {
+      throw new Error(`Truncated: expected ${count} ${label}, got ${i}`);
     }
+    const { item, consumed } = decodeItem(text, pos + offset);
+    items.push(item);
+    offset += consumed;
+  }
+  return { items, consumed: offset };
+}
 
-    const counterSize = getCounterSize(counter.code);
-    pos += counterSize;
+/** Decode one counter group starting at `pos` into `out`; returns the position after the group. */
+function decodeGroup(text: string, pos: number, out: CesrAttachment[]): number {
+  const { counter, consumed: counterSize } = parseCounter(text, pos);
+  pos += counterSize;
+  const { code, count } = counter;
 
-    if (counter.code === CtrDex.ControllerIdxSigs || counter.code === CtrDex.WitnessIdxSigs) {
-      for (let i = 0; i < counter.count; i++) {
-        if (pos >= text.length) {
-          throw new Error(`Truncated: expected ${counter.count} indexed sigs, got ${i}`);
-        }
-        const { attachment, consumed } = decodeIndexedSig(text, pos);
-        attachments.push(attachment);
-        pos += consumed;
+  const take = <T>(label: string, decodeItem: (text: string, pos: number) => { item: T; consumed: number }) => {
+    const { items, consumed } = decodeItems(text, pos, count, label, decodeItem);
+    pos += consumed;
+    return items;
+  };
+
+  switch (code) {
+    case CtrDex.ControllerIdxSigs:
+      out.push(...take('indexed sigs', (t, p) => asItem(decodeIndexedSig(t, p))));
+      return pos;
+    case CtrDex.WitnessIdxSigs:
+      for (const { keyIndex, sig } of take('witness indexed sigs', decodeSiger)) {
+        out.push({ kind: 'wig', keyIndex, sig });
       }
-    } else if (counter.code === CtrDex.NonTransReceiptCouples) {
-      for (let i = 0; i < counter.count; i++) {
-        if (pos >= text.length) {
-          throw new Error(`Truncated: expected ${counter.count} receipt couples, got ${i}`);
-        }
-        const { attachment, consumed } = decodeReceiptCouple(text, pos);
-        attachments.push(attachment);
-        pos += consumed;
+      return pos;
+    case CtrDex.NonTransReceiptCouples:
+      out.push(...take('receipt couples', (t, p) => asItem(decodeReceiptCouple(t, p))));
+      return pos;
+    case CtrDex.TransReceiptQuadruples:
+      out.push(...take('receipt quadruples', (t, p) => asItem(decodeTransReceiptQuadruple(t, p))));
+      return pos;
+    case CtrDex.FirstSeenReplayCouples:
+      out.push(...take('first-seen replay couples', decodeFirstSeenCouple));
+      return pos;
+    case CtrDex.TransIdxSigGroups:
+      out.push(...take('transferable signature groups', decodeTransSigGroup));
+      return pos;
+    case CtrDex.SealSourceCouples:
+      out.push(...take('seal source couples', decodeSealSourceCouple));
+      return pos;
+    case CtrDex.TransLastIdxSigGroups:
+      out.push(...take('last establishment signature groups', decodeLastSigGroup));
+      return pos;
+    case CtrDex.SealSourceTriples:
+      out.push(...take('seal source triples', decodeSealSourceTriple));
+      return pos;
+    case CtrDex.SadPathSig:
+      out.push(...take('SAD path signatures', decodeSadPathSignature));
+      return pos;
+    case CtrDex.SadPathSigGroup: {
+      const root = decodePather(text, pos, 'SAD path group root');
+      pos += root.consumed;
+      const items = take('SAD path signatures', decodeNestedSadPathSignature);
+      out.push({ kind: 'spsg', root: root.path, items });
+      return pos;
+    }
+    case CtrDex.PathedMaterialQuadlets: {
+      const end = pos + count * 4;
+      if (end > text.length) {
+        throw new Error(`Truncated: pathed material group announces ${count * 4} chars, got ${text.length - pos}`);
       }
-    } else if (counter.code === CtrDex.TransReceiptQuadruples) {
-      for (let i = 0; i < counter.count; i++) {
-        if (pos >= text.length) {
-          throw new Error(`Truncated: expected ${counter.count} receipt quadruples, got ${i}`);
+      // Nested groups must end exactly at the announced boundary.
+      const bounded = text.slice(0, end);
+      const path = decodePather(bounded, pos, 'pathed material path');
+      const nested: CesrAttachment[] = [];
+      let inner = pos + path.consumed;
+      while (inner < end) {
+        if (bounded[inner] !== '-') {
+          throw new Error(`Malformed pathed material at position ${inner}: expected a counter`);
         }
-        const { attachment, consumed } = decodeTransReceiptQuadruple(text, pos);
-        attachments.push(attachment);
-        pos += consumed;
+        inner = decodeGroup(bounded, inner, nested);
       }
-    } else {
-      throw new Error(`Unsupported counter code: ${counter.code}`);
+      out.push({ kind: 'pathed', path: path.path, attachments: nested.map(assertNotPathed) });
+      return end;
     }
+    case CtrDex.AttachedMaterialQuadlets:
+    case CtrDex.BigAttachedMaterialQuadlets: {
+      // Pipelined framing (keripy cloneEvtMsg): count announces the quadlet
+      // length of the nested groups, which must decode exactly.
+      const groupLength = count * 4;
+      if (pos + groupLength > text.length) {
+        throw new Error(`Truncated: attached material group announces ${groupLength} chars, got ${text.length - pos}`);
+      }
+      out.push(...decodeAttachmentGroups(textEncoder.encode(text.slice(pos, pos + groupLength))));
+      return pos + groupLength;
+    }
+    default:
+      throw new Error(`Unsupported counter code: ${code}`);
   }
+}
 
-  const bytesConsumed = textEncoder.encode(text.slice(0, pos)).length;
-  return { attachments, bytesConsumed };
+function asItem<T>(decoded: { attachment: T; consumed: number }): { item: T; consumed: number } {
+  return { item: decoded.attachment, consumed: decoded.consumed };
+}
+
+function assertNotPathed(att: CesrAttachment): Exclude<CesrAttachment, { kind: 'pathed' }> {
+  if (att.kind === 'pathed') {
+    throw new Error('Nested pathed material groups are not supported');
+  }
+  return att;
 }
 
 /**
  * Decode CESR attachment groups from wire bytes (qb64 text domain).
  *
- * Supported: controller indexed signatures (counter code -A, indexer code A).
+ * Supported: every CESR v1 attachment counter (-A through -L, plus -V/-0V framing).
  * Throws on: unsupported counter codes, truncated data, trailing bytes that
  * cannot begin a valid counter, or any bytes remaining after the last complete group.
  * The decoder never silently ignores undecodable input.
@@ -177,38 +333,19 @@ function getCounterSize(code: string): number {
 }
 
 function decodeIndexedSig(text: string, pos: number): { attachment: CesrAttachment; consumed: number } {
-  let siger: InstanceType<typeof Siger>;
-  try {
-    siger = new Siger({ qb64: text.slice(pos) });
-  } catch (e) {
-    throw new Error(
-      `Failed to parse indexed signature at position ${pos}: ${e instanceof Error ? e.message : String(e)}`,
-    );
-  }
-
-  if (siger.code !== IdrDex.Ed25519_Sig && siger.code !== IdrDex.Ed25519_Big_Sig) {
-    throw new Error(`Unsupported indexer code: ${siger.code}. Only Ed25519 indexed signatures are supported.`);
-  }
-
-  const sigMatter = new Matter({ raw: siger.raw, code: MtrDex.Ed25519_Sig });
-
-  const sizage = Siger.Sizes.get(siger.code);
-  if (!sizage || sizage.fs === undefined) {
-    throw new Error(`Cannot determine size for indexer code: ${siger.code}`);
-  }
-
+  const { item, consumed } = decodeSiger(text, pos);
   return {
     attachment: {
       kind: 'sig',
       form: 'indexed',
-      keyIndex: siger.index,
-      sig: sigMatter.qb64,
+      keyIndex: item.keyIndex,
+      sig: item.sig,
     },
-    consumed: sizage.fs,
+    consumed,
   };
 }
 
-function encodeIndexedSig(att: Extract<CesrAttachment, { kind: 'sig'; form: 'indexed' }>): string {
+function encodeIndexedSig(att: IndexedSigAttachment): string {
   const { keyIndex, sig } = att;
 
   if (keyIndex === undefined || keyIndex === null) {
@@ -217,25 +354,293 @@ function encodeIndexedSig(att: Extract<CesrAttachment, { kind: 'sig'; form: 'ind
   if (typeof keyIndex === 'string') {
     throw new Error('String keyIndex (qb64-encoded) is not supported in this implementation');
   }
+  return encodeSiger(keyIndex, sig);
+}
+
+/**
+ * Indexed (Siger) codes for each signature Matter code. Small codes carry
+ * one index character (index < 64); big codes carry the index and ondex.
+ */
+const INDEXED_SIG_CODES = [
+  { matter: MtrDex.Ed25519_Sig, small: IdrDex.Ed25519_Sig, big: IdrDex.Ed25519_Big_Sig },
+  { matter: MtrDex.ECDSA_256k1_Sig, small: IdrDex.ECDSA_256k1_Sig, big: IdrDex.ECDSA_256k1_Big_Sig },
+  { matter: MtrDex.ECDSA_256r1_Sig, small: IdrDex.ECDSA_256r1_Sig, big: IdrDex.ECDSA_256r1_Big_Sig },
+] as const;
+
+/** Signature Matter code for an indexed signature code. */
+function sigMatterCode(indexerCode: string): string {
+  const codes = INDEXED_SIG_CODES.find((c) => c.small === indexerCode || c.big === indexerCode);
+  if (!codes) {
+    throw new Error(
+      `Unsupported indexer code: ${indexerCode}. Only Ed25519, ECDSA secp256k1 and P-256 indexed signatures are supported.`,
+    );
+  }
+  return codes.matter;
+}
+
+/** Encode a signature (Matter qb64) as an indexed Siger. */
+function encodeSiger(keyIndex: number, sig: string): string {
   if (typeof keyIndex !== 'number' || !Number.isInteger(keyIndex) || keyIndex < 0) {
     throw new Error(`Invalid keyIndex: must be a non-negative integer, got ${keyIndex}`);
   }
 
   const matter = new Matter({ qb64: sig });
-  if (matter.code !== MtrDex.Ed25519_Sig) {
-    throw new Error(`Only Ed25519 signatures are supported, got Matter code: ${matter.code}`);
+  const codes = INDEXED_SIG_CODES.find((c) => c.matter === matter.code);
+  if (!codes) {
+    throw new Error(`Unsupported signature Matter code: ${matter.code}`);
   }
 
-  const indexerCode = keyIndex < 64 ? IdrDex.Ed25519_Sig : IdrDex.Ed25519_Big_Sig;
   const siger = new Siger({
     raw: matter.raw,
-    code: indexerCode,
+    code: keyIndex < 64 ? codes.small : codes.big,
     index: keyIndex,
     ondex: keyIndex,
   });
   return siger.qb64;
 }
 
+function decodeSiger(text: string, pos: number): { item: IndexedSignature; consumed: number } {
+  let siger: InstanceType<typeof Siger>;
+  try {
+    siger = new Siger({ qb64: text.slice(pos) });
+  } catch (e) {
+    throw new Error(
+      `Failed to parse indexed signature at position ${pos}: ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+
+  const sigMatter = new Matter({ raw: siger.raw, code: sigMatterCode(siger.code) });
+
+  const sizage = Siger.Sizes.get(siger.code);
+  if (!sizage || sizage.fs === undefined) {
+    throw new Error(`Cannot determine size for indexer code: ${siger.code}`);
+  }
+
+  return { item: { keyIndex: siger.index, sig: sigMatter.qb64 }, consumed: sizage.fs };
+}
+
+/** Controller indexed signature group (-A counter plus Sigers) nested inside -F and -H groups. */
+function encodeSigerGroup(sigs: readonly IndexedSignature[]): string {
+  return encodeCountedGroup(CtrDex.ControllerIdxSigs, sigs, (s) => encodeSiger(s.keyIndex, s.sig));
+}
+
+function decodeSigerGroup(text: string, pos: number, label: string): { sigs: IndexedSignature[]; consumed: number } {
+  const { counter, consumed } = parseCounter(text, pos);
+  if (counter.code !== CtrDex.ControllerIdxSigs) {
+    throw new Error(`Malformed ${label} at position ${pos}: expected -A signature group, got ${counter.code}`);
+  }
+  const { items, consumed: sigsConsumed } = decodeItems(
+    text,
+    pos + consumed,
+    counter.count,
+    'indexed sigs',
+    decodeSiger,
+  );
+  return { sigs: items, consumed: consumed + sigsConsumed };
+}
+
+/** Seqner code (Salt_128): 16 raw bytes. */
+const SEQNER_CODE = '0A';
+
+/** Hex sequence number as a Seqner: code '0A' over 16 big-endian bytes. */
+function encodeSeqner(sn: string): string {
+  if (!isSequenceNumber(sn)) {
+    throw new Error(`Invalid sequence number: ${sn}`);
+  }
+  let n = BigInt(`0x${sn}`);
+  if (n >= 1n << 128n) {
+    throw new Error(`Sequence number exceeds 128 bits: ${sn}`);
+  }
+  const raw = new Uint8Array(16);
+  for (let b = 15; b >= 0; b--) {
+    raw[b] = Number(n & 0xffn);
+    n >>= 8n;
+  }
+  return new Matter({ raw, code: SEQNER_CODE }).qb64;
+}
+
+function decodeSeqner(text: string, pos: number, label: string): { sn: string; consumed: number } {
+  const { matter, consumed } = parseMatter(text, pos, label);
+  if (matter.code !== SEQNER_CODE) {
+    throw new Error(`Malformed ${label} at position ${pos}: expected Seqner code ${SEQNER_CODE}, got ${matter.code}`);
+  }
+  let sn = 0n;
+  for (const byte of matter.raw) {
+    sn = (sn << 8n) | BigInt(byte);
+  }
+  return { sn: sn.toString(16), consumed };
+}
+
+const DATER_CODE = '1AAG';
+const DATER_SIZE = 36;
+const DATER_TO_B64: Record<string, string> = { ':': 'c', '.': 'd', '+': 'p' };
+const B64_TO_DATER: Record<string, string> = { c: ':', d: '.', p: '+' };
+
+/**
+ * ISO-8601 datetime as a Dater: code '1AAG' followed by the 32-char datetime
+ * with ':', '.' and '+' mapped to 'c', 'd' and 'p' (keripy dts format,
+ * e.g. 2020-08-22T17:50:09.988921+00:00).
+ */
+function encodeDater(dt: string): string {
+  const qb64 = DATER_CODE + dt.replace(/[:.+]/g, (ch) => DATER_TO_B64[ch] ?? ch);
+  if (qb64.length !== DATER_SIZE || !/^[A-Za-z0-9_-]+$/.test(qb64)) {
+    throw new Error(`Datetime cannot be encoded as a CESR Dater: ${dt}`);
+  }
+  return qb64;
+}
+
+function decodeDater(text: string, pos: number, label: string): { dt: string; consumed: number } {
+  const qb64 = text.slice(pos, pos + DATER_SIZE);
+  if (qb64.length < DATER_SIZE) {
+    throw new Error(`Truncated ${label} at position ${pos}`);
+  }
+  if (!qb64.startsWith(DATER_CODE)) {
+    throw new Error(`Malformed ${label} at position ${pos}: expected Dater code ${DATER_CODE}`);
+  }
+  const dt = qb64.slice(DATER_CODE.length).replace(/[cdp]/g, (ch) => B64_TO_DATER[ch] ?? ch);
+  return { dt, consumed: DATER_SIZE };
+}
+
+const B64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+/** Variable-size StrB64 codes by lead size (0, 1, 2 bytes). */
+const PATHER_CODES = ['4A', '5A', '6A'] as const;
+
+/**
+ * SAD path as a Pather (keripy Bexter): the path's base64 text is left-padded
+ * with 'A' to a quadlet boundary and framed by a variable-size StrB64 code
+ * whose 2-char soft part counts quadlets, e.g. '-a' → '5AABAA-a'.
+ */
+function encodePather(path: string): string {
+  if (!/^[A-Za-z0-9_-]+$/.test(path)) {
+    throw new Error(`SAD path must be non-empty base64url text, got: ${path}`);
+  }
+  const ws = (4 - (path.length % 4)) % 4;
+  const ls = (3 - (path.length % 4)) % 3;
+  const quadlets = (path.length + ws) / 4;
+  if (quadlets > 4095) {
+    throw new Error(`SAD path too long: ${path.length} chars`);
+  }
+  const code = PATHER_CODES[ls as 0 | 1 | 2];
+  return code + B64_CHARS.charAt(quadlets >> 6) + B64_CHARS.charAt(quadlets & 63) + 'A'.repeat(ws) + path;
+}
+
+function decodePather(text: string, pos: number, label: string): { path: string; consumed: number } {
+  const code = text.slice(pos, pos + 2);
+  const ls = PATHER_CODES.indexOf(code as (typeof PATHER_CODES)[number]);
+  if (ls < 0) {
+    throw new Error(`Malformed ${label} at position ${pos}: expected Pather code, got '${code}'`);
+  }
+  const quadlets = B64_CHARS.indexOf(text[pos + 2] ?? '') * 64 + B64_CHARS.indexOf(text[pos + 3] ?? '');
+  const size = 4 + quadlets * 4;
+  if (pos + size > text.length) {
+    throw new Error(`Truncated ${label} at position ${pos}`);
+  }
+  const padded = text.slice(pos + 4, pos + size);
+  // keripy Bexter.bext: ls 0 strips one leading 'A' if present, otherwise ls + 1 chars.
+  const ws = ls === 0 ? (padded.startsWith('A') ? 1 : 0) : (ls + 1) % 4;
+  const path = padded.slice(ws);
+  if (path.length === 0) {
+    throw new Error(`Malformed ${label} at position ${pos}: empty path`);
+  }
+  return { path, consumed: size };
+}
+
+function decodeFirstSeenCouple(text: string, pos: number): { item: AttachmentOf<'fsn'>; consumed: number } {
+  const seqner = decodeSeqner(text, pos, 'first-seen ordinal');
+  const dater = decodeDater(text, pos + seqner.consumed, 'first-seen datetime');
+  return { item: { kind: 'fsn', fn: seqner.sn, dt: dater.dt }, consumed: seqner.consumed + dater.consumed };
+}
+
+function decodeSealSourceCouple(text: string, pos: number): { item: AttachmentOf<'src'>; consumed: number } {
+  const seqner = decodeSeqner(text, pos, 'seal source sequence');
+  const digest = parseMatter(text, pos + seqner.consumed, 'seal source digest');
+  return {
+    item: { kind: 'src', seal: { s: seqner.sn, d: digest.matter.qb64 } },
+    consumed: seqner.consumed + digest.consumed,
+  };
+}
+
+function decodeSealSourceTriple(text: string, pos: number): { item: AttachmentOf<'src'>; consumed: number } {
+  const prefix = parseMatter(text, pos, 'seal source prefix');
+  const couple = decodeSealSourceCouple(text, pos + prefix.consumed);
+  return {
+    item: { kind: 'src', seal: { i: prefix.matter.qb64, ...couple.item.seal } },
+    consumed: prefix.consumed + couple.consumed,
+  };
+}
+
+function encodeTransSigGroup(att: AttachmentOf<'tsg'>): string {
+  return att.seal.i + encodeSeqner(att.seal.s) + att.seal.d + encodeSigerGroup(att.sigs);
+}
+
+function decodeTransSigGroup(text: string, pos: number): { item: AttachmentOf<'tsg'>; consumed: number } {
+  const triple = decodeSealSourceTriple(text, pos);
+  const group = decodeSigerGroup(text, pos + triple.consumed, 'transferable signature group');
+  const seal = triple.item.seal as AttachmentOf<'tsg'>['seal'];
+  return { item: { kind: 'tsg', seal, sigs: group.sigs }, consumed: triple.consumed + group.consumed };
+}
+
+function decodeLastSigGroup(text: string, pos: number): { item: AttachmentOf<'lsg'>; consumed: number } {
+  const prefix = parseMatter(text, pos, 'signature group prefix');
+  const group = decodeSigerGroup(text, pos + prefix.consumed, 'last establishment signature group');
+  return { item: { kind: 'lsg', i: prefix.matter.qb64, sigs: group.sigs }, consumed: prefix.consumed + group.consumed };
+}
+
+/** Path plus its one nested signature group (-A, -C or -F); the -J counter is written by the caller. */
+function encodeSadPathSignature(att: SadPathSignature): string {
+  const [first] = att.sigs;
+  if (!first) {
+    throw new Error(`SAD path signature at '${att.path}' has no signatures`);
+  }
+  const sigs: readonly CesrAttachment[] = att.sigs;
+  if (sigs.some((sig) => sig.kind !== first.kind)) {
+    throw new Error(`SAD path signature at '${att.path}' mixes signature kinds`);
+  }
+  return encodePather(att.path) + encodeAttachmentText(sigs);
+}
+
+function encodeSadPathSignatureGroup(att: AttachmentOf<'spsg'>): string {
+  return (
+    counterQb64(CtrDex.SadPathSigGroup, att.items.length) +
+    encodePather(att.root) +
+    att.items.map((item) => counterQb64(CtrDex.SadPathSig, 1) + encodeSadPathSignature(item)).join('')
+  );
+}
+
+function decodeSadPathSignature(text: string, pos: number): { item: SadPathSignature; consumed: number } {
+  const path = decodePather(text, pos, 'SAD path');
+  let end = pos + path.consumed;
+  if (text[end] !== '-') {
+    throw new Error(`Malformed SAD path signature at position ${end}: expected a signature group`);
+  }
+  const nested: CesrAttachment[] = [];
+  end = decodeGroup(text, end, nested);
+
+  const kinds = new Set(nested.map((att) => att.kind));
+  if (nested.length === 0 || kinds.size !== 1 || !['sig', 'rct', 'tsg'].includes(nested[0]?.kind ?? '')) {
+    throw new Error(`Malformed SAD path signature at position ${pos}: expected one -A, -C or -F group`);
+  }
+  return {
+    item: { kind: 'sps', path: path.path, sigs: nested as SadPathSignature['sigs'] },
+    consumed: end - pos,
+  };
+}
+
+/** Inside a -K group each path signature carries its own -J counter. */
+function decodeNestedSadPathSignature(text: string, pos: number): { item: SadPathSignature; consumed: number } {
+  const { counter, consumed } = parseCounter(text, pos);
+  if (counter.code !== CtrDex.SadPathSig || counter.count !== 1) {
+    throw new Error(`Malformed SAD path signature group at position ${pos}: expected -J counter with count 1`);
+  }
+  const sps = decodeSadPathSignature(text, pos + consumed);
+  return { item: sps.item, consumed: consumed + sps.consumed };
+}
+
+function encodePathedMaterial(att: AttachmentOf<'pathed'>): string {
+  const body = encodePather(att.path) + encodeAttachmentText(att.attachments);
+  return counterQb64(CtrDex.PathedMaterialQuadlets, body.length / 4) + body;
+}
+
 function encodeReceiptCouple(att: Extract<CesrAttachment, { kind: 'rct' }>): string {
   // -C couple: prefix (Verfer qb64) + signature (Cigar qb64, which is Matter-based)
   return att.by + att.sig;
@@ -248,25 +653,13 @@ function encodeTransReceiptQuadruple(att: Extract<CesrAttachment, { kind: 'vrc'
   const prefixQb64 = seal.i;
 
   // Seqner: encode sequence number as code '0A' (Salt_128, 16 bytes)
-  const snNum = parseInt(seal.s, 10);
-  const raw = new Uint8Array(16);
-  const view = new DataView(raw.buffer);
-  view.setUint32(12, snNum, false); // big-endian in last 4 bytes
-  const seqnerQb64 = new Matter({ raw, code: '0A' }).qb64;
+  const seqnerQb64 = encodeSeqner(seal.s);
 
   // Digest (Diger qb64)
   const digestQb64 = seal.d;
 
   // Signature as indexed Siger
-  const sigMatter = new Matter({ qb64: sig });
-  if (sigMatter.code !== MtrDex.Ed25519_Sig) {
-    throw new Error(`Only Ed25519 signatures are supported for -D quadruples, got: ${sigMatter.code}`);
-  }
-  const idx = keyIndex ?? 0;
-  const indexerCode = idx < 64 ? IdrDex.Ed25519_Sig : IdrDex.Ed25519_Big_Sig;
-  const siger = new Siger({ raw: sigMatter.raw, code: indexerCode, index: idx, ondex: idx });
-
-  return prefixQb64 + seqnerQb64 + digestQb64 + siger.qb64;
+  return prefixQb64 + seqnerQb64 + digestQb64 + encodeSiger(keyIndex ?? 0, sig);
 }
 
 function decodeTransReceiptQuadruple(text: string, pos: number): { attachment: CesrAttachment; consumed: number } {
@@ -277,14 +670,8 @@ function decodeTransReceiptQuadruple(text: string, pos: number): { attachment: C
   totalConsumed += prefix.consumed;
 
   // 2. Seqner (Matter with code '0A')
-  const seqner = parseMatter(text, pos + totalConsumed, 'receipt quadruple seqner');
+  const seqner = decodeSeqner(text, pos + totalConsumed, 'receipt quadruple seqner');
   totalConsumed += seqner.consumed;
-  // Extract sequence number from Seqner raw bytes (big-endian)
-  const seqnerRaw = seqner.matter.raw;
-  let sn = 0;
-  for (let b = 0; b < seqnerRaw.byteLength; b++) {
-    sn = sn * 256 + (seqnerRaw[b] ?? 0);
-  }
 
   // 3. Digest (Diger — Matter subclass)
   const digest = parseMatter(text, pos + totalConsumed, 'receipt quadruple digest');
@@ -299,14 +686,14 @@ function decodeTransReceiptQuadruple(text: string, pos: number): { attachment: C
   }
   totalConsumed += sigerSizage.fs;
 
-  const sigMatter = new Matter({ raw: siger.raw, code: MtrDex.Ed25519_Sig });
+  const sigMatter = new Matter({ raw: siger.raw, code: sigMatterCode(siger.code) });
 
   return {
     attachment: {
       kind: 'vrc',
       seal: {
         i: prefix.matter.qb64,
-        s: String(sn),
+        s: seqner.sn,
         d: digest.matter.qb64,
       },
       sig: sigMatter.qb64,
@@ -1,5 +1,13 @@
 import { describe, expect, it } from 'bun:test';
-import { decodeDigest, encodeDigest } from './digest.js';
+import {
+  computeDigest,
+  decodeDigest,
+  digestAlgoOf,
+  digestCodesOf,
+  digestVerfer,
+  digestVerferQb64,
+  encodeDigest,
+} from './digest.js';
 import { encodeKey } from './keys.js';
 
 describe('cesr/digest', () => {
@@ -25,4 +33,44 @@ describe('cesr/digest', () => {
     const keyQb64 = encodeKey(new Uint8Array(32).fill(1)).qb64;
     expect(() => decodeDigest(keyQb64)).toThrow();
   });
+
+  it('digestVerfer digests with each 256-bit digest code', () => {
+    const key = encodeKey(new Uint8Array(32).fill(1)).qb64;
+    const raw = new Uint8Array(32).fill(1);
+    for (const [code, algo] of [
+      ['E', 'blake3-256'],
+      ['F', 'blake2b-256'],
+      ['G', 'blake2s-256'],
+      ['H', 'sha3-256'],
+      ['I', 'sha2-256'],
+    ] as const) {
+      const digest = digestVerfer(key, code);
+      expect(digest).toBe(computeDigest(raw, algo));
+      expect(digest[0]).toBe(code);
+      expect(digestAlgoOf(digest)).toBe(algo);
+    }
+    expect(() => digestVerfer(key, '0D')).toThrow('Unsupported digest code');
+  });
+
+  it('digestVerferQb64 digests the qb64 text as signify-ts does', () => {
+    // signify-ts: new Diger({ code: 'E' }, verfer.qb64b) for the Ed25519 key of seed 0xCD * 32
+    expect(digestVerferQb64('DPyUdzD0nrAUJ6ZuBQczKU2eUg5UXHonElp4BjTghgon')).toBe(
+      'EPEmQ79ZUzJbrnQEshN3gSwOG-Px2OvOsS1tX2TMR4Pc',
+    );
+    const key = encodeKey(new Uint8Array(32).fill(1)).qb64;
+    expect(digestVerferQb64(key, 'H')).toBe(computeDigest(new TextEncoder().encode(key), 'sha3-256'));
+    expect(() => digestVerferQb64(key, '0D')).toThrow('Unsupported digest code');
+  });
+
+  it('digestAlgoOf rejects values that are not 256-bit digests', () => {
+    expect(digestAlgoOf(encodeKey(new Uint8Array(32).fill(1)).qb64)).toBeUndefined();
+    expect(digestAlgoOf('E')).toBeUndefined();
+  });
+
+  it('digestCodesOf lists the codes of a commitment list in first-seen order', () => {
+    const key = encodeKey(new Uint8Array(32).fill(1)).qb64;
+    const n = [digestVerfer(key, 'H'), digestVerfer(key, 'E'), digestVerfer(key, 'H')];
+    expect(digestCodesOf(n)).toEqual(['H', 'E']);
+    expect(digestCodesOf([])).toEqual(['E']);
+  });
 });
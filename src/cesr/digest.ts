@@ -1,6 +1,16 @@
-import { Diger } from 'cesr-ts/src/diger';
 import { Matter, MtrDex } from 'cesr-ts/src/matter';
+import { type HashAlgorithm, hash } from '../signature/hashing.js';
 import { decodeKey } from './keys.js';
+import type { DigestAlgo } from './types.js';
+
+/** CESR code and hash function for each 256-bit digest algorithm. */
+const DIGESTS: Record<DigestAlgo, { code: string; hash: HashAlgorithm }> = {
+  'blake3-256': { code: MtrDex.Blake3_256, hash: 'blake3' },
+  'blake2b-256': { code: 'F', hash: 'blake2b' },
+  'blake2s-256': { code: 'G', hash: 'blake2s' },
+  'sha3-256': { code: 'H', hash: 'sha3-256' },
+  'sha2-256': { code: 'I', hash: 'sha2-256' },
+};
 
 /**
  * CESR code metadata
@@ -36,14 +46,22 @@ export function getCodeMeta(code: string): CESRCodeMeta {
     B: 'Ed25519_NonTransferable',
     D: 'Ed25519',
     E: 'Blake3_256',
+    F: 'Blake2b_256',
+    G: 'Blake2s_256',
     H: 'SHA3_256',
     I: 'SHA2_256',
     '0A': 'Salt_128',
     '0B': 'Ed25519_Sig',
+    '0C': 'ECDSA_256k1_Sig',
+    '0I': 'ECDSA_256r1_Sig',
+    '1AAA': 'ECDSA_256k1N',
+    '1AAB': 'ECDSA_256k1',
+    '1AAI': 'ECDSA_256r1N',
+    '1AAJ': 'ECDSA_256r1',
   };
 
   let family = 'matter';
-  if (code === '0B' || code === '0A') {
+  if (code === '0B' || code === '0A' || code === '0C' || code === '0I') {
     family = 'siger';
   }
 
@@ -111,13 +129,67 @@ export function decodeDigest(cesr: string): CESRDecoded {
   return decoded;
 }
 
+/**
+ * CESR code of a 256-bit digest algorithm
+ */
+export function digestCode(algo: DigestAlgo): string {
+  return DIGESTS[algo].code;
+}
+
+/**
+ * Digest algorithm of a qb64 digest, or undefined when it is not a 256-bit digest
+ */
+export function digestAlgoOf(qb64: string): DigestAlgo | undefined {
+  if (qb64.length !== 44) return undefined;
+  return (Object.keys(DIGESTS) as DigestAlgo[]).find((algo) => qb64.startsWith(DIGESTS[algo].code));
+}
+
+/**
+ * Hash bytes and encode the result as a qb64 digest
+ */
+export function computeDigest(data: Uint8Array, algo: DigestAlgo = 'blake3-256'): string {
+  return encodeDigest(hash(data, DIGESTS[algo].hash), DIGESTS[algo].code);
+}
+
 /**
  * Compute digest of a CESR-encoded verifier (public key)
  * Used for creating next key commitments (n field) in KERI events
+ *
+ * @param algorithm - Digest code: E, F, G, H or I (default: Blake3-256)
  */
 export function digestVerfer(verferQb64: string, algorithm: string = MtrDex.Blake3_256): string {
-  const decoded = decodeKey(verferQb64);
-  // Pass the raw bytes to be hashed as second parameter, and the digest algorithm code in options
-  const diger = new Diger({ code: algorithm }, decoded.raw);
-  return diger.qb64;
+  const algo = (Object.keys(DIGESTS) as DigestAlgo[]).find((a) => DIGESTS[a].code === algorithm);
+  if (!algo) {
+    throw new Error(`Unsupported digest code: ${algorithm}`);
+  }
+  return computeDigest(decodeKey(verferQb64).raw, algo);
+}
+
+/**
+ * Compute digest of a verifier's qb64 text, the next key commitment form
+ * KERIpy and signify-ts create (`Diger(ser=verfer.qb64b)`)
+ *
+ * @param algorithm - Digest code: E, F, G, H or I (default: Blake3-256)
+ */
+export function digestVerferQb64(verferQb64: string, algorithm: string = MtrDex.Blake3_256): string {
+  const algo = (Object.keys(DIGESTS) as DigestAlgo[]).find((a) => DIGESTS[a].code === algorithm);
+  if (!algo) {
+    throw new Error(`Unsupported digest code: ${algorithm}`);
+  }
+  decodeKey(verferQb64);
+  return computeDigest(new TextEncoder().encode(verferQb64), algo);
+}
+
+/**
+ * Digest codes used by a list of commitments such as an event's n[], in
+ * first-seen order. Entries that are not 256-bit digests are skipped; when
+ * none are, Blake3-256 alone.
+ */
+export function digestCodesOf(digests: readonly string[]): string[] {
+  const codes = new Set<string>();
+  for (const digest of digests) {
+    const algo = digestAlgoOf(digest);
+    if (algo) codes.add(DIGESTS[algo].code);
+  }
+  return codes.size > 0 ? [...codes] : [MtrDex.Blake3_256];
 }
@@ -65,6 +65,20 @@ function mapControllerIndexedSigs(
   });
 }
 
+function mapWitnessIndexedSigs(
+  items: Array<{ sigAlg: string; keyIndex: number; sigRaw: string }>,
+): CesrAttachment[] {
+  return items.map((item) => {
+    const raw = hexToBytes(item.sigRaw);
+    const matter = new Matter({ raw, code: MtrDex.Ed25519_Sig });
+    return {
+      kind: 'wig' as const,
+      keyIndex: item.keyIndex,
+      sig: matter.qb64,
+    };
+  });
+}
+
 function mapNonTransReceiptCouples(
   items: Array<{ prefixQb64: string; sigAlg: string; sigRaw: string }>,
 ): CesrAttachment[] {
@@ -101,8 +115,9 @@ function mapTransReceiptQuadruples(
 function mapFixtureToAttachments(fixture: Fixture): CesrAttachment[] {
   switch (fixture.family) {
     case 'controllerIndexedSigs':
-    case 'witnessIndexedSigs':
       return mapControllerIndexedSigs(fixture.items as Array<{ sigAlg: string; keyIndex: number; sigRaw: string }>);
+    case 'witnessIndexedSigs':
+      return mapWitnessIndexedSigs(fixture.items as Array<{ sigAlg: string; keyIndex: number; sigRaw: string }>);
     case 'nonTransReceiptCouples':
       return mapNonTransReceiptCouples(fixture.items as Array<{ prefixQb64: string; sigAlg: string; sigRaw: string }>);
     case 'transReceiptQuadruples':
@@ -254,7 +269,7 @@ describe('CESR cross-validation against keripy', () => {
           const fixtureItem = fixture.items[i] as Record<string, unknown>;
           const expItem = exp && !('error' in exp) ? exp.items[i] : undefined;
 
-          if (att.kind === 'sig' && att.form === 'indexed') {
+          if ((att.kind === 'sig' && att.form === 'indexed') || att.kind === 'wig') {
             expect(att.keyIndex).toBe(fixtureItem.keyIndex);
             if (expItem && 'sigMatterQb64' in expItem) {
               expect(att.sig).toBe(expItem.sigMatterQb64);
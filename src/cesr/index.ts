@@ -3,6 +3,7 @@ import * as digest from './digest.js';
 import * as keys from './keys.js';
 import * as prefix from './prefix.js';
 import * as sigs from './sigs.js';
+import * as stream from './stream.js';
 import * as types from './types.js';
 
 export const Cesr = {
@@ -12,6 +13,8 @@ export const Cesr = {
   ...sigs,
   ...digest,
   ...attachments,
+  ...stream,
 } as const;
 
+export type { CesrMessage, SerializeCesrStreamOptions } from './stream.js';
 export type * from './types.js';
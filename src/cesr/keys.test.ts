@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'bun:test';
-import { decodeKey, encodeKey } from './keys.js';
+import { decodeKey, encodeKey, encodePrivateKey } from './keys.js';
 
 describe('cesr/keys', () => {
   it('encodeKey returns an EncodedKey with algo ed25519', () => {
@@ -39,4 +39,26 @@ describe('cesr/keys', () => {
     // Encode a digest-type qb64 (not a key code) and expect throw
     expect(() => decodeKey('EHello___world______________')).toThrow();
   });
+
+  it('encodes compressed ECDSA keys with their CESR codes', () => {
+    const point = new Uint8Array(33).fill(5);
+    point[0] = 2;
+    const k1 = encodeKey(point, true, 'secp256k1');
+    const r1 = encodeKey(point, true, 'p256');
+    expect(k1.qb64.startsWith('1AAB')).toBe(true);
+    expect(r1.qb64.startsWith('1AAJ')).toBe(true);
+    expect(encodeKey(point, false, 'secp256k1').qb64.startsWith('1AAA')).toBe(true);
+    expect(encodeKey(point, false, 'p256').qb64.startsWith('1AAI')).toBe(true);
+    expect(decodeKey(k1.qb64)).toMatchObject({ algo: 'secp256k1', raw: point });
+    expect(decodeKey(r1.qb64)).toMatchObject({ algo: 'p256', raw: point });
+  });
+
+  it('encodePrivateKey uses ECDSA seed codes and decodeKey reads them back', () => {
+    const seed = new Uint8Array(32).fill(6);
+    expect(encodePrivateKey(seed).qb64).toBe(encodeKey(seed).qb64);
+    const k1 = encodePrivateKey(seed, 'secp256k1');
+    expect(k1.qb64.startsWith('J')).toBe(true);
+    expect(decodeKey(k1.qb64)).toMatchObject({ algo: 'secp256k1', raw: seed });
+    expect(decodeKey(encodePrivateKey(seed, 'p256').qb64).algo).toBe('p256');
+  });
 });
@@ -1,24 +1,74 @@
 import { Matter, MtrDex } from 'cesr-ts/src/matter';
-import type { EncodedKey, Qb64 } from './types.js';
+import type { EncodedKey, KeyAlgo, Qb64 } from './types.js';
 
 /**
- * Encode an Ed25519 public key (32 bytes) to qb64 with the correct CESR prefix.
+ * CESR public key codes per algorithm. ECDSA keys are 33-byte compressed
+ * points: secp256k1 `1AAB` / `1AAA`, P-256 `1AAJ` / `1AAI`.
  */
-export function encodeKey(publicKey: Uint8Array, transferable: boolean = true): EncodedKey {
-  const code = transferable ? MtrDex.Ed25519 : MtrDex.Ed25519N;
+const KEY_CODES: Record<KeyAlgo, { transferable: string; nonTransferable: string }> = {
+  ed25519: { transferable: MtrDex.Ed25519, nonTransferable: MtrDex.Ed25519N },
+  secp256k1: { transferable: MtrDex.ECDSA_256k1, nonTransferable: MtrDex.ECDSA_256k1N },
+  p256: { transferable: MtrDex.ECDSA_256r1, nonTransferable: MtrDex.ECDSA_256r1N },
+};
+
+/**
+ * True when `qb64` is a non-transferable public key (Ed25519N, ECDSA_256k1N
+ * or ECDSA_256r1N), such as a witness AID.
+ */
+export function isNonTransferableKey(qb64: Qb64): boolean {
+  try {
+    const { code } = new Matter({ qb64 });
+    return Object.values(KEY_CODES).some((codes) => codes.nonTransferable === code);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * CESR seed codes for ECDSA private keys: secp256k1 `J`, P-256 `Q`.
+ * Ed25519 seeds keep the public key code (see encodePrivateKey).
+ */
+const SEED_CODES: Record<Exclude<KeyAlgo, 'ed25519'>, string> = {
+  secp256k1: 'J',
+  p256: 'Q',
+};
+
+/**
+ * Encode a public key to qb64 with the correct CESR prefix: a 32-byte
+ * Ed25519 key, or a 33-byte compressed ECDSA point.
+ */
+export function encodeKey(publicKey: Uint8Array, transferable: boolean = true, algo: KeyAlgo = 'ed25519'): EncodedKey {
+  const codes = KEY_CODES[algo];
+  const code = transferable ? codes.transferable : codes.nonTransferable;
   const matter = new Matter({ raw: publicKey, code });
-  return { algo: 'ed25519', qb64: matter.qb64, raw: publicKey };
+  return { algo, qb64: matter.qb64, raw: publicKey };
+}
+
+/**
+ * Encode a 32-byte private key to qb64. Ed25519 seeds use the Ed25519 key
+ * code, as they always have in KeriKeyPair; ECDSA seeds use their seed codes.
+ */
+export function encodePrivateKey(privateKey: Uint8Array, algo: KeyAlgo = 'ed25519'): EncodedKey {
+  if (algo === 'ed25519') return encodeKey(privateKey, true);
+  const matter = new Matter({ raw: privateKey, code: SEED_CODES[algo] });
+  return { algo, qb64: matter.qb64, raw: privateKey };
 }
 
 /**
- * Decode a CESR qb64 public key into bytes + algo.
+ * Decode a CESR qb64 public key (or a KeriKeyPair private key) into bytes + algo.
  */
 export function decodeKey(qb64: Qb64): EncodedKey {
   const matter = new Matter({ qb64 });
 
-  // Check if it's an Ed25519 key
-  if (matter.code === MtrDex.Ed25519 || matter.code === MtrDex.Ed25519N) {
-    return { algo: 'ed25519', qb64, raw: matter.raw };
+  for (const [algo, codes] of Object.entries(KEY_CODES) as [KeyAlgo, (typeof KEY_CODES)[KeyAlgo]][]) {
+    if (matter.code === codes.transferable || matter.code === codes.nonTransferable) {
+      return { algo, qb64, raw: matter.raw };
+    }
+  }
+  for (const [algo, code] of Object.entries(SEED_CODES) as [KeyAlgo, string][]) {
+    if (matter.code === code) {
+      return { algo, qb64, raw: matter.raw };
+    }
   }
 
   throw new Error(`Unsupported key code: ${matter.code}`);
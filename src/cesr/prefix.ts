@@ -22,7 +22,12 @@ export function inspect(qb64: Qb64): PrefixInfo {
       matter.code === MtrDex.Ed25519 ||
       matter.code === MtrDex.Ed25519N ||
       matter.code === MtrDex.X25519 ||
-      matter.code === 'C'
+      matter.code === 'C' ||
+      // ECDSA secp256k1 and P-256, transferable and non-transferable
+      matter.code === MtrDex.ECDSA_256k1 ||
+      matter.code === MtrDex.ECDSA_256k1N ||
+      matter.code === MtrDex.ECDSA_256r1 ||
+      matter.code === MtrDex.ECDSA_256r1N
     ) {
       kind = 'key';
     }
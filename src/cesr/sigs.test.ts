@@ -41,4 +41,14 @@ describe('cesr/sigs', () => {
     const keyQb64 = encodeKey(new Uint8Array(32).fill(1)).qb64;
     expect(() => decodeSig(keyQb64)).toThrow();
   });
+
+  it('encodes ECDSA signatures with their CESR codes', () => {
+    const rawSig = new Uint8Array(64).fill(10);
+    const k1 = encodeSig(rawSig, true, 'secp256k1');
+    const r1 = encodeSig(rawSig, false, 'p256');
+    expect(k1.qb64.startsWith('0C')).toBe(true);
+    expect(r1.qb64.startsWith('0I')).toBe(true);
+    expect(decodeSig(k1.qb64)).toMatchObject({ algo: 'secp256k1', raw: rawSig });
+    expect(decodeSig(r1.qb64)).toMatchObject({ algo: 'p256', raw: rawSig });
+  });
 });
@@ -1,13 +1,21 @@
 import { Matter, MtrDex } from 'cesr-ts/src/matter';
-import type { EncodedSig, Qb64 } from './types.js';
+import type { EncodedSig, Qb64, SigAlgo } from './types.js';
+
+/** CESR codes for 64-byte signatures: Ed25519 `0B`, ECDSA secp256k1 `0C`, P-256 `0I`. */
+const SIG_CODES: Record<SigAlgo, string> = {
+  ed25519: MtrDex.Ed25519_Sig,
+  secp256k1: MtrDex.ECDSA_256k1_Sig,
+  p256: MtrDex.ECDSA_256r1_Sig,
+};
 
 /**
- * Encode a raw signature into qb64 CESR form.
+ * Encode a raw signature into qb64 CESR form. ECDSA signatures are compact
+ * r‖s (64 bytes); `transferable` only affects Ed25519.
  */
-export function encodeSig(sig: Uint8Array, transferable: boolean = true): EncodedSig {
-  const code = transferable ? MtrDex.Ed25519_Sig : '0A';
+export function encodeSig(sig: Uint8Array, transferable: boolean = true, algo: SigAlgo = 'ed25519'): EncodedSig {
+  const code = algo === 'ed25519' && !transferable ? '0A' : SIG_CODES[algo];
   const matter = new Matter({ raw: sig, code });
-  return { algo: 'ed25519', qb64: matter.qb64, raw: sig };
+  return { algo, qb64: matter.qb64, raw: sig };
 }
 
 /**
@@ -16,10 +24,14 @@ export function encodeSig(sig: Uint8Array, transferable: boolean = true): Encode
 export function decodeSig(qb64: Qb64): EncodedSig {
   const matter = new Matter({ qb64 });
 
-  // Check if it's an Ed25519 signature
-  if (matter.code === MtrDex.Ed25519_Sig || matter.code === '0A') {
+  if (matter.code === '0A') {
     return { algo: 'ed25519', qb64, raw: matter.raw };
   }
+  for (const [algo, code] of Object.entries(SIG_CODES) as [SigAlgo, string][]) {
+    if (matter.code === code) {
+      return { algo, qb64, raw: matter.raw };
+    }
+  }
 
   throw new Error(`Unsupported sig code: ${matter.code}`);
 }
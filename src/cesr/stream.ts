@@ -0,0 +1,171 @@
+/**
+ * CESR stream codec — `application/cesr` message streams.
+ *
+ * A stream is a sequence of framed messages: a versioned body (JSON, CBOR or
+ * MGPK, sized by its version string) followed by zero or more counter-coded
+ * attachment groups in the qb64 text domain. This is the format keripy's
+ * `/kel` and OOBI endpoints return.
+ *
+ * @module cesr/stream
+ */
+
+import { decodeBase64, encodeBase64 } from '../common/base64.js';
+import { deserializeKind, type SerializationKind, versionStringKind } from '../common/serialization-kind.js';
+import { encodeEventBytes } from '../kel/event-signing.js';
+import type { CESREvent, CesrAttachment, KELEvent } from '../kel/types.js';
+import { decodeAttachmentGroups, encodeAttachedMaterial, encodeAttachmentGroups } from './attachments.js';
+
+/** A message body with its attachments, exactly as framed on a CESR stream. */
+export type CesrMessage = {
+  /** Decoded message body, key order preserved. */
+  body: Record<string, unknown>;
+  /** Serialization kind declared by the body's version string. */
+  kind: SerializationKind;
+  /** Exact body bytes as they appeared on the stream. */
+  raw: Uint8Array;
+  attachments: readonly CesrAttachment[];
+};
+
+/** keripy Rever: version string may start at most this many bytes into a body. */
+const MAX_VERSION_OFFSET = 12;
+const VERSION_STRING_LENGTH = 17;
+const VERSION_PATTERN = /([A-Z]{4})([0-9a-f])([0-9a-f])([A-Z]{4})([0-9a-f]{6})_/;
+
+const KEL_ILKS = new Set(['icp', 'rot', 'ixn', 'dip', 'drt']);
+
+const DASH = 0x2d;
+
+/** Cold-start classification of the first byte of a message body. */
+function sniffBodyKind(byte: number): SerializationKind | undefined {
+  if (byte === 0x7b) return 'JSON'; // '{'
+  if ((byte >= 0x80 && byte <= 0x8f) || byte === 0xde || byte === 0xdf) return 'MGPK';
+  if (byte >= 0xa0 && byte <= 0xbf) return 'CBOR';
+  return undefined;
+}
+
+function isQb64Byte(byte: number): boolean {
+  return (
+    (byte >= 0x41 && byte <= 0x5a) || // A-Z
+    (byte >= 0x61 && byte <= 0x7a) || // a-z
+    (byte >= 0x30 && byte <= 0x39) || // 0-9
+    byte === DASH ||
+    byte === 0x5f // _
+  );
+}
+
+function smellVersion(data: Uint8Array, pos: number): { kind: SerializationKind; size: number } {
+  const window = data.subarray(pos, pos + MAX_VERSION_OFFSET + VERSION_STRING_LENGTH);
+  // One char per byte so match offsets are byte offsets.
+  const head = String.fromCharCode(...window);
+  const match = VERSION_PATTERN.exec(head);
+  if (!match || match.index > MAX_VERSION_OFFSET) {
+    throw new Error(`Missing or misplaced version string in message at byte ${pos}`);
+  }
+  const kind = versionStringKind(match[0]);
+  if (!kind) {
+    throw new Error(`Unsupported serialization kind '${match[4]}' in message at byte ${pos}`);
+  }
+  return { kind, size: Number.parseInt(match[5] ?? '', 16) };
+}
+
+/**
+ * Parse a CESR stream into its framed messages.
+ *
+ * Each body is located by its version-string size; the attachment run that
+ * follows (up to the next body) must decode completely. Throws on truncated
+ * bodies, attachments without a preceding body, malformed version strings,
+ * and any attachment material the codec cannot decode.
+ */
+export function parseCesrMessages(data: Uint8Array): CesrMessage[] {
+  const messages: CesrMessage[] = [];
+  let pos = 0;
+
+  while (pos < data.length) {
+    const first = data[pos] as number;
+    if (first === DASH) {
+      throw new Error(`Attachment group at byte ${pos} has no preceding message body`);
+    }
+    const sniffed = sniffBodyKind(first);
+    if (!sniffed) {
+      throw new Error(`Unexpected byte 0x${first.toString(16)} at ${pos}: expected a message body`);
+    }
+
+    const { kind, size } = smellVersion(data, pos);
+    if (kind !== sniffed) {
+      throw new Error(`Message at byte ${pos} declares ${kind} but is framed as ${sniffed}`);
+    }
+    if (pos + size > data.length) {
+      throw new Error(`Truncated message at byte ${pos}: version string declares ${size} bytes`);
+    }
+
+    const raw = data.slice(pos, pos + size);
+    const body = deserializeKind(raw, kind);
+    if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+      throw new Error(`Message at byte ${pos} is not a map`);
+    }
+    pos += size;
+
+    let end = pos;
+    while (end < data.length && isQb64Byte(data[end] as number)) end++;
+    const attachments = end > pos ? decodeAttachmentGroups(data.subarray(pos, end)) : [];
+    pos = end;
+
+    messages.push({ body, kind, raw, attachments });
+  }
+
+  return messages;
+}
+
+/**
+ * Parse a CESR stream of KEL events into CESREvent envelopes.
+ *
+ * `bytesB64` captures the exact body bytes from the stream and `enc` the
+ * body's serialization kind. Throws if any message is not a KEL event.
+ */
+export function parseCesrStream(data: Uint8Array): CESREvent[] {
+  return parseCesrMessages(data).map((message, index) => {
+    const ilk = message.body.t;
+    if (typeof ilk !== 'string' || !KEL_ILKS.has(ilk)) {
+      throw new Error(`Message ${index} is not a KEL event (t=${String(ilk)})`);
+    }
+    return {
+      event: message.body as KELEvent,
+      attachments: [...message.attachments],
+      enc: message.kind,
+      bytesB64: encodeBase64(message.raw),
+    };
+  });
+}
+
+export type SerializeCesrStreamOptions = {
+  /** Wrap each message's attachments in an attached material (-V) group. */
+  pipelined?: boolean;
+};
+
+/**
+ * Serialize CESREvent envelopes to a CESR stream.
+ *
+ * Bodies are emitted from `bytesB64` when present (exact reproduction),
+ * otherwise re-encoded from `event` in `enc`. Attachments are encoded with
+ * encodeAttachmentGroups and optionally framed as pipelined material.
+ */
+export function serializeCesrStream(
+  events: readonly CESREvent[],
+  options: SerializeCesrStreamOptions = {},
+): Uint8Array {
+  const parts: Uint8Array[] = [];
+  for (const env of events) {
+    parts.push(env.bytesB64 ? decodeBase64(env.bytesB64) : encodeEventBytes(env.event, env.enc));
+    const groups = encodeAttachmentGroups(env.attachments);
+    parts.push(options.pipelined ? encodeAttachedMaterial(groups) : groups);
+  }
+
+  const total = parts.reduce((n, p) => n + p.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
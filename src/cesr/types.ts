@@ -1,15 +1,19 @@
 export type Qb64 = string; // CESR-encoded value
 
-export type SaidAlgo = 'blake3-256'; // extend later if needed
+/** 256-bit CESR digest algorithms: codes E, F, G, H and I. */
+export type DigestAlgo = 'blake3-256' | 'blake2b-256' | 'blake2s-256' | 'sha3-256' | 'sha2-256';
 
-export type KeyAlgo = 'ed25519';
+export type SaidAlgo = DigestAlgo;
+
+/** Signing key algorithms: Ed25519, ECDSA secp256k1, ECDSA P-256 (secp256r1). */
+export type KeyAlgo = 'ed25519' | 'secp256k1' | 'p256';
 export interface EncodedKey {
   algo: KeyAlgo;
   qb64: Qb64;
   raw: Uint8Array;
 }
 
-export type SigAlgo = 'ed25519';
+export type SigAlgo = KeyAlgo;
 export interface EncodedSig {
   algo: SigAlgo;
   qb64: Qb64;
@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  detectSequenceEncoding,
+  formatSequenceNumber,
+  isSequenceNumber,
+  nextSequenceNumber,
+  parseSequenceNumber,
+  toHexSequenceNumber,
+} from '../sequence-number.js';
+
+describe('sequence numbers', () => {
+  test('parses and formats lowercase hex by default', () => {
+    expect(parseSequenceNumber('a')).toBe(10);
+    expect(parseSequenceNumber('1f')).toBe(31);
+    expect(formatSequenceNumber(10)).toBe('a');
+    expect(formatSequenceNumber(256)).toBe('100');
+  });
+
+  test('supports decimal for legacy logs', () => {
+    expect(parseSequenceNumber('10', 'decimal')).toBe(10);
+    expect(formatSequenceNumber(10, 'decimal')).toBe('10');
+    expect(nextSequenceNumber('9', 'decimal')).toBe('10');
+  });
+
+  test('rejects leading zeros, uppercase and signs', () => {
+    for (const s of ['', '00', '0a', 'A', '-1', '+1', '0x1', ' 1']) {
+      expect(isSequenceNumber(s)).toBe(false);
+      expect(parseSequenceNumber(s)).toBeNaN();
+    }
+    expect(isSequenceNumber('a', 'decimal')).toBe(false);
+    expect(isSequenceNumber(10)).toBe(false);
+  });
+
+  test('returns NaN beyond safe integers', () => {
+    expect(parseSequenceNumber('20000000000000')).toBeNaN();
+  });
+
+  test('throws when formatting or incrementing invalid values', () => {
+    expect(() => formatSequenceNumber(-1)).toThrow(RangeError);
+    expect(() => formatSequenceNumber(1.5)).toThrow(RangeError);
+    expect(() => nextSequenceNumber('0a')).toThrow(/Invalid hex sequence number/);
+  });
+
+  test('detects the encoding of a contiguous run', () => {
+    const run = (n: number, encoding: 'hex' | 'decimal') =>
+      Array.from({ length: n }, (_, i) => formatSequenceNumber(i, encoding));
+
+    expect(detectSequenceEncoding(run(10, 'decimal'))).toBe('hex');
+    expect(detectSequenceEncoding(run(12, 'decimal'))).toBe('decimal');
+    expect(detectSequenceEncoding(run(12, 'hex'))).toBe('hex');
+    expect(detectSequenceEncoding(['10', '11'], 10)).toBe('decimal');
+    expect(detectSequenceEncoding(['0', '2'])).toBeUndefined();
+    expect(detectSequenceEncoding([])).toBe('hex');
+  });
+
+  test('re-encodes legacy decimal as hex', () => {
+    expect(toHexSequenceNumber('26')).toBe('1a');
+    expect(toHexSequenceNumber('1a', 'hex')).toBe('1a');
+    expect(() => toHexSequenceNumber('1a')).toThrow();
+  });
+});
@@ -4,8 +4,8 @@
  * Pure functions for self-addressing identifier (SAID) generation
  */
 
-import { blake3 } from '@noble/hashes/blake3.js';
-import { encodeDigest } from '../cesr/digest.js';
+import { computeDigest } from '../cesr/digest.js';
+import type { DigestAlgo } from '../cesr/types.js';
 import { canonical } from './canonical.js';
 
 /**
@@ -125,14 +125,14 @@ export class Data {
   }
 
   /**
-   * Compute Blake3 digest of canonical bytes
+   * Compute digest of canonical bytes
    *
    * @param raw - Canonical bytes to hash
-   * @returns CESR-encoded digest (Blake3-256 with KERI Matter qb64)
+   * @param algo - Digest algorithm (default: blake3-256)
+   * @returns CESR-encoded digest (KERI Matter qb64, 'E' prefix for Blake3-256)
    */
-  static digest(raw: Uint8Array): string {
-    const hash = blake3(raw, { dkLen: 32 });
-    return encodeDigest(hash, 'E');
+  static digest(raw: Uint8Array, algo: DigestAlgo = 'blake3-256'): string {
+    return computeDigest(raw, algo);
   }
 
   /**
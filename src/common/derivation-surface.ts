@@ -9,13 +9,17 @@
  *
  * KERI SAID derivation surface markers.
  *
- * Serialization: This file uses insertion-order JSON serialization
- * (serializeInsertionOrder) for KERI SAID derivation. Non-KERI SAID paths
+ * Serialization: This file uses insertion-order serialization
+ * (serializeInsertionOrder, or its CBOR/MGPK counterparts selected by the
+ * version-string kind) for KERI SAID derivation. Non-KERI SAID paths
  * (Data.saidify, canonical()) remain on RFC-8785. See
  * insertion-order SAID rules in the same module.
  */
 
+import { digestAlgoOf } from '../cesr/digest.js';
+import type { SaidAlgo } from '../cesr/types.js';
 import { Data, SAID_PLACEHOLDER } from './data.js';
+import { type SerializationKind, serializeKind, versionStringKind } from './serialization-kind.js';
 import { type JsonValue, serializeInsertionOrder } from './serialize-insertion-order.js';
 
 // -------- DerivationSurface (discriminated union) --------
@@ -72,17 +76,31 @@ function project<A extends Record<string, unknown>>(artifact: A, fields: readonl
   return out;
 }
 
-function digestInsertionOrderJson(obj: Record<string, unknown>): string {
-  const bytes = new TextEncoder().encode(serializeInsertionOrder(obj as JsonValue));
-  return Data.digest(bytes);
+function digestInsertionOrder(obj: Record<string, unknown>, kind: SerializationKind, algo: SaidAlgo): string {
+  return Data.digest(serializeKind(obj as JsonValue, kind), algo);
+}
+
+/**
+ * Resolve the serialization kind for an artifact: an explicit kind wins, otherwise
+ * the kind declared by the artifact's version string, otherwise JSON.
+ */
+function resolveKind(
+  artifact: Record<string, unknown>,
+  surface: DerivationSurface,
+  kind: SerializationKind | undefined,
+): SerializationKind {
+  if (kind !== undefined) return kind;
+  if (!surface.hasVersionString) return 'JSON';
+  return versionStringKind(artifact[surface.versionStringField]) ?? 'JSON';
 }
 
 /**
  * Compute a KERI version string using insertion-order serialization for byte measurement.
  *
  * Same convergence semantics as Data.computeVersionString() (insert SAID placeholder,
- * serialize, measure byte length, update size, repeat until stable) but uses
- * serializeInsertionOrder() instead of RFC-8785. File-internal; not exported.
+ * serialize, measure byte length, update size, repeat until stable) but measures
+ * the insertion-order rendering in the requested kind (JSON, CBOR or MGPK)
+ * instead of RFC-8785. File-internal; not exported.
  *
  * IMPORTANT: This function takes the full preimage (including the version-string field)
  * and rebuilds it key-by-key to preserve Object.keys() order. Using spread to re-insert
@@ -91,7 +109,7 @@ function digestInsertionOrderJson(obj: Record<string, unknown>): string {
 function computeKeriVersionString(
   preimage: Record<string, unknown>,
   versionStringField: string,
-  kind: string,
+  kind: SerializationKind,
   protocol: string,
   saidFieldName: string,
 ): string {
@@ -114,8 +132,7 @@ function computeKeriVersionString(
       }
     }
 
-    const bytes = new TextEncoder().encode(serializeInsertionOrder(measured as JsonValue));
-    const size = bytes.length;
+    const size = serializeKind(measured as JsonValue, kind).length;
 
     if (size === previousSize) {
       return version;
@@ -131,11 +148,22 @@ function computeKeriVersionString(
 
 // -------- API --------
 
+/**
+ * Derive and seal the SAID of an artifact.
+ *
+ * `kind` selects the serialization used for size measurement and digest. When
+ * omitted it is taken from the artifact's version string (falling back to JSON),
+ * so a builder that seeds `v` with e.g. `KERI10CBOR000000_` derives over CBOR.
+ * `algo` selects the digest, and with it the SAID's CESR code.
+ */
 export function deriveSaid<A extends Record<string, unknown>>(
   artifact: A,
   surface: DerivationSurface,
+  kind?: SerializationKind,
+  algo: SaidAlgo = 'blake3-256',
 ): { sealed: A; said: string } {
   assertValidSurface(surface);
+  const serialization = resolveKind(artifact, surface, kind);
 
   // Per spec § "Error contract" for deriveSaid: absent field listed in
   // derivedFieldsInOrder is a programmer error — throw rather than silently skip.
@@ -158,7 +186,7 @@ export function deriveSaid<A extends Record<string, unknown>>(
     const version = computeKeriVersionString(
       preimage,
       surface.versionStringField,
-      'JSON',
+      serialization,
       surface.protocol,
       surface.saidField,
     );
@@ -166,7 +194,7 @@ export function deriveSaid<A extends Record<string, unknown>>(
   }
 
   // Step 4: digest the preimage.
-  const said = digestInsertionOrderJson(preimage);
+  const said = digestInsertionOrder(preimage, serialization, algo);
 
   // Step 5: seal — copy original artifact, overwrite said field.
   const sealed = surface.hasVersionString
@@ -179,9 +207,15 @@ export function deriveSaid<A extends Record<string, unknown>>(
   return { sealed, said };
 }
 
+/**
+ * Recompute an artifact's SAID and compare it with the declared value.
+ * `kind` defaults to the kind declared by the artifact's version string; the
+ * digest algorithm is the one named by the declared SAID's code.
+ */
 export function recomputeSaid(
   artifact: Record<string, unknown>,
   surface: DerivationSurface,
+  kind?: SerializationKind,
 ): { matches: boolean; declared: string | undefined; recomputed: string } {
   assertValidSurface(surface);
 
@@ -200,7 +234,8 @@ export function recomputeSaid(
   const preimage = project(artifact, surface.derivedFieldsInOrder);
   preimage[surface.saidField] = SAID_PLACEHOLDER;
 
-  const recomputed = digestInsertionOrderJson(preimage);
+  const algo = (declared && digestAlgoOf(declared)) || 'blake3-256';
+  const recomputed = digestInsertionOrder(preimage, resolveKind(artifact, surface, kind), algo);
   return {
     matches: declared !== undefined && declared === recomputed,
     declared,
@@ -215,13 +250,19 @@ export function recomputeSaid(
  * using insertion-order JSON. The result is the canonical bytes that should be
  * signed — identical field order to the SAID preimage, but with the actual SAID
  * filled in (not the placeholder).
+ *
+ * `raw` is rendered in `kind` (defaulting to the version string's kind); `text`
+ * is always the insertion-order JSON rendering of the same projection.
  */
 export function serializeForSigning(
   artifact: Record<string, unknown>,
   surface: DerivationSurface,
+  kind?: SerializationKind,
 ): { raw: Uint8Array; text: string } {
   const projected = project(artifact, surface.derivedFieldsInOrder);
   const text = serializeInsertionOrder(projected as JsonValue);
-  const raw = new TextEncoder().encode(text);
+  const serialization = resolveKind(artifact, surface, kind);
+  const raw =
+    serialization === 'JSON' ? new TextEncoder().encode(text) : serializeKind(projected as JsonValue, serialization);
   return { raw, text };
 }
@@ -0,0 +1,81 @@
+/**
+ * KERI sequence numbers.
+ *
+ * keripy renders sequence numbers (event and seal `s`, first-seen ordinals)
+ * as lowercase hex with no leading zeros: "0" … "9", "a", "b", … "10". Early
+ * kerits KELs used decimal instead. The two agree for the first ten events,
+ * so only longer KELs differ.
+ *
+ * Every signed event commits to its `s` through its SAID, so a decimal KEL
+ * cannot be rewritten to hex. Read it with the 'decimal' encoding instead
+ * (detectSequenceEncoding, KelValidationOptions.sequenceEncoding). New events
+ * are always hex.
+ */
+
+export type SequenceEncoding = 'hex' | 'decimal';
+
+/** Lowercase hex, no leading zeros. Also used as the JSON Schema pattern for `s` fields. */
+export const SEQUENCE_NUMBER_PATTERN = '^(0|[1-9a-f][0-9a-f]*)$';
+
+const PATTERNS: Record<SequenceEncoding, RegExp> = {
+  hex: new RegExp(SEQUENCE_NUMBER_PATTERN),
+  decimal: /^(0|[1-9][0-9]*)$/,
+};
+
+/** True when `s` is a well-formed sequence number in the given encoding. */
+export function isSequenceNumber(s: unknown, encoding: SequenceEncoding = 'hex'): s is string {
+  return typeof s === 'string' && PATTERNS[encoding].test(s);
+}
+
+/**
+ * Parse a sequence number. Returns NaN when `s` is malformed in the given
+ * encoding or too large to be a safe integer.
+ */
+export function parseSequenceNumber(s: string, encoding: SequenceEncoding = 'hex'): number {
+  if (!isSequenceNumber(s, encoding)) return Number.NaN;
+  const n = Number.parseInt(s, encoding === 'hex' ? 16 : 10);
+  return Number.isSafeInteger(n) ? n : Number.NaN;
+}
+
+/** Format a sequence number; throws for negative or non-integer values. */
+export function formatSequenceNumber(sn: number, encoding: SequenceEncoding = 'hex'): string {
+  if (!Number.isSafeInteger(sn) || sn < 0) {
+    throw new RangeError(`Invalid sequence number: ${sn}`);
+  }
+  return sn.toString(encoding === 'hex' ? 16 : 10);
+}
+
+/** The sequence number after `s`; throws when `s` is malformed. */
+export function nextSequenceNumber(s: string, encoding: SequenceEncoding = 'hex'): string {
+  const sn = parseSequenceNumber(s, encoding);
+  if (Number.isNaN(sn)) {
+    throw new Error(`Invalid ${encoding} sequence number: ${s}`);
+  }
+  return formatSequenceNumber(sn + 1, encoding);
+}
+
+/**
+ * Detect the encoding of a contiguous run of sequence numbers, e.g. the `s`
+ * fields of a KEL. `values[i]` must encode `start + i`. Hex wins when both
+ * encodings fit (every run shorter than ten events); undefined when neither
+ * does.
+ */
+export function detectSequenceEncoding(values: readonly string[], start = 0): SequenceEncoding | undefined {
+  const fits = (encoding: SequenceEncoding) => values.every((s, i) => s === formatSequenceNumber(start + i, encoding));
+  if (fits('hex')) return 'hex';
+  if (fits('decimal')) return 'decimal';
+  return undefined;
+}
+
+/**
+ * Re-encode a sequence number as hex. For unsigned copies of legacy data —
+ * KSNs, seals and indexes a caller derived from a decimal KEL — not for the
+ * signed events themselves. Throws when `s` is malformed in `from`.
+ */
+export function toHexSequenceNumber(s: string, from: SequenceEncoding = 'decimal'): string {
+  const sn = parseSequenceNumber(s, from);
+  if (Number.isNaN(sn)) {
+    throw new Error(`Invalid ${from} sequence number: ${s}`);
+  }
+  return formatSequenceNumber(sn);
+}
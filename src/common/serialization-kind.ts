@@ -0,0 +1,59 @@
+/**
+ * KERI serialization kinds and the dispatcher over their serializers.
+ *
+ * The kind is the 4-character field of a KERI version string
+ * (`{proto}{major:x}{minor:x}{kind}{size:06x}_`) and selects how an artifact
+ * body is rendered to bytes for size measurement, SAID digest, and signing.
+ */
+
+import { deserializeCbor, serializeCbor } from './serialize-cbor.js';
+import { type JsonValue, serializeInsertionOrder } from './serialize-insertion-order.js';
+import { deserializeMsgpack, serializeMsgpack } from './serialize-msgpack.js';
+
+export type SerializationKind = 'JSON' | 'CBOR' | 'MGPK';
+
+export const SERIALIZATION_KINDS: readonly SerializationKind[] = ['JSON', 'CBOR', 'MGPK'];
+
+const VERSION_KIND_PATTERN = /^[A-Z]{4}[0-9a-f]{2}([A-Z]{4})[0-9a-f]{6}_$/;
+
+/** Serialize a value in insertion order using the given kind. */
+export function serializeKind(value: JsonValue, kind: SerializationKind): Uint8Array {
+  switch (kind) {
+    case 'JSON':
+      return new TextEncoder().encode(serializeInsertionOrder(value));
+    case 'CBOR':
+      return serializeCbor(value);
+    case 'MGPK':
+      return serializeMsgpack(value);
+    default: {
+      const exhaustive: never = kind;
+      throw new Error(`Unsupported serialization kind: ${exhaustive}`);
+    }
+  }
+}
+
+/** Decode bytes produced by serializeKind back to a value, preserving key order. */
+export function deserializeKind(bytes: Uint8Array, kind: SerializationKind): JsonValue {
+  switch (kind) {
+    case 'JSON':
+      return JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes)) as JsonValue;
+    case 'CBOR':
+      return deserializeCbor(bytes);
+    case 'MGPK':
+      return deserializeMsgpack(bytes);
+    default: {
+      const exhaustive: never = kind;
+      throw new Error(`Unsupported serialization kind: ${exhaustive}`);
+    }
+  }
+}
+
+/**
+ * Extract the serialization kind from a KERI/ACDC version string.
+ * Returns undefined for malformed strings or unknown kinds.
+ */
+export function versionStringKind(version: unknown): SerializationKind | undefined {
+  if (typeof version !== 'string') return undefined;
+  const kind = VERSION_KIND_PATTERN.exec(version)?.[1];
+  return SERIALIZATION_KINDS.find((k) => k === kind);
+}
@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'bun:test';
+import { deserializeCbor, serializeCbor } from './serialize-cbor.js';
+import type { JsonValue } from './serialize-insertion-order.js';
+
+function hex(value: JsonValue): string {
+  return Buffer.from(serializeCbor(value)).toString('hex');
+}
+
+describe('serializeCbor', () => {
+  // --- RFC 8949 Appendix A vectors ---
+
+  test('unsigned integers use the shortest head', () => {
+    expect(hex(0)).toBe('00');
+    expect(hex(23)).toBe('17');
+    expect(hex(24)).toBe('1818');
+    expect(hex(100)).toBe('1864');
+    expect(hex(1000)).toBe('1903e8');
+    expect(hex(1000000)).toBe('1a000f4240');
+    expect(hex(1000000000000)).toBe('1b000000e8d4a51000');
+  });
+
+  test('negative integers', () => {
+    expect(hex(-1)).toBe('20');
+    expect(hex(-10)).toBe('29');
+    expect(hex(-100)).toBe('3863');
+    expect(hex(-1000)).toBe('3903e7');
+  });
+
+  test('non-integral numbers are float64 (cbor2 non-canonical default)', () => {
+    expect(hex(1.1)).toBe('fb3ff199999999999a');
+    expect(hex(-4.1)).toBe('fbc010666666666666');
+  });
+
+  test('simple values', () => {
+    expect(hex(false)).toBe('f4');
+    expect(hex(true)).toBe('f5');
+    expect(hex(null)).toBe('f6');
+  });
+
+  test('text strings are UTF-8 with byte-length heads', () => {
+    expect(hex('')).toBe('60');
+    expect(hex('a')).toBe('6161');
+    expect(hex('IETF')).toBe('6449455446');
+    expect(hex('ü')).toBe('62c3bc');
+    expect(hex('水')).toBe('63e6b0b4');
+    expect(hex('x'.repeat(24)).slice(0, 4)).toBe('7818');
+  });
+
+  test('arrays and nested arrays', () => {
+    expect(hex([])).toBe('80');
+    expect(hex([1, 2, 3])).toBe('83010203');
+    expect(hex([1, [2, 3], [4, 5]])).toBe('8301820203820405');
+    expect(hex(Array.from({ length: 25 }, (_, i) => i + 1)).slice(0, 4)).toBe('9819');
+  });
+
+  test('maps', () => {
+    expect(hex({})).toBe('a0');
+    expect(hex({ a: 1, b: [2, 3] })).toBe('a26161016162820203');
+  });
+
+  // --- Insertion order ---
+
+  test('preserves key insertion order instead of sorting', () => {
+    expect(hex({ b: 1, a: 2 } as JsonValue)).toBe('a2616201616102');
+  });
+
+  // --- Rejections ---
+
+  test('rejects non-finite numbers, undefined and non-plain objects', () => {
+    expect(() => serializeCbor(Number.NaN)).toThrow(/non-finite/);
+    expect(() => serializeCbor({ a: undefined } as unknown as JsonValue)).toThrow(/undefined at property 'a'/);
+    expect(() => serializeCbor([undefined] as unknown as JsonValue)).toThrow(/undefined at array index 0/);
+    expect(() => serializeCbor(new Date() as unknown as JsonValue)).toThrow(/plain object/);
+  });
+
+  // --- Decoding ---
+
+  test('deserializeCbor round-trips values and preserves key order', () => {
+    const value = {
+      v: 'KERI10XXXX000000_',
+      z: [0, -1, 255, -129, 65536, -2147483649, 4294967296, 1.5],
+      a: { y: null, x: true, w: false },
+      u: 'ü'.repeat(40),
+      big: Array.from({ length: 20 }, (_, i) => ({ [`k${i}`]: i })),
+    } as JsonValue;
+    const decoded = deserializeCbor(serializeCbor(value));
+    expect(decoded).toEqual(value);
+    expect(Object.keys(decoded as object)).toEqual(['v', 'z', 'a', 'u', 'big']);
+  });
+
+  test('deserializeCbor rejects trailing and truncated bytes', () => {
+    const bytes = serializeCbor({ a: 'abc' });
+    expect(() => deserializeCbor(new Uint8Array([...bytes, 0]))).toThrow(/trailing/);
+    expect(() => deserializeCbor(bytes.slice(0, bytes.length - 1))).toThrow(/truncated/);
+  });
+});
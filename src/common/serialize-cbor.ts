@@ -0,0 +1,229 @@
+/**
+ * Insertion-order CBOR serializer for KERI derivation paths.
+ *
+ * Byte-compatible with keripy's `cbor2.dumps(ked)` (non-canonical mode):
+ * definite-length maps in Object.keys() order, shortest-form integer and
+ * length heads, text strings for all string values, and IEEE-754 doubles
+ * for non-integral numbers. Like serializeInsertionOrder this is NOT a
+ * canonical encoding — key order is taken from the supplied object graph.
+ * The matching decoder is used to read binary-kind bodies off CESR streams.
+ */
+
+import type { JsonValue } from './serialize-insertion-order.js';
+
+const MAJOR_UNSIGNED = 0;
+const MAJOR_NEGATIVE = 1;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+
+const SIMPLE_FALSE = 0xf4;
+const SIMPLE_TRUE = 0xf5;
+const SIMPLE_NULL = 0xf6;
+const FLOAT64 = 0xfb;
+
+export function serializeCbor(value: JsonValue): Uint8Array {
+  const out: number[] = [];
+  writeValue(out, value);
+  return Uint8Array.from(out);
+}
+
+function writeValue(out: number[], value: unknown): void {
+  if (value === null) {
+    out.push(SIMPLE_NULL);
+    return;
+  }
+
+  switch (typeof value) {
+    case 'string': {
+      const bytes = new TextEncoder().encode(value);
+      writeHead(out, MAJOR_TEXT, bytes.length);
+      for (const b of bytes) out.push(b);
+      return;
+    }
+
+    case 'number':
+      writeNumber(out, value);
+      return;
+
+    case 'boolean':
+      out.push(value ? SIMPLE_TRUE : SIMPLE_FALSE);
+      return;
+
+    case 'object': {
+      if (Array.isArray(value)) {
+        writeArray(out, value);
+        return;
+      }
+      writeMap(out, value as Record<string, unknown>);
+      return;
+    }
+
+    default:
+      throw new TypeError(`serializeCbor: unsupported type '${typeof value}'`);
+  }
+}
+
+function writeNumber(out: number[], value: number): void {
+  if (!Number.isFinite(value)) {
+    throw new TypeError(`serializeCbor: non-finite number: ${value}`);
+  }
+  if (Number.isSafeInteger(value)) {
+    if (value >= 0) writeHead(out, MAJOR_UNSIGNED, value);
+    else writeHead(out, MAJOR_NEGATIVE, -1 - value);
+    return;
+  }
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  out.push(FLOAT64);
+  for (let i = 0; i < 8; i++) out.push(view.getUint8(i));
+}
+
+function writeArray(out: number[], arr: unknown[]): void {
+  writeHead(out, MAJOR_ARRAY, arr.length);
+  for (let i = 0; i < arr.length; i++) {
+    const element = arr[i];
+    if (element === undefined) {
+      throw new TypeError(`serializeCbor: undefined at array index ${i}`);
+    }
+    writeValue(out, element);
+  }
+}
+
+function writeMap(out: number[], obj: Record<string, unknown>): void {
+  const proto = Object.getPrototypeOf(obj);
+  if (proto !== null && proto !== Object.prototype) {
+    throw new TypeError(`serializeCbor: expected plain object, got ${proto.constructor?.name ?? 'non-plain object'}`);
+  }
+  const keys = Object.keys(obj);
+  writeHead(out, MAJOR_MAP, keys.length);
+  for (const key of keys) {
+    const val = obj[key];
+    if (val === undefined) {
+      throw new TypeError(`serializeCbor: undefined at property '${key}'`);
+    }
+    writeValue(out, key);
+    writeValue(out, val);
+  }
+}
+
+/** Write a CBOR initial byte plus the shortest argument encoding for `n`. */
+function writeHead(out: number[], major: number, n: number): void {
+  const mt = major << 5;
+  if (n < 24) {
+    out.push(mt | n);
+  } else if (n <= 0xff) {
+    out.push(mt | 24, n);
+  } else if (n <= 0xffff) {
+    out.push(mt | 25, n >>> 8, n & 0xff);
+  } else if (n <= 0xffffffff) {
+    out.push(mt | 26, (n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff);
+  } else {
+    out.push(mt | 27);
+    const big = BigInt(n);
+    for (let shift = 56n; shift >= 0n; shift -= 8n) out.push(Number((big >> shift) & 0xffn));
+  }
+}
+
+/**
+ * Decode a single CBOR data item restricted to the JSON data model.
+ *
+ * Inverse of serializeCbor: preserves map key order, accepts any definite-length
+ * head width and half/single/double floats. Rejects byte strings, tags,
+ * indefinite lengths, non-text map keys, and trailing bytes.
+ */
+export function deserializeCbor(bytes: Uint8Array): JsonValue {
+  const reader = { bytes, pos: 0 };
+  const value = readValue(reader);
+  if (reader.pos !== bytes.length) {
+    throw new TypeError(`deserializeCbor: ${bytes.length - reader.pos} trailing bytes`);
+  }
+  return value;
+}
+
+type Reader = { bytes: Uint8Array; pos: number };
+
+function readByte(r: Reader): number {
+  const b = r.bytes[r.pos];
+  if (b === undefined) throw new TypeError(`deserializeCbor: truncated at offset ${r.pos}`);
+  r.pos++;
+  return b;
+}
+
+function readUint(r: Reader, width: number): number {
+  let n = 0;
+  for (let i = 0; i < width; i++) n = n * 256 + readByte(r);
+  if (!Number.isSafeInteger(n)) throw new TypeError(`deserializeCbor: integer exceeds safe range`);
+  return n;
+}
+
+function readArgument(r: Reader, info: number): number {
+  if (info < 24) return info;
+  if (info === 24) return readUint(r, 1);
+  if (info === 25) return readUint(r, 2);
+  if (info === 26) return readUint(r, 4);
+  if (info === 27) return readUint(r, 8);
+  throw new TypeError(`deserializeCbor: unsupported additional info ${info} at offset ${r.pos - 1}`);
+}
+
+function readFloat(r: Reader, width: 2 | 4 | 8): number {
+  if (r.pos + width > r.bytes.length) throw new TypeError(`deserializeCbor: truncated at offset ${r.pos}`);
+  const view = new DataView(r.bytes.buffer, r.bytes.byteOffset + r.pos, width);
+  r.pos += width;
+  if (width === 8) return view.getFloat64(0);
+  if (width === 4) return view.getFloat32(0);
+  const half = view.getUint16(0);
+  const exp = (half >> 10) & 0x1f;
+  const mant = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exp === 0) return sign * 2 ** -14 * (mant / 1024);
+  if (exp === 31) return mant ? Number.NaN : sign * Number.POSITIVE_INFINITY;
+  return sign * 2 ** (exp - 15) * (1 + mant / 1024);
+}
+
+function readText(r: Reader, length: number): string {
+  if (r.pos + length > r.bytes.length) throw new TypeError(`deserializeCbor: truncated at offset ${r.pos}`);
+  const text = new TextDecoder('utf-8', { fatal: true }).decode(r.bytes.subarray(r.pos, r.pos + length));
+  r.pos += length;
+  return text;
+}
+
+function readValue(r: Reader): JsonValue {
+  const initial = readByte(r);
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  switch (major) {
+    case MAJOR_UNSIGNED:
+      return readArgument(r, info);
+    case MAJOR_NEGATIVE:
+      return -1 - readArgument(r, info);
+    case MAJOR_TEXT:
+      return readText(r, readArgument(r, info));
+    case MAJOR_ARRAY: {
+      const length = readArgument(r, info);
+      const arr: JsonValue[] = [];
+      for (let i = 0; i < length; i++) arr.push(readValue(r));
+      return arr;
+    }
+    case MAJOR_MAP: {
+      const length = readArgument(r, info);
+      const obj: { [key: string]: JsonValue } = {};
+      for (let i = 0; i < length; i++) {
+        const key = readValue(r);
+        if (typeof key !== 'string') throw new TypeError(`deserializeCbor: non-text map key at offset ${r.pos}`);
+        obj[key] = readValue(r);
+      }
+      return obj;
+    }
+    case 7:
+      if (initial === SIMPLE_FALSE) return false;
+      if (initial === SIMPLE_TRUE) return true;
+      if (initial === SIMPLE_NULL) return null;
+      if (info === 25) return readFloat(r, 2);
+      if (info === 26) return readFloat(r, 4);
+      if (info === 27) return readFloat(r, 8);
+      break;
+  }
+  throw new TypeError(`deserializeCbor: unsupported initial byte 0x${initial.toString(16)} at offset ${r.pos - 1}`);
+}
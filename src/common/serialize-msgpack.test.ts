@@ -0,0 +1,86 @@
+import { describe, expect, test } from 'bun:test';
+import type { JsonValue } from './serialize-insertion-order.js';
+import { deserializeMsgpack, serializeMsgpack } from './serialize-msgpack.js';
+
+function hex(value: JsonValue): string {
+  return Buffer.from(serializeMsgpack(value)).toString('hex');
+}
+
+describe('serializeMsgpack', () => {
+  test('positive integers use fixint then uint8/16/32/64', () => {
+    expect(hex(0)).toBe('00');
+    expect(hex(127)).toBe('7f');
+    expect(hex(128)).toBe('cc80');
+    expect(hex(256)).toBe('cd0100');
+    expect(hex(65536)).toBe('ce00010000');
+    expect(hex(4294967296)).toBe('cf0000000100000000');
+  });
+
+  test('negative integers use negative fixint then int8/16/32/64', () => {
+    expect(hex(-1)).toBe('ff');
+    expect(hex(-32)).toBe('e0');
+    expect(hex(-33)).toBe('d0df');
+    expect(hex(-129)).toBe('d1ff7f');
+    expect(hex(-32769)).toBe('d2ffff7fff');
+    expect(hex(-2147483649)).toBe('d3ffffffff7fffffff');
+  });
+
+  test('non-integral numbers are float64', () => {
+    expect(hex(1.5)).toBe('cb3ff8000000000000');
+  });
+
+  test('nil and booleans', () => {
+    expect(hex(null)).toBe('c0');
+    expect(hex(false)).toBe('c2');
+    expect(hex(true)).toBe('c3');
+  });
+
+  test('strings use fixstr then str8/16', () => {
+    expect(hex('')).toBe('a0');
+    expect(hex('abc')).toBe('a3616263');
+    expect(hex('x'.repeat(31)).slice(0, 2)).toBe('bf');
+    expect(hex('x'.repeat(32)).slice(0, 4)).toBe('d920');
+    expect(hex('x'.repeat(256)).slice(0, 6)).toBe('da0100');
+    expect(hex('ü')).toBe('a2c3bc');
+  });
+
+  test('arrays use fixarray then array16', () => {
+    expect(hex([])).toBe('90');
+    expect(hex([1, 2, 3])).toBe('93010203');
+    expect(hex(Array.from({ length: 16 }, () => 0)).slice(0, 6)).toBe('dc0010');
+  });
+
+  test('maps use fixmap then map16 and preserve insertion order', () => {
+    expect(hex({})).toBe('80');
+    expect(hex({ b: 1, a: 2 } as JsonValue)).toBe('82a16201a16102');
+    const big = Object.fromEntries(Array.from({ length: 16 }, (_, i) => [`k${i}`, i]));
+    expect(hex(big as JsonValue).slice(0, 6)).toBe('de0010');
+  });
+
+  test('rejects non-finite numbers, undefined and non-plain objects', () => {
+    expect(() => serializeMsgpack(Number.POSITIVE_INFINITY)).toThrow(/non-finite/);
+    expect(() => serializeMsgpack({ a: undefined } as unknown as JsonValue)).toThrow(/undefined at property 'a'/);
+    expect(() => serializeMsgpack(new Map() as unknown as JsonValue)).toThrow(/plain object/);
+  });
+
+  // --- Decoding ---
+
+  test('deserializeMsgpack round-trips values and preserves key order', () => {
+    const value = {
+      v: 'KERI10XXXX000000_',
+      z: [0, -1, 255, -129, 65536, -2147483649, 4294967296, 1.5],
+      a: { y: null, x: true, w: false },
+      u: 'ü'.repeat(40),
+      big: Array.from({ length: 20 }, (_, i) => ({ [`k${i}`]: i })),
+    } as JsonValue;
+    const decoded = deserializeMsgpack(serializeMsgpack(value));
+    expect(decoded).toEqual(value);
+    expect(Object.keys(decoded as object)).toEqual(['v', 'z', 'a', 'u', 'big']);
+  });
+
+  test('deserializeMsgpack rejects trailing and truncated bytes', () => {
+    const bytes = serializeMsgpack({ a: 'abc' });
+    expect(() => deserializeMsgpack(new Uint8Array([...bytes, 0]))).toThrow(/trailing/);
+    expect(() => deserializeMsgpack(bytes.slice(0, bytes.length - 1))).toThrow(/truncated/);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Insertion-order MessagePack serializer for KERI derivation paths.
+ *
+ * Byte-compatible with keripy's `msgpack.dumps(ked)` (msgpack-python with
+ * use_bin_type=True): maps in Object.keys() order, the smallest fix/8/16/32
+ * family for integers, strings, arrays and maps, and float64 for
+ * non-integral numbers. Like serializeInsertionOrder this is NOT a
+ * canonical encoding — key order is taken from the supplied object graph.
+ * The matching decoder is used to read binary-kind bodies off CESR streams.
+ */
+
+import type { JsonValue } from './serialize-insertion-order.js';
+
+export function serializeMsgpack(value: JsonValue): Uint8Array {
+  const out: number[] = [];
+  writeValue(out, value);
+  return Uint8Array.from(out);
+}
+
+function writeValue(out: number[], value: unknown): void {
+  if (value === null) {
+    out.push(0xc0);
+    return;
+  }
+
+  switch (typeof value) {
+    case 'string':
+      writeString(out, value);
+      return;
+
+    case 'number':
+      writeNumber(out, value);
+      return;
+
+    case 'boolean':
+      out.push(value ? 0xc3 : 0xc2);
+      return;
+
+    case 'object': {
+      if (Array.isArray(value)) {
+        writeArray(out, value);
+        return;
+      }
+      writeMap(out, value as Record<string, unknown>);
+      return;
+    }
+
+    default:
+      throw new TypeError(`serializeMsgpack: unsupported type '${typeof value}'`);
+  }
+}
+
+function writeString(out: number[], value: string): void {
+  const bytes = new TextEncoder().encode(value);
+  const n = bytes.length;
+  if (n < 32) out.push(0xa0 | n);
+  else if (n <= 0xff) out.push(0xd9, n);
+  else if (n <= 0xffff) out.push(0xda, ...be(n, 2));
+  else out.push(0xdb, ...be(n, 4));
+  for (const b of bytes) out.push(b);
+}
+
+function writeNumber(out: number[], value: number): void {
+  if (!Number.isFinite(value)) {
+    throw new TypeError(`serializeMsgpack: non-finite number: ${value}`);
+  }
+  if (!Number.isSafeInteger(value)) {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value);
+    out.push(0xcb);
+    for (let i = 0; i < 8; i++) out.push(view.getUint8(i));
+    return;
+  }
+  if (value >= 0) {
+    if (value < 0x80) out.push(value);
+    else if (value <= 0xff) out.push(0xcc, value);
+    else if (value <= 0xffff) out.push(0xcd, ...be(value, 2));
+    else if (value <= 0xffffffff) out.push(0xce, ...be(value, 4));
+    else out.push(0xcf, ...be(value, 8));
+    return;
+  }
+  if (value >= -32) out.push(value & 0xff);
+  else if (value >= -0x80) out.push(0xd0, value & 0xff);
+  else if (value >= -0x8000) out.push(0xd1, ...be(value, 2));
+  else if (value >= -0x80000000) out.push(0xd2, ...be(value, 4));
+  else out.push(0xd3, ...be(value, 8));
+}
+
+function writeArray(out: number[], arr: unknown[]): void {
+  const n = arr.length;
+  if (n < 16) out.push(0x90 | n);
+  else if (n <= 0xffff) out.push(0xdc, ...be(n, 2));
+  else out.push(0xdd, ...be(n, 4));
+  for (let i = 0; i < n; i++) {
+    const element = arr[i];
+    if (element === undefined) {
+      throw new TypeError(`serializeMsgpack: undefined at array index ${i}`);
+    }
+    writeValue(out, element);
+  }
+}
+
+function writeMap(out: number[], obj: Record<string, unknown>): void {
+  const proto = Object.getPrototypeOf(obj);
+  if (proto !== null && proto !== Object.prototype) {
+    throw new TypeError(
+      `serializeMsgpack: expected plain object, got ${proto.constructor?.name ?? 'non-plain object'}`,
+    );
+  }
+  const keys = Object.keys(obj);
+  const n = keys.length;
+  if (n < 16) out.push(0x80 | n);
+  else if (n <= 0xffff) out.push(0xde, ...be(n, 2));
+  else out.push(0xdf, ...be(n, 4));
+  for (const key of keys) {
+    const val = obj[key];
+    if (val === undefined) {
+      throw new TypeError(`serializeMsgpack: undefined at property '${key}'`);
+    }
+    writeString(out, key);
+    writeValue(out, val);
+  }
+}
+
+/** Big-endian two's-complement bytes of `n` in `width` bytes. */
+function be(n: number, width: number): number[] {
+  const big = BigInt.asUintN(width * 8, BigInt(n));
+  const bytes: number[] = [];
+  for (let i = width - 1; i >= 0; i--) bytes.push(Number((big >> BigInt(i * 8)) & 0xffn));
+  return bytes;
+}
+
+/**
+ * Decode a single MessagePack object restricted to the JSON data model.
+ *
+ * Inverse of serializeMsgpack: preserves map key order and accepts every
+ * integer, float, string, array and map width. Rejects bin, ext, non-string
+ * map keys, and trailing bytes.
+ */
+export function deserializeMsgpack(bytes: Uint8Array): JsonValue {
+  const reader = { bytes, pos: 0 };
+  const value = readValue(reader);
+  if (reader.pos !== bytes.length) {
+    throw new TypeError(`deserializeMsgpack: ${bytes.length - reader.pos} trailing bytes`);
+  }
+  return value;
+}
+
+type Reader = { bytes: Uint8Array; pos: number };
+
+function view(r: Reader, width: number): DataView {
+  if (r.pos + width > r.bytes.length) throw new TypeError(`deserializeMsgpack: truncated at offset ${r.pos}`);
+  const v = new DataView(r.bytes.buffer, r.bytes.byteOffset + r.pos, width);
+  r.pos += width;
+  return v;
+}
+
+function readSafe(big: bigint): number {
+  const n = Number(big);
+  if (!Number.isSafeInteger(n)) throw new TypeError(`deserializeMsgpack: integer exceeds safe range`);
+  return n;
+}
+
+function readString(r: Reader, length: number): string {
+  if (r.pos + length > r.bytes.length) throw new TypeError(`deserializeMsgpack: truncated at offset ${r.pos}`);
+  const text = new TextDecoder('utf-8', { fatal: true }).decode(r.bytes.subarray(r.pos, r.pos + length));
+  r.pos += length;
+  return text;
+}
+
+function readArray(r: Reader, length: number): JsonValue[] {
+  const arr: JsonValue[] = [];
+  for (let i = 0; i < length; i++) arr.push(readValue(r));
+  return arr;
+}
+
+function readMap(r: Reader, length: number): { [key: string]: JsonValue } {
+  const obj: { [key: string]: JsonValue } = {};
+  for (let i = 0; i < length; i++) {
+    const key = readValue(r);
+    if (typeof key !== 'string') throw new TypeError(`deserializeMsgpack: non-string map key at offset ${r.pos}`);
+    obj[key] = readValue(r);
+  }
+  return obj;
+}
+
+function readValue(r: Reader): JsonValue {
+  const b = view(r, 1).getUint8(0);
+
+  if (b < 0x80) return b;
+  if (b >= 0xe0) return b - 0x100;
+  if (b >= 0x80 && b <= 0x8f) return readMap(r, b & 0x0f);
+  if (b >= 0x90 && b <= 0x9f) return readArray(r, b & 0x0f);
+  if (b >= 0xa0 && b <= 0xbf) return readString(r, b & 0x1f);
+
+  switch (b) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xca:
+      return view(r, 4).getFloat32(0);
+    case 0xcb:
+      return view(r, 8).getFloat64(0);
+    case 0xcc:
+      return view(r, 1).getUint8(0);
+    case 0xcd:
+      return view(r, 2).getUint16(0);
+    case 0xce:
+      return view(r, 4).getUint32(0);
+    case 0xcf:
+      return readSafe(view(r, 8).getBigUint64(0));
+    case 0xd0:
+      return view(r, 1).getInt8(0);
+    case 0xd1:
+      return view(r, 2).getInt16(0);
+    case 0xd2:
+      return view(r, 4).getInt32(0);
+    case 0xd3:
+      return readSafe(view(r, 8).getBigInt64(0));
+    case 0xd9:
+      return readString(r, view(r, 1).getUint8(0));
+    case 0xda:
+      return readString(r, view(r, 2).getUint16(0));
+    case 0xdb:
+      return readString(r, view(r, 4).getUint32(0));
+    case 0xdc:
+      return readArray(r, view(r, 2).getUint16(0));
+    case 0xdd:
+      return readArray(r, view(r, 4).getUint32(0));
+    case 0xde:
+      return readMap(r, view(r, 2).getUint16(0));
+    case 0xdf:
+      return readMap(r, view(r, 4).getUint32(0));
+  }
+  throw new TypeError(`deserializeMsgpack: unsupported type byte 0x${b.toString(16)} at offset ${r.pos - 1}`);
+}
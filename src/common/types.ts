@@ -17,6 +17,7 @@
 import { type Static, Type } from '@sinclair/typebox';
 import { Value } from '@sinclair/typebox/value';
 import type { Brand } from './brand.js';
+import { SEQUENCE_NUMBER_PATTERN } from './sequence-number.js';
 
 /* ------------------------------------------------------------------------------------------------
  * Core primitive branded types (AID, SAID)
@@ -62,6 +63,10 @@ export function CesrType(title: string, format: string) {
   return Type.String({ title, description: title, format });
 }
 
+/** KERI sequence number: lowercase hex, no leading zeros (see common/sequence-number). */
+export const SequenceNumberSchema = (title = 'Sequence', description = 'Sequence number as lowercase hex') =>
+  Type.String({ pattern: SEQUENCE_NUMBER_PATTERN, title, description, examples: ['0', '9', 'a', '1f'] });
+
 /** KERI version: KERI<major><minor><KIND><size>_ (size is 6-digit lowercase hex) */
 export const KeriVersionPattern = '^KERI[0-9]{2}[A-Z]{4}[0-9a-f]{6}_$';
 export const VersionSchema = Type.String({
@@ -491,7 +496,13 @@ export const KeriKeyPairSchema = Type.Object({
   privateKey: KeriPrivateKeySchema,
   transferable: Type.Boolean({ default: true }),
   algo: Type.Optional(
-    Type.Union([Type.Literal('ed25519'), Type.Literal('x25519'), Type.Literal('bls12381'), Type.Literal('secp256k1')]),
+    Type.Union([
+      Type.Literal('ed25519'),
+      Type.Literal('x25519'),
+      Type.Literal('bls12381'),
+      Type.Literal('secp256k1'),
+      Type.Literal('p256'),
+    ]),
   ),
 });
 export type KeriKeyPair = Static<typeof KeriKeyPairSchema>;
@@ -506,7 +517,7 @@ export interface Ed25519KeyPairBranded {
   publicKey: Ed25519PublicQb64;
   privateKey: Ed25519PrivateQb64;
   transferable: boolean;
-  algo?: 'ed25519' | 'x25519' | 'bls12381' | 'secp256k1';
+  algo?: KeriKeyPair['algo'];
 }
 
 /**
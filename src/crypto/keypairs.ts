@@ -1,22 +1,36 @@
 /**
- * Pure key generation factories for KERI Ed25519 key pairs.
+ * Pure key generation factories for KERI key pairs: Ed25519 by default, or
+ * ECDSA secp256k1 / P-256 with compressed public keys.
  *
  * Ported from packages/kerits/src/types/crypto.ts into core as pure primitives.
  * No I/O, no ambient state (except the monotonic keyGenCounter for uniqueness).
  */
 
 import { ed25519 } from '@noble/curves/ed25519.js';
-import { encodeKey } from '../cesr/keys.js';
+import { p256 } from '@noble/curves/nist.js';
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { encodeKey, encodePrivateKey } from '../cesr/keys.js';
+import type { KeyAlgo } from '../cesr/types.js';
 import type { KeriKeyPair } from '../common/types.js';
 
+function publicKeyFor(privateKey: Uint8Array, algo: KeyAlgo): Uint8Array {
+  switch (algo) {
+    case 'ed25519':
+      return ed25519.getPublicKey(privateKey);
+    case 'secp256k1':
+      return secp256k1.getPublicKey(privateKey, true);
+    case 'p256':
+      return p256.getPublicKey(privateKey, true);
+  }
+}
+
 export namespace KeriKeyPairs {
-  export const forPrivateKey = (privateKey: Uint8Array): KeriKeyPair => {
-    const publicKeyRaw = ed25519.getPublicKey(privateKey);
+  export const forPrivateKey = (privateKey: Uint8Array, algo: KeyAlgo = 'ed25519'): KeriKeyPair => {
     return {
-      publicKey: encodeKey(publicKeyRaw, true).qb64,
-      privateKey: encodeKey(privateKey, true).qb64,
+      publicKey: encodeKey(publicKeyFor(privateKey, algo), true, algo).qb64,
+      privateKey: encodePrivateKey(privateKey, algo).qb64,
       transferable: true,
-      algo: 'ed25519',
+      algo,
     };
   };
 
@@ -31,13 +45,13 @@ export namespace KeriKeyPairs {
 
   /**
    * Create a key pair from a 32-byte seed (Uint8Array).
-   * Throws if the seed is not exactly 32 bytes.
+   * Throws if the seed is not exactly 32 bytes, or not a valid ECDSA scalar.
    */
-  export const fromSeed = (seed: Uint8Array): KeriKeyPair => {
+  export const fromSeed = (seed: Uint8Array, algo: KeyAlgo = 'ed25519'): KeriKeyPair => {
     if (seed.length !== 32) {
       throw new Error(`Expected 32-byte seed, got ${seed.length} bytes`);
     }
-    return forPrivateKey(seed);
+    return forPrivateKey(seed, algo);
   };
 
   /**
@@ -45,9 +59,9 @@ export namespace KeriKeyPairs {
    * Deterministic — same number always produces the same key pair.
    * Intended for test/dev use only.
    */
-  export const fromSeedNumber = (seed: number): KeriKeyPair => {
+  export const fromSeedNumber = (seed: number, algo: KeyAlgo = 'ed25519'): KeriKeyPair => {
     const privateKey = entropyToSeed(seed);
-    return forPrivateKey(privateKey);
+    return forPrivateKey(privateKey, algo);
   };
 
   let keyGenCounter = 0;
@@ -58,8 +72,11 @@ export namespace KeriKeyPairs {
    * WARNING: Non-pure — uses cryptographic randomness.
    * Each call generates a unique, unpredictable key pair.
    */
-  export const create = (): KeriKeyPair => {
-    const randomBytes = ed25519.utils.randomSecretKey();
+  export const create = (algo: KeyAlgo = 'ed25519'): KeriKeyPair => {
+    const randomBytes =
+      algo === 'ed25519'
+        ? ed25519.utils.randomSecretKey()
+        : (algo === 'p256' ? p256 : secp256k1).utils.randomSecretKey();
     const counter = keyGenCounter++;
     const counterBytes = new Uint8Array(8);
     new DataView(counterBytes.buffer).setBigUint64(0, BigInt(counter), false);
@@ -70,6 +87,6 @@ export namespace KeriKeyPairs {
         randomBytes[24 + i] = rb ^ cb;
       }
     }
-    return forPrivateKey(randomBytes);
+    return forPrivateKey(randomBytes, algo);
   };
 }
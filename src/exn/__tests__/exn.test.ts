@@ -0,0 +1,280 @@
+import { describe, expect, test } from 'bun:test';
+import { digestVerfer } from '../../cesr/digest.js';
+import { recomputeSaid } from '../../common/derivation-surface.js';
+import type { AID, KeriKeyPair, SAID } from '../../common/types.js';
+import { KeriKeyPairs } from '../../crypto/index.js';
+import { canonicalizeEvent } from '../../kel/event-crypto.js';
+import { KELEvents } from '../../kel/events.js';
+import type { CESREvent, CesrAttachment, KELEvent } from '../../kel/types.js';
+import { EXN_SURFACE } from '../../said/surfaces.js';
+import { Signers } from '../../signature/signers.js';
+import { EXNMessages } from '../messages.js';
+import { EXNOps } from '../ops.js';
+import type { ExnEnvelope } from '../types.js';
+
+// ── Fixtures ────────────────────────────────────────────────────────
+const KEY1 = KeriKeyPairs.fromSeedNumber(1);
+const KEY2 = KeriKeyPairs.fromSeedNumber(2);
+const KEY3 = KeriKeyPairs.fromSeedNumber(3);
+const KEY4 = KeriKeyPairs.fromSeedNumber(4);
+const DT = '2025-01-15T12:00:00.000000+00:00';
+
+async function signEvent(event: KELEvent, keypair: KeriKeyPair, keyIndex: number): Promise<CesrAttachment> {
+  const sig = await Signers.fromKeyPair(keypair).signBytes(canonicalizeEvent(event));
+  return { kind: 'sig', form: 'indexed', keyIndex, sig };
+}
+
+/** Two-key sender KEL (kt '2') with next keys KEY3/KEY4. */
+async function senderKel(): Promise<CESREvent[]> {
+  const { unsignedEvent } = KELEvents.buildIcp({
+    keys: [KEY1.publicKey, KEY2.publicKey],
+    nextKeyDigests: [digestVerfer(KEY3.publicKey), digestVerfer(KEY4.publicKey)],
+    signingThreshold: '2',
+    nextThreshold: '2',
+  });
+  const { event } = KELEvents.finalize(unsignedEvent, true);
+  return [{ event, attachments: [await signEvent(event, KEY1, 0), await signEvent(event, KEY2, 1)], enc: 'JSON' }];
+}
+
+async function rotate(kel: CESREvent[]): Promise<CESREvent[]> {
+  const prior = kel[kel.length - 1]!.event;
+  const { unsignedEvent } = KELEvents.buildRot({
+    aid: prior.i as AID,
+    sequence: KELEvents.nextSequence(prior.s),
+    priorEventSaid: prior.d as SAID,
+    keys: [KEY3.publicKey, KEY4.publicKey],
+    nextKeyDigests: [digestVerfer(KEY1.publicKey), digestVerfer(KEY2.publicKey)],
+    signingThreshold: '2',
+    nextThreshold: '2',
+  });
+  const { event } = KELEvents.finalize(unsignedEvent, false);
+  return [
+    ...kel,
+    { event, attachments: [await signEvent(event, KEY3, 0), await signEvent(event, KEY4, 1)], enc: 'JSON' },
+  ];
+}
+
+function multisigIcp(kel: CESREvent[]): ExnEnvelope {
+  const aid = kel[0]!.event.i as AID;
+  return EXNMessages.assemble({
+    sender: aid,
+    route: '/multisig/icp',
+    payload: { gid: aid, smids: [aid], rmids: [aid] },
+    datetime: DT,
+    embeds: { icp: EXNMessages.embedEvent(kel[0]!) },
+  });
+}
+
+async function signBoth(env: ExnEnvelope, kel: CESREvent[], keys: KeriKeyPair[] = [KEY1, KEY2]): Promise<ExnEnvelope> {
+  const seal = EXNOps.senderSeal(kel)!;
+  let signed = env;
+  for (const [keyIndex, keypair] of keys.entries()) {
+    signed = await EXNOps.signExnWithSigner(signed, Signers.fromKeyPair(keypair), { keyIndex, seal });
+  }
+  return signed;
+}
+
+// ── EXNMessages ─────────────────────────────────────────────────────
+describe('EXNMessages', () => {
+  test('builds fields in keripy order with recipient prepended to a', () => {
+    const { unsignedExn } = EXNMessages.buildExn({
+      sender: 'EsenderAid' as AID,
+      recipient: 'ErecipientAid' as AID,
+      route: '/ipex/admit',
+      payload: { m: 'thanks' },
+      priorSaid: 'EpriorSaid' as SAID,
+      datetime: DT,
+    });
+
+    expect(Object.keys(unsignedExn)).toEqual(['v', 't', 'd', 'i', 'rp', 'p', 'dt', 'r', 'q', 'a', 'e']);
+    expect(unsignedExn.rp).toBe('ErecipientAid');
+    expect(unsignedExn.p).toBe('EpriorSaid');
+    expect(unsignedExn.a).toEqual({ i: 'ErecipientAid', m: 'thanks' });
+    expect(unsignedExn.e).toEqual({});
+  });
+
+  test('defaults rp and p to empty strings', () => {
+    const { unsignedExn } = EXNMessages.buildExn({ sender: 'EsenderAid' as AID, route: '/ipex/apply', datetime: DT });
+    expect(unsignedExn.rp).toBe('');
+    expect(unsignedExn.p).toBe('');
+  });
+
+  test('SAIDifies the e section with d after the embed labels', async () => {
+    const kel = await senderKel();
+    const env = multisigIcp(kel);
+
+    expect(Object.keys(env.exn.e)).toEqual(['icp', 'd']);
+    const surface = EXNMessages.embedsSurfaceOf(env.exn.e)!;
+    expect(recomputeSaid(env.exn.e, surface, 'JSON').matches).toBe(true);
+  });
+
+  test('computes a SAID that recomputes from the finalized message', async () => {
+    const env = multisigIcp(await senderKel());
+
+    expect(env.exn.v).toMatch(/^KERI10JSON[0-9a-f]{6}_$/);
+    expect(recomputeSaid(env.exn, EXN_SURFACE).matches).toBe(true);
+    expect(Number.parseInt(env.exn.v.slice(10, 16), 16)).toBe(EXNMessages.encodeExnBytes(env.exn).length);
+  });
+
+  test('carries embed attachments as pathed material at -e-<label>', async () => {
+    const kel = await senderKel();
+    const env = multisigIcp(kel);
+
+    expect(env.attachments).toEqual([{ kind: 'pathed', path: '-e-icp', attachments: kel[0]!.attachments as any }]);
+  });
+
+  test('supports CBOR-encoded messages', async () => {
+    const aid = (await senderKel())[0]!.event.i as AID;
+    const env = EXNMessages.assemble({ sender: aid, route: '/ipex/apply', datetime: DT, kind: 'CBOR' });
+
+    expect(env.exn.v).toMatch(/^KERI10CBOR/);
+    expect(env.enc).toBe('CBOR');
+    expect(recomputeSaid(env.exn, EXN_SURFACE).matches).toBe(true);
+  });
+});
+
+// ── EXNOps.validateExn ──────────────────────────────────────────────
+describe('EXNOps.validateExn', () => {
+  test('accepts a well-formed multisig icp message', async () => {
+    expect(EXNOps.validateExn(multisigIcp(await senderKel()).exn)).toEqual({ ok: true });
+  });
+
+  test('reports missing route payload fields and embeds', async () => {
+    const aid = (await senderKel())[0]!.event.i as AID;
+    const { exn } = EXNMessages.assemble({ sender: aid, route: '/multisig/icp', payload: { gid: aid }, datetime: DT });
+
+    const result = EXNOps.validateExn(exn);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      const fields = result.errors.map((e) => e.field);
+      expect(fields).toContain('a/smids');
+      expect(fields).toContain('e/icp');
+    }
+  });
+
+  test('does not constrain unknown routes', async () => {
+    const aid = (await senderKel())[0]!.event.i as AID;
+    const { exn } = EXNMessages.assemble({
+      sender: aid,
+      route: '/challenge/response',
+      payload: { words: [] },
+      datetime: DT,
+    });
+    expect(EXNOps.validateExn(exn)).toEqual({ ok: true });
+  });
+
+  test('rejects a tampered payload', async () => {
+    const env = multisigIcp(await senderKel());
+    const result = EXNOps.validateExn({ ...env.exn, a: { ...env.exn.a, smids: [] } });
+    expect(result.ok).toBe(false);
+  });
+});
+
+// ── EXNOps.verifyExn ────────────────────────────────────────────────
+describe('EXNOps.verifyExn', () => {
+  test('verifies a transferable signature group against the sender KEL', async () => {
+    const kel = await senderKel();
+    const env = await signBoth(multisigIcp(kel), kel);
+
+    expect(env.attachments.filter((a) => a.kind === 'tsg')).toHaveLength(1);
+    const result = EXNOps.verifyExn(env, kel);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.signer.s).toBe('0');
+      expect(result.validKeyIndices).toEqual([0, 1]);
+    }
+  });
+
+  test('verifies plain indexed signatures against the latest establishment event', async () => {
+    const kel = await senderKel();
+    let env = multisigIcp(kel);
+    env = await EXNOps.signExnWithSigner(env, Signers.fromKeyPair(KEY1), { keyIndex: 0 });
+    env = await EXNOps.signExnWithSigner(env, Signers.fromKeyPair(KEY2), { keyIndex: 1 });
+
+    expect(EXNOps.verifyExn(env, kel).ok).toBe(true);
+  });
+
+  test('verifies against the establishment event named by the seal after a rotation', async () => {
+    const kel = await senderKel();
+    const signedBeforeRotation = await signBoth(multisigIcp(kel), kel);
+    const rotated = await rotate(kel);
+
+    expect(EXNOps.verifyExn(signedBeforeRotation, rotated).ok).toBe(true);
+
+    const signedAfterRotation = await signBoth(multisigIcp(rotated), rotated, [KEY3, KEY4]);
+    const result = EXNOps.verifyExn(signedAfterRotation, rotated);
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.signer.s).toBe('1');
+  });
+
+  test('fails when the signing threshold is not met', async () => {
+    const kel = await senderKel();
+    const env = await signBoth(multisigIcp(kel), kel, [KEY1]);
+
+    const result = EXNOps.verifyExn(env, kel);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.code).toBe('threshold-not-met');
+  });
+
+  test('fails on a signature from a key outside the key state', async () => {
+    const kel = await senderKel();
+    const env = await signBoth(multisigIcp(kel), kel, [KEY1, KEY3]);
+
+    const result = EXNOps.verifyExn(env, kel);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.code).toBe('signature-invalid');
+  });
+
+  test('fails when the seal names an event the KEL does not hold', async () => {
+    const kel = await senderKel();
+    const rotated = await rotate(kel);
+    const env = await signBoth(multisigIcp(rotated), rotated, [KEY3, KEY4]);
+
+    const result = EXNOps.verifyExn(env, kel);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.code).toBe('unknown-establishment-event');
+  });
+
+  test('fails on a tampered message', async () => {
+    const kel = await senderKel();
+    const env = await signBoth(multisigIcp(kel), kel);
+
+    const result = EXNOps.verifyExn({ ...env, exn: { ...env.exn, r: '/multisig/rot' } }, kel);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.code).toBe('said-mismatch');
+  });
+
+  test('fails without signatures or with another AID KEL', async () => {
+    const kel = await senderKel();
+    const unsigned = multisigIcp(kel);
+
+    const noSigs = EXNOps.verifyExn(unsigned, kel);
+    expect(noSigs.ok).toBe(false);
+    if (!noSigs.ok) expect(noSigs.code).toBe('no-signatures');
+
+    const empty = EXNOps.verifyExn(unsigned, []);
+    expect(empty.ok).toBe(false);
+    if (!empty.ok) expect(empty.code).toBe('unknown-sender');
+  });
+
+  test('ties indexed signatures to the sender, not just to its keys', async () => {
+    const kel = await senderKel();
+    const { unsignedEvent } = KELEvents.buildIcp({
+      keys: [KEY1.publicKey, KEY2.publicKey],
+      nextKeyDigests: [digestVerfer(KEY3.publicKey)],
+      signingThreshold: '2',
+    });
+    const twin: CESREvent[] = [{ event: KELEvents.finalize(unsignedEvent, true).event, attachments: [], enc: 'JSON' }];
+    let env = multisigIcp(kel);
+    env = await EXNOps.signExnWithSigner(env, Signers.fromKeyPair(KEY1), { keyIndex: 0 });
+    env = await EXNOps.signExnWithSigner(env, Signers.fromKeyPair(KEY2), { keyIndex: 1 });
+
+    expect(EXNOps.verifyExn(env, twin)).toMatchObject({ ok: false, code: 'sender-mismatch' });
+
+    const relabelled = {
+      ...env,
+      attachments: env.attachments.map((a) => (a.kind === 'sig' ? { ...a, signerAid: twin[0]!.event.i as AID } : a)),
+    };
+    expect(EXNOps.verifyExn(relabelled, kel)).toMatchObject({ ok: false, code: 'sender-mismatch' });
+  });
+});
@@ -0,0 +1,19 @@
+import { EXNMessages } from './messages.js';
+import { EXNOps } from './ops.js';
+
+export const Exn = {
+  ...EXNMessages,
+  ...EXNOps,
+} as const;
+
+export type { ExnEmbed, ExnParams, FinalizedExnResult } from './messages.js';
+export { EXNMessages } from './messages.js';
+export type {
+  ExnSignerState,
+  ExnValidationError,
+  ExnValidationResult,
+  ExnVerificationFailureCode,
+  ExnVerificationResult,
+} from './ops.js';
+export { EXNOps } from './ops.js';
+export * from './types.js';
@@ -0,0 +1,163 @@
+/**
+ * EXN Messages - Factory functions for building `exn` exchange messages
+ *
+ * Peer-to-peer messages (multisig coordination, IPEX credential exchange)
+ * routed by `r`, carrying a route payload in `a` and embedded messages in `e`.
+ * Byte- and SAID-compatible with keripy's `exchanging.exchange()`.
+ *
+ * Pattern:
+ * 1. Build the unsigned message (embeds SAIDified, placeholder d/v)
+ * 2. Compute the SAID and version string
+ * 3. Attach each embed's attachments as pathed material at `-e-<label>`
+ *
+ * @module exn/messages
+ */
+
+import type { DerivationSurface } from '../common/derivation-surface.js';
+import { deriveSaid, serializeForSigning } from '../common/derivation-surface.js';
+import type { SerializationKind } from '../common/serialization-kind.js';
+import type { AID, SAID } from '../common/types.js';
+import type { CESREvent, CesrAttachment, CesrAttachmentGroup } from '../kel/types.js';
+import { EXN_SURFACE } from '../said/surfaces.js';
+import type { ExnEnvelope, ExnMessage, UnsignedExnMessage } from './types.js';
+
+// ── Param interfaces ────────────────────────────────────────────────
+
+/** A message to embed in `e`, with the attachments that travel with it. */
+export interface ExnEmbed {
+  body: Record<string, unknown>;
+  attachments?: CesrAttachmentGroup[];
+}
+
+export interface ExnParams {
+  sender: AID;
+  route: string;
+  /** Route payload for `a`. The recipient, when given, is prepended as `a.i`. */
+  payload?: Record<string, unknown>;
+  recipient?: AID;
+  /** SAID of the exn this message responds to. */
+  priorSaid?: SAID;
+  datetime: string;
+  modifiers?: Record<string, unknown>;
+  embeds?: Record<string, ExnEmbed>;
+  kind?: SerializationKind;
+}
+
+// ── Result types ────────────────────────────────────────────────────
+
+export interface FinalizedExnResult {
+  exn: ExnMessage;
+  canonFinal: { raw: Uint8Array; text: string };
+  said: SAID;
+}
+
+// ── Internal helpers ────────────────────────────────────────────────
+
+/** Unversioned surface over an `e` section: embed labels in order, then `d`. */
+function embedsSurface(labels: string[]): DerivationSurface {
+  return {
+    saidField: 'd',
+    derivedFieldsInOrder: [...labels, 'd'] as unknown as [string, ...string[]],
+    hasVersionString: false,
+  };
+}
+
+// ── EXNMessages namespace ───────────────────────────────────────────
+
+export namespace EXNMessages {
+  /**
+   * SAIDify an `e` section. keripy appends `d` after the embed labels and
+   * digests the JSON rendering; an empty section stays `{}`.
+   */
+  export function saidifyEmbeds(embeds: Record<string, Record<string, unknown>>): Record<string, unknown> {
+    const labels = Object.keys(embeds).filter((label) => label !== 'd');
+    if (labels.length === 0) return {};
+    const section: Record<string, unknown> = {};
+    for (const label of labels) section[label] = embeds[label];
+    section.d = '';
+    return deriveSaid(section, embedsSurface(labels)).sealed;
+  }
+
+  /** Surface for an existing `e` section, for SAID recomputation. */
+  export function embedsSurfaceOf(e: Record<string, unknown>): DerivationSurface | undefined {
+    const labels = Object.keys(e).filter((label) => label !== 'd');
+    return labels.length === 0 ? undefined : embedsSurface(labels);
+  }
+
+  /**
+   * Build an unsigned exn message.
+   * Canonical field order: v, t, d, i, rp, p, dt, r, q, a, e
+   */
+  export function buildExn(params: ExnParams): { unsignedExn: UnsignedExnMessage } {
+    const a: Record<string, unknown> = {};
+    if (params.recipient !== undefined) a.i = params.recipient;
+    Object.assign(a, params.payload ?? {});
+
+    const bodies: Record<string, Record<string, unknown>> = {};
+    for (const [label, embed] of Object.entries(params.embeds ?? {})) bodies[label] = embed.body;
+
+    const unsignedExn: UnsignedExnMessage = {
+      v: `KERI10${params.kind ?? 'JSON'}000000_`,
+      t: 'exn',
+      d: '',
+      i: params.sender,
+      rp: params.recipient ?? '',
+      p: params.priorSaid ?? '',
+      dt: params.datetime,
+      r: params.route,
+      q: params.modifiers ?? {},
+      a,
+      e: saidifyEmbeds(bodies),
+    };
+    return { unsignedExn };
+  }
+
+  /**
+   * Compute the SAID and version string of an exn message.
+   *
+   * @param unsignedExn - Message with placeholder d and v
+   * @returns Finalized message, canonical signing bytes, and SAID
+   */
+  export function computeSaid(unsignedExn: UnsignedExnMessage): FinalizedExnResult {
+    const { sealed: exn, said } = deriveSaid(unsignedExn, EXN_SURFACE);
+    return { exn, canonFinal: serializeForSigning(exn, EXN_SURFACE), said: said as SAID };
+  }
+
+  /**
+   * Build, finalize and frame an exn message as an unsigned envelope.
+   *
+   * Embed attachments are carried as pathed material at `-e-<label>`, the way
+   * keripy streams them after the message body.
+   */
+  export function assemble(params: ExnParams): ExnEnvelope {
+    const { unsignedExn } = buildExn(params);
+    const { exn } = computeSaid(unsignedExn);
+
+    const attachments: CesrAttachment[] = [];
+    for (const [label, embed] of Object.entries(params.embeds ?? {})) {
+      if (embed.attachments && embed.attachments.length > 0) {
+        attachments.push({ kind: 'pathed', path: `-e-${label}`, attachments: embed.attachments });
+      }
+    }
+    return { exn, attachments, enc: params.kind ?? 'JSON' };
+  }
+
+  /**
+   * Embed a signed KEL event (e.g. a multisig `icp`) with its attachments.
+   * Pathed material cannot nest, so any pathed attachments are dropped.
+   */
+  export function embedEvent(env: CESREvent): ExnEmbed {
+    return {
+      body: env.event as unknown as Record<string, unknown>,
+      attachments: env.attachments.filter((a): a is CesrAttachmentGroup => a.kind !== 'pathed'),
+    };
+  }
+
+  /**
+   * Encode an exn message to the bytes that are signed, in `kind`
+   * (defaulting to the kind declared by its version string).
+   */
+  export function encodeExnBytes(exn: ExnMessage, kind?: SerializationKind): Uint8Array {
+    return serializeForSigning(exn, EXN_SURFACE, kind).raw;
+  }
+}
@@ -0,0 +1,202 @@
+import { Value } from '@sinclair/typebox/value';
+import { recomputeSaid } from '../common/derivation-surface.js';
+import type { AID, PublicKey, SAID, Threshold } from '../common/types.js';
+import type { CESREvent, CesrAttachment, CesrSeal, KELEvent } from '../kel/types.js';
+import { EXN_SURFACE } from '../said/surfaces.js';
+import { attachSignature, verifyAttachedSignatures } from '../signature/attached.js';
+import type { Signer } from '../signature/signer.js';
+import { EXNMessages } from './messages.js';
+import { type ExnEnvelope, type ExnMessage, ExnMessageSchema, type ExnRouteSpec, ExnRoutes } from './types.js';
+
+type ExnValidationError = { field: string; message: string };
+type ExnValidationResult = { ok: true } | { ok: false; errors: ExnValidationError[] };
+
+/** Why an exn message failed verification against its sender's KEL. */
+type ExnVerificationFailureCode =
+  | 'said-mismatch'
+  | 'embeds-said-mismatch'
+  | 'unknown-sender'
+  | 'sender-mismatch'
+  | 'unknown-establishment-event'
+  | 'no-signatures'
+  | 'signature-invalid'
+  | 'threshold-not-met';
+
+/** The sender key state an exn message verified against. */
+type ExnSignerState = {
+  aid: AID;
+  /** Sequence number and SAID of the establishment event whose keys signed. */
+  s: string;
+  d: SAID;
+  k: PublicKey[];
+  kt: Threshold;
+};
+
+type ExnVerificationResult =
+  | { ok: true; signer: ExnSignerState; validKeyIndices: number[] }
+  | { ok: false; code: ExnVerificationFailureCode; reason: string };
+
+type EstablishmentFields = KELEvent & { k: string[]; kt: Threshold };
+
+function isEstablishment(event: KELEvent): event is EstablishmentFields {
+  return event.t === 'icp' || event.t === 'rot' || event.t === 'dip' || event.t === 'drt';
+}
+
+function fail(code: ExnVerificationFailureCode, reason: string): ExnVerificationResult {
+  return { ok: false, code, reason };
+}
+
+function latestEstablishment(kel: CESREvent[]): EstablishmentFields | undefined {
+  for (let i = kel.length - 1; i >= 0; i--) {
+    const event = kel[i]!.event;
+    if (isEstablishment(event)) return event;
+  }
+  return undefined;
+}
+
+/**
+ * Seal (i, s, d) of the sender's latest establishment event, as carried by
+ * transferable signature groups. Undefined for a KEL without one.
+ */
+function senderSeal(kel: CESREvent[]): CesrSeal | undefined {
+  const est = latestEstablishment(kel);
+  return est ? { i: est.i, s: est.s, d: est.d } : undefined;
+}
+
+/**
+ * Validate an exn message's structure, its route payload and embed labels
+ * (for routes listed in ExnRoutes), and the SAIDs of the message and `e`.
+ */
+function validateExn(exn: ExnMessage): ExnValidationResult {
+  // CESR format validators are not registered in core; see TELOps.validateEvent.
+  const typeboxErrors = [...Value.Errors(ExnMessageSchema, exn)].filter((e) => !e.message.startsWith('Unknown format'));
+  if (typeboxErrors.length > 0) {
+    return {
+      ok: false,
+      errors: typeboxErrors.map((err) => ({ field: err.path.replace(/^\//, '') || err.path, message: err.message })),
+    };
+  }
+
+  const errors: ExnValidationError[] = [];
+  const spec = (ExnRoutes as Record<string, ExnRouteSpec>)[exn.r];
+  if (spec) {
+    for (const err of Value.Errors(spec.payload, exn.a)) {
+      if (err.message.startsWith('Unknown format')) continue;
+      errors.push({ field: `a${err.path}`, message: err.message });
+    }
+    for (const label of spec.embeds) {
+      if (!(label in exn.e)) errors.push({ field: `e/${label}`, message: `route ${exn.r} requires embed '${label}'` });
+    }
+  }
+
+  if (!recomputeSaid(exn, EXN_SURFACE).matches) {
+    errors.push({ field: 'd', message: 'SAID does not match message content' });
+  }
+  const embedsSurface = EXNMessages.embedsSurfaceOf(exn.e);
+  if (embedsSurface && !recomputeSaid(exn.e, embedsSurface, 'JSON').matches) {
+    errors.push({ field: 'e/d', message: 'embeds SAID does not match embedded content' });
+  }
+
+  return errors.length === 0 ? { ok: true } : { ok: false, errors };
+}
+
+/**
+ * Signs an exn envelope with a specific Signer at a specific key index.
+ *
+ * Without a seal the signature is attached as a controller indexed signature
+ * (-A), like signCesrEventWithSigner. With the sender's establishment seal it
+ * is added to the transferable signature group (-F) for that seal, creating
+ * the group if needed — the form keripy expects from transferable senders.
+ *
+ * @param env - The exn envelope to sign
+ * @param signer - The Signer instance to use for signing
+ * @param options - keyIndex (default 0) and optional establishment seal
+ * @returns Updated envelope with the signature attached
+ */
+async function signExnWithSigner(
+  env: ExnEnvelope,
+  signer: Signer,
+  options: { keyIndex?: number; seal?: CesrSeal } = {},
+): Promise<ExnEnvelope> {
+  const sig = await signer.signBytes(EXNMessages.encodeExnBytes(env.exn, env.enc));
+  return { ...env, attachments: attachSignature(env.attachments, sig, { ...options, signerAid: env.exn.i as AID }) };
+}
+
+/**
+ * Verify an exn envelope against the sender's KEL.
+ *
+ * Checks the message and embeds SAIDs, then resolves the signing key state:
+ * transferable signature groups (-F) name the establishment event by seal,
+ * which must be in the sender's KEL; other signatures, such as plain indexed
+ * signatures (-A), verify against the latest establishment event. Every
+ * signature must be the sender's and verify, and the valid signatures must
+ * satisfy the establishment event's `kt`.
+ *
+ * @param env - The signed exn envelope
+ * @param senderKel - The sender's KEL (already validated)
+ */
+function verifyExn(env: ExnEnvelope, senderKel: CESREvent[]): ExnVerificationResult {
+  const exn = env.exn;
+
+  const said = recomputeSaid(exn, EXN_SURFACE);
+  if (!said.matches) {
+    return fail('said-mismatch', `SAID mismatch: declared ${said.declared}, recomputed ${said.recomputed}`);
+  }
+  const embedsSurface = EXNMessages.embedsSurfaceOf(exn.e);
+  if (embedsSurface && !recomputeSaid(exn.e, embedsSurface, 'JSON').matches) {
+    return fail('embeds-said-mismatch', 'Embeds SAID does not match embedded content');
+  }
+
+  const aid = senderKel[0]?.event.i;
+  if (aid === undefined) return fail('unknown-sender', `No KEL for sender ${exn.i}`);
+  if (aid !== exn.i) return fail('sender-mismatch', `KEL for ${aid} does not belong to sender ${exn.i}`);
+
+  const groups = env.attachments.filter((a): a is Extract<CesrAttachment, { kind: 'tsg' }> => a.kind === 'tsg');
+  let est: EstablishmentFields | undefined;
+
+  if (groups.length > 0) {
+    const seal = groups[0]!.seal;
+    if (groups.some((g) => g.seal.i !== seal.i || g.seal.s !== seal.s || g.seal.d !== seal.d)) {
+      return fail('unknown-establishment-event', 'Signature groups reference different establishment events');
+    }
+    if (seal.i !== exn.i) return fail('sender-mismatch', `Signature group for ${seal.i} does not belong to ${exn.i}`);
+    const sealed = senderKel.find((e) => e.event.s === seal.s && e.event.d === seal.d)?.event;
+    if (!sealed || !isEstablishment(sealed)) {
+      return fail('unknown-establishment-event', `No establishment event ${seal.d} at sequence ${seal.s}`);
+    }
+    est = sealed;
+  } else {
+    est = latestEstablishment(senderKel);
+    if (!est) return fail('unknown-establishment-event', `KEL for ${aid} has no establishment event`);
+  }
+
+  const keys = est.k as PublicKey[];
+  const verified = verifyAttachedSignatures(
+    EXNMessages.encodeExnBytes(exn, env.enc),
+    groups.length > 0 ? groups : env.attachments,
+    { aid: exn.i as AID, keys, threshold: est.kt },
+  );
+  if (!verified.ok)
+    return fail(verified.code === 'signer-mismatch' ? 'sender-mismatch' : verified.code, verified.reason);
+
+  return {
+    ok: true,
+    signer: { aid: aid as AID, s: est.s, d: est.d as SAID, k: keys, kt: est.kt },
+    validKeyIndices: verified.validKeyIndices,
+  };
+}
+
+export type {
+  ExnSignerState,
+  ExnValidationError,
+  ExnValidationResult,
+  ExnVerificationFailureCode,
+  ExnVerificationResult,
+};
+
+export const EXNOps = {
+  senderSeal,
+  validateExn,
+  signExnWithSigner,
+  verifyExn,
+} as const;
@@ -0,0 +1,74 @@
+import { type Static, type TSchema, Type } from '@sinclair/typebox';
+import { CesrAidSchema, CesrDigestSchema, NonEmpty, VersionSchema } from '../common/types.js';
+import { CesrAttachmentSchema } from '../kel/types.js';
+
+// ── EXN Message (Peer-to-peer Exchange) ─────────────────────────────
+// Keripy canonical order: ['v', 't', 'd', 'i', 'rp', 'p', 'dt', 'r', 'q', 'a', 'e']
+// `rp` and `p` are empty strings when there is no recipient / prior message.
+export const ExnMessageSchema = Type.Object(
+  {
+    v: VersionSchema,
+    t: Type.Literal('exn'),
+    d: CesrDigestSchema,
+    i: CesrAidSchema,
+    rp: Type.String({ title: 'Recipient AID', description: 'Recipient AID, or empty for broadcast' }),
+    p: Type.String({ title: 'Prior Message SAID', description: 'SAID of the exn this one responds to, or empty' }),
+    dt: NonEmpty('Datetime', 'ISO-8601 datetime of the message, e.g. 2021-01-01T00:00:00.000000+00:00'),
+    r: Type.String({ pattern: '^/', title: 'Route', description: 'Resource route, e.g. /multisig/icp' }),
+    q: Type.Record(Type.String(), Type.Unknown(), { title: 'Modifiers' }),
+    a: Type.Record(Type.String(), Type.Unknown(), { title: 'Attributes (route payload)' }),
+    e: Type.Record(Type.String(), Type.Unknown(), {
+      title: 'Embeds',
+      description: 'Embedded messages by label, SAIDified with a trailing `d` field when non-empty',
+    }),
+  },
+  { additionalProperties: false },
+);
+export type ExnMessage = Static<typeof ExnMessageSchema>;
+
+/** An exn message before its SAID and size are computed: `d` is empty and `v` has a placeholder size. */
+export type UnsignedExnMessage = ExnMessage;
+
+/** An exn message with its CESR attachments, as exchanged between peers. */
+export const ExnEnvelopeSchema = Type.Object(
+  {
+    exn: ExnMessageSchema,
+    attachments: Type.Array(CesrAttachmentSchema, { default: [] }),
+    enc: Type.Union([Type.Literal('JSON'), Type.Literal('CBOR'), Type.Literal('MGPK')], { default: 'JSON' }),
+  },
+  { additionalProperties: false, title: 'EXN Envelope' },
+);
+export type ExnEnvelope = Static<typeof ExnEnvelopeSchema>;
+
+// ── Routes ──────────────────────────────────────────────────────────
+// Payload (`a`) and embed labels (`e`) per keripy route handler.
+
+const GroupMembersPayload = Type.Object({
+  gid: CesrAidSchema,
+  smids: Type.Array(CesrAidSchema),
+  rmids: Type.Array(CesrAidSchema),
+});
+
+const IpexPayload = Type.Object({ m: Type.String({ title: 'Human-readable message' }) });
+
+export interface ExnRouteSpec {
+  /** Schema for the `a` section. Additional properties are allowed. */
+  payload: TSchema;
+  /** Embed labels that must be present in `e`. */
+  embeds: readonly string[];
+}
+
+export const ExnRoutes = {
+  '/multisig/icp': { payload: GroupMembersPayload, embeds: ['icp'] },
+  '/multisig/rot': { payload: GroupMembersPayload, embeds: ['rot'] },
+  '/multisig/ixn': { payload: GroupMembersPayload, embeds: ['ixn'] },
+  '/multisig/vcp': { payload: Type.Object({ gid: CesrAidSchema }), embeds: ['vcp', 'anc'] },
+  '/multisig/iss': { payload: Type.Object({ gid: CesrAidSchema }), embeds: ['acdc', 'iss', 'anc'] },
+  '/ipex/apply': { payload: IpexPayload, embeds: [] },
+  '/ipex/offer': { payload: IpexPayload, embeds: ['acdc'] },
+  '/ipex/agree': { payload: IpexPayload, embeds: [] },
+  '/ipex/grant': { payload: IpexPayload, embeds: ['acdc', 'iss', 'anc'] },
+  '/ipex/admit': { payload: IpexPayload, embeds: [] },
+  '/ipex/spurn': { payload: IpexPayload, embeds: [] },
+} as const satisfies Record<string, ExnRouteSpec>;
+export type ExnRoute = keyof typeof ExnRoutes;
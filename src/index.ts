@@ -8,12 +8,22 @@
 //
 // Flat re-exports are provided for convenience and backwards compatibility.
 
-export type { SaidValidationResult } from './acdc/index.js';
+export type { DisclosureResult, RulesResult, SaidValidationResult } from './acdc/index.js';
 // ── ACDC types and ops ───────────────────────────────────────────────
-export { ACDCData, ACDCOps, Acdc } from './acdc/index.js';
+export { ACDCChain, ACDCData, ACDCOps, Acdc } from './acdc/index.js';
 export type {
+  ACDCAttributeBlock,
   ACDCCredential,
+  ACDCEdge,
+  ACDCEdgeGroup,
+  ACDCEdgeGroupOperator,
+  ACDCEdgeOperator,
   ACDCProof,
+  ACDCRuleBlock,
+  CompactACDCCredential,
+  CredentialChainError,
+  CredentialChainHop,
+  CredentialChainSource,
   CredentialJudgment,
   CredentialPolicy,
   CredentialStatus,
@@ -25,9 +35,14 @@ export type {
   CESRDecoded,
 } from './cesr/digest.js';
 export {
+  computeDigest,
   decode,
   decodeDigest,
+  digestAlgoOf,
+  digestCode,
+  digestCodesOf,
   digestVerfer,
+  digestVerferQb64,
   encode,
   encodeDigest,
   getCodeMeta,
@@ -45,7 +60,10 @@ export {
   decodeSig as decodeSignature,
   encodeSig as encodeSignature,
 } from './cesr/sigs.js';
+export type { CesrMessage, SerializeCesrStreamOptions } from './cesr/stream.js';
+export { parseCesrMessages, parseCesrStream, serializeCesrStream } from './cesr/stream.js';
 export type {
+  DigestAlgo,
   EncodedKey,
   EncodedSig,
   KeyAlgo,
@@ -63,6 +81,20 @@ export type { DerivationSurface } from './common/derivation-surface.js';
 export { deriveSaid, recomputeSaid, serializeForSigning } from './common/derivation-surface.js';
 export * from './common/errors.js';
 export { transferableKeyToPublicKey } from './common/key-conversions.js';
+export type { SequenceEncoding } from './common/sequence-number.js';
+export {
+  detectSequenceEncoding,
+  formatSequenceNumber,
+  isSequenceNumber,
+  nextSequenceNumber,
+  parseSequenceNumber,
+  SEQUENCE_NUMBER_PATTERN,
+  toHexSequenceNumber,
+} from './common/sequence-number.js';
+export type { SerializationKind } from './common/serialization-kind.js';
+export { SERIALIZATION_KINDS, serializeKind, versionStringKind } from './common/serialization-kind.js';
+export { serializeCbor } from './common/serialize-cbor.js';
+export { serializeMsgpack } from './common/serialize-msgpack.js';
 export * from './common/types.js';
 export type {
   EncryptedEnvelope,
@@ -98,6 +130,80 @@ export {
   recoveryPublicKeyAt,
 } from './crypto/recovery-schedule.js';
 export { deriveSharedSecret, ed25519ToX25519Private, ed25519ToX25519Public } from './crypto/x25519.js';
+// ── EXN exchange messages ───────────────────────────────────────────
+export type {
+  ExnEmbed,
+  ExnEnvelope,
+  ExnMessage,
+  ExnParams,
+  ExnRoute,
+  ExnRouteSpec,
+  ExnSignerState,
+  ExnValidationError,
+  ExnValidationResult,
+  ExnVerificationFailureCode,
+  ExnVerificationResult,
+  FinalizedExnResult,
+} from './exn/index.js';
+export { EXNMessages, EXNOps, Exn, ExnEnvelopeSchema, ExnMessageSchema, ExnRoutes } from './exn/index.js';
+// ── IPEX credential exchange ────────────────────────────────────────
+export type {
+  IpexApplyParams,
+  IpexConversation,
+  IpexFailureCode,
+  IpexGrantArtifacts,
+  IpexGrantParams,
+  IpexGrantResult,
+  IpexMessageParams,
+  IpexOfferParams,
+  IpexResult,
+  IpexRole,
+  IpexStage,
+  IpexVerb,
+} from './ipex/index.js';
+export { IPEXMessages, IPEXOps, Ipex } from './ipex/index.js';
+// ── KEL checkpoints ─────────────────────────────────────────────────
+export type {
+  KelCheckpointFailureCode,
+  KelCheckpointOptions,
+  KelCheckpointResult,
+  KelCheckpointSignatureFailureCode,
+  KelCheckpointSignatureResult,
+  KelCheckpointVerificationResult,
+} from './kel/checkpoint.js';
+export {
+  checkpointKeyState,
+  createKelCheckpoint,
+  signKelCheckpoint,
+  verifyKelCheckpoint,
+  verifyKelCheckpointSignatures,
+} from './kel/checkpoint.js';
+// ── KEL delegation approval ──────────────────────────────────────────
+export type {
+  DelegationApprovalErrorCode,
+  DelegationApprovalOptions,
+  DelegationApprovalResult,
+  DelegationApprovalStep,
+} from './kel/delegation.js';
+export { verifyDelegationApproval } from './kel/delegation.js';
+// ── KEL escrow ───────────────────────────────────────────────────────
+export type {
+  EscrowEntry,
+  EscrowOptions,
+  EscrowReason,
+  EscrowRejection,
+  EscrowStep,
+  EscrowTimeouts,
+  KelEscrow,
+  PendingAttachments,
+} from './kel/escrow.js';
+export {
+  createKelEscrow,
+  DEFAULT_ESCROW_TIMEOUTS,
+  escrowAttachments,
+  escrowEvent,
+  reprocessEscrow,
+} from './kel/escrow.js';
 // ── KEL event canonicalization ────────────────────────────────────────
 export { canonicalizeEvent } from './kel/event-crypto.js';
 export { encodeEventBytes } from './kel/event-signing.js';
@@ -119,19 +225,28 @@ export type {
   AnySeal,
   CESREvent,
   CesrAttachment,
+  CesrAttachmentGroup,
   CesrSeal,
   ControllerSignatureValidationError,
   CurrentKeySet,
   DigestSeal,
   DipEvent,
   DrtEvent,
+  DuplicitousEvent,
+  DuplicityRecord,
   EstablishmentEvent,
   EventRef,
+  FirstSeenKel,
+  FirstSeenOptions,
+  FirstSeenRejection,
   IcpEvent,
+  IndexedSignature,
   IxnEvent,
   KELEvent,
   KELView,
   KelAppend,
+  KelCheckpoint,
+  KelCheckpointEnvelope,
   KeyIndex,
   KeyStateError,
   KeyStateResult,
@@ -142,6 +257,7 @@ export type {
   PublishedResource,
   PublishFormat,
   RotEvent,
+  SourceSeal,
   ValidateAppendResult,
   ValidateControllerSignatureResult,
   VerifiedKeyState,
@@ -152,26 +268,38 @@ export {
   AidManifestSchema,
   AnySealSchema,
   CESREventSchema,
+  CesrAttachment_FirstSeen,
+  CesrAttachment_LastSignatureGroup,
+  CesrAttachment_PathedMaterial,
+  CesrAttachment_SadPathSignature,
+  CesrAttachment_SadPathSignatureGroup,
+  CesrAttachment_SealSource,
   CesrAttachment_Signature,
+  CesrAttachment_TransSignatureGroup,
   CesrAttachment_ValidatorReceipt,
   CesrAttachment_WitnessReceipt,
+  CesrAttachment_WitnessSignature,
+  CesrAttachmentGroupSchema,
   CesrAttachmentSchema,
   CesrSealSchema,
   DigestSealSchema,
   DipEventSchema,
   DrtEventSchema,
   IcpEventSchema,
+  IndexedSignatureSchema,
   IxnEventSchema,
   KELEventSchema,
   KELOps,
   Kel,
   KelAppendSchema,
   KelAppends,
+  KelCheckpointSchema,
   KeyIndexSchema,
   KSNSchema,
   KSNs,
   PublishedResourceSchema,
   RotEventSchema,
+  SourceSealSchema,
 } from './kel/index.js';
 // ── KEL event factories ─────────────────────────────────────────────
 export { KELData } from './kel/kel-data.js';
@@ -184,6 +312,9 @@ export type {
   ValidateInceptionSignRequestResult,
 } from './kel/msig-sign-validation.js';
 export { validateInceptionSignRequest } from './kel/msig-sign-validation.js';
+// ── KEL partial rotation ────────────────────────────────────────────
+export type { PartialRotationInput, PartialRotationPlan } from './kel/rotation.js';
+export { planPartialRotation } from './kel/rotation.js';
 export { assessTelKelAnchor, assessTelKelAnchors, type TelKelAnchorResult } from './kel/tel-kel-anchor.js';
 export type {
   ThresholdCheckResult,
@@ -221,7 +352,23 @@ export {
   validateSignedIcp,
 } from './kel/validation.js';
 // ── KEL validation predicates ────────────────────────────────────────
-export { eventContainsAnchorForSaid, verifyWitnessReceipt } from './kel/validation-predicates.js';
+export type { DelegationAnchorLocation } from './kel/validation-predicates.js';
+export {
+  eventContainsAnchorForSaid,
+  findDelegationAnchor,
+  sealedSaids,
+  sealsDelegatedEvent,
+  verifyWitnessReceipt,
+} from './kel/validation-predicates.js';
+// ── KEL comparison across remotes ───────────────────────────────────
+export type {
+  KelComparisonOptions,
+  KelComparisonResult,
+  KelSource,
+  KelSourceEvidence,
+  KelSourceStatus,
+} from './kel/watcher.js';
+export { compareKels } from './kel/watcher.js';
 // ── Canonical URL paths ──────────────────────────────────────────────
 export { CanonicalPaths, KERI_PREFIX } from './keri/canonical-paths.js';
 // ── Profile alias ────────────────────────────────────────────────────
@@ -231,6 +378,20 @@ export {
   normalizeDisplayNameToProfileUsername,
   profileUsernameFromDisplayName,
 } from './keri/profile-username.js';
+// ── OOBI parsing and resolution ─────────────────────────────────────
+export type {
+  EndRoleRecord,
+  LocSchemeRecord,
+  OobiEndpoints,
+  OobiParseError,
+  OobiResolution,
+  OobiResolutionError,
+  OobiResolutionStep,
+  OobiResponse,
+  ParsedOobi,
+  RejectedReply,
+} from './oobi/index.js';
+export { OOBIOps, OOBIUrls, Oobi } from './oobi/index.js';
 // ── Policy types ────────────────────────────────────────────────────
 export * from './policy/index.js';
 // ── Remote publishing contracts ──────────────────────────────────────
@@ -238,6 +399,47 @@ export * from './remote/index.js';
 // ── Result type ──────────────────────────────────────────────────────
 export type { Result } from './result.js';
 export { err, ok } from './result.js';
+// ── QRY / RPY routed messages ───────────────────────────────────────
+export type {
+  EndpointRole,
+  EndpointScheme,
+  EndRoleParams,
+  FinalizedQryResult,
+  FinalizedRpyResult,
+  KsnQueryParams,
+  KsnReplyParams,
+  LocSchemeParams,
+  LogsQueryParams,
+  QryEnvelope,
+  QryMessage,
+  QryParams,
+  QryRoute,
+  QryRouteSpec,
+  RoutedSignOptions,
+  RoutedValidationError,
+  RoutedValidationResult,
+  RoutedVerificationFailureCode,
+  RoutedVerificationResult,
+  RpyEnvelope,
+  RpyMessage,
+  RpyParams,
+  RpyRoute,
+  RpyRouteSpec,
+} from './routing/index.js';
+export {
+  EndpointRoleSchema,
+  EndpointSchemeSchema,
+  QRYMessages,
+  QryEnvelopeSchema,
+  QryMessageSchema,
+  QryRoutes,
+  Routing,
+  RoutingOps,
+  RPYMessages,
+  RpyEnvelopeSchema,
+  RpyMessageSchema,
+  RpyRoutes,
+} from './routing/index.js';
 export { Said } from './said/index.js';
 export { nextKeyDigestQb64FromPublicKeyQb64 } from './said/next-key-digest.js';
 export {
@@ -248,6 +450,8 @@ export {
   ACDC_CREDENTIAL_SURFACE,
   ACDC_SCHEMA_SURFACE,
   buildACDCCredentialSurface,
+  buildACDCSectionSurface,
+  KEL_CHECKPOINT_SURFACE,
   KEL_DIP_SURFACE,
   KEL_DRT_SURFACE,
   KEL_ICP_SURFACE,
@@ -262,7 +466,8 @@ export {
   TEL_VRT_SURFACE,
 } from './said/surfaces.js';
 // ── Schema types and ops ─────────────────────────────────────────────
-export { Schema, SchemaData, SchemaOps } from './schema/index.js';
+export { Schema, SchemaData, SchemaOps, SchemaResolver } from './schema/index.js';
+export type { ResolvedSchema, SchemaLoader, SchemaResolutionError } from './schema/resolver.js';
 export type {
   ACDCSchema,
   FlatField,
@@ -291,6 +496,12 @@ export {
   sign,
   verify,
 } from './signature/primitives.js';
+export {
+  type BackerReceiptResult,
+  type BackerState,
+  type BackerStatesResult,
+  TELBackers,
+} from './tel/backers.js';
 export type {
   BisParams,
   BrvParams,
@@ -304,17 +515,28 @@ export type {
 export { TELData, TELEvents, TELOps, Tel } from './tel/index.js';
 export type { TelValidationError, TelValidationResult } from './tel/ops.js';
 export type {
+  BackerReceipt,
   BisEvent,
   BrvEvent,
   EstablishmentTelEvent,
   IssEvent,
   RevEvent,
   RSN,
+  TelCESREvent,
   TelEvent,
   VcpEvent,
   VrtEvent,
 } from './tel/types.js';
-export { BisEventSchema, IssEventSchema } from './tel/types.js';
+export { BisEventSchema, IssEventSchema, TelCESREventSchema } from './tel/types.js';
+// ── TEL verification against the issuer KEL ──────────────────────────
+export {
+  type TelCredentialVerdict,
+  type TelEventAnchor,
+  type TelVerificationError,
+  type TelVerificationErrorCode,
+  type TelVerificationResult,
+  verifyTel,
+} from './tel/verifier.js';
 
 // ── Version ──────────────────────────────────────────────────────────
 export * from './version.js';
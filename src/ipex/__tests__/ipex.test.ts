@@ -0,0 +1,245 @@
+import { describe, expect, test } from 'bun:test';
+import { ACDCData } from '../../acdc/acdc-data.js';
+import type { ACDCCredential } from '../../acdc/types.js';
+import { digestVerfer } from '../../cesr/digest.js';
+import type { AID, SAID } from '../../common/types.js';
+import { KeriKeyPairs } from '../../crypto/index.js';
+import { canonicalizeEvent } from '../../kel/event-crypto.js';
+import { KELEvents } from '../../kel/events.js';
+import type { CESREvent, KELEvent } from '../../kel/types.js';
+import { Signers } from '../../signature/signers.js';
+import { TELEvents } from '../../tel/events.js';
+import type { IssEvent } from '../../tel/types.js';
+import { IPEXMessages } from '../messages.js';
+import { IPEXOps } from '../ops.js';
+import type { IpexConversation } from '../types.js';
+
+// ── Fixtures ────────────────────────────────────────────────────────
+const KEY1 = KeriKeyPairs.fromSeedNumber(1);
+const KEY2 = KeriKeyPairs.fromSeedNumber(2);
+const DT = '2025-01-15T12:00:00.000000+00:00';
+const ISSUED = '2025-01-15T12:00:00.000Z';
+const HOLDER = 'EHolder000000000000000000000000000000000000' as AID;
+const STRANGER = 'EStranger0000000000000000000000000000000000' as AID;
+const SCHEMA = 'ESchema000000000000000000000000000000000000' as SAID;
+const OTHER_SCHEMA = 'EOtherSchema0000000000000000000000000000000' as SAID;
+const RID = 'ERegistry00000000000000000000000000000000000' as SAID;
+
+async function signed(event: KELEvent): Promise<CESREvent> {
+  const sig = await Signers.fromKeyPair(KEY1).signBytes(canonicalizeEvent(event));
+  return { event, attachments: [{ kind: 'sig', form: 'indexed', keyIndex: 0, sig }], enc: 'JSON' };
+}
+
+/** Issuer icp, a credential issued by it, the ISS and the ixn anchoring the ISS. */
+async function issuance(schema: SAID = SCHEMA) {
+  const { unsignedEvent } = KELEvents.buildIcp({
+    keys: [KEY1.publicKey],
+    nextKeyDigests: [digestVerfer(KEY2.publicKey)],
+  });
+  const icp = KELEvents.finalize(unsignedEvent, true).event;
+  const issuer = icp.i as AID;
+
+  const acdc = ACDCData.create({ i: issuer, ri: RID, s: schema, a: { i: HOLDER, role: 'engineer' } });
+  const iss = TELEvents.computeSaid(
+    TELEvents.buildIss({ credentialSaid: acdc.d as SAID, sequence: '0', registryId: RID, datetime: ISSUED })
+      .unsignedEvent,
+  ).event as IssEvent;
+
+  const ixn = KELEvents.buildIxn({
+    aid: issuer,
+    sequence: '1',
+    priorEventSaid: icp.d as SAID,
+    anchors: [{ i: iss.i, s: iss.s, d: iss.d }],
+  });
+  const anc = await signed(KELEvents.finalize(ixn.unsignedEvent, false).event);
+
+  return { issuer, acdc, iss, anc };
+}
+
+function advanceAll(conversation: IpexConversation, ...messages: { exn: Parameters<typeof IPEXOps.advance>[1] }[]) {
+  return messages.reduce((state, { exn }) => {
+    const result = IPEXOps.advance(state, exn);
+    if (!result.ok) throw new Error(`${result.code}: ${result.reason}`);
+    return result.conversation;
+  }, conversation);
+}
+
+describe('IPEXMessages', () => {
+  test('builds SAID-addressed exn bodies on the /ipex routes', () => {
+    const { exn } = IPEXMessages.apply({ sender: HOLDER, recipient: STRANGER, datetime: DT, schema: SCHEMA });
+
+    expect(exn.r).toBe('/ipex/apply');
+    expect(exn.rp).toBe(STRANGER);
+    expect(exn.p).toBe('');
+    expect(exn.a).toMatchObject({ m: '', s: SCHEMA, a: {} });
+    expect(exn.d).toMatch(/^E/);
+  });
+});
+
+describe('IPEXOps.advance', () => {
+  test('walks apply, offer, agree, grant and admit on both sides', async () => {
+    const { issuer, acdc, iss, anc } = await issuance();
+    const apply = IPEXMessages.apply({ sender: HOLDER, recipient: issuer, datetime: DT, schema: SCHEMA });
+    const offer = IPEXMessages.offer({
+      sender: issuer,
+      recipient: HOLDER,
+      datetime: DT,
+      priorSaid: apply.exn.d as SAID,
+      acdc: ACDCData.compact(acdc),
+    });
+    const agree = IPEXMessages.agree({
+      sender: HOLDER,
+      recipient: issuer,
+      datetime: DT,
+      priorSaid: offer.exn.d as SAID,
+    });
+    const grant = IPEXMessages.grant({
+      sender: issuer,
+      recipient: HOLDER,
+      datetime: DT,
+      priorSaid: agree.exn.d as SAID,
+      acdc,
+      iss,
+      anc,
+    });
+    const admit = IPEXMessages.admit({
+      sender: HOLDER,
+      recipient: issuer,
+      datetime: DT,
+      priorSaid: grant.exn.d as SAID,
+    });
+
+    const holder = advanceAll(IPEXOps.start('holder', HOLDER, issuer), apply, offer, agree, grant, admit);
+    const issuerSide = advanceAll(IPEXOps.start('issuer', issuer, HOLDER), apply, offer, agree, grant, admit);
+
+    expect(holder).toEqual({
+      role: 'holder',
+      self: HOLDER,
+      peer: issuer,
+      stage: 'admitted',
+      messages: [apply, offer, agree, grant, admit].map(({ exn }) => exn.d as SAID),
+      schema: SCHEMA,
+      credential: acdc.d as SAID,
+    });
+    expect(issuerSide.stage).toBe('admitted');
+    expect(IPEXOps.isComplete(holder)).toBe(true);
+  });
+
+  test('rejects messages out of turn, from strangers, or not answering the latest message', async () => {
+    const { issuer } = await issuance();
+    const holder = IPEXOps.start('holder', HOLDER, issuer);
+    const admit = IPEXMessages.admit({ sender: HOLDER, recipient: issuer, datetime: DT });
+    expect(IPEXOps.advance(holder, admit.exn)).toMatchObject({ ok: false, code: 'unexpected-message' });
+
+    const stranger = IPEXMessages.apply({ sender: STRANGER, recipient: HOLDER, datetime: DT, schema: SCHEMA });
+    expect(IPEXOps.advance(holder, stranger.exn)).toMatchObject({ ok: false, code: 'wrong-sender' });
+
+    const applyToStranger = IPEXMessages.apply({ sender: HOLDER, recipient: STRANGER, datetime: DT, schema: SCHEMA });
+    expect(IPEXOps.advance(holder, applyToStranger.exn)).toMatchObject({ ok: false, code: 'wrong-recipient' });
+
+    const apply = IPEXMessages.apply({ sender: HOLDER, recipient: issuer, datetime: DT, schema: SCHEMA });
+    const applied = advanceAll(holder, apply);
+    const agree = IPEXMessages.agree({
+      sender: HOLDER,
+      recipient: issuer,
+      datetime: DT,
+      priorSaid: apply.exn.d as SAID,
+    });
+    expect(IPEXOps.advance(applied, agree.exn)).toMatchObject({ ok: false, code: 'unexpected-message' });
+
+    const unlinked = IPEXMessages.spurn({ sender: issuer, recipient: HOLDER, datetime: DT });
+    expect(IPEXOps.advance(applied, unlinked.exn)).toMatchObject({ ok: false, code: 'prior-mismatch' });
+
+    const spurn = IPEXMessages.spurn({
+      sender: issuer,
+      recipient: HOLDER,
+      datetime: DT,
+      priorSaid: apply.exn.d as SAID,
+    });
+    expect(advanceAll(applied, spurn).stage).toBe('spurned');
+  });
+
+  test('rejects a tampered message and non-IPEX routes', async () => {
+    const { issuer } = await issuance();
+    const holder = IPEXOps.start('holder', HOLDER, issuer);
+    const { exn } = IPEXMessages.apply({ sender: HOLDER, recipient: issuer, datetime: DT, schema: SCHEMA });
+
+    const tampered = { ...exn, a: { ...exn.a, s: OTHER_SCHEMA } };
+    expect(IPEXOps.advance(holder, tampered)).toMatchObject({ ok: false, code: 'invalid-message' });
+    expect(IPEXOps.advance(holder, { ...exn, r: '/multisig/icp' })).toMatchObject({ ok: false, code: 'unknown-route' });
+  });
+
+  test('checks the credential, ISS and anchor a grant embeds', async () => {
+    const { issuer, acdc, iss, anc } = await issuance();
+    const issuerSide = IPEXOps.start('issuer', issuer, HOLDER);
+    const grantOf = (parts: { acdc?: ACDCCredential; iss?: IssEvent; anc?: CESREvent }) =>
+      IPEXMessages.grant({ sender: issuer, recipient: HOLDER, datetime: DT, acdc, iss, anc, ...parts }).exn;
+
+    expect(IPEXOps.advance(issuerSide, grantOf({})).ok).toBe(true);
+
+    const other = await issuance(OTHER_SCHEMA);
+    expect(IPEXOps.advance(issuerSide, grantOf({ iss: other.iss }))).toMatchObject({
+      ok: false,
+      code: 'invalid-artifact',
+      reason: expect.stringContaining('not the granted credential'),
+    });
+
+    const forged = { ...acdc, a: { ...acdc.a, role: 'admin' } } as ACDCCredential;
+    expect(IPEXOps.advance(issuerSide, grantOf({ acdc: forged }))).toMatchObject({
+      ok: false,
+      code: 'invalid-artifact',
+      reason: expect.stringContaining('Credential SAID mismatch'),
+    });
+
+    const { event: icp } = KELEvents.finalize(
+      KELEvents.buildIcp({ keys: [KEY1.publicKey], nextKeyDigests: [digestVerfer(KEY2.publicKey)] }).unsignedEvent,
+      true,
+    );
+    expect(IPEXOps.advance(issuerSide, grantOf({ anc: await signed(icp) }))).toMatchObject({
+      ok: false,
+      code: 'invalid-artifact',
+      reason: expect.stringContaining('does not seal'),
+    });
+  });
+
+  test('a grant must carry the credential offered, of the schema applied for', async () => {
+    const { issuer, acdc, iss, anc } = await issuance();
+    const other = await issuance(OTHER_SCHEMA);
+    const apply = IPEXMessages.apply({ sender: HOLDER, recipient: issuer, datetime: DT, schema: OTHER_SCHEMA });
+    const offer = IPEXMessages.offer({
+      sender: issuer,
+      recipient: HOLDER,
+      datetime: DT,
+      priorSaid: apply.exn.d as SAID,
+      acdc: other.acdc,
+    });
+    const agree = IPEXMessages.agree({
+      sender: HOLDER,
+      recipient: issuer,
+      datetime: DT,
+      priorSaid: offer.exn.d as SAID,
+    });
+    const agreed = advanceAll(IPEXOps.start('holder', HOLDER, issuer), apply, offer, agree);
+
+    const grant = IPEXMessages.grant({
+      sender: issuer,
+      recipient: HOLDER,
+      datetime: DT,
+      priorSaid: agree.exn.d as SAID,
+      acdc,
+      iss,
+      anc,
+    });
+    expect(IPEXOps.advance(agreed, grant.exn)).toMatchObject({ ok: false, code: 'credential-mismatch' });
+
+    const wrongOffer = IPEXMessages.offer({
+      sender: issuer,
+      recipient: HOLDER,
+      datetime: DT,
+      priorSaid: apply.exn.d as SAID,
+      acdc,
+    });
+    const applied = advanceAll(IPEXOps.start('holder', HOLDER, issuer), apply);
+    expect(IPEXOps.advance(applied, wrongOffer.exn)).toMatchObject({ ok: false, code: 'schema-mismatch' });
+  });
+});
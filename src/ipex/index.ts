@@ -0,0 +1,13 @@
+import { IPEXMessages } from './messages.js';
+import { IPEXOps } from './ops.js';
+
+export const Ipex = {
+  ...IPEXMessages,
+  ...IPEXOps,
+} as const;
+
+export type { IpexApplyParams, IpexGrantParams, IpexMessageParams, IpexOfferParams } from './messages.js';
+export { IPEXMessages } from './messages.js';
+export type { IpexGrantResult, IpexResult } from './ops.js';
+export { IPEXOps } from './ops.js';
+export * from './types.js';
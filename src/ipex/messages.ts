@@ -0,0 +1,124 @@
+/**
+ * IPEX Messages - Factory functions for the `exn` messages of an IPEX
+ * conversation: `/ipex/apply`, `offer`, `agree`, `grant`, `admit`, `spurn`.
+ *
+ * Each is an exn envelope from EXNMessages.assemble, addressed to the peer
+ * (rp and a.i) and linked to the message it answers through p. Artifacts
+ * travel in e: the credential under `acdc`, its TEL ISS under `iss` and the
+ * issuer KEL event anchoring the ISS under `anc`, as keripy sends them.
+ *
+ * @module ipex/messages
+ */
+
+import type { ACDCCredential, CompactACDCCredential } from '../acdc/types.js';
+import type { SerializationKind } from '../common/serialization-kind.js';
+import type { AID, SAID } from '../common/types.js';
+import { EXNMessages } from '../exn/messages.js';
+import type { ExnEnvelope } from '../exn/types.js';
+import type { CESREvent } from '../kel/types.js';
+import type { IssEvent } from '../tel/types.js';
+import type { IpexVerb } from './types.js';
+
+// ── Param interfaces ────────────────────────────────────────────────
+
+export interface IpexMessageParams {
+  sender: AID;
+  recipient: AID;
+  datetime: string;
+  /** SAID of the message this one answers; omit to open a conversation. */
+  priorSaid?: SAID;
+  /** Human-readable message, carried as a.m. */
+  message?: string;
+  kind?: SerializationKind;
+}
+
+export interface IpexApplyParams extends IpexMessageParams {
+  /** Schema SAID of the credential applied for. */
+  schema: SAID;
+  /** Attribute values the applicant asks for. */
+  attributes?: Record<string, unknown>;
+}
+
+export interface IpexOfferParams extends IpexMessageParams {
+  /** The credential offered, usually in compact form. */
+  acdc: ACDCCredential | CompactACDCCredential;
+}
+
+export interface IpexGrantParams extends IpexMessageParams {
+  acdc: ACDCCredential;
+  /** The TEL ISS event issuing the credential. */
+  iss: IssEvent;
+  /** The signed issuer KEL event whose seal anchors the ISS. */
+  anc: CESREvent;
+}
+
+// ── IPEXMessages namespace ──────────────────────────────────────────
+
+export namespace IPEXMessages {
+  /** The exn route of an IPEX verb. */
+  export function route(verb: IpexVerb): string {
+    return `/ipex/${verb}`;
+  }
+
+  function assemble(
+    verb: IpexVerb,
+    params: IpexMessageParams,
+    extra: Pick<Parameters<typeof EXNMessages.assemble>[0], 'payload' | 'embeds'> = {},
+  ): ExnEnvelope {
+    return EXNMessages.assemble({
+      sender: params.sender,
+      recipient: params.recipient,
+      route: route(verb),
+      payload: { m: params.message ?? '', ...extra.payload },
+      priorSaid: params.priorSaid,
+      datetime: params.datetime,
+      embeds: extra.embeds,
+      kind: params.kind,
+    });
+  }
+
+  /** Disclosee asks for a credential of a schema. */
+  export function apply(params: IpexApplyParams): ExnEnvelope {
+    return assemble('apply', params, { payload: { s: params.schema, a: params.attributes ?? {} } });
+  }
+
+  /** Discloser offers a credential, opening or answering an apply. */
+  export function offer(params: IpexOfferParams): ExnEnvelope {
+    return assemble('offer', params, {
+      embeds: { acdc: { body: params.acdc as unknown as Record<string, unknown> } },
+    });
+  }
+
+  /** Disclosee agrees to an offer. */
+  export function agree(params: IpexMessageParams): ExnEnvelope {
+    return assemble('agree', params);
+  }
+
+  /**
+   * Discloser grants a credential with the artifacts that prove its issuance.
+   * The ISS carries a seal source couple pointing at the anchoring event.
+   */
+  export function grant(params: IpexGrantParams): ExnEnvelope {
+    const anc = params.anc.event;
+    return assemble('grant', params, {
+      embeds: {
+        acdc: { body: params.acdc as unknown as Record<string, unknown> },
+        iss: {
+          body: params.iss as unknown as Record<string, unknown>,
+          attachments: [{ kind: 'src', seal: { s: anc.s, d: anc.d } }],
+        },
+        anc: EXNMessages.embedEvent(params.anc),
+      },
+    });
+  }
+
+  /** Disclosee accepts a grant. */
+  export function admit(params: IpexMessageParams): ExnEnvelope {
+    return assemble('admit', params);
+  }
+
+  /** Either side rejects the latest apply, offer, agree or grant. */
+  export function spurn(params: IpexMessageParams): ExnEnvelope {
+    return assemble('spurn', params);
+  }
+}
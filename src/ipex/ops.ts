@@ -0,0 +1,227 @@
+/**
+ * IPEX conversation state machines.
+ *
+ * A conversation is a value: `start` opens one for either role, and
+ * `advance` folds each exn message into it, sent or received, returning the
+ * next conversation or why the message does not fit. Nothing is stored and
+ * no signatures are checked here; verify each message against its sender's
+ * KEL with EXNOps.verifyExn before advancing.
+ *
+ * @module ipex/ops
+ */
+
+import { ACDCData } from '../acdc/acdc-data.js';
+import { ACDCOps } from '../acdc/ops.js';
+import type { ACDCCredential } from '../acdc/types.js';
+import type { AID, SAID } from '../common/types.js';
+import { EXNOps } from '../exn/ops.js';
+import type { ExnMessage } from '../exn/types.js';
+import { KELOps } from '../kel/ops.js';
+import { assessTelKelAnchor } from '../kel/tel-kel-anchor.js';
+import { isValidKeriEvent } from '../kel/validation.js';
+import { TELEvents } from '../tel/events.js';
+import { TELOps } from '../tel/ops.js';
+import type { IssEvent, TelEvent } from '../tel/types.js';
+import type { IpexConversation, IpexFailureCode, IpexGrantArtifacts, IpexRole, IpexStage, IpexVerb } from './types.js';
+
+type IpexResult = { ok: true; conversation: IpexConversation } | { ok: false; code: IpexFailureCode; reason: string };
+
+type IpexGrantResult =
+  | { ok: true; artifacts: IpexGrantArtifacts }
+  | { ok: false; code: 'invalid-artifact'; reason: string };
+
+/** Who sends each verb, and the stages it may follow. */
+const TRANSITIONS: Record<
+  Exclude<IpexVerb, 'spurn'>,
+  { sender: IpexRole; from: readonly IpexStage[]; to: IpexStage }
+> = {
+  apply: { sender: 'holder', from: ['start'], to: 'applied' },
+  offer: { sender: 'issuer', from: ['start', 'applied'], to: 'offered' },
+  agree: { sender: 'holder', from: ['offered'], to: 'agreed' },
+  grant: { sender: 'issuer', from: ['start', 'agreed'], to: 'granted' },
+  admit: { sender: 'holder', from: ['granted'], to: 'admitted' },
+};
+
+/** Who may spurn at each stage: the recipient of the latest message. */
+const SPURNERS: Partial<Record<IpexStage, IpexRole>> = {
+  applied: 'issuer',
+  offered: 'holder',
+  agreed: 'issuer',
+  granted: 'holder',
+};
+
+const VERBS = new Set<string>(['apply', 'offer', 'agree', 'grant', 'admit', 'spurn']);
+
+function fail(code: IpexFailureCode, reason: string): IpexResult {
+  return { ok: false, code, reason };
+}
+
+function invalidArtifact(reason: string): IpexGrantResult {
+  return { ok: false, code: 'invalid-artifact', reason };
+}
+
+function otherRole(role: IpexRole): IpexRole {
+  return role === 'issuer' ? 'holder' : 'issuer';
+}
+
+/** The IPEX verb of an exn route, or undefined for other routes. */
+function verbOf(route: string): IpexVerb | undefined {
+  const verb = route.startsWith('/ipex/') ? route.slice('/ipex/'.length) : '';
+  return VERBS.has(verb) ? (verb as IpexVerb) : undefined;
+}
+
+/** SAIDs a credential goes by: its own, and that of its compact form. */
+function credentialSaids(acdc: ACDCCredential): string[] {
+  try {
+    return [acdc.d, ACDCData.compact(acdc).d];
+  } catch {
+    return [acdc.d];
+  }
+}
+
+/**
+ * Open a conversation.
+ *
+ * @param role - This party's side: 'issuer' discloses the credential, 'holder' receives it
+ * @param self - This party's AID
+ * @param peer - The other party's AID
+ */
+function start(role: IpexRole, self: AID, peer: AID): IpexConversation {
+  return { role, self, peer, stage: 'start', messages: [] };
+}
+
+/**
+ * Check the artifacts a grant embeds and return them typed:
+ * - acdc: a credential whose SAID verifies
+ * - iss: a TEL ISS event whose SAID verifies, issuing that credential in its registry
+ * - anc: an event of the credential issuer's KEL whose SAID verifies and that seals the ISS
+ *
+ * Signatures on the anchoring event and the issuer KEL itself are not checked.
+ */
+function grantArtifacts(exn: ExnMessage): IpexGrantResult {
+  const { acdc, iss, anc } = exn.e;
+
+  if (!ACDCData.isACDC(acdc)) return invalidArtifact('Grant embeds no credential');
+  const acdcSaid = ACDCOps.validateSaid(acdc);
+  if (!acdcSaid.valid) {
+    return invalidArtifact(`Credential SAID mismatch: claimed ${acdcSaid.actual}, computed ${acdcSaid.expected}`);
+  }
+
+  if (!iss || typeof iss !== 'object' || (iss as TelEvent).t !== 'iss') {
+    return invalidArtifact('Grant embeds no ISS event');
+  }
+  const issEvent = iss as IssEvent;
+  const structural = TELOps.validateEvent(issEvent);
+  if (!structural.ok) {
+    return invalidArtifact(`Invalid ISS event: ${structural.errors.map((e) => `${e.field}: ${e.message}`).join('; ')}`);
+  }
+  if (!TELEvents.recomputeSaid(issEvent).matches) return invalidArtifact('ISS SAID does not match its content');
+  if (issEvent.i !== acdc.d) return invalidArtifact(`ISS issues ${issEvent.i}, not the granted credential ${acdc.d}`);
+  if (acdc.ri !== undefined && issEvent.ri !== acdc.ri) {
+    return invalidArtifact(`ISS is in registry ${issEvent.ri}, credential names ${acdc.ri}`);
+  }
+
+  if (!isValidKeriEvent(anc)) return invalidArtifact('Grant embeds no anchoring KEL event');
+  if (!KELOps.validateEventSaid(anc).valid) return invalidArtifact('Anchoring event SAID does not match its content');
+  if (anc.i !== acdc.i) return invalidArtifact(`Anchoring event is in the KEL of ${anc.i}, not of issuer ${acdc.i}`);
+  if (assessTelKelAnchor([anc], issEvent.d).status !== 'anchored') {
+    return invalidArtifact(`Anchoring event ${anc.d} does not seal ISS ${issEvent.d}`);
+  }
+
+  return { ok: true, artifacts: { acdc, iss: issEvent, anc } };
+}
+
+/**
+ * Fold one IPEX message, sent or received, into a conversation.
+ *
+ * The message must be structurally valid with verifying SAIDs (EXNOps.validateExn),
+ * come from the party whose turn it is, be addressed to the other party, and
+ * name the latest message as its prior (p), or none when opening. An offer
+ * must carry a credential of the schema applied for; a grant must carry valid
+ * artifacts (see grantArtifacts) for the credential offered, if one was.
+ *
+ * @returns The next conversation, or why the message does not fit
+ */
+function advance(conversation: IpexConversation, exn: ExnMessage): IpexResult {
+  const verb = verbOf(exn.r);
+  if (!verb) return fail('unknown-route', `Not an IPEX route: ${exn.r}`);
+
+  const valid = EXNOps.validateExn(exn);
+  if (!valid.ok) {
+    return fail('invalid-message', valid.errors.map((e) => `${e.field}: ${e.message}`).join('; '));
+  }
+
+  const { role, self, peer, stage, messages } = conversation;
+  const senderRole = exn.i === self ? role : exn.i === peer ? otherRole(role) : undefined;
+  if (!senderRole) return fail('wrong-sender', `${exn.i} is not a party to this conversation`);
+  const recipient = exn.i === self ? peer : self;
+  if (exn.rp !== recipient)
+    return fail('wrong-recipient', `Message is addressed to ${exn.rp || 'nobody'}, not ${recipient}`);
+
+  const transition = verb === 'spurn' ? undefined : TRANSITIONS[verb];
+  const expectedSender = transition
+    ? transition.from.includes(stage)
+      ? transition.sender
+      : undefined
+    : SPURNERS[stage];
+  if (!expectedSender) return fail('unexpected-message', `${verb} cannot follow ${stage}`);
+  if (senderRole !== expectedSender) return fail('wrong-sender', `${verb} must come from the ${expectedSender}`);
+
+  const prior = messages[messages.length - 1] ?? '';
+  if (exn.p !== prior) {
+    return fail(
+      'prior-mismatch',
+      prior ? `Message answers ${exn.p || 'nothing'}, not ${prior}` : `Opening message answers ${exn.p}`,
+    );
+  }
+
+  const next: IpexConversation = {
+    ...conversation,
+    stage: transition ? transition.to : 'spurned',
+    messages: [...messages, exn.d as SAID],
+  };
+
+  if (verb === 'apply' && typeof exn.a.s === 'string') next.schema = exn.a.s as SAID;
+
+  if (verb === 'offer') {
+    const acdc = exn.e.acdc;
+    if (!ACDCData.isACDC(acdc)) return fail('invalid-artifact', 'Offer embeds no credential');
+    if (conversation.schema !== undefined && acdc.s !== conversation.schema) {
+      return fail('schema-mismatch', `Offered credential has schema ${acdc.s}, applied for ${conversation.schema}`);
+    }
+    next.credential = acdc.d as SAID;
+  }
+
+  if (verb === 'grant') {
+    const granted = grantArtifacts(exn);
+    if (!granted.ok) return granted;
+    const { acdc } = granted.artifacts;
+    if (conversation.credential !== undefined && !credentialSaids(acdc).includes(conversation.credential)) {
+      return fail(
+        'credential-mismatch',
+        `Granted credential ${acdc.d} is not the one offered, ${conversation.credential}`,
+      );
+    }
+    if (conversation.schema !== undefined && acdc.s !== conversation.schema) {
+      return fail('schema-mismatch', `Granted credential has schema ${acdc.s}, applied for ${conversation.schema}`);
+    }
+    next.credential = acdc.d as SAID;
+  }
+
+  return { ok: true, conversation: next };
+}
+
+/** Whether a conversation has ended, admitted or spurned. */
+function isComplete(conversation: IpexConversation): boolean {
+  return conversation.stage === 'admitted' || conversation.stage === 'spurned';
+}
+
+export type { IpexGrantResult, IpexResult };
+
+export const IPEXOps = {
+  start,
+  advance,
+  grantArtifacts,
+  isComplete,
+  verbOf,
+} as const;
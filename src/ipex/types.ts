@@ -0,0 +1,55 @@
+import type { ACDCCredential } from '../acdc/types.js';
+import type { AID, SAID } from '../common/types.js';
+import type { KELEvent } from '../kel/types.js';
+import type { IssEvent } from '../tel/types.js';
+
+// ── IPEX (Issuance and Presentation EXchange) ───────────────────────
+// A conversation between a discloser, who holds the credential to share,
+// and a disclosee. In an issuance the discloser is the issuer; in a
+// presentation it is the holder presenting to a verifier. Either side may
+// open it: the disclosee with apply, the discloser with offer or grant.
+//
+//   apply ─▶ offer ─▶ agree ─▶ grant ─▶ admit
+//
+// spurn rejects the latest apply, offer, agree or grant.
+
+export type IpexVerb = 'apply' | 'offer' | 'agree' | 'grant' | 'admit' | 'spurn';
+
+/** The two sides of a conversation: 'issuer' discloses, 'holder' receives. */
+export type IpexRole = 'issuer' | 'holder';
+
+/** Where a conversation stands: 'start', or the verb of its latest message. */
+export type IpexStage = 'start' | 'applied' | 'offered' | 'agreed' | 'granted' | 'admitted' | 'spurned';
+
+/** One party's view of an IPEX conversation. */
+export type IpexConversation = {
+  role: IpexRole;
+  self: AID;
+  peer: AID;
+  stage: IpexStage;
+  /** SAIDs of the messages so far; the next message names the last as p. */
+  messages: SAID[];
+  /** Schema the disclosee applied for, if it sent an apply naming one. */
+  schema?: SAID;
+  /** Credential offered or granted, once there is one. */
+  credential?: SAID;
+};
+
+/** The artifacts a grant embeds: the credential, its TEL ISS and the issuer KEL event anchoring the ISS. */
+export type IpexGrantArtifacts = {
+  acdc: ACDCCredential;
+  iss: IssEvent;
+  anc: KELEvent;
+};
+
+/** Why an IPEX message was rejected. */
+export type IpexFailureCode =
+  | 'invalid-message'
+  | 'unknown-route'
+  | 'wrong-sender'
+  | 'wrong-recipient'
+  | 'unexpected-message'
+  | 'prior-mismatch'
+  | 'invalid-artifact'
+  | 'credential-mismatch'
+  | 'schema-mismatch';
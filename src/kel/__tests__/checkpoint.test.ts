@@ -0,0 +1,183 @@
+/**
+ * KEL checkpoints: capture verified state at a sequence number, resume
+ * validation from it, and verify it against the full KEL later.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { digestVerfer } from '../../cesr/digest.js';
+import { decodeKey } from '../../cesr/keys.js';
+import { encodeSig } from '../../cesr/sigs.js';
+import { deriveSaid } from '../../common/derivation-surface.js';
+import type { AID, KeriKeyPair, SAID, Signature } from '../../common/types.js';
+import { KeriKeyPairs } from '../../crypto/index.js';
+import { KEL_CHECKPOINT_SURFACE } from '../../said/surfaces.js';
+import { sign } from '../../signature/primitives.js';
+import { Signers } from '../../signature/signers.js';
+import { canonicalizeEvent } from '../event-crypto.js';
+import { KELEvents } from '../events.js';
+import { KELOps } from '../ops.js';
+import type { CESREvent, KELEvent, KelCheckpoint } from '../types.js';
+import { validateKelChain } from '../validation.js';
+
+const KEYS = [1, 2, 3].map((n) => KeriKeyPairs.fromSeedNumber(n));
+const WITNESS = KeriKeyPairs.fromSeedNumber(9).publicKey.replace(/^D/, 'B');
+const ANCHORS = ['EAnchor0000000000000000000000000000000000001', 'EAnchor0000000000000000000000000000000000002'];
+
+function signed(event: KELEvent, keypair: KeriKeyPair): CESREvent {
+  const sig = encodeSig(sign(canonicalizeEvent(event), decodeKey(keypair.privateKey).raw), true).qb64 as Signature;
+  return { event, attachments: [{ kind: 'sig', form: 'indexed', keyIndex: 0, sig }], enc: 'JSON' };
+}
+
+function ixn(prior: KELEvent, anchors: unknown[] = []): KELEvent {
+  const { unsignedEvent } = KELEvents.buildIxn({
+    aid: prior.i as AID,
+    sequence: KELEvents.nextSequence(prior.s),
+    priorEventSaid: prior.d as SAID,
+    anchors,
+  });
+  return KELEvents.finalize(unsignedEvent, false).event;
+}
+
+/** icp, ixn(anchor 0), ixn(anchor 1), rot, ixn(anchor 0 again). */
+function buildKel(): CESREvent[] {
+  const { unsignedEvent: icpBody } = KELEvents.buildIcp({
+    keys: [KEYS[0]!.publicKey],
+    nextKeyDigests: [digestVerfer(KEYS[1]!.publicKey)],
+    witnesses: [WITNESS],
+    witnessThreshold: '1',
+  });
+  const icp = KELEvents.finalize(icpBody, true).event;
+  const ixn1 = ixn(icp, [{ d: ANCHORS[0] }]);
+  const ixn2 = ixn(ixn1, [{ i: icp.i, s: '0', d: ANCHORS[1] }]);
+  const { unsignedEvent: rotBody } = KELEvents.buildRot({
+    aid: icp.i as AID,
+    sequence: '3',
+    priorEventSaid: ixn2.d as SAID,
+    keys: [KEYS[1]!.publicKey],
+    nextKeyDigests: [digestVerfer(KEYS[2]!.publicKey)],
+    signingThreshold: '1',
+    nextThreshold: '1',
+  });
+  const rot = KELEvents.finalize(rotBody, false).event;
+  const ixn4 = ixn(rot, [{ d: ANCHORS[0] }]);
+
+  return [
+    signed(icp, KEYS[0]!),
+    signed(ixn1, KEYS[0]!),
+    signed(ixn2, KEYS[0]!),
+    signed(rot, KEYS[1]!),
+    signed(ixn4, KEYS[1]!),
+  ];
+}
+
+function checkpointAt(kel: CESREvent[], sequence: number): KelCheckpoint {
+  const result = KELOps.createCheckpoint(kel, { sequence });
+  if (!result.ok) throw new Error(`checkpoint failed: ${result.error.kind}`);
+  return result.checkpoint;
+}
+
+describe('KELOps.createCheckpoint', () => {
+  it('captures key state, witnesses and the anchor index at a sequence number', () => {
+    const kel = buildKel();
+    const checkpoint = checkpointAt(kel, 2);
+
+    expect(checkpoint.d[0]).toBe('E');
+    expect(checkpoint).toMatchObject({
+      i: kel[0]!.event.i,
+      s: '2',
+      ed: kel[2]!.event.d,
+      et: 'ixn',
+      k: [KEYS[0]!.publicKey],
+      n: [digestVerfer(KEYS[1]!.publicKey)],
+      b: [WITNESS],
+      bt: '1',
+      ee: { s: '0', d: kel[0]!.event.d },
+      di: '',
+      a: { [ANCHORS[0]!]: '1', [ANCHORS[1]!]: '2' },
+    });
+    expect(KELOps.checkpointKeyState(checkpoint)).toEqual(
+      (KELOps.extractKeyState(kel.slice(0, 3)) as { keyState: unknown }).keyState,
+    );
+  });
+
+  it('chains from an earlier checkpoint to the same result as from scratch', () => {
+    const kel = buildKel();
+    const first = checkpointAt(kel, 1);
+    const chained = KELOps.createCheckpoint(kel.slice(2), { checkpoint: first });
+
+    expect(chained.ok && chained.checkpoint).toEqual(checkpointAt(kel, 4));
+    expect(chained.ok && chained.checkpoint.a).toEqual({ [ANCHORS[0]!]: '1', [ANCHORS[1]!]: '2' });
+  });
+
+  it('refuses to checkpoint an invalid KEL', () => {
+    const kel = buildKel();
+    const result = KELOps.createCheckpoint([kel[0]!, kel[2]!]);
+    expect(result).toEqual({ ok: false, error: { kind: 'broken-chain', seqNo: 1, reason: 'PREVIOUS_EVENT_MISMATCH' } });
+  });
+});
+
+describe('validateKelChain from a checkpoint', () => {
+  it('validates only the events after the checkpoint', () => {
+    const kel = buildKel();
+    const checkpoint = checkpointAt(kel, 2);
+
+    const result = validateKelChain(kel.slice(3), { checkpoint });
+    expect(result.firstError).toBeUndefined();
+    expect(result.eventDetails[0]!.checks.keyChainValid?.passed).toBe(true);
+
+    const keyState = KELOps.extractKeyState(kel.slice(3), { checkpoint });
+    expect(keyState).toEqual(KELOps.extractKeyState(kel));
+  });
+
+  it('rejects a tail that does not continue from the checkpoint', () => {
+    const kel = buildKel();
+    const checkpoint = checkpointAt(kel, 2);
+
+    expect(validateKelChain(kel.slice(4), { checkpoint }).firstError?.code).toBe('PREVIOUS_EVENT_MISMATCH');
+  });
+
+  it('checks rotations against the checkpoint next key commitments', () => {
+    const kel = buildKel();
+    const forged = deriveSaid(
+      { ...checkpointAt(kel, 2), n: [digestVerfer(KEYS[2]!.publicKey)] },
+      KEL_CHECKPOINT_SURFACE,
+    ).sealed;
+
+    expect(validateKelChain(kel.slice(3), { checkpoint: forged }).firstError?.code).toBe('NEXT_KEY_MISMATCH');
+  });
+});
+
+describe('KELOps.verifyCheckpoint', () => {
+  it('accepts a checkpoint re-derived from the full KEL', () => {
+    const kel = buildKel();
+    expect(KELOps.verifyCheckpoint(checkpointAt(kel, 3), kel)).toEqual({ ok: true });
+  });
+
+  it('reports content that no longer matches the SAID', () => {
+    const kel = buildKel();
+    const tampered = { ...checkpointAt(kel, 3), k: [KEYS[2]!.publicKey] };
+    expect(KELOps.verifyCheckpoint(tampered, kel)).toMatchObject({ ok: false, code: 'said-mismatch' });
+  });
+
+  it('reports a well-formed checkpoint that disagrees with the KEL', () => {
+    const kel = buildKel();
+    const forged = deriveSaid({ ...checkpointAt(kel, 3), b: [] }, KEL_CHECKPOINT_SURFACE).sealed;
+
+    const result = KELOps.verifyCheckpoint(forged, kel);
+    expect(result).toMatchObject({ ok: false, code: 'state-mismatch' });
+    expect(!result.ok && result.reason).toEndWith(' in: b');
+  });
+});
+
+describe('KELOps.signCheckpoint', () => {
+  it('signs with the controller keys and verifies against the controller KEL', async () => {
+    const kel = buildKel();
+    const checkpoint = checkpointAt(kel, 4);
+
+    const env = await KELOps.signCheckpoint({ checkpoint, attachments: [] }, Signers.fromKeyPair(KEYS[1]!));
+    expect(KELOps.verifyCheckpointSignatures(env, kel)).toMatchObject({ ok: true, validKeyIndices: [0] });
+
+    const stale = await KELOps.signCheckpoint({ checkpoint, attachments: [] }, Signers.fromKeyPair(KEYS[0]!));
+    expect(KELOps.verifyCheckpointSignatures(stale, kel)).toMatchObject({ ok: false, code: 'signature-invalid' });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Custodial rotation: the prior next keys authorize a rotation to keys held
+ * by a custodian, and the validation report tells the two signer roles apart.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { digestVerfer } from '../../cesr/digest.js';
+import { decodeKey } from '../../cesr/keys.js';
+import { encodeSig } from '../../cesr/sigs.js';
+import type { AID, KeriKeyPair, SAID, Signature } from '../../common/types.js';
+import { KeriKeyPairs } from '../../crypto/index.js';
+import { sign } from '../../signature/primitives.js';
+import { canonicalizeEvent } from '../event-crypto.js';
+import { KELEvents } from '../events.js';
+import { KELOps } from '../ops.js';
+import type { CESREvent, KELEvent } from '../types.js';
+import { validateKelChain } from '../validation.js';
+
+const USER = [1, 2, 3].map((n) => KeriKeyPairs.fromSeedNumber(n));
+const CUSTODIAN = [4, 5, 6].map((n) => KeriKeyPairs.fromSeedNumber(n));
+
+function signed(event: KELEvent, signers: [number, KeriKeyPair][]): CESREvent {
+  return {
+    event,
+    attachments: signers.map(([keyIndex, keypair]) => ({
+      kind: 'sig' as const,
+      form: 'indexed' as const,
+      keyIndex,
+      sig: encodeSig(sign(canonicalizeEvent(event), decodeKey(keypair.privateKey).raw), true).qb64 as Signature,
+    })),
+    enc: 'JSON',
+  };
+}
+
+function inception(): KELEvent {
+  const { unsignedEvent } = KELEvents.buildIcp({
+    keys: [USER[0]!.publicKey],
+    nextKeyDigests: [digestVerfer(USER[1]!.publicKey)],
+  });
+  return KELEvents.finalize(unsignedEvent, true).event;
+}
+
+/** Rotation authorized by USER[1] to custodian-held signing keys. */
+function custodialRot(prior: KELEvent, keys: KeriKeyPair[], signingThreshold: string | string[][] = '1'): KELEvent {
+  const { unsignedEvent } = KELEvents.buildRot({
+    aid: prior.i as AID,
+    sequence: KELEvents.nextSequence(prior.s),
+    priorEventSaid: prior.d as SAID,
+    rotationKeys: [USER[1]!.publicKey],
+    keys: keys.map((kp) => kp.publicKey),
+    nextKeyDigests: [digestVerfer(USER[2]!.publicKey)],
+    signingThreshold,
+    nextThreshold: '1',
+  });
+  return KELEvents.finalize(unsignedEvent, false).event;
+}
+
+describe('KELEvents.buildRot with rotation keys', () => {
+  it('puts rotation keys first with zero weight', () => {
+    const icp = inception();
+    const rot = custodialRot(icp, CUSTODIAN.slice(0, 3), '2');
+
+    expect(rot.k).toEqual([USER[1]!.publicKey, ...CUSTODIAN.map((kp) => kp.publicKey)]);
+    expect(rot.kt).toEqual([['0/1', '1/2', '1/2', '1/2']]);
+  });
+
+  it('prefixes every clause of a weighted signing threshold', () => {
+    const rot = custodialRot(inception(), CUSTODIAN.slice(0, 2), [
+      ['1/2', '1/2'],
+      ['1/1', '0/1'],
+    ]);
+    expect(rot.kt).toEqual([
+      ['0/1', '1/2', '1/2'],
+      ['0/1', '1/1', '0/1'],
+    ]);
+  });
+
+  it('leaves ordinary rotations unchanged', () => {
+    const icp = inception();
+    const { unsignedEvent } = KELEvents.buildRot({
+      aid: icp.i as AID,
+      sequence: '1',
+      priorEventSaid: icp.d as SAID,
+      keys: [USER[1]!.publicKey],
+      nextKeyDigests: [],
+      signingThreshold: '1',
+      nextThreshold: '0',
+    });
+    expect(unsignedEvent.kt).toBe('1');
+    expect(unsignedEvent.k).toEqual([USER[1]!.publicKey]);
+  });
+});
+
+describe('validateKelChain with custodial rotations', () => {
+  it('reports the rotation signers and current signers separately', () => {
+    const icp = inception();
+    const rot = custodialRot(icp, [CUSTODIAN[0]!]);
+    const { unsignedEvent } = KELEvents.buildIxn({ aid: rot.i as AID, sequence: '2', priorEventSaid: rot.d as SAID });
+    const ixn = KELEvents.finalize(unsignedEvent, false).event;
+
+    const kel = [
+      signed(icp, [[0, USER[0]!]]),
+      signed(rot, [
+        [0, USER[1]!],
+        [1, CUSTODIAN[0]!],
+      ]),
+      // After the rotation the custodian signs alone.
+      signed(ixn, [[1, CUSTODIAN[0]!]]),
+    ];
+
+    const result = validateKelChain(kel);
+    expect(result.firstError).toBeUndefined();
+
+    const checks = result.eventDetails[1]!.checks;
+    expect(checks.thresholdMet).toMatchObject({ passed: true, signers: [1] });
+    expect(checks.priorNextThresholdMet).toMatchObject({ passed: true, signers: [0], required: '1' });
+    expect(checks.signaturesValid.details?.map((d) => d.priorNextIndex)).toEqual([0, undefined]);
+  });
+
+  it('rejects a rotation the custodian signs without the prior next keys', () => {
+    const icp = inception();
+    const rot = custodialRot(icp, [CUSTODIAN[0]!]);
+    const kel = [signed(icp, [[0, USER[0]!]]), signed(rot, [[1, CUSTODIAN[0]!]])];
+
+    const result = validateKelChain(kel);
+    expect(result.firstError?.code).toBe('PRIOR_NEXT_THRESHOLD_NOT_MET');
+    expect(result.eventDetails[1]!.checks.thresholdMet.passed).toBe(true);
+
+    // Still collecting signatures, not a permanent failure.
+    const append = KELOps.validateAppend(kel.slice(0, 1), kel[1]!);
+    expect(append.ok).toBe(false);
+    expect(KELOps.isOnlyPendingSignatureFailures(append.validation)).toBe(true);
+  });
+
+  it('rejects a rotation the prior next keys sign without the custodian', () => {
+    const icp = inception();
+    const rot = custodialRot(icp, [CUSTODIAN[0]!]);
+    const kel = [signed(icp, [[0, USER[0]!]]), signed(rot, [[0, USER[1]!]])];
+
+    const result = validateKelChain(kel);
+    expect(result.firstError?.code).toBe('THRESHOLD_NOT_MET');
+    expect(result.eventDetails[1]!.checks.priorNextThresholdMet?.passed).toBe(true);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Delegation approval: anchors located by seal source couples, nested
+ * delegators, approval order and the DND trait.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { digestVerfer } from '../../cesr/digest.js';
+import { decodeKey } from '../../cesr/keys.js';
+import { encodeSig } from '../../cesr/sigs.js';
+import type { AID, KeriKeyPair, SAID, Signature } from '../../common/types.js';
+import { KeriKeyPairs } from '../../crypto/index.js';
+import { sign } from '../../signature/primitives.js';
+import { verifyDelegationApproval } from '../delegation.js';
+import { canonicalizeEvent } from '../event-crypto.js';
+import { KELEvents } from '../events.js';
+import type { CESREvent, CesrAttachment, KELEvent } from '../types.js';
+import { validateKelChain } from '../validation.js';
+
+const ROOT = KeriKeyPairs.fromSeedNumber(1);
+const MID = KeriKeyPairs.fromSeedNumber(2);
+const LEAF = KeriKeyPairs.fromSeedNumber(3);
+const NEXT = [4, 5, 6].map((n) => KeriKeyPairs.fromSeedNumber(n));
+
+function signed(event: KELEvent, keypair: KeriKeyPair, extra: CesrAttachment[] = []): CESREvent {
+  const sig = encodeSig(sign(canonicalizeEvent(event), decodeKey(keypair.privateKey).raw), true).qb64 as Signature;
+  return { event, attachments: [{ kind: 'sig', form: 'indexed', keyIndex: 0, sig }, ...extra], enc: 'JSON' };
+}
+
+function icp(keypair: KeriKeyPair, config?: string[]): KELEvent {
+  const { unsignedEvent } = KELEvents.buildIcp({
+    keys: [keypair.publicKey],
+    nextKeyDigests: [digestVerfer(NEXT[0]!.publicKey)],
+    config,
+  });
+  return KELEvents.finalize(unsignedEvent, true).event;
+}
+
+function dip(keypair: KeriKeyPair, parentAid: string): KELEvent {
+  const { unsignedEvent } = KELEvents.buildDip({
+    keys: [keypair.publicKey],
+    nextKeyDigests: [digestVerfer(NEXT[1]!.publicKey)],
+    parentAid: parentAid as AID,
+  });
+  return KELEvents.finalize(unsignedEvent, true).event;
+}
+
+function drt(prior: KELEvent): KELEvent {
+  const { unsignedEvent } = KELEvents.buildDrt({
+    aid: prior.i as AID,
+    sequence: KELEvents.nextSequence(prior.s),
+    priorEventSaid: prior.d as SAID,
+    keys: [NEXT[1]!.publicKey],
+    nextKeyDigests: [digestVerfer(NEXT[2]!.publicKey)],
+    signingThreshold: '1',
+    nextThreshold: '1',
+  });
+  return KELEvents.finalize(unsignedEvent, false).event;
+}
+
+/** Delegator ixn sealing the given delegated events. */
+function anchor(prior: KELEvent, ...sealed: KELEvent[]): KELEvent {
+  const { unsignedEvent } = KELEvents.buildIxn({
+    aid: prior.i as AID,
+    sequence: KELEvents.nextSequence(prior.s),
+    priorEventSaid: prior.d as SAID,
+    anchors: sealed.map((e) => ({ i: e.i, s: e.s, d: e.d })),
+  });
+  return KELEvents.finalize(unsignedEvent, false).event;
+}
+
+function source(anchorEvent: KELEvent): CesrAttachment {
+  return { kind: 'src', seal: { s: anchorEvent.s, d: anchorEvent.d } };
+}
+
+/** ROOT delegates MID, which delegates LEAF; every approval carries a source couple. */
+function chain() {
+  const rootIcp = icp(ROOT);
+  const midDip = dip(MID, rootIcp.i);
+  const rootIxn = anchor(rootIcp, midDip);
+  const leafDip = dip(LEAF, midDip.i);
+  const midIxn = anchor(midDip, leafDip);
+
+  const rootKel = [signed(rootIcp, ROOT), signed(rootIxn, ROOT)];
+  const midKel = [signed(midDip, MID, [source(rootIxn)]), signed(midIxn, MID)];
+  const leafKel = [signed(leafDip, LEAF, [source(midIxn)])];
+  return { rootKel, midKel, leafKel, root: rootIcp.i as AID, mid: midDip.i as AID, leaf: leafDip.i as AID };
+}
+
+describe('verifyDelegationApproval', () => {
+  it('reports the approval path through a nested delegator to the root', () => {
+    const { rootKel, midKel, leafKel, root, mid, leaf } = chain();
+
+    const result = verifyDelegationApproval(leafKel, 0, { delegatorKels: { [root]: rootKel, [mid]: midKel } });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.root).toBe(root);
+    expect(result.path).toMatchObject([
+      { delegate: leaf, delegator: mid, anchorSaid: midKel[1]!.event.d, via: 'source-seal', establishmentSequence: 0 },
+      { delegate: mid, delegator: root, anchorSaid: rootKel[1]!.event.d, via: 'source-seal', establishmentSequence: 0 },
+    ]);
+  });
+
+  it('fails when a delegator KEL up the chain is unknown', () => {
+    const { midKel, leafKel, mid, leaf } = chain();
+
+    // Without ROOT's KEL, MID's own dip cannot be validated.
+    const result = verifyDelegationApproval(leafKel, 0, { delegatorKels: { [mid]: midKel } });
+    expect(result).toMatchObject({ ok: false, code: 'delegator-kel-invalid', aid: leaf });
+
+    expect(verifyDelegationApproval(midKel, 0, { delegatorKels: {} })).toMatchObject({
+      ok: false,
+      code: 'delegator-kel-missing',
+      aid: mid,
+    });
+  });
+
+  it('rejects a seal source couple that points at a non-sealing event', () => {
+    const rootIcp = icp(ROOT);
+    const child = dip(MID, rootIcp.i);
+    const rootKel = [signed(rootIcp, ROOT), signed(anchor(rootIcp, child), ROOT)];
+
+    const result = verifyDelegationApproval([signed(child, MID, [source(rootIcp)])], 0, {
+      delegatorKels: { [rootIcp.i]: rootKel },
+    });
+    expect(result).toMatchObject({ ok: false, code: 'source-seal-mismatch' });
+  });
+
+  it('finds an anchor by scanning when no source couple is attached', () => {
+    const rootIcp = icp(ROOT);
+    const child = dip(MID, rootIcp.i);
+    const rootKel = [signed(rootIcp, ROOT), signed(anchor(rootIcp, child), ROOT)];
+
+    const result = verifyDelegationApproval([signed(child, MID)], 0, { delegatorKels: { [rootIcp.i]: rootKel } });
+    expect(result.ok && result.path[0]!.via).toBe('scan');
+
+    const unanchored = verifyDelegationApproval([signed(child, MID)], 0, {
+      delegatorKels: { [rootIcp.i]: rootKel.slice(0, 1) },
+    });
+    expect(unanchored).toMatchObject({ ok: false, code: 'anchor-missing' });
+  });
+
+  it('rejects a delegated rotation anchored before the inception it follows', () => {
+    const rootIcp = icp(ROOT);
+    const child = dip(MID, rootIcp.i);
+    const rotation = drt(child);
+    const early = anchor(rootIcp, rotation);
+    const late = anchor(early, child);
+    const rootKel = [signed(rootIcp, ROOT), signed(early, ROOT), signed(late, ROOT)];
+    const childKel = [signed(child, MID, [source(late)]), signed(rotation, NEXT[1]!, [source(early)])];
+
+    const result = verifyDelegationApproval(childKel, 1, { delegatorKels: { [rootIcp.i]: rootKel } });
+    expect(result).toMatchObject({ ok: false, code: 'anchor-out-of-order' });
+  });
+
+  it('rejects delegation from a DND delegator', () => {
+    const rootIcp = icp(ROOT, ['DND']);
+    const child = dip(MID, rootIcp.i);
+    const rootIxn = anchor(rootIcp, child);
+    const rootKel = [signed(rootIcp, ROOT), signed(rootIxn, ROOT)];
+    const childKel = [signed(child, MID, [source(rootIxn)])];
+
+    const result = verifyDelegationApproval(childKel, 0, { delegatorKels: { [rootIcp.i]: rootKel } });
+    expect(result).toMatchObject({ ok: false, code: 'delegator-do-not-delegate' });
+
+    const validation = validateKelChain(childKel, { parentKel: rootKel });
+    expect(validation.firstError?.code).toBe('CONFIG_TRAIT_VIOLATION');
+  });
+
+  it('is not applicable to non-delegated events', () => {
+    const rootKel = [signed(icp(ROOT), ROOT)];
+    expect(verifyDelegationApproval(rootKel, 0, { delegatorKels: {} })).toMatchObject({
+      ok: false,
+      code: 'not-delegated',
+    });
+  });
+});
+
+describe('validateKelChain with anchor approvals', () => {
+  it('accepts a dip approved by an anchor located through its source couple', () => {
+    const { rootKel, midKel } = chain();
+
+    const result = validateKelChain(midKel, { parentKel: rootKel });
+    expect(result.valid).toBe(true);
+    expect(result.eventDetails[0]!.checks.delegationValid).toMatchObject({
+      passed: true,
+      approval: 'anchor',
+      anchorIndex: 1,
+    });
+  });
+
+  it('reports a misdirected source couple', () => {
+    const { rootKel, midKel } = chain();
+    const misdirected = [{ ...midKel[0]!, attachments: [midKel[0]!.attachments[0]!, source(rootKel[0]!.event)] }];
+
+    const result = validateKelChain(misdirected, { parentKel: rootKel });
+    expect(result.firstError?.code).toBe('DELEGATION_ANCHOR_INVALID');
+    expect(result.eventDetails[0]!.checks.delegationValid?.anchorFailureReason).toBe('source-seal-mismatch');
+  });
+
+  it("rejects an anchor in a KEL that is not the delegator's", () => {
+    const { midKel } = chain();
+    // An impostor KEL holding the same anchor event at the same position.
+    const impostorIcp = icp(NEXT[2]!);
+    const impostorKel = [signed(impostorIcp, NEXT[2]!), signed(anchor(impostorIcp, midKel[0]!.event), NEXT[2]!)];
+    const pointed = [{ ...midKel[0]!, attachments: [midKel[0]!.attachments[0]!, source(impostorKel[1]!.event)] }];
+
+    const result = validateKelChain(pointed, { parentKel: impostorKel });
+    expect(result.firstError?.code).toBe('DELEGATION_ANCHOR_INVALID');
+    expect(result.eventDetails[0]!.checks.delegationValid?.anchorFailureReason).toBe('delegator-mismatch');
+  });
+
+  it('rejects an anchor in a delegator KEL whose events up to it are not validly signed', () => {
+    const { rootKel, midKel } = chain();
+    const forged = [rootKel[0]!, signed(rootKel[1]!.event, NEXT[2]!)];
+
+    const result = validateKelChain(midKel, { parentKel: forged });
+    expect(result.firstError?.code).toBe('DELEGATION_ANCHOR_INVALID');
+    expect(result.eventDetails[0]!.checks.delegationValid?.anchorFailureReason).toBe('delegator-kel-invalid');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * KELs whose SAIDs and next key commitments use digests other than Blake3-256.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { digestVerfer } from '../../cesr/digest.js';
+import { decodeKey } from '../../cesr/keys.js';
+import { encodeSig } from '../../cesr/sigs.js';
+import type { AID, KeriKeyPair, SAID, Signature } from '../../common/types.js';
+import { KeriKeyPairs } from '../../crypto/index.js';
+import { sign } from '../../signature/primitives.js';
+import { canonicalizeEvent } from '../event-crypto.js';
+import { KELEvents } from '../events.js';
+import { KELOps } from '../ops.js';
+import type { CESREvent, KELEvent } from '../types.js';
+import { validateKelChain } from '../validation.js';
+
+const KEYS = [1, 2, 3, 4].map((n) => KeriKeyPairs.fromSeedNumber(n));
+
+function signed(event: KELEvent, keyIndex: number, keypair: KeriKeyPair): CESREvent {
+  const sig = encodeSig(sign(canonicalizeEvent(event), decodeKey(keypair.privateKey).raw), true).qb64 as Signature;
+  return { event, attachments: [{ kind: 'sig', form: 'indexed', keyIndex, sig }], enc: 'JSON' };
+}
+
+function inception(): KELEvent {
+  const { n } = KELOps.buildNextCommitment([KEYS[1]!.publicKey, KEYS[2]!.publicKey], '1', [], 'sha2-256');
+  const { unsignedEvent } = KELEvents.buildIcp({
+    keys: [KEYS[0]!.publicKey],
+    nextKeyDigests: n,
+    nextThreshold: '1',
+  });
+  return KELEvents.finalize(unsignedEvent, true, 'sha3-256').event;
+}
+
+function rotation(prior: KELEvent): KELEvent {
+  const { unsignedEvent } = KELEvents.buildRot({
+    aid: prior.i as AID,
+    sequence: KELEvents.nextSequence(prior.s),
+    priorEventSaid: prior.d as SAID,
+    keys: [KEYS[2]!.publicKey],
+    // Commitments need not share one algorithm.
+    nextKeyDigests: [digestVerfer(KEYS[3]!.publicKey, 'F'), digestVerfer(KEYS[0]!.publicKey, 'E')],
+    signingThreshold: '1',
+    nextThreshold: '1',
+  });
+  return KELEvents.finalize(unsignedEvent, false, 'blake2b-256').event;
+}
+
+describe('KELs with non-Blake3 digests', () => {
+  it('derives SAIDs and prefixes with the chosen digest code', () => {
+    const icp = inception();
+    expect(icp.d[0]).toBe('H');
+    expect(icp.i).toBe(icp.d);
+    expect((icp as { n: string[] }).n.map((d) => d[0])).toEqual(['I', 'I']);
+    expect(rotation(icp).d[0]).toBe('F');
+  });
+
+  it('validates SAIDs and reveals keys against commitments in any digest code', () => {
+    const icp = inception();
+    const rot = rotation(icp);
+    const { unsignedEvent } = KELEvents.buildRot({
+      aid: rot.i as AID,
+      sequence: KELEvents.nextSequence(rot.s),
+      priorEventSaid: rot.d as SAID,
+      keys: [KEYS[3]!.publicKey, KEYS[0]!.publicKey],
+      nextKeyDigests: [digestVerfer(KEYS[1]!.publicKey, 'G')],
+      signingThreshold: '1',
+      nextThreshold: '1',
+    });
+    const rot2 = KELEvents.finalize(unsignedEvent, false, 'blake2s-256').event;
+
+    const kel = [signed(icp, 0, KEYS[0]!), signed(rot, 0, KEYS[2]!), signed(rot2, 0, KEYS[3]!)];
+    const result = validateKelChain(kel);
+
+    expect(result.firstError).toBeUndefined();
+    expect(result.eventDetails[1]!.checks.keyChainValid?.revealed).toEqual([{ kIndex: 0, nIndex: 1 }]);
+    expect(result.eventDetails[2]!.checks.keyChainValid?.revealed).toEqual([
+      { kIndex: 0, nIndex: 0 },
+      { kIndex: 1, nIndex: 1 },
+    ]);
+  });
+
+  it('rejects an event whose content no longer matches its SHA3 SAID', () => {
+    const icp = inception();
+    const tampered = { ...icp, c: ['EO'] } as KELEvent;
+
+    expect(validateKelChain([signed(tampered, 0, KEYS[0]!)]).firstError?.code).toBe('SAID_MISMATCH');
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * First-seen KEL reduction: duplicity detection and recovery rotations.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { digestVerfer } from '../../cesr/digest.js';
+import { decodeKey } from '../../cesr/keys.js';
+import { encodeSig } from '../../cesr/sigs.js';
+import type { AID, KeriKeyPair, SAID } from '../../common/types.js';
+import { KeriKeyPairs } from '../../crypto/index.js';
+import { sign } from '../../signature/primitives.js';
+import { reduceFirstSeen } from '../duplicity.js';
+import { canonicalizeEvent } from '../event-crypto.js';
+import { KELEvents } from '../events.js';
+import { KELOps } from '../ops.js';
+import type { CESREvent, KELEvent } from '../types.js';
+
+const KEY1 = KeriKeyPairs.fromSeedNumber(1); // current
+const KEY2 = KeriKeyPairs.fromSeedNumber(2); // next
+const KEY3 = KeriKeyPairs.fromSeedNumber(3); // next after rotation
+const KEY4 = KeriKeyPairs.fromSeedNumber(4); // unrelated
+
+function signEvent(event: KELEvent, keypair: KeriKeyPair): string {
+  const raw = canonicalizeEvent(event);
+  return encodeSig(sign(raw, decodeKey(keypair.privateKey).raw), true).qb64;
+}
+
+function assemble(unsignedEvent: unknown, isInception: boolean, signer: KeriKeyPair): CESREvent {
+  const { event } = KELEvents.finalize(unsignedEvent, isInception);
+  return KELEvents.assembleSignedEvent({ event, signatures: [{ keyIndex: 0, sig: signEvent(event, signer) }] });
+}
+
+function icp(): CESREvent {
+  const { unsignedEvent } = KELEvents.buildIcp({
+    keys: [KEY1.publicKey],
+    nextKeyDigests: [digestVerfer(KEY2.publicKey)],
+  });
+  return assemble(unsignedEvent, true, KEY1);
+}
+
+function ixn(prior: CESREvent, signer: KeriKeyPair, anchors: unknown[] = []): CESREvent {
+  const { unsignedEvent } = KELEvents.buildIxn({
+    aid: prior.event.i as AID,
+    sequence: KELEvents.nextSequence(prior.event.s),
+    priorEventSaid: prior.event.d as SAID,
+    anchors,
+  });
+  return assemble(unsignedEvent, false, signer);
+}
+
+function rot(prior: CESREvent, signer: KeriKeyPair, next: KeriKeyPair): CESREvent {
+  const { unsignedEvent } = KELEvents.buildRot({
+    aid: prior.event.i as AID,
+    sequence: KELEvents.nextSequence(prior.event.s),
+    priorEventSaid: prior.event.d as SAID,
+    keys: [signer.publicKey],
+    nextKeyDigests: [digestVerfer(next.publicKey)],
+    signingThreshold: '1',
+    nextThreshold: '1',
+  });
+  return assemble(unsignedEvent, false, signer);
+}
+
+const saids = (events: CESREvent[]) => events.map((e) => e.event.d);
+
+describe('reduceFirstSeen', () => {
+  it('accepts a linear KEL with no duplicity', () => {
+    const e0 = icp();
+    const e1 = ixn(e0, KEY1);
+    const e2 = rot(e1, KEY2, KEY3);
+
+    const result = reduceFirstSeen([e0, e1, e2]);
+
+    expect(result.aid).toBe(e0.event.i as AID);
+    expect(saids(result.events)).toEqual(saids([e0, e1, e2]));
+    expect(result.duplicity).toEqual([]);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it('ignores events already seen', () => {
+    const e0 = icp();
+    const e1 = ixn(e0, KEY1);
+
+    const result = reduceFirstSeen([e0, e1, e1, e0]);
+
+    expect(saids(result.events)).toEqual(saids([e0, e1]));
+    expect(result.duplicity).toEqual([]);
+  });
+
+  it('keeps the first-seen interaction and records competing signed interaction as duplicity', () => {
+    const e0 = icp();
+    const a1 = ixn(e0, KEY1, [{ d: 'EAnchorA' }]);
+    const b1 = ixn(e0, KEY1, [{ d: 'EAnchorB' }]);
+
+    const result = reduceFirstSeen([e0, a1, b1]);
+
+    expect(saids(result.events)).toEqual(saids([e0, a1]));
+    expect(result.duplicity).toHaveLength(1);
+    const record = result.duplicity[0]!;
+    expect(record.sequence).toBe(1);
+    expect(record.resolution).toBe('kept-first-seen');
+    expect(record.first.said).toBe(a1.event.d as SAID);
+    expect(record.second.said).toBe(b1.event.d as SAID);
+    expect(record.first.signatures).toHaveLength(1);
+    expect(record.second.signatures).toHaveLength(1);
+    expect(record.superseded).toBeUndefined();
+  });
+
+  it('supersedes interactions after the last establishment event with a recovery rotation', () => {
+    const e0 = icp();
+    const e1 = ixn(e0, KEY1);
+    const e2 = ixn(e1, KEY1);
+    const recovery = rot(e0, KEY2, KEY3);
+
+    const result = reduceFirstSeen([e0, e1, e2, recovery]);
+
+    expect(saids(result.events)).toEqual(saids([e0, recovery]));
+    expect(result.duplicity).toHaveLength(1);
+    const record = result.duplicity[0]!;
+    expect(record.resolution).toBe('superseded-by-recovery');
+    expect(record.sequence).toBe(1);
+    expect(record.first.said).toBe(e1.event.d as SAID);
+    expect(record.second.said).toBe(recovery.event.d as SAID);
+    expect(saids(record.superseded ?? [])).toEqual(saids([e1, e2]));
+  });
+
+  it('does not let a rotation supersede the last establishment event', () => {
+    const e0 = icp();
+    const r1 = rot(e0, KEY2, KEY3);
+    const competing = rot(e0, KEY2, KEY4);
+
+    const result = reduceFirstSeen([e0, r1, competing]);
+
+    expect(saids(result.events)).toEqual(saids([e0, r1]));
+    expect(result.duplicity).toHaveLength(1);
+    expect(result.duplicity[0]!.resolution).toBe('kept-first-seen');
+  });
+
+  it('rejects a competing event with invalid signatures instead of recording duplicity', () => {
+    const e0 = icp();
+    const e1 = ixn(e0, KEY1, [{ d: 'EAnchorA' }]);
+    const forged = ixn(e0, KEY4, [{ d: 'EAnchorB' }]);
+
+    const result = reduceFirstSeen([e0, e1, forged]);
+
+    expect(saids(result.events)).toEqual(saids([e0, e1]));
+    expect(result.duplicity).toEqual([]);
+    expect(result.rejected).toHaveLength(1);
+    expect(result.rejected[0]!.kind).toBe('invalid');
+  });
+
+  it('rejects events that skip ahead of the accepted KEL as out-of-order', () => {
+    const e0 = icp();
+    const e1 = ixn(e0, KEY1);
+    const e2 = ixn(e1, KEY1);
+
+    const result = reduceFirstSeen([e0, e2]);
+
+    expect(saids(result.events)).toEqual(saids([e0]));
+    expect(result.rejected).toEqual([{ kind: 'out-of-order', envelope: e2, expectedSequence: 1 }]);
+  });
+
+  it('rejects events built on a superseded branch', () => {
+    const e0 = icp();
+    const e1 = ixn(e0, KEY1);
+    const recovery = rot(e0, KEY2, KEY3);
+    const stale = ixn(e1, KEY1);
+
+    const result = reduceFirstSeen([e0, e1, recovery, stale]);
+
+    expect(saids(result.events)).toEqual(saids([e0, recovery]));
+    expect(result.rejected).toHaveLength(1);
+    expect(result.rejected[0]!.kind).toBe('invalid');
+  });
+
+  it('is exposed as KELOps.reduceFirstSeen', () => {
+    expect(KELOps.reduceFirstSeen).toBe(reduceFirstSeen);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * KEL event escrow: partially-signed, out-of-order, missing-receipt and
+ * unverified-delegation events.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { digestVerfer } from '../../cesr/digest.js';
+import { decodeKey } from '../../cesr/keys.js';
+import { encodeSig } from '../../cesr/sigs.js';
+import type { SequenceEncoding } from '../../common/sequence-number.js';
+import type { AID, KeriKeyPair, SAID, Signature } from '../../common/types.js';
+import { KeriKeyPairs } from '../../crypto/index.js';
+import { sign } from '../../signature/primitives.js';
+import { createKelEscrow, escrowAttachments, escrowEvent, reprocessEscrow } from '../escrow.js';
+import { canonicalizeEvent } from '../event-crypto.js';
+import { KELEvents } from '../events.js';
+import { KELOps } from '../ops.js';
+import type { CESREvent, CesrAttachment, KELEvent } from '../types.js';
+
+const KEY1 = KeriKeyPairs.fromSeedNumber(1);
+const KEY2 = KeriKeyPairs.fromSeedNumber(2);
+const KEY3 = KeriKeyPairs.fromSeedNumber(3);
+const KEY4 = KeriKeyPairs.fromSeedNumber(4);
+const WIT1 = KeriKeyPairs.fromSeedNumber(100);
+const PARENT1 = KeriKeyPairs.fromSeedNumber(200);
+const PARENT2 = KeriKeyPairs.fromSeedNumber(201);
+
+const T0 = 1_700_000_000_000;
+
+function signEvent(event: KELEvent, keypair: KeriKeyPair): Signature {
+  const raw = canonicalizeEvent(event);
+  return encodeSig(sign(raw, decodeKey(keypair.privateKey).raw), true).qb64 as Signature;
+}
+
+function sig(event: KELEvent, keypair: KeriKeyPair, keyIndex: number): CesrAttachment {
+  return { kind: 'sig', form: 'indexed', keyIndex, sig: signEvent(event, keypair) };
+}
+
+function envelope(event: KELEvent, attachments: CesrAttachment[]): CESREvent {
+  return { event, attachments, enc: 'JSON' };
+}
+
+function icp(keys: KeriKeyPair[] = [KEY1], opts: { witnesses?: KeriKeyPair[]; witnessThreshold?: string } = {}) {
+  const { unsignedEvent } = KELEvents.buildIcp({
+    keys: keys.map((k) => k.publicKey),
+    nextKeyDigests: [digestVerfer(KEY2.publicKey)],
+    signingThreshold: String(keys.length),
+    nextThreshold: '1',
+    witnesses: opts.witnesses?.map((w) => w.publicKey),
+    witnessThreshold: opts.witnessThreshold,
+  });
+  return KELEvents.finalize(unsignedEvent, true).event;
+}
+
+function ixn(prior: KELEvent, anchors: unknown[] = [], encoding: SequenceEncoding = 'hex'): KELEvent {
+  const { unsignedEvent } = KELEvents.buildIxn({
+    aid: prior.i as AID,
+    sequence: KELEvents.nextSequence(prior.s, encoding),
+    priorEventSaid: prior.d as SAID,
+    anchors,
+  });
+  return KELEvents.finalize(unsignedEvent, false).event;
+}
+
+function signed(event: KELEvent, keypair: KeriKeyPair = KEY1): CESREvent {
+  return envelope(event, [sig(event, keypair, 0)]);
+}
+
+const saids = (events: CESREvent[]) => events.map((e) => e.event.d);
+
+describe('out-of-order escrow', () => {
+  it('holds events ahead of the KEL and releases them in sequence order', () => {
+    const e0 = icp();
+    const e1 = ixn(e0);
+    const e2 = ixn(e1);
+
+    let step = escrowEvent(createKelEscrow(), signed(e2), T0);
+    expect(step.accepted).toEqual([]);
+    expect(step.escrow.entries[e2.d]?.reason).toBe('out-of-order');
+
+    step = escrowEvent(step.escrow, signed(e1), T0 + 1);
+    expect(step.accepted).toEqual([]);
+
+    step = escrowEvent(step.escrow, signed(e0), T0 + 2);
+    expect(saids(step.accepted)).toEqual([e0.d, e1.d, e2.d]);
+    expect(saids(step.escrow.kel)).toEqual([e0.d, e1.d, e2.d]);
+    expect(step.escrow.entries).toEqual({});
+  });
+
+  it('rejects an event at a sequence number the KEL already holds as stale', () => {
+    const e0 = icp();
+    const a1 = ixn(e0, [{ d: 'EAnchorA' }]);
+    const b1 = ixn(e0, [{ d: 'EAnchorB' }]);
+
+    const step = escrowEvent(createKelEscrow([signed(e0), signed(a1)]), signed(b1), T0);
+
+    expect(step.rejected).toEqual([{ kind: 'stale', envelope: signed(b1), expectedSequence: 2 }]);
+    expect(step.escrow.entries).toEqual({});
+  });
+
+  it('orders and validates a decimal KEL past event 9 in the same encoding', () => {
+    const events = [icp()];
+    for (let n = 1; n < 12; n++) events.push(ixn(events[n - 1]!, [], 'decimal'));
+    expect(events.map((e) => e.s).slice(9)).toEqual(['9', '10', '11']);
+
+    let escrow = createKelEscrow();
+    const accepted: CESREvent[] = [];
+    for (const event of [...events].reverse()) {
+      const step = escrowEvent(escrow, signed(event), T0, { sequenceEncoding: 'decimal' });
+      expect(step.rejected).toEqual([]);
+      accepted.push(...step.accepted);
+      escrow = step.escrow;
+    }
+
+    expect(saids(accepted)).toEqual(events.map((e) => e.d));
+    expect(escrow.entries).toEqual({});
+  });
+
+  it('continues from a checkpoint, expecting the event after it', () => {
+    const e0 = icp();
+    const e1 = ixn(e0);
+    const e2 = ixn(e1);
+    const e3 = ixn(e2);
+    const created = KELOps.createCheckpoint([signed(e0), signed(e1)], { sequence: 1 });
+    if (!created.ok) throw new Error(`checkpoint failed: ${created.error.kind}`);
+    const options = { checkpoint: created.checkpoint };
+
+    let step = escrowEvent(createKelEscrow(), signed(e3), T0, options);
+    expect(step.escrow.entries[e3.d]?.reason).toBe('out-of-order');
+
+    step = escrowEvent(step.escrow, signed(e2), T0 + 1, options);
+    expect(saids(step.accepted)).toEqual([e2.d, e3.d]);
+
+    step = escrowEvent(step.escrow, signed(e1), T0 + 2, options);
+    expect(step.rejected).toEqual([{ kind: 'stale', envelope: signed(e1), expectedSequence: 4 }]);
+  });
+});
+
+describe('partially-signed escrow', () => {
+  it('accepts a multi-sig event once the signing threshold is met', () => {
+    const e0 = icp([KEY1, KEY3]);
+
+    let step = escrowEvent(createKelEscrow(), envelope(e0, [sig(e0, KEY1, 0)]), T0);
+    expect(step.escrow.entries[e0.d]?.reason).toBe('partially-signed');
+
+    step = escrowAttachments(step.escrow, e0.d as SAID, [sig(e0, KEY3, 1)], T0 + 1);
+    expect(saids(step.accepted)).toEqual([e0.d]);
+    expect(step.accepted[0]!.attachments).toHaveLength(2);
+  });
+
+  it('holds attachments that arrive before their event', () => {
+    const e0 = icp();
+
+    let step = escrowAttachments(createKelEscrow(), e0.d as SAID, [sig(e0, KEY1, 0)], T0);
+    expect(step.escrow.attachments[e0.d]?.attachments).toHaveLength(1);
+
+    step = escrowEvent(step.escrow, envelope(e0, []), T0 + 1);
+    expect(saids(step.accepted)).toEqual([e0.d]);
+    expect(step.escrow.attachments).toEqual({});
+  });
+
+  it('drops invalid signatures instead of holding the event on them', () => {
+    const e0 = icp();
+
+    let step = escrowEvent(createKelEscrow(), envelope(e0, [sig(e0, KEY4, 0)]), T0);
+    expect(step.escrow.entries[e0.d]?.reason).toBe('partially-signed');
+    expect(step.escrow.entries[e0.d]?.envelope.attachments).toEqual([]);
+
+    step = escrowAttachments(step.escrow, e0.d as SAID, [sig(e0, KEY1, 0)], T0 + 1);
+    expect(saids(step.accepted)).toEqual([e0.d]);
+  });
+
+  it('rejects events that fail for reasons other than missing material', () => {
+    const e0 = icp();
+    const tampered = { ...ixn(e0), p: 'EBogus_AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA' } as KELEvent;
+
+    const step = escrowEvent(createKelEscrow([signed(e0)]), signed(tampered), T0);
+
+    expect(step.rejected).toHaveLength(1);
+    expect(step.rejected[0]!.kind).toBe('invalid');
+  });
+});
+
+describe('missing-receipts escrow', () => {
+  it('holds an event until witness receipts meet bt in fully-witnessed mode', () => {
+    const e0 = icp([KEY1], { witnesses: [WIT1], witnessThreshold: '1' });
+    const options = { mode: 'fully-witnessed' as const };
+
+    let step = escrowEvent(createKelEscrow(), signed(e0), T0, options);
+    expect(step.escrow.entries[e0.d]?.reason).toBe('missing-receipts');
+
+    const receipt: CesrAttachment = { kind: 'rct', by: WIT1.publicKey as AID, sig: signEvent(e0, WIT1) };
+    step = escrowAttachments(step.escrow, e0.d as SAID, [receipt], T0 + 1, options);
+    expect(saids(step.accepted)).toEqual([e0.d]);
+  });
+
+  it('accepts without receipts in structural mode', () => {
+    const e0 = icp([KEY1], { witnesses: [WIT1], witnessThreshold: '1' });
+
+    const step = escrowEvent(createKelEscrow(), signed(e0), T0);
+
+    expect(saids(step.accepted)).toEqual([e0.d]);
+  });
+});
+
+describe('unverified-delegation escrow', () => {
+  const parentIcp = icp([PARENT1]);
+
+  function dip(): KELEvent {
+    const { unsignedEvent } = KELEvents.buildDip({
+      keys: [KEY1.publicKey],
+      nextKeyDigests: [digestVerfer(KEY2.publicKey)],
+      signingThreshold: '1',
+      nextThreshold: '1',
+      parentAid: parentIcp.i as AID,
+    });
+    return KELEvents.finalize(unsignedEvent, true).event;
+  }
+
+  function vrc(child: KELEvent, parentKey: KeriKeyPair): CesrAttachment {
+    return {
+      kind: 'vrc',
+      cid: child.d,
+      seal: { i: parentIcp.i, s: parentIcp.s, d: parentIcp.d },
+      sig: signEvent(child, parentKey),
+    };
+  }
+
+  it('waits for the delegator VRC and anchor, then accepts', () => {
+    const child = dip();
+    const parentKel = [signed(parentIcp, PARENT1)];
+
+    let step = escrowEvent(createKelEscrow(), signed(child), T0, { parentKel });
+    expect(step.escrow.entries[child.d]?.reason).toBe('unverified-delegation');
+
+    step = escrowAttachments(step.escrow, child.d as SAID, [vrc(child, PARENT1)], T0 + 1, { parentKel });
+    expect(step.accepted).toEqual([]);
+    expect(step.escrow.entries[child.d]?.reason).toBe('unverified-delegation');
+
+    const anchor = ixn(parentIcp, [{ i: child.i, s: child.s, d: child.d }]);
+    const grownParentKel = [...parentKel, signed(anchor, PARENT1)];
+    step = reprocessEscrow(step.escrow, T0 + 2, { parentKel: grownParentKel });
+    expect(saids(step.accepted)).toEqual([child.d]);
+  });
+
+  it('rejects a VRC signed by a key outside the delegator key state', () => {
+    const child = dip();
+    const parentKel = [signed(parentIcp, PARENT1)];
+
+    const step = escrowEvent(createKelEscrow(), envelope(child, [sig(child, KEY1, 0), vrc(child, PARENT2)]), T0, {
+      parentKel,
+    });
+
+    expect(step.rejected).toHaveLength(1);
+    expect(step.rejected[0]!.kind).toBe('invalid');
+  });
+});
+
+describe('escrow timeouts', () => {
+  it('expires entries after the default timeout for their reason', () => {
+    const e0 = icp();
+    const e1 = ixn(e0);
+
+    const held = escrowEvent(createKelEscrow(), signed(e1), T0).escrow;
+
+    expect(reprocessEscrow(held, T0 + 1_200_000).expired).toEqual([]);
+    const step = reprocessEscrow(held, T0 + 1_200_001);
+    expect(step.expired.map((e) => e.said)).toEqual([e1.d as SAID]);
+    expect(step.escrow.entries).toEqual({});
+  });
+
+  it('applies configured timeouts per reason', () => {
+    const e0 = icp([KEY1, KEY3]);
+    const held = escrowEvent(createKelEscrow(), envelope(e0, [sig(e0, KEY1, 0)]), T0).escrow;
+
+    const step = reprocessEscrow(held, T0 + 5_001, { timeouts: { 'partially-signed': 5_000 } });
+
+    expect(step.expired).toHaveLength(1);
+    expect(step.expired[0]!.reason).toBe('partially-signed');
+  });
+
+  it('never accepts an event that expired, even if its missing pieces arrive later', () => {
+    const e0 = icp([KEY1, KEY3]);
+    const held = escrowEvent(createKelEscrow(), envelope(e0, [sig(e0, KEY1, 0)]), T0).escrow;
+
+    const step = escrowAttachments(held, e0.d as SAID, [sig(e0, KEY3, 1)], T0 + 3_600_001);
+
+    expect(step.accepted).toEqual([]);
+    expect(step.expired).toHaveLength(1);
+  });
+});
@@ -406,12 +406,21 @@ describe('KELEvents Factory', () => {
       expect(KELEvents.nextSequence('0')).toBe('1');
     });
 
-    test('42 → 43', () => {
-      expect(KELEvents.nextSequence('42')).toBe('43');
+    test('9 → a (hex, as keripy)', () => {
+      expect(KELEvents.nextSequence('9')).toBe('a');
     });
 
-    test('999 → 1000', () => {
-      expect(KELEvents.nextSequence('999')).toBe('1000');
+    test('ff → 100', () => {
+      expect(KELEvents.nextSequence('ff')).toBe('100');
+    });
+
+    test('999 → 1000 for a legacy decimal KEL', () => {
+      expect(KELEvents.nextSequence('999', 'decimal')).toBe('1000');
+    });
+
+    test('throws for malformed sequence numbers', () => {
+      expect(() => KELEvents.nextSequence('0a')).toThrow();
+      expect(() => KELEvents.nextSequence('A')).toThrow();
     });
   });
 });
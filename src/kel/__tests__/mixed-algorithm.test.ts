@@ -0,0 +1,112 @@
+/**
+ * KELs whose keys mix Ed25519, ECDSA secp256k1 and ECDSA P-256.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { digestVerfer } from '../../cesr/digest.js';
+import type { KeyAlgo } from '../../cesr/types.js';
+import type { AID, KeriKeyPair, SAID } from '../../common/types.js';
+import { KeriKeyPairs } from '../../crypto/index.js';
+import { Signers } from '../../signature/signers.js';
+import { canonicalizeEvent } from '../event-crypto.js';
+import { KELEvents } from '../events.js';
+import type { CESREvent, KELEvent } from '../types.js';
+import { validateKelChain } from '../validation.js';
+
+const ALGOS: KeyAlgo[] = ['ed25519', 'secp256k1', 'p256'];
+const CURRENT = ALGOS.map((algo, i) => KeriKeyPairs.fromSeedNumber(i + 1, algo));
+const NEXT = ALGOS.map((algo, i) => KeriKeyPairs.fromSeedNumber(i + 11, algo));
+
+function signerFor(keypair: KeriKeyPair) {
+  return keypair.algo === 'ed25519' ? Signers.fromKeyPair(keypair) : Signers.fromEcdsaKeyPair(keypair);
+}
+
+async function signed(event: KELEvent, signers: [number, KeriKeyPair][]): Promise<CESREvent> {
+  const raw = canonicalizeEvent(event);
+  const attachments = await Promise.all(
+    signers.map(async ([keyIndex, keypair]) => ({
+      kind: 'sig' as const,
+      form: 'indexed' as const,
+      keyIndex,
+      sig: await signerFor(keypair).signBytes(raw),
+    })),
+  );
+  return { event, attachments, enc: 'JSON' };
+}
+
+function inception(): KELEvent {
+  const { unsignedEvent } = KELEvents.buildIcp({
+    keys: CURRENT.map((kp) => kp.publicKey),
+    nextKeyDigests: NEXT.map((kp) => digestVerfer(kp.publicKey)),
+    signingThreshold: '2',
+    nextThreshold: [['1/2', '1/2', '1/2']],
+  });
+  return KELEvents.finalize(unsignedEvent, true).event;
+}
+
+function rotation(prior: KELEvent): KELEvent {
+  const { unsignedEvent } = KELEvents.buildRot({
+    aid: prior.i as AID,
+    sequence: KELEvents.nextSequence(prior.s),
+    priorEventSaid: prior.d as SAID,
+    keys: NEXT.map((kp) => kp.publicKey),
+    nextKeyDigests: CURRENT.map((kp) => digestVerfer(kp.publicKey)),
+    signingThreshold: [['1/2', '1/2', '1/2']],
+    nextThreshold: '2',
+  });
+  return KELEvents.finalize(unsignedEvent, false).event;
+}
+
+describe('validateKelChain with mixed-algorithm multisig', () => {
+  it('uses the CESR key codes for each algorithm', () => {
+    expect(CURRENT.map((kp) => kp.publicKey.slice(0, kp.algo === 'ed25519' ? 1 : 4))).toEqual(['D', '1AAB', '1AAJ']);
+  });
+
+  it('accepts thresholds met by any mix of algorithms', async () => {
+    const icp = inception();
+    const rot = rotation(icp);
+    const kel = [
+      await signed(icp, [
+        [1, CURRENT[1]!],
+        [2, CURRENT[2]!],
+      ]),
+      await signed(rot, [
+        [0, NEXT[0]!],
+        [1, NEXT[1]!],
+      ]),
+    ];
+
+    const result = validateKelChain(kel);
+    expect(result.firstError).toBeUndefined();
+    expect(result.eventDetails[1]!.checks.priorNextThresholdMet?.passed).toBe(true);
+  });
+
+  it('counts only signatures that verify under the indexed key', async () => {
+    const icp = inception();
+    // The P-256 signature is indexed at the secp256k1 key.
+    const kel = [
+      await signed(icp, [
+        [0, CURRENT[0]!],
+        [1, CURRENT[2]!],
+      ]),
+    ];
+
+    const result = validateKelChain(kel);
+    expect(result.firstError?.code).toBe('SIGNATURE_INVALID');
+    expect(result.eventDetails[0]!.checks.thresholdMet.validSignatureCount).toBe(1);
+  });
+
+  it('requires the weighted threshold across algorithms', async () => {
+    const icp = inception();
+    const rot = rotation(icp);
+    const kel = [
+      await signed(icp, [
+        [0, CURRENT[0]!],
+        [2, CURRENT[2]!],
+      ]),
+      await signed(rot, [[2, NEXT[2]!]]),
+    ];
+
+    expect(validateKelChain(kel).firstError?.code).toBe('THRESHOLD_NOT_MET');
+  });
+});
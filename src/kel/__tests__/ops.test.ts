@@ -3,7 +3,7 @@ import { KELOps } from '../ops.js';
 import { KELEvents } from '../events.js';
 import { KeriKeyPairs } from '../../crypto/keypairs.js';
 import { digestVerfer } from '../../cesr/digest.js';
-import type { AID, Signature } from '../../common/types.js';
+import type { AID, SAID, Signature } from '../../common/types.js';
 import type { CESREvent } from '../types.js';
 import { sign } from '../../signature/primitives.js';
 import { decodeKey } from '../../cesr/keys.js';
@@ -65,6 +65,102 @@ describe('KELOps.forKEL', () => {
   });
 });
 
+/** Helper: a signed icp followed by ixns, numbered in the given encoding. */
+function createLongKel(length: number, encoding: 'hex' | 'decimal'): { events: CESREvent[]; aid: AID } {
+  const pair = KeriKeyPairs.create();
+  const privRaw = decodeKey(pair.privateKey).raw;
+  const signed = (unsignedEvent: unknown, isInception: boolean): CESREvent => {
+    const finalized = KELEvents.computeSaid(unsignedEvent, isInception);
+    const sig = encodeSig(sign(finalized.canonFinal.raw, privRaw), true).qb64 as Signature;
+    return {
+      event: finalized.event,
+      attachments: [{ kind: 'sig', form: 'indexed', keyIndex: 0, sig }],
+      enc: 'JSON',
+    };
+  };
+
+  const icp = KELEvents.buildIcp({
+    keys: [pair.publicKey],
+    nextKeyDigests: [digestVerfer(KeriKeyPairs.create().publicKey)],
+  });
+  const events = [signed(icp.unsignedEvent, true)];
+  const aid = events[0]!.event.i as AID;
+  while (events.length < length) {
+    const prior = events[events.length - 1]!.event;
+    const { unsignedEvent } = KELEvents.buildIxn({
+      aid,
+      sequence: KELEvents.nextSequence(prior.s, encoding),
+      priorEventSaid: prior.d as SAID,
+    });
+    events.push(signed(unsignedEvent, false));
+  }
+  return { events, aid };
+}
+
+describe('KELOps sequence encoding', () => {
+  test('a KEL past nine events is numbered in hex', () => {
+    const { events, aid } = createLongKel(12, 'hex');
+    expect(events.map((e) => e.event.s).slice(9)).toEqual(['9', 'a', 'b']);
+    expect(KELOps.validateKelChain(events).valid).toBe(true);
+
+    const view = KELOps.forKEL(aid, events);
+    expect(view.sequenceEncoding()).toBe('hex');
+    expect(view.eventAtSequence(10)?.index).toBe(10);
+    expect(view.ksn()?.s).toBe('b');
+  });
+
+  test('a legacy decimal KEL validates only when declared', () => {
+    const { events, aid } = createLongKel(12, 'decimal');
+    const hex = KELOps.validateKelChain(events);
+    expect(hex.valid).toBe(false);
+    expect(hex.firstError?.code).toBe('SEQUENCE_INVALID');
+    expect(KELOps.validateKelChain(events, { sequenceEncoding: 'decimal' }).valid).toBe(true);
+
+    const view = KELOps.forKEL(aid, events);
+    expect(view.sequenceEncoding()).toBe('decimal');
+    expect(view.eventAtSequence(10)?.event.s).toBe('10');
+    expect(view.ksn()?.s).toBe('b');
+  });
+});
+
+describe('KELOps.forKEL indexes', () => {
+  test('finds events by SAID, sequence number and sealed SAID', () => {
+    const { events, aid } = createLongKel(3, 'hex');
+    const sealed = events[0]!.event.d as SAID;
+    const { unsignedEvent } = KELEvents.buildIxn({
+      aid,
+      sequence: '3',
+      priorEventSaid: events[2]!.event.d as SAID,
+      anchors: [{ d: 'Edigest-seal' }, { i: aid, s: '0', d: sealed }],
+    });
+    const ixn: CESREvent = { event: KELEvents.computeSaid(unsignedEvent, false).event, attachments: [], enc: 'JSON' };
+
+    const view = KELOps.forKEL(aid, events);
+    expect(view.anchoringEvent('Edigest-seal')).toBeUndefined();
+
+    const ref = view.append(ixn);
+    expect(ref.index).toBe(3);
+    expect(view.length()).toBe(4);
+    expect(view.head()).toBe(ref);
+    expect(view.bySAID(ixn.event.d as SAID)).toBe(ref);
+    expect(view.eventAtSequence(3)).toBe(ref);
+    expect(view.anchoringEvent('Edigest-seal')).toBe(ref);
+    expect(view.anchoringEvent(sealed)).toBe(ref);
+    expect(view.ksn()?.s).toBe('3');
+  });
+
+  test('keeps the sequence encoding in step as a legacy KEL grows', () => {
+    const { events, aid } = createLongKel(12, 'decimal');
+    const view = KELOps.forKEL(aid, events.slice(0, 10));
+    expect(view.sequenceEncoding()).toBe('hex');
+
+    view.append(events[10]!);
+    view.append(events[11]!);
+    expect(view.sequenceEncoding()).toBe('decimal');
+    expect(view.eventAtSequence(11)?.event.s).toBe('11');
+  });
+});
+
 describe('KELOps.validateAppend', () => {
   test('validates inception event against empty KEL', () => {
     const { cesrEvent } = createInception();
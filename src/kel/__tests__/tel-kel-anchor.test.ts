@@ -1,6 +1,8 @@
 import { describe, expect, test } from 'bun:test';
-import type { KELEvent } from '../types.js';
-import { assessTelKelAnchor } from '../tel-kel-anchor.js';
+import type { AID } from '../../common/types.js';
+import { KELOps } from '../ops.js';
+import type { CESREvent, KELEvent } from '../types.js';
+import { assessTelKelAnchor, assessTelKelAnchors } from '../tel-kel-anchor.js';
 
 const TEL_SAID = 'EtelSaid00000000000000000000000000000000000';
 const OTHER_TEL = 'EotherTel000000000000000000000000000000000';
@@ -99,3 +101,21 @@ describe('assessTelKelAnchor', () => {
     }
   });
 });
+
+describe('assessTelKelAnchors with a KELView', () => {
+  const envelope = (event: KELEvent): CESREvent => ({ event, attachments: [], enc: 'JSON' });
+
+  test('looks seals up in the view index, including events appended later', () => {
+    // setup: view over an ICP-only KEL, then the anchoring ixn arrives
+    const view = KELOps.forKEL(ISSUER as AID, [envelope(icpOnly())]);
+    expect(assessTelKelAnchor(view, TEL_SAID).status).toBe('missing');
+    view.append(envelope(ixnAnchoring(TEL_SAID)));
+
+    // call out our method under test
+    const results = assessTelKelAnchors(view, [TEL_SAID, OTHER_TEL]);
+
+    // same answers as the scan over event bodies
+    expect(results).toEqual(assessTelKelAnchors([icpOnly(), ixnAnchoring(TEL_SAID)], [TEL_SAID, OTHER_TEL]));
+    expect(results[0]).toEqual({ status: 'anchored', telEventSaid: TEL_SAID, kelEventSaid: IXN_SAID });
+  });
+});
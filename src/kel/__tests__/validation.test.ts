@@ -588,6 +588,45 @@ describe('validate-signatures', () => {
       expect(badResult.eventDetails[2]!.checks.signaturesValid.passed).toBe(false);
   });
 
+  for (const kind of ['CBOR', 'MGPK'] as const) {
+    it(`[${kind.toLowerCase()}-event-verifies] A ${kind} inception and interaction derive SAIDs and verify signatures over ${kind} bytes`, () => {
+      const { unsignedEvent } = KELEvents.buildIcp({
+        keys: [KEY1.publicKey],
+        nextKeyDigests: [digestVerfer(KEY2.publicKey)],
+        signingThreshold: '1',
+        nextThreshold: '1',
+      });
+      const { event: icpEvent, said: icpSaid } = KELEvents.finalize(
+        { ...unsignedEvent, v: `KERI10${kind}000000_` },
+        true,
+      );
+      expect(icpEvent.v.slice(0, 10)).toBe(`KERI10${kind}`);
+      const icpCesr = KELEvents.assembleSignedEvent({
+        event: icpEvent,
+        signatures: [{ keyIndex: 0, sig: signEvent(icpEvent, KEY1) }],
+      });
+      expect(icpCesr.enc).toBe(kind);
+
+      const { unsignedEvent: unsignedIxn } = KELEvents.buildIxn({
+        aid: icpEvent.i as AID,
+        sequence: '1',
+        priorEventSaid: icpSaid,
+      });
+      const { event: ixnEvent } = KELEvents.finalize({ ...unsignedIxn, v: `KERI10${kind}000000_` }, false);
+      const ixnCesr = KELEvents.assembleSignedEvent({
+        event: ixnEvent,
+        signatures: [{ keyIndex: 0, sig: signEvent(ixnEvent, KEY1) }],
+      });
+
+      const result = KELOps.validateKelChain([icpCesr, ixnCesr]);
+      expect(result.valid).toBe(true);
+
+      // The same signature does not verify when the envelope claims JSON.
+      const asJson = KELOps.validateKelChain([{ ...icpCesr, enc: 'JSON' }]);
+      expect(asJson.eventDetails[0]!.checks.signaturesValid.passed).toBe(false);
+    });
+  }
+
   it('[key-index-out-of-range] Attaching a signature with keyIndex=5 but only 1 key is invalid', () => {
       const { unsignedEvent } = KELEvents.buildIcp({
         keys: [KEY1.publicKey],
@@ -0,0 +1,138 @@
+/**
+ * Watcher-style comparison of one KEL fetched from several remotes.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { digestVerfer } from '../../cesr/digest.js';
+import { decodeKey } from '../../cesr/keys.js';
+import { encodeSig } from '../../cesr/sigs.js';
+import type { AID, KeriKeyPair, SAID } from '../../common/types.js';
+import { KeriKeyPairs } from '../../crypto/index.js';
+import type { RemoteRecord } from '../../remote/kel-resource-types.js';
+import { sign } from '../../signature/primitives.js';
+import { canonicalizeEvent } from '../event-crypto.js';
+import { KELEvents } from '../events.js';
+import type { CESREvent, KELEvent } from '../types.js';
+import { compareKels, type KelSource } from '../watcher.js';
+
+const KEY1 = KeriKeyPairs.fromSeedNumber(1); // current
+const KEY2 = KeriKeyPairs.fromSeedNumber(2); // next
+const KEY4 = KeriKeyPairs.fromSeedNumber(4); // unrelated
+
+function signEvent(event: KELEvent, keypair: KeriKeyPair): string {
+  const raw = canonicalizeEvent(event);
+  return encodeSig(sign(raw, decodeKey(keypair.privateKey).raw), true).qb64;
+}
+
+function assemble(unsignedEvent: unknown, isInception: boolean, signer: KeriKeyPair): CESREvent {
+  const { event } = KELEvents.finalize(unsignedEvent, isInception);
+  return KELEvents.assembleSignedEvent({ event, signatures: [{ keyIndex: 0, sig: signEvent(event, signer) }] });
+}
+
+function icp(current: KeriKeyPair = KEY1): CESREvent {
+  const { unsignedEvent } = KELEvents.buildIcp({
+    keys: [current.publicKey],
+    nextKeyDigests: [digestVerfer(KEY2.publicKey)],
+  });
+  return assemble(unsignedEvent, true, current);
+}
+
+function ixn(prior: CESREvent, signer: KeriKeyPair, anchors: unknown[] = []): CESREvent {
+  const { unsignedEvent } = KELEvents.buildIxn({
+    aid: prior.event.i as AID,
+    sequence: KELEvents.nextSequence(prior.event.s),
+    priorEventSaid: prior.event.d as SAID,
+    anchors,
+  });
+  return assemble(unsignedEvent, false, signer);
+}
+
+function source(host: string, events: CESREvent[]): KelSource {
+  const record: RemoteRecord = {
+    seqNo: events.length - 1,
+    at: '2025-01-15T12:00:00.000Z',
+    resource: { kind: 'kel.full', url: `https://${host}/.well-known/keri/aid/x/kel` },
+  };
+  return { record, events };
+}
+
+const e0 = icp();
+const e1 = ixn(e0, KEY1);
+const e2 = ixn(e1, KEY1);
+
+describe('compareKels', () => {
+  it('agrees when every source holds the same KEL', () => {
+    const result = compareKels([source('a', [e0, e1, e2]), source('b', [e0, e1, e2])]);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.keyState.aid).toBe(e0.event.i as AID);
+    expect(result.commonPrefix).toHaveLength(3);
+    expect(result.sources.map((s) => s.status.kind)).toEqual(['consistent', 'consistent']);
+    expect(result.sources[0]!.key).toBe('kel.full:https://a/.well-known/keri/aid/x/kel');
+    expect(result.sources[0]!.headSaid).toBe(e2.event.d as SAID);
+  });
+
+  it('classifies a shorter copy as lagging and keeps the longest key state', () => {
+    const result = compareKels([source('a', [e0]), source('b', [e0, e1, e2])]);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.keyState.digest).toBe(e2.event.d);
+    expect(result.commonPrefix).toHaveLength(1);
+    expect(result.sources[0]!.status).toEqual({ kind: 'lagging', missing: 2 });
+    expect(result.sources[1]!.status).toEqual({ kind: 'consistent' });
+  });
+
+  it('reports a fork with the diverging SAIDs as a kel-fork verdict', () => {
+    const other = ixn(e1, KEY1, [{ i: 'Eanchor', s: '0', d: 'Eanchor' }]);
+    const result = compareKels([source('a', [e0, e1, e2]), source('b', [e0, e1, other])]);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toEqual({
+        kind: 'kel-fork',
+        seqNo: 2,
+        existingDigest: e2.event.d,
+        newDigest: other.event.d,
+      });
+    }
+    expect(result.commonPrefix).toHaveLength(2);
+    expect(result.sources[1]!.status).toEqual({
+      kind: 'forked',
+      sequence: 2,
+      said: other.event.d as SAID,
+      referenceSaid: e2.event.d as SAID,
+    });
+  });
+
+  it('cuts an invalid copy at its first bad event and compares the rest', () => {
+    const forged = ixn(e1, KEY4);
+    const result = compareKels([source('a', [e0, e1, forged]), source('b', [e0, e1, e2])]);
+
+    expect(result.ok).toBe(true);
+    expect(result.commonPrefix).toHaveLength(2);
+    const status = result.sources[0]!.status;
+    expect(status.kind).toBe('invalid');
+    if (status.kind === 'invalid') {
+      expect(status.sequence).toBe(2);
+      expect(status.error.code).toBe('SIGNATURE_INVALID');
+    }
+    expect(result.sources[0]!.verifiedLength).toBe(2);
+  });
+
+  it('treats a KEL for another AID as invalid', () => {
+    const stranger = icp(KEY4);
+    const result = compareKels([source('a', [e0, e1]), source('b', [stranger])], { aid: e0.event.i as AID });
+
+    expect(result.ok).toBe(true);
+    const status = result.sources[1]!.status;
+    expect(status.kind === 'invalid' && status.error.code).toBe('AID_INCONSISTENT');
+    expect(result.commonPrefix).toHaveLength(0);
+  });
+
+  it('fails with missing-inception when no source verifies', () => {
+    const result = compareKels([source('a', [])]);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toEqual({ kind: 'missing-inception' });
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * KEL Checkpoints
+ *
+ * A checkpoint is a SAID-addressed snapshot of a KEL's verified state at a
+ * sequence number: the key state, the resulting witness set, the inception
+ * config traits and an index of every SAID anchored so far. Validation can
+ * resume from a trusted checkpoint with only the events after it, and the
+ * checkpoint can later be re-derived from the full KEL and compared.
+ *
+ * @module kel/checkpoint
+ */
+
+import { digestAlgoOf } from '../cesr/digest.js';
+import type { DigestAlgo } from '../cesr/types.js';
+import { deriveSaid, recomputeSaid, serializeForSigning } from '../common/derivation-surface.js';
+import { formatSequenceNumber, parseSequenceNumber } from '../common/sequence-number.js';
+import type { AID, CesrDigest, PublicKey, SAID, Threshold } from '../common/types.js';
+import { KEL_CHECKPOINT_SURFACE } from '../said/surfaces.js';
+import { attachSignature, verifyAttachedSignatures } from '../signature/attached.js';
+import type { Signer } from '../signature/signer.js';
+import { reduceKelState } from './kel-state.js';
+import type { KeyStateError, VerifiedKeyState } from './ops-types.js';
+import type { CESREvent, CesrAttachment, CesrSeal, KELEvent, KelCheckpoint, KelCheckpointEnvelope } from './types.js';
+import { type KelValidationOptions, validateKelChain } from './validation.js';
+import { sealedSaids } from './validation-predicates.js';
+
+/**
+ * Options for createKelCheckpoint. With `checkpoint` set, the events are
+ * those after it and the new checkpoint carries its anchor index forward.
+ */
+type KelCheckpointOptions = Omit<KelValidationOptions, 'startIndex'> & {
+  /** Sequence number to checkpoint at (default: the last event) */
+  sequence?: number;
+  /** Digest for the checkpoint SAID (default: 'blake3-256') */
+  algo?: DigestAlgo;
+};
+
+type KelCheckpointResult = { ok: true; checkpoint: KelCheckpoint } | { ok: false; error: KeyStateError };
+
+/** Why a checkpoint failed verification against a KEL. */
+type KelCheckpointFailureCode = 'said-mismatch' | 'kel-invalid' | 'state-mismatch';
+
+type KelCheckpointVerificationResult = { ok: true } | { ok: false; code: KelCheckpointFailureCode; reason: string };
+
+/** Why a checkpoint's signatures failed verification against the signer's KEL. */
+type KelCheckpointSignatureFailureCode =
+  | 'said-mismatch'
+  | 'unknown-signer'
+  | 'signer-mismatch'
+  | 'unknown-establishment-event'
+  | 'no-signatures'
+  | 'signature-invalid'
+  | 'threshold-not-met';
+
+type KelCheckpointSignatureResult =
+  | { ok: true; signer: { aid: AID; s: string; d: SAID }; validKeyIndices: number[] }
+  | { ok: false; code: KelCheckpointSignatureFailureCode; reason: string };
+
+type EstablishmentFields = KELEvent & { k: string[]; kt: Threshold };
+
+function isEstablishment(event: KELEvent): event is EstablishmentFields {
+  return event.t === 'icp' || event.t === 'rot' || event.t === 'dip' || event.t === 'drt';
+}
+
+/**
+ * Validate a KEL up to a sequence number and capture its state there.
+ *
+ * @param events - The KEL, or the events after `options.checkpoint`
+ * @param options - Sequence to checkpoint at, SAID digest, and validation options
+ * @returns The sealed checkpoint, or the key state error that prevented it
+ */
+function createKelCheckpoint(events: CESREvent[], options: KelCheckpointOptions = {}): KelCheckpointResult {
+  const { sequence, algo, ...validationOptions } = options;
+  const prior = validationOptions.checkpoint;
+  const offset = prior ? parseSequenceNumber(prior.s) + 1 : 0;
+
+  if (prior && (sequence === undefined ? events.length === 0 : sequence === offset - 1)) {
+    return { ok: true, checkpoint: prior };
+  }
+  if (events.length === 0) {
+    return { ok: false, error: { kind: 'missing-inception' } };
+  }
+
+  const index = (sequence ?? offset + events.length - 1) - offset;
+  if (index < 0 || index >= events.length) {
+    return { ok: false, error: { kind: 'malformed-event', reason: `No event at sequence ${sequence}` } };
+  }
+
+  const covered = events.slice(0, index + 1);
+  const validation = validateKelChain(covered, validationOptions);
+  if (!validation.valid) {
+    const err = validation.firstError;
+    return {
+      ok: false,
+      error: {
+        kind: 'broken-chain',
+        seqNo: offset + (err?.eventIndex ?? 0),
+        reason: err?.code ?? 'unknown validation failure',
+      },
+    };
+  }
+
+  const states = reduceKelState(covered, validationOptions.sequenceEncoding, prior);
+  const state = states[index]!;
+  const event = covered[index]!.event;
+  const est = state.lastEstablishment;
+  if (!est) {
+    return { ok: false, error: { kind: 'missing-inception' } };
+  }
+
+  const anchors: Record<string, string> = { ...prior?.a };
+  covered.forEach((env, i) => {
+    for (const said of sealedSaids(env.event)) {
+      if (!(said in anchors)) anchors[said] = formatSequenceNumber(offset + i);
+    }
+  });
+
+  const ee =
+    prior && est.d === prior.ee.d
+      ? prior.ee
+      : { s: formatSequenceNumber(parseSequenceNumber(est.s, validationOptions.sequenceEncoding)), d: est.d };
+
+  const unsigned: KelCheckpoint = {
+    v: 'KERI10JSON000000_',
+    d: '',
+    i: state.kelAid,
+    s: formatSequenceNumber(offset + index),
+    ed: event.d,
+    et: event.t as KelCheckpoint['et'],
+    kt: est.kt,
+    k: est.k,
+    nt: est.nt,
+    n: est.n,
+    bt: state.witnessThreshold,
+    b: [...state.witnesses],
+    c: [...state.inceptionTraits],
+    ee,
+    di: state.delegatorAid ?? '',
+    a: anchors,
+  };
+  const { sealed } = deriveSaid(unsigned, KEL_CHECKPOINT_SURFACE, 'JSON', algo);
+  return { ok: true, checkpoint: sealed };
+}
+
+/**
+ * Verify a checkpoint against a KEL: its SAID must match its content, and
+ * re-deriving it from the KEL at the same sequence number must reproduce it.
+ *
+ * @param checkpoint - The checkpoint to verify
+ * @param events - The full KEL, or the events after `options.checkpoint`
+ * @param options - Validation options for the KEL (parentKel, mode, ...)
+ */
+function verifyKelCheckpoint(
+  checkpoint: KelCheckpoint,
+  events: CESREvent[],
+  options: Omit<KelValidationOptions, 'startIndex'> = {},
+): KelCheckpointVerificationResult {
+  const said = recomputeSaid(checkpoint, KEL_CHECKPOINT_SURFACE);
+  if (!said.matches) {
+    return {
+      ok: false,
+      code: 'said-mismatch',
+      reason: `SAID mismatch: declared ${said.declared}, recomputed ${said.recomputed}`,
+    };
+  }
+
+  const rebuilt = createKelCheckpoint(events, {
+    ...options,
+    sequence: parseSequenceNumber(checkpoint.s),
+    algo: digestAlgoOf(checkpoint.d),
+  });
+  if (!rebuilt.ok) {
+    return { ok: false, code: 'kel-invalid', reason: `KEL does not verify: ${rebuilt.error.kind}` };
+  }
+  if (rebuilt.checkpoint.d !== checkpoint.d) {
+    const fields = KEL_CHECKPOINT_SURFACE.derivedFieldsInOrder.filter(
+      (f) =>
+        f !== 'v' &&
+        f !== 'd' &&
+        JSON.stringify(rebuilt.checkpoint[f as keyof KelCheckpoint]) !==
+          JSON.stringify(checkpoint[f as keyof KelCheckpoint]),
+    );
+    return {
+      ok: false,
+      code: 'state-mismatch',
+      reason: `Checkpoint differs from the KEL at sequence ${checkpoint.s} in: ${fields.join(', ')}`,
+    };
+  }
+  return { ok: true };
+}
+
+/**
+ * Signs a checkpoint envelope with a specific Signer at a specific key index.
+ *
+ * Without a seal the signature is an indexed signature by the checkpoint's
+ * own controller. With the signer's establishment seal it joins the
+ * transferable signature group for that seal, so a watcher or other third
+ * party can vouch for a checkpoint of someone else's KEL.
+ *
+ * @param env - The checkpoint envelope to sign
+ * @param signer - The Signer instance to use for signing
+ * @param options - keyIndex (default 0) and optional establishment seal
+ * @returns Updated envelope with the signature attached
+ */
+async function signKelCheckpoint(
+  env: KelCheckpointEnvelope,
+  signer: Signer,
+  options: { keyIndex?: number; seal?: CesrSeal } = {},
+): Promise<KelCheckpointEnvelope> {
+  const sig = await signer.signBytes(serializeForSigning(env.checkpoint, KEL_CHECKPOINT_SURFACE).raw);
+  return {
+    ...env,
+    attachments: attachSignature(env.attachments, sig, { ...options, signerAid: env.checkpoint.i as AID }),
+  };
+}
+
+/**
+ * Verify the signatures on a checkpoint envelope against the signer's KEL.
+ *
+ * Transferable signature groups (-F) name the signer's establishment event by
+ * seal; plain indexed signatures (-A) are the checkpoint controller's, checked
+ * against the latest establishment event of `signerKel`. Every signature must
+ * verify and together they must satisfy that event's `kt`.
+ *
+ * @param env - The signed checkpoint envelope
+ * @param signerKel - The signer's KEL (already validated)
+ */
+function verifyKelCheckpointSignatures(
+  env: KelCheckpointEnvelope,
+  signerKel: CESREvent[],
+): KelCheckpointSignatureResult {
+  const fail = (code: KelCheckpointSignatureFailureCode, reason: string): KelCheckpointSignatureResult => ({
+    ok: false,
+    code,
+    reason,
+  });
+  const checkpoint = env.checkpoint;
+
+  const said = recomputeSaid(checkpoint, KEL_CHECKPOINT_SURFACE);
+  if (!said.matches) {
+    return fail('said-mismatch', `SAID mismatch: declared ${said.declared}, recomputed ${said.recomputed}`);
+  }
+
+  const aid = signerKel[0]?.event.i;
+  if (aid === undefined) return fail('unknown-signer', 'No KEL for the checkpoint signer');
+
+  const groups = env.attachments.filter((a): a is Extract<CesrAttachment, { kind: 'tsg' }> => a.kind === 'tsg');
+  let est: EstablishmentFields | undefined;
+
+  if (groups.length > 0) {
+    const seal = groups[0]!.seal;
+    if (groups.some((g) => g.seal.i !== seal.i || g.seal.s !== seal.s || g.seal.d !== seal.d)) {
+      return fail('unknown-establishment-event', 'Signature groups reference different establishment events');
+    }
+    if (seal.i !== aid) return fail('signer-mismatch', `KEL for ${aid} does not belong to signer ${seal.i}`);
+    const sealed = signerKel.find((e) => e.event.s === seal.s && e.event.d === seal.d)?.event;
+    if (!sealed || !isEstablishment(sealed)) {
+      return fail('unknown-establishment-event', `No establishment event ${seal.d} at sequence ${seal.s}`);
+    }
+    est = sealed;
+  } else {
+    if (aid !== checkpoint.i) {
+      return fail('signer-mismatch', `KEL for ${aid} does not belong to controller ${checkpoint.i}`);
+    }
+    est = [...signerKel].reverse().find((e) => isEstablishment(e.event))?.event as EstablishmentFields | undefined;
+    if (!est) return fail('unknown-establishment-event', `KEL for ${aid} has no establishment event`);
+  }
+
+  const verified = verifyAttachedSignatures(
+    serializeForSigning(checkpoint, KEL_CHECKPOINT_SURFACE).raw,
+    groups.length > 0 ? groups : env.attachments,
+    { aid: aid as AID, keys: est.k as PublicKey[], threshold: est.kt },
+  );
+  if (!verified.ok) return fail(verified.code, verified.reason);
+
+  return {
+    ok: true,
+    signer: { aid: aid as AID, s: est.s, d: est.d as SAID },
+    validKeyIndices: verified.validKeyIndices,
+  };
+}
+
+/** The verified key state a checkpoint records. */
+function checkpointKeyState(checkpoint: KelCheckpoint): VerifiedKeyState {
+  return {
+    aid: checkpoint.i as AID,
+    seqNo: parseSequenceNumber(checkpoint.s),
+    digest: checkpoint.ed,
+    currentKeys: checkpoint.k as PublicKey[],
+    threshold: checkpoint.kt,
+    nextKeyDigests: checkpoint.n as CesrDigest[],
+  };
+}
+
+export type {
+  KelCheckpointFailureCode,
+  KelCheckpointOptions,
+  KelCheckpointResult,
+  KelCheckpointSignatureFailureCode,
+  KelCheckpointSignatureResult,
+  KelCheckpointVerificationResult,
+};
+export {
+  checkpointKeyState,
+  createKelCheckpoint,
+  signKelCheckpoint,
+  verifyKelCheckpoint,
+  verifyKelCheckpointSignatures,
+};
@@ -0,0 +1,188 @@
+/**
+ * Delegation Approval
+ *
+ * Verifies that a delegated establishment event (dip/drt) was approved by its
+ * delegator, and walks on up through delegators that are themselves
+ * delegated. At each level:
+ * - the delegator's KEL must be known and must not carry the DND trait
+ * - the delegator event anchoring the delegated event is located through the
+ *   event's seal source couples (or a scan of the delegator KEL without them)
+ * - the delegator KEL must validate up to and including that anchor
+ * - a drt must not be anchored before the anchor of the delegate's previous
+ *   delegated establishment event
+ *
+ * The delegator establishment event in force at the anchor holds the keys
+ * that approved. When that event is itself a dip/drt, its approval is checked
+ * the same way, up to a non-delegated root.
+ *
+ * The delegate's own KEL is not validated here; see validateKelChain.
+ *
+ * Pure — no I/O. Resolving delegator KELs is the caller's job.
+ *
+ * @module kel/delegation
+ */
+
+import { detectSequenceEncoding } from '../common/sequence-number.js';
+import type { AID, SAID } from '../common/types.js';
+import type { CESREvent, DipEvent } from './types.js';
+import { type ValidationPreset, validateKelChain } from './validation.js';
+import { findDelegationAnchor } from './validation-predicates.js';
+
+/** One delegator's approval of one delegated establishment event. */
+export interface DelegationApprovalStep {
+  delegate: AID;
+  eventSaid: SAID;
+  eventType: 'dip' | 'drt';
+  sequence: number;
+  delegator: AID;
+  /** Delegator event whose `a[]` seals the delegated event. */
+  anchorSaid: SAID;
+  anchorSequence: number;
+  /** How the anchor was found: the event's seal source couple, or a scan. */
+  via: 'source-seal' | 'scan';
+  /** Delegator establishment event in force at the anchor, i.e. the approving key state. */
+  establishmentSaid: SAID;
+  establishmentSequence: number;
+}
+
+export type DelegationApprovalErrorCode =
+  | 'not-delegated'
+  | 'delegation-cycle'
+  | 'delegator-kel-missing'
+  | 'delegator-do-not-delegate'
+  | 'anchor-missing'
+  | 'source-seal-mismatch'
+  | 'anchor-out-of-order'
+  | 'delegator-kel-invalid';
+
+/**
+ * Approval path from the event asked about (`path[0]`) up to the delegator
+ * whose approving key state is not delegated (`root`). On failure, `path`
+ * holds the steps verified below the failing level and `aid` names the
+ * delegate whose approval failed.
+ */
+export type DelegationApprovalResult =
+  | { ok: true; path: DelegationApprovalStep[]; root: AID }
+  | { ok: false; code: DelegationApprovalErrorCode; message: string; aid: AID; path: DelegationApprovalStep[] };
+
+export interface DelegationApprovalOptions {
+  /** Known KELs by AID: the delegator's, and those of its own delegators. */
+  delegatorKels: Readonly<Record<string, readonly CESREvent[]>>;
+  /** Validation mode for delegator KELs (default: 'structural') */
+  mode?: ValidationPreset;
+}
+
+const ESTABLISHMENT_TYPES = new Set(['icp', 'rot', 'dip', 'drt']);
+
+function delegatorOf(kel: readonly CESREvent[]): AID | undefined {
+  const inception = kel[0]?.event;
+  return inception?.t === 'dip' ? ((inception as DipEvent).di as AID) : undefined;
+}
+
+function isDelegatedEstablishment(kel: readonly CESREvent[], index: number): boolean {
+  const t = kel[index]?.event.t;
+  return t === 'dip' || t === 'drt';
+}
+
+function verify(
+  kel: readonly CESREvent[],
+  index: number,
+  options: DelegationApprovalOptions,
+  visited: ReadonlySet<string>,
+): DelegationApprovalResult {
+  const envelope = kel[index];
+  const aid = (kel[0]?.event.i ?? '') as AID;
+  const fail = (code: DelegationApprovalErrorCode, message: string): DelegationApprovalResult => ({
+    ok: false,
+    code,
+    message,
+    aid,
+    path: [],
+  });
+
+  const delegator = delegatorOf(kel);
+  if (!envelope || !delegator || !isDelegatedEstablishment(kel, index)) {
+    return fail('not-delegated', `Event ${index} of ${aid} is not a delegated establishment event`);
+  }
+  const event = envelope.event;
+  if (visited.has(delegator) || delegator === aid) {
+    return fail('delegation-cycle', `Delegation chain of ${aid} loops back to ${delegator}`);
+  }
+
+  const delegatorKel = options.delegatorKels[delegator];
+  if (!delegatorKel || delegatorKel.length === 0) {
+    return fail('delegator-kel-missing', `KEL of delegator ${delegator} is not available`);
+  }
+  const traits = (delegatorKel[0]!.event as { c?: unknown }).c;
+  if (Array.isArray(traits) && traits.includes('DND')) {
+    return fail('delegator-do-not-delegate', `Delegator ${delegator} does not allow delegation (DND)`);
+  }
+
+  const anchor = findDelegationAnchor(envelope, delegatorKel);
+  if (!anchor.found) return fail(anchor.reason, anchor.message);
+
+  // Approvals of one delegate's establishment events follow the delegator KEL in order.
+  for (let prior = index - 1; prior >= 0; prior--) {
+    if (!isDelegatedEstablishment(kel, prior)) continue;
+    const priorAnchor = findDelegationAnchor(kel[prior]!, delegatorKel);
+    if (priorAnchor.found && priorAnchor.index > anchor.index) {
+      return fail(
+        'anchor-out-of-order',
+        `${event.t} ${event.d} is anchored at ${anchor.index}, before the anchor of ${kel[prior]!.event.t} at ${priorAnchor.index}`,
+      );
+    }
+    break;
+  }
+
+  const approving = delegatorKel.slice(0, anchor.index + 1);
+  const grandparent = delegatorOf(delegatorKel);
+  const parentKel = grandparent ? options.delegatorKels[grandparent] : undefined;
+  const validation = validateKelChain([...approving], {
+    mode: options.mode,
+    sequenceEncoding: detectSequenceEncoding(delegatorKel.map((e) => e.event.s)) ?? 'hex',
+    ...(parentKel ? { parentKel: [...parentKel] } : {}),
+  });
+  if (!validation.valid) {
+    const detail = validation.firstError?.message ?? 'validation failed';
+    return fail('delegator-kel-invalid', `KEL of delegator ${delegator} is invalid up to its anchor: ${detail}`);
+  }
+
+  let establishment = anchor.index;
+  while (!ESTABLISHMENT_TYPES.has(approving[establishment]!.event.t)) establishment--;
+  const anchorEvent = approving[anchor.index]!.event;
+  const approver = approving[establishment]!.event;
+  const step: DelegationApprovalStep = {
+    delegate: aid,
+    eventSaid: event.d as SAID,
+    eventType: event.t as 'dip' | 'drt',
+    sequence: index,
+    delegator,
+    anchorSaid: anchorEvent.d as SAID,
+    anchorSequence: anchor.index,
+    via: anchor.via,
+    establishmentSaid: approver.d as SAID,
+    establishmentSequence: establishment,
+  };
+
+  if (!isDelegatedEstablishment(delegatorKel, establishment)) {
+    return { ok: true, path: [step], root: delegator };
+  }
+  const upper = verify(delegatorKel, establishment, options, new Set([...visited, aid]));
+  return { ...upper, path: [step, ...upper.path] };
+}
+
+/**
+ * Verify the delegator approval of a delegated establishment event and of
+ * every delegated key state above it.
+ *
+ * @param kel - The delegate's KEL
+ * @param index - Position of the dip/drt to verify
+ * @param options - Delegator KELs by AID, and the validation mode for them
+ */
+export function verifyDelegationApproval(
+  kel: readonly CESREvent[],
+  index: number,
+  options: DelegationApprovalOptions,
+): DelegationApprovalResult {
+  return verify(kel, index, options, new Set());
+}
@@ -0,0 +1,202 @@
+/**
+ * First-Seen KEL Reduction
+ *
+ * Duplicity-aware reducer over KEL events in arrival order. Applies KERI's
+ * first-seen policy: the first validly signed event at a sequence number is
+ * accepted and any later, different, validly signed event at the same sequence
+ * number is duplicity — evidence that the controller's keys signed two
+ * histories. The one exception is a recovery rotation: a `rot`/`drt` signed
+ * by the prior next keys may supersede interaction events after the last
+ * establishment event.
+ *
+ * Pure and best-effort over untrusted input — never throws.
+ *
+ * @module kel/duplicity
+ */
+
+import { parseSequenceNumber } from '../common/sequence-number.js';
+import type { AID, SAID } from '../common/types.js';
+import type { CESREvent, CesrAttachment } from './types.js';
+import type { KelValidationOptions, ValidationError } from './validation.js';
+import { validateKelChain } from './validation.js';
+
+/** One side of a duplicity record: the event envelope plus its controller signatures. */
+export interface DuplicitousEvent {
+  envelope: CESREvent;
+  said: SAID;
+  signatures: Array<Extract<CesrAttachment, { kind: 'sig' }>>;
+}
+
+/**
+ * Two validly signed events at the same sequence number.
+ *
+ * `first` was seen first; `second` arrived later. `resolution` records which
+ * one the accepted KEL holds after the first-seen policy ran.
+ */
+export interface DuplicityRecord {
+  aid: AID;
+  sequence: number;
+  first: DuplicitousEvent;
+  second: DuplicitousEvent;
+  resolution: 'kept-first-seen' | 'superseded-by-recovery';
+  /** Accepted events displaced by a recovery rotation (resolution 'superseded-by-recovery' only). */
+  superseded?: CESREvent[];
+}
+
+/** An arriving event the reducer did not accept and that is not duplicity. */
+export type FirstSeenRejection =
+  | { kind: 'invalid'; envelope: CESREvent; error: ValidationError }
+  | { kind: 'out-of-order'; envelope: CESREvent; expectedSequence: number };
+
+export interface FirstSeenKel {
+  /** AID of the accepted KEL, once an inception has been accepted. */
+  aid: AID | undefined;
+  /** Accepted events in sequence order, after any recovery rotations. */
+  events: CESREvent[];
+  duplicity: DuplicityRecord[];
+  rejected: FirstSeenRejection[];
+}
+
+export type FirstSeenOptions = Omit<KelValidationOptions, 'startIndex'>;
+
+function isEstablishmentIlk(t: string): boolean {
+  return t === 'icp' || t === 'rot' || t === 'dip' || t === 'drt';
+}
+
+function toDuplicitousEvent(envelope: CESREvent): DuplicitousEvent {
+  return {
+    envelope,
+    said: envelope.event.d as SAID,
+    signatures: envelope.attachments.filter((a): a is Extract<CesrAttachment, { kind: 'sig' }> => a.kind === 'sig'),
+  };
+}
+
+/** Validate `candidate` as the next event after `prefix`; returns the first error, if any. */
+function validateAfter(
+  prefix: CESREvent[],
+  candidate: CESREvent,
+  options: FirstSeenOptions | undefined,
+): ValidationError | undefined {
+  const result = validateKelChain([...prefix, candidate], { ...options, startIndex: prefix.length });
+  if (result.valid) return undefined;
+  return (
+    result.firstError ?? {
+      code: 'MISSING_REQUIRED_FIELD',
+      scope: 'event',
+      severity: 'error',
+      message: `Event ${prefix.length} failed validation`,
+      eventIndex: prefix.length,
+    }
+  );
+}
+
+/**
+ * Reduce KEL events in arrival (first-seen) order to an accepted KEL.
+ *
+ * For each arriving event:
+ * - already seen (same SAID): ignored
+ * - next sequence number: accepted if it validates against the accepted KEL
+ * - beyond the next sequence number: rejected as out-of-order (escrow is the caller's job)
+ * - at an accepted sequence number: validated against the accepted prefix before it.
+ *   Invalid events are rejected. A valid recovery rotation past the last
+ *   establishment event supersedes the accepted tail; any other valid event
+ *   is duplicity and the first-seen event is kept.
+ *
+ * @param events - KEL events in the order they were first seen
+ * @param options - Validation options passed to validateKelChain (parentKel, mode)
+ */
+export function reduceFirstSeen(events: readonly CESREvent[], options?: FirstSeenOptions): FirstSeenKel {
+  let accepted: CESREvent[] = [];
+  let aid: AID | undefined;
+  const seen = new Set<string>();
+  const duplicity: DuplicityRecord[] = [];
+  const rejected: FirstSeenRejection[] = [];
+
+  for (const envelope of events) {
+    const event = envelope.event;
+    if (seen.has(event.d)) continue;
+
+    const sequence = parseSequenceNumber(event.s, options?.sequenceEncoding);
+    if (Number.isNaN(sequence)) {
+      rejected.push({
+        kind: 'invalid',
+        envelope,
+        error: {
+          code: 'SEQUENCE_INVALID',
+          scope: 'event',
+          severity: 'error',
+          message: `Unparseable sequence number '${event.s}'`,
+        },
+      });
+      continue;
+    }
+
+    if (sequence > accepted.length) {
+      rejected.push({ kind: 'out-of-order', envelope, expectedSequence: accepted.length });
+      continue;
+    }
+
+    if (aid !== undefined && event.i !== aid) {
+      rejected.push({
+        kind: 'invalid',
+        envelope,
+        error: {
+          code: 'AID_INCONSISTENT',
+          scope: 'chain',
+          severity: 'error',
+          message: `Event for ${event.i} does not belong to KEL ${aid}`,
+          eventIndex: sequence,
+        },
+      });
+      continue;
+    }
+
+    const prefix = accepted.slice(0, sequence);
+    const error = validateAfter(prefix, envelope, options);
+    if (error) {
+      rejected.push({ kind: 'invalid', envelope, error });
+      continue;
+    }
+    seen.add(event.d);
+
+    if (sequence === accepted.length) {
+      accepted.push(envelope);
+      aid ??= event.i as AID;
+      continue;
+    }
+
+    // A validly signed event at an accepted sequence number.
+    let lastEstablishment = -1;
+    for (let i = accepted.length - 1; i >= 0; i--) {
+      if (isEstablishmentIlk(accepted[i]!.event.t)) {
+        lastEstablishment = i;
+        break;
+      }
+    }
+
+    const first = accepted[sequence]!;
+    const isRecovery = (event.t === 'rot' || event.t === 'drt') && sequence > lastEstablishment;
+    if (isRecovery) {
+      const superseded = accepted.slice(sequence);
+      accepted = [...prefix, envelope];
+      duplicity.push({
+        aid: event.i as AID,
+        sequence,
+        first: toDuplicitousEvent(first),
+        second: toDuplicitousEvent(envelope),
+        resolution: 'superseded-by-recovery',
+        superseded,
+      });
+    } else {
+      duplicity.push({
+        aid: event.i as AID,
+        sequence,
+        first: toDuplicitousEvent(first),
+        second: toDuplicitousEvent(envelope),
+        resolution: 'kept-first-seen',
+      });
+    }
+  }
+
+  return { aid, events: accepted, duplicity, rejected };
+}
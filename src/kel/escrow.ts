@@ -0,0 +1,376 @@
+/**
+ * KEL Event Escrow
+ *
+ * Pure escrow for KEL events that cannot be accepted yet. Events and their
+ * attachments may arrive in any order; the escrow holds an event until the
+ * missing pieces land, then emits it in sequence order:
+ *
+ * - `partially-signed`: controller signatures do not yet meet the signing threshold
+ * - `out-of-order`: the event is ahead of the accepted KEL
+ * - `missing-receipts`: witness receipts do not yet meet `bt` (fully-witnessed mode)
+ * - `unverified-delegation`: delegator VRCs are incomplete or the delegator's
+ *   KEL does not yet anchor the event
+ *
+ * Each operation takes the current escrow state and returns a new one; the
+ * escrow never mutates its input and never throws. Classification is built on
+ * KELOps.validateAppend, with delegation failures taken from
+ * verifyVrcAgainstThreshold's typed reasons.
+ *
+ * @module kel/escrow
+ */
+
+import { parseSequenceNumber } from '../common/sequence-number.js';
+import type { SAID } from '../common/types.js';
+import { KELOps } from './ops.js';
+import type { CESREvent, CesrAttachment } from './types.js';
+import type { EventValidationDetail, KelValidationOptions, ValidationError } from './validation.js';
+import { isDelegationAnchor } from './validation-predicates.js';
+
+/** Why an event is being held. */
+export type EscrowReason = 'partially-signed' | 'out-of-order' | 'missing-receipts' | 'unverified-delegation';
+
+/** Maximum time, in milliseconds, an event may wait in each escrow. */
+export type EscrowTimeouts = Record<EscrowReason, number>;
+
+/** Defaults follow keripy's Kevery escrow timeouts. */
+export const DEFAULT_ESCROW_TIMEOUTS: EscrowTimeouts = {
+  'partially-signed': 3_600_000,
+  'out-of-order': 1_200_000,
+  'missing-receipts': 3_600_000,
+  'unverified-delegation': 3_600_000,
+};
+
+export interface EscrowEntry {
+  said: SAID;
+  sequence: number;
+  /** The event with every attachment collected so far. */
+  envelope: CESREvent;
+  reason: EscrowReason;
+  /** Time (ms) the event first arrived; timeouts run from here. */
+  receivedAt: number;
+}
+
+/** Attachments that arrived before their event. */
+export interface PendingAttachments {
+  attachments: CesrAttachment[];
+  receivedAt: number;
+}
+
+export interface KelEscrow {
+  /** Accepted events in sequence order. */
+  kel: CESREvent[];
+  /** Escrowed events by SAID. */
+  entries: Record<string, EscrowEntry>;
+  /** Attachments waiting for their event, by event SAID. */
+  attachments: Record<string, PendingAttachments>;
+}
+
+/** An event the escrow dropped without accepting it. */
+export type EscrowRejection =
+  | { kind: 'invalid'; envelope: CESREvent; error: ValidationError }
+  | { kind: 'stale'; envelope: CESREvent; expectedSequence: number };
+
+/** Result of one escrow operation. */
+export interface EscrowStep {
+  escrow: KelEscrow;
+  /** Events accepted by this step, in sequence order. */
+  accepted: CESREvent[];
+  rejected: EscrowRejection[];
+  /** Entries whose timeout elapsed before they could be accepted. */
+  expired: EscrowEntry[];
+}
+
+export interface EscrowOptions extends Omit<KelValidationOptions, 'startIndex'> {
+  /** Per-reason timeouts in ms, merged over DEFAULT_ESCROW_TIMEOUTS. */
+  timeouts?: Partial<EscrowTimeouts>;
+}
+
+type Classification =
+  | { kind: 'accept'; envelope: CESREvent }
+  | { kind: 'escrow'; envelope: CESREvent; reason: EscrowReason }
+  | { kind: 'reject'; rejection: EscrowRejection };
+
+/** Checks that may fail while signatures or delegator approval are still arriving. */
+const PENDING_CHECKS = new Set(['signaturesValid', 'thresholdMet', 'priorNextThresholdMet', 'delegationValid']);
+
+function attachmentKey(attachment: CesrAttachment): string {
+  return JSON.stringify(attachment);
+}
+
+function mergeAttachments(existing: readonly CesrAttachment[], incoming: readonly CesrAttachment[]): CesrAttachment[] {
+  const keys = new Set(existing.map(attachmentKey));
+  const merged = [...existing];
+  for (const attachment of incoming) {
+    const key = attachmentKey(attachment);
+    if (keys.has(key)) continue;
+    keys.add(key);
+    merged.push(attachment);
+  }
+  return merged;
+}
+
+/**
+ * Drop controller signatures that failed verification so a forged or
+ * misindexed signature cannot hold an otherwise valid event in escrow.
+ * Signature details are reported in attachment order.
+ */
+function dropInvalidSignatures(envelope: CESREvent, validation: EventValidationDetail): CESREvent {
+  const details = validation.checks.signaturesValid.details;
+  if (!details) return envelope;
+
+  let sigIndex = 0;
+  const attachments = envelope.attachments.filter((a) => {
+    if (a.kind !== 'sig') return true;
+    return details[sigIndex++]?.valid !== false;
+  });
+  return attachments.length === envelope.attachments.length ? envelope : { ...envelope, attachments };
+}
+
+function isDelegationPending(validation: EventValidationDetail): boolean {
+  const delegation = validation.checks.delegationValid;
+  if (!delegation || delegation.passed) return true;
+  // A DND delegator, or an anchor approval failing for any reason but a missing anchor, will not change.
+  if (delegation.doNotDelegate) return false;
+  if (delegation.anchorFailureReason !== undefined && delegation.anchorFailureReason !== 'anchor-missing') return false;
+  // No parent KEL, no VRCs or anchor yet, or too few valid VRCs: more may arrive.
+  return delegation.vrcFailureReason === undefined || delegation.vrcFailureReason === 'threshold-not-met';
+}
+
+function pendingReason(validation: EventValidationDetail, errors: ValidationError[]): EscrowReason | undefined {
+  const failing = Object.entries(validation.checks)
+    .filter(([_, check]) => check && !check.passed)
+    .map(([name]) => name);
+
+  if (failing.length === 0) {
+    return errors[0]?.code === 'WITNESS_RECEIPT_THRESHOLD_NOT_MET' ? 'missing-receipts' : undefined;
+  }
+  if (KELOps.isOnlyPendingSignatureFailures(validation)) return 'partially-signed';
+  if (!failing.every((name) => PENDING_CHECKS.has(name)) || !isDelegationPending(validation)) return undefined;
+  return failing.some((name) => name !== 'delegationValid') ? 'partially-signed' : 'unverified-delegation';
+}
+
+function hasDelegatorAnchor(parentKel: CESREvent[] | undefined, said: string): boolean {
+  return (parentKel ?? []).some((p) => isDelegationAnchor(p.event, said));
+}
+
+/** Decide what to do with `envelope` given the accepted KEL. */
+function classify(kel: CESREvent[], envelope: CESREvent, options: EscrowOptions): Classification {
+  const event = envelope.event;
+  const sequence = parseSequenceNumber(event.s, options.sequenceEncoding);
+  if (Number.isNaN(sequence)) {
+    return {
+      kind: 'reject',
+      rejection: {
+        kind: 'invalid',
+        envelope,
+        error: {
+          code: 'SEQUENCE_INVALID',
+          scope: 'event',
+          severity: 'error',
+          message: `Unparseable sequence number '${event.s}'`,
+        },
+      },
+    };
+  }
+  // With a checkpoint the accepted KEL is the tail after the checkpoint's event.
+  const checkpoint = options.checkpoint;
+  const expectedSequence = kel.length + (checkpoint ? parseSequenceNumber(checkpoint.s) + 1 : 0);
+  if (sequence > expectedSequence) return { kind: 'escrow', envelope, reason: 'out-of-order' };
+  if (sequence < expectedSequence) {
+    return { kind: 'reject', rejection: { kind: 'stale', envelope, expectedSequence } };
+  }
+
+  const aid = kel[0]?.event.i ?? checkpoint?.i;
+  if (aid !== undefined && event.i !== aid) {
+    return {
+      kind: 'reject',
+      rejection: {
+        kind: 'invalid',
+        envelope,
+        error: {
+          code: 'AID_INCONSISTENT',
+          scope: 'chain',
+          severity: 'error',
+          message: `Event for ${event.i} does not belong to KEL ${aid}`,
+          eventIndex: sequence,
+        },
+      },
+    };
+  }
+
+  const { timeouts: _timeouts, ...validationOptions } = options;
+  let candidate = envelope;
+  let result = KELOps.validateAppend(kel, candidate, validationOptions);
+  if (!result.ok && !result.validation.checks.signaturesValid.passed) {
+    const pruned = dropInvalidSignatures(candidate, result.validation);
+    if (pruned !== candidate) {
+      candidate = pruned;
+      result = KELOps.validateAppend(kel, candidate, validationOptions);
+    }
+  }
+
+  if (result.ok) {
+    const delegated = event.t === 'dip' || event.t === 'drt';
+    if (delegated && !hasDelegatorAnchor(options.parentKel, event.d)) {
+      return { kind: 'escrow', envelope: candidate, reason: 'unverified-delegation' };
+    }
+    return { kind: 'accept', envelope: candidate };
+  }
+
+  const reason = pendingReason(result.validation, result.errors);
+  if (reason) return { kind: 'escrow', envelope: candidate, reason };
+  return {
+    kind: 'reject',
+    rejection: {
+      kind: 'invalid',
+      envelope: candidate,
+      error: result.errors[0] ?? {
+        code: 'MISSING_REQUIRED_FIELD',
+        scope: 'event',
+        severity: 'error',
+        message: `Event ${sequence} failed validation`,
+        eventIndex: sequence,
+      },
+    },
+  };
+}
+
+/**
+ * Expire timed-out entries, then re-classify every entry until no further
+ * event can be accepted (one acceptance may unblock out-of-order successors).
+ */
+function settle(escrow: KelEscrow, now: number, options: EscrowOptions): EscrowStep {
+  const timeouts = { ...DEFAULT_ESCROW_TIMEOUTS, ...options.timeouts };
+  let kel = escrow.kel;
+  const entries: Record<string, EscrowEntry> = {};
+  const attachments: Record<string, PendingAttachments> = {};
+  const accepted: CESREvent[] = [];
+  const rejected: EscrowRejection[] = [];
+  const expired: EscrowEntry[] = [];
+
+  for (const entry of Object.values(escrow.entries)) {
+    if (now - entry.receivedAt > timeouts[entry.reason]) expired.push(entry);
+    else entries[entry.said] = entry;
+  }
+  // Orphan attachments are out-of-order material and share its timeout.
+  for (const [said, pending] of Object.entries(escrow.attachments)) {
+    if (now - pending.receivedAt <= timeouts['out-of-order']) attachments[said] = pending;
+  }
+
+  let progress = true;
+  while (progress) {
+    progress = false;
+    const ordered = Object.values(entries).sort((a, b) => a.sequence - b.sequence || a.receivedAt - b.receivedAt);
+    for (const entry of ordered) {
+      const outcome = classify(kel, entry.envelope, options);
+      if (outcome.kind === 'escrow') {
+        entries[entry.said] = { ...entry, envelope: outcome.envelope, reason: outcome.reason };
+        continue;
+      }
+      delete entries[entry.said];
+      if (outcome.kind === 'reject') {
+        rejected.push(outcome.rejection);
+        continue;
+      }
+      kel = [...kel, outcome.envelope];
+      accepted.push(outcome.envelope);
+      progress = true;
+    }
+  }
+
+  return { escrow: { kel, entries, attachments }, accepted, rejected, expired };
+}
+
+/**
+ * Create an escrow over an accepted KEL.
+ *
+ * @param kel - Events already accepted (trusted, not re-validated)
+ */
+export function createKelEscrow(kel: CESREvent[] = []): KelEscrow {
+  return { kel: [...kel], entries: {}, attachments: {} };
+}
+
+/**
+ * Offer an event to the escrow.
+ *
+ * Attachments already collected for the event's SAID are merged in before it
+ * is classified. Re-offering an escrowed event merges its attachments into
+ * the escrowed copy; re-offering an accepted event merges them into the KEL.
+ *
+ * @param escrow - Current escrow state
+ * @param envelope - The arriving event with whatever attachments came with it
+ * @param now - Current time in ms, used for timeouts
+ * @param options - Validation options (parentKel, mode, sequenceEncoding, checkpoint), plus timeouts
+ */
+export function escrowEvent(
+  escrow: KelEscrow,
+  envelope: CESREvent,
+  now: number,
+  options: EscrowOptions = {},
+): EscrowStep {
+  const said = envelope.event.d;
+  if (escrow.kel.some((e) => e.event.d === said) || escrow.entries[said]) {
+    return escrowAttachments(escrow, said as SAID, envelope.attachments, now, options);
+  }
+
+  const attachments = { ...escrow.attachments };
+  const orphans = attachments[said];
+  delete attachments[said];
+  const entry: EscrowEntry = {
+    said: said as SAID,
+    sequence: parseSequenceNumber(envelope.event.s, options.sequenceEncoding),
+    envelope: orphans
+      ? { ...envelope, attachments: mergeAttachments(envelope.attachments, orphans.attachments) }
+      : envelope,
+    reason: 'out-of-order',
+    receivedAt: now,
+  };
+
+  return settle({ ...escrow, entries: { ...escrow.entries, [said]: entry }, attachments }, now, options);
+}
+
+/**
+ * Offer attachments (signatures, receipts, VRCs) for the event with `said`.
+ *
+ * Attachments for an escrowed event are merged and the event is re-classified.
+ * Attachments for an accepted event are merged into the KEL. Attachments for
+ * an unknown event are held until the event arrives or the out-of-order
+ * timeout elapses.
+ */
+export function escrowAttachments(
+  escrow: KelEscrow,
+  said: SAID,
+  attachments: readonly CesrAttachment[],
+  now: number,
+  options: EscrowOptions = {},
+): EscrowStep {
+  const entry = escrow.entries[said];
+  if (entry) {
+    const envelope = { ...entry.envelope, attachments: mergeAttachments(entry.envelope.attachments, attachments) };
+    return settle({ ...escrow, entries: { ...escrow.entries, [said]: { ...entry, envelope } } }, now, options);
+  }
+
+  const index = escrow.kel.findIndex((e) => e.event.d === said);
+  if (index >= 0) {
+    const kel = escrow.kel.map((e, i) =>
+      i === index ? { ...e, attachments: mergeAttachments(e.attachments, attachments) } : e,
+    );
+    return settle({ ...escrow, kel }, now, options);
+  }
+
+  const pending = escrow.attachments[said];
+  const merged: PendingAttachments = pending
+    ? { attachments: mergeAttachments(pending.attachments, attachments), receivedAt: pending.receivedAt }
+    : { attachments: mergeAttachments([], attachments), receivedAt: now };
+  return settle({ ...escrow, attachments: { ...escrow.attachments, [said]: merged } }, now, options);
+}
+
+/**
+ * Re-classify every escrowed event and expire timed-out entries.
+ *
+ * Call after the delegator's KEL grows (pass the new `parentKel`) or
+ * periodically to enforce timeouts.
+ */
+export function reprocessEscrow(escrow: KelEscrow, now: number, options: EscrowOptions = {}): EscrowStep {
+  return settle(escrow, now, options);
+}
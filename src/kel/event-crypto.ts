@@ -7,6 +7,7 @@
 
 import type { DerivationSurface } from '../common/derivation-surface.js';
 import { serializeForSigning } from '../common/derivation-surface.js';
+import type { SerializationKind } from '../common/serialization-kind.js';
 import type { PublicKey, Signature } from '../common/types.js';
 import {
   KEL_DIP_SURFACE,
@@ -36,14 +37,15 @@ function selectSurface(ilk: string): DerivationSurface {
 }
 
 /**
- * Canonicalize a KEL event to its insertion-order JSON bytes.
+ * Canonicalize a KEL event to its insertion-order bytes.
  *
  * KERI signatures are created over these canonical bytes, using the
- * surface's derivedFieldsInOrder for consistent field ordering.
+ * surface's derivedFieldsInOrder for consistent field ordering. The
+ * serialization kind defaults to the one declared by the event's `v`.
  */
-export function canonicalizeEvent(event: KELEvent): Uint8Array {
+export function canonicalizeEvent(event: KELEvent, kind?: SerializationKind): Uint8Array {
   const surface = selectSurface(event.t);
-  const { raw } = serializeForSigning(event as Record<string, unknown>, surface);
+  const { raw } = serializeForSigning(event as Record<string, unknown>, surface, kind);
   return raw;
 }
 
@@ -53,8 +55,14 @@ export function canonicalizeEvent(event: KELEvent): Uint8Array {
  * @param event - The KEL event
  * @param publicKey - Public key to verify with (CESR qb64 encoded)
  * @param signature - Signature to verify (CESR qb64 encoded)
+ * @param kind - Serialization the signature was made over (defaults to the event's `v` kind)
  * @returns true if signature is valid
  */
-export function verifyEventSignature(event: KELEvent, publicKey: PublicKey, signature: Signature): boolean {
-  return verify(publicKey, signature, canonicalizeEvent(event));
+export function verifyEventSignature(
+  event: KELEvent,
+  publicKey: PublicKey,
+  signature: Signature,
+  kind?: SerializationKind,
+): boolean {
+  return verify(publicKey, signature, canonicalizeEvent(event, kind));
 }
@@ -35,9 +35,31 @@ describe('encodeEventBytes', () => {
     expect(() => JSON.parse(decoded)).not.toThrow();
   });
 
-  test('throws for unsupported encoding', () => {
-    const event = { t: 'icp' } as unknown as KELEvent;
-    expect(() => encodeEventBytes(event, 'CBOR')).toThrow(/not yet supported/);
-    expect(() => encodeEventBytes(event, 'MGPK')).toThrow(/not yet supported/);
+  test('encodes CBOR and MGPK in surface field order', () => {
+    const event = {
+      v: 'KERI10CBOR00007b_',
+      t: 'ixn',
+      d: 'Eabc',
+      i: 'Exyz',
+      s: '1',
+      p: 'Eprior',
+      a: [],
+    } as unknown as KELEvent;
+
+    const cbor = encodeEventBytes(event, 'CBOR');
+    // map(7), text(1) "v", text(17) version string
+    expect(Buffer.from(cbor.slice(0, 4)).toString('hex')).toBe('a7617671');
+    expect(cbor[cbor.length - 1]).toBe(0x80); // a: []
+
+    const mgpk = encodeEventBytes(event, 'MGPK');
+    // fixmap(7), fixstr(1) "v", fixstr(17) version string
+    expect(Buffer.from(mgpk.slice(0, 4)).toString('hex')).toBe('87a176b1');
+    expect(mgpk[mgpk.length - 1]).toBe(0x90); // a: []
+  });
+
+  test('throws for unknown ilk regardless of encoding', () => {
+    const event = { t: 'xyz' } as unknown as KELEvent;
+    expect(() => encodeEventBytes(event, 'CBOR')).toThrow(/unknown ilk/);
+    expect(() => encodeEventBytes(event, 'MGPK')).toThrow(/unknown ilk/);
   });
 });
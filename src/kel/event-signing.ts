@@ -7,6 +7,7 @@
  * @module kel/event-signing
  */
 
+import type { SerializationKind } from '../common/serialization-kind.js';
 import type { Signer } from '../signature/signer.js';
 import { canonicalizeEvent } from './event-crypto.js';
 import type { AID, CESREvent, CesrAttachment, KELEvent } from './types.js';
@@ -14,21 +15,17 @@ import type { AID, CESREvent, CesrAttachment, KELEvent } from './types.js';
 /**
  * Encodes a KEL event to canonical bytes for signing.
  *
- * Uses surface-based insertion-order JSON serialization (keripy-compatible).
- * Future: Add CBOR and MGPK support.
+ * Uses surface-based insertion-order serialization in the requested encoding,
+ * byte-for-byte compatible with keripy's Serder.raw for JSON, CBOR and MGPK.
+ * The event's `v` should declare the same kind so its size field matches.
  *
  * @param event - The KEL event to encode
  * @param encoding - The encoding format ('JSON', 'CBOR', 'MGPK')
  * @returns Canonical byte representation for signing
- * @throws Error if encoding is not supported
+ * @throws Error if the event has an unknown ilk
  */
-export function encodeEventBytes(event: KELEvent, encoding: 'JSON' | 'CBOR' | 'MGPK' = 'JSON'): Uint8Array {
-  if (encoding !== 'JSON') {
-    throw new Error(`Encoding ${encoding} not yet supported. Only JSON is currently implemented.`);
-  }
-
-  // Use surface-based insertion-order serialization (keripy-compatible)
-  return canonicalizeEvent(event);
+export function encodeEventBytes(event: KELEvent, encoding: SerializationKind = 'JSON'): Uint8Array {
+  return canonicalizeEvent(event, encoding);
 }
 
 /**
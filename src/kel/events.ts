@@ -12,9 +12,12 @@
  * @module kel/events
  */
 
+import type { SaidAlgo } from '../cesr/types.js';
 import { SAID_PLACEHOLDER } from '../common/data.js';
 import type { DerivationSurface } from '../common/derivation-surface.js';
 import { deriveSaid, serializeForSigning } from '../common/derivation-surface.js';
+import { isSequenceNumber, nextSequenceNumber, type SequenceEncoding } from '../common/sequence-number.js';
+import { versionStringKind } from '../common/serialization-kind.js';
 import type { AID, PublicKey, SAID, Threshold } from '../common/types.js';
 import {
   KEL_DIP_SURFACE,
@@ -23,6 +26,7 @@ import {
   KEL_IXN_SURFACE,
   KEL_ROT_SURFACE,
 } from '../said/surfaces.js';
+import { parseSimpleThreshold } from './threshold.js';
 import type { KELEvent } from './types.js';
 
 /**
@@ -51,6 +55,7 @@ export interface DipParams extends IcpParams {
  */
 export interface RotParams {
   aid: AID;
+  /** Lowercase hex, e.g. from nextSequence */
   sequence: string;
   priorEventSaid: SAID;
   keys: PublicKey[];
@@ -67,6 +72,13 @@ export interface RotParams {
   config?: string[];
   /** Anchors (a field) — defaults to [] */
   anchors?: unknown[];
+  /**
+   * Custodial rotation: exposed prior next keys that authorize this rotation
+   * but do not sign after it, e.g. held by the user while a custodian holds
+   * `keys`. They go ahead of `keys` in k[] with zero weight in kt, so
+   * `signingThreshold` applies to `keys` alone.
+   */
+  rotationKeys?: PublicKey[];
 }
 
 /**
@@ -80,6 +92,7 @@ export interface DrtParams extends RotParams {}
  */
 export interface IxnParams {
   aid: AID;
+  /** Lowercase hex, e.g. from nextSequence */
   sequence: string;
   priorEventSaid: SAID;
   anchors?: unknown[];
@@ -125,6 +138,28 @@ function selectSurface(ilk: string): DerivationSurface {
   }
 }
 
+/**
+ * k[] and kt for a rotation. For a custodial rotation the rotation keys lead
+ * k[] with weight 0/1; a simple M-of-N signingThreshold over `keys` becomes
+ * weight 1/M each.
+ */
+function rotationSigningKeys(params: RotParams): { kt: Threshold; k: PublicKey[] } {
+  const rotationKeys = params.rotationKeys ?? [];
+  if (rotationKeys.length === 0) return { kt: params.signingThreshold, k: params.keys };
+
+  const zeros = rotationKeys.map(() => '0/1');
+  const threshold = params.signingThreshold;
+  let kt: Threshold;
+  if (Array.isArray(threshold)) {
+    kt = threshold.map((clause) => [...zeros, ...clause]);
+  } else {
+    const m = parseSimpleThreshold(threshold, params.keys.length);
+    kt = [[...zeros, ...params.keys.map(() => `1/${m}`)]];
+  }
+  // Field order matters: kt precedes k in the serialized event.
+  return { kt, k: [...rotationKeys, ...params.keys] };
+}
+
 export namespace KELEvents {
   /**
    * Build unsigned inception event (icp)
@@ -199,8 +234,7 @@ export namespace KELEvents {
       i: params.aid,
       s: params.sequence,
       p: params.priorEventSaid,
-      kt: params.signingThreshold,
-      k: params.keys,
+      ...rotationSigningKeys(params),
       nt: params.nextThreshold,
       n: params.nextKeyDigests,
       bt: params.witnessThreshold ?? '0',
@@ -229,8 +263,7 @@ export namespace KELEvents {
       i: params.aid,
       s: params.sequence,
       p: params.priorEventSaid,
-      kt: params.signingThreshold,
-      k: params.keys,
+      ...rotationSigningKeys(params),
       nt: params.nextThreshold,
       n: params.nextKeyDigests,
       bt: params.witnessThreshold ?? '0',
@@ -290,6 +323,7 @@ export namespace KELEvents {
    *
    * @param unsignedEvent - Unsigned event with placeholder d, i, v
    * @param isInception - Whether this is an inception event (icp/dip) where i=d
+   * @param algo - SAID digest algorithm (default: blake3-256); also the prefix code of an inception's AID
    * @returns Finalized event, canonical representations, and SAID
    *
    * @example
@@ -299,7 +333,11 @@ export namespace KELEvents {
    * // event now has d, i, v properly set
    * ```
    */
-  export function computeSaid(unsignedEvent: any, isInception = false): FinalizedEventResult {
+  export function computeSaid(
+    unsignedEvent: any,
+    isInception = false,
+    algo: SaidAlgo = 'blake3-256',
+  ): FinalizedEventResult {
     const surface = selectSurface(unsignedEvent.t);
     const ilkIsInception = INCEPTION_ILKS.has(unsignedEvent.t);
 
@@ -310,6 +348,9 @@ export namespace KELEvents {
           `${ilkIsInception ? 'is' : 'is not'} an inception event`,
       );
     }
+    if (!isSequenceNumber(unsignedEvent.s)) {
+      throw new Error(`computeSaid: sequence '${unsignedEvent.s}' is not lowercase hex`);
+    }
 
     // For inception events (icp/dip), keripy substitutes BOTH d and i with
     // the 44-char placeholder before computing the SAID. deriveSaid only
@@ -321,7 +362,7 @@ export namespace KELEvents {
     const canonUnsigned = serializeForSigning(eventForDerivation, surface);
 
     // Derive SAID using keripy-compatible insertion-order serialization
-    const { sealed, said } = deriveSaid(eventForDerivation, surface);
+    const { sealed, said } = deriveSaid(eventForDerivation, surface, undefined, algo);
 
     // For inception events, set i = d = said (both are SAIDified)
     const event: KELEvent = isInception ? { ...sealed, i: said } : (sealed as KELEvent);
@@ -344,10 +385,15 @@ export namespace KELEvents {
    *
    * @param unsignedEvent - Unsigned event from build* function
    * @param isInception - Whether this is an inception event
+   * @param algo - SAID digest algorithm (default: blake3-256)
    * @returns Finalized event result
    */
-  export function finalize(unsignedEvent: any, isInception = false): FinalizedEventResult {
-    return computeSaid(unsignedEvent, isInception);
+  export function finalize(
+    unsignedEvent: any,
+    isInception = false,
+    algo: SaidAlgo = 'blake3-256',
+  ): FinalizedEventResult {
+    return computeSaid(unsignedEvent, isInception, algo);
   }
 
   /**
@@ -367,13 +413,16 @@ export namespace KELEvents {
   }
 
   /**
-   * Increment a sequence number string by 1.
+   * Increment a sequence number string by 1. Sequence numbers are lowercase
+   * hex, as in keripy; pass 'decimal' only to extend a legacy decimal KEL.
+   * Throws when `priorSeq` is malformed.
    *
-   * @param priorSeq - Prior sequence number as string (e.g. '0', '42')
-   * @returns Next sequence number as string (e.g. '1', '43')
+   * @param priorSeq - Prior sequence number (e.g. '0', '9', 'ff')
+   * @param encoding - Sequence encoding of the log being extended (default 'hex')
+   * @returns Next sequence number (e.g. '1', 'a', '100')
    */
-  export function nextSequence(priorSeq: string): string {
-    return String(Number.parseInt(priorSeq, 10) + 1);
+  export function nextSequence(priorSeq: string, encoding: SequenceEncoding = 'hex'): string {
+    return nextSequenceNumber(priorSeq, encoding);
   }
 
   /**
@@ -381,7 +430,8 @@ export namespace KELEvents {
    *
    * Signatures must be CESR qb64-encoded strings (use encodeSig from cesr/sigs.js).
    * Structural assembly only — does not verify signatures match event keys.
-   * Validation happens in KELOps.validateAppend.
+   * Validation happens in KELOps.validateAppend. The envelope encoding follows
+   * the kind declared by the event's version string.
    */
   export function assembleSignedEvent(params: {
     event: KELEvent;
@@ -398,7 +448,7 @@ export namespace KELEvents {
     return {
       event: params.event,
       attachments,
-      enc: 'JSON',
+      enc: versionStringKind(params.event.v) ?? 'JSON',
       ...(params.bytesB64 !== undefined ? { bytesB64: params.bytesB64 } : {}),
     };
   }
@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import type { SerializationKind } from '../../common/serialization-kind.js';
+import type { PublicKey, Signature } from '../../common/types.js';
+import { verify } from '../../signature/verify.js';
+import { encodeEventBytes } from '../event-signing.js';
+import type { CESREvent, KELEvent } from '../types.js';
+import { validateEventSaid, validateKelChain } from '../validation.js';
+
+type KindExpected = {
+  event: KELEvent;
+  rawHex: string;
+  sigQb64: string;
+};
+
+let expectedData: {
+  expected: Record<string, KindExpected>;
+} | null = null;
+
+try {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  expectedData = require('./kel-kinds-expected.json');
+} catch {
+  // Optional until scripts/generate-keripy-kel-kinds.py is run.
+}
+
+const KINDS: SerializationKind[] = ['CBOR', 'MGPK'];
+
+function signed(exp: KindExpected, enc: SerializationKind): CESREvent {
+  return {
+    event: exp.event,
+    attachments: [{ kind: 'sig', form: 'indexed', keyIndex: 0, sig: exp.sigQb64 }],
+    enc,
+  };
+}
+
+describe('KEL CBOR and MGPK events against keripy', () => {
+  if (!expectedData) {
+    test.todo('kel-kinds-expected.json missing — run: python3 scripts/generate-keripy-kel-kinds.py');
+    return;
+  }
+  const expected = expectedData.expected;
+
+  for (const kind of KINDS) {
+    describe(kind, () => {
+      const icp = expected[`icp-${kind.toLowerCase()}`]!;
+      const rot = expected[`rot-${kind.toLowerCase()}`]!;
+
+      for (const [ilk, exp] of [
+        ['icp', icp],
+        ['rot', rot],
+      ] as const) {
+        test(`${ilk} bytes match keripy Serder.raw`, () => {
+          expect(exp.event.v).toStartWith(`KERI10${kind}`);
+          expect(Buffer.from(encodeEventBytes(exp.event, kind)).toString('hex')).toBe(exp.rawHex);
+        });
+
+        test(`${ilk} SAID matches keripy`, () => {
+          expect(validateEventSaid(exp.event).valid).toBe(true);
+        });
+
+        test(`${ilk} keripy signature verifies over kerits bytes`, () => {
+          const key = exp.event.k![0] as PublicKey;
+          expect(verify(key, exp.sigQb64 as Signature, encodeEventBytes(exp.event, kind))).toBe(true);
+        });
+      }
+
+      test('keripy icp and rot validate as a KEL', () => {
+        const result = validateKelChain([signed(icp, kind), signed(rot, kind)]);
+        expect(result.firstError).toBeUndefined();
+      });
+    });
+  }
+});
@@ -1,5 +1,7 @@
 import { describe, expect, test } from 'bun:test';
 import { encodeAttachmentGroups } from '../../cesr/attachments.js';
+import { parseCesrStream, serializeCesrStream } from '../../cesr/stream.js';
+import { decodeBase64 } from '../../common/base64.js';
 import { encodeEventBytes } from '../event-signing.js';
 import type { CesrAttachment, KELEvent } from '../types.js';
 
@@ -84,6 +86,18 @@ describe('KEL wire cross-validation against keripy', () => {
         expect(exp.attachmentWireV2Qb64.startsWith('-J')).toBe(true);
       });
 
+      test('CESR stream parse captures keripy body bytes exactly and round-trips', () => {
+        const body = hexToBytes(exp.bodyHex);
+        const wire = new Uint8Array([...body, ...encodeAttachmentGroups(attachmentsFromExpected(exp))]);
+        const [parsed, ...rest] = parseCesrStream(wire);
+        expect(rest).toHaveLength(0);
+        expect(parsed!.event).toEqual(eventBodyForKeripyWire(exp.event as KELEvent));
+        expect(parsed!.enc).toBe('JSON');
+        expect(Buffer.from(decodeBase64(parsed!.bytesB64!)).toString('hex')).toBe(exp.bodyHex);
+        expect(parsed!.attachments).toEqual(attachmentsFromExpected(exp));
+        expect(Buffer.from(serializeCesrStream([parsed!])).toString('hex')).toBe(Buffer.from(wire).toString('hex'));
+      });
+
       test('full keripy wire equals body + v2 attachments', () => {
         const body = hexToBytes(exp.bodyHex);
         const att = new TextEncoder().encode(exp.attachmentWireV2Qb64);
@@ -95,3 +109,25 @@ describe('KEL wire cross-validation against keripy', () => {
     });
   }
 });
+
+describe('KEL wire stream round-trip against keripy', () => {
+  if (!expectedData) {
+    test.todo('kel-wire-expected.json missing — run: python3 scripts/generate-keripy-kel-wire.py');
+    return;
+  }
+
+  test('concatenated fixture events parse as one ordered stream', () => {
+    const parts: number[] = [];
+    const ids: string[] = [];
+    for (const fixture of fixtureData.fixtures) {
+      const exp = expectedData.expected[fixture.id];
+      if (!exp || 'error' in exp) continue;
+      ids.push(fixture.id);
+      parts.push(...hexToBytes(exp.bodyHex), ...encodeAttachmentGroups(attachmentsFromExpected(exp)));
+    }
+    const wire = Uint8Array.from(parts);
+    const parsed = parseCesrStream(wire);
+    expect(parsed.map((e) => e.event.t)).toEqual(ids.map((id) => (expectedData!.expected[id] as WireExpected).event.t));
+    expect(serializeCesrStream(parsed)).toEqual(wire);
+  });
+});
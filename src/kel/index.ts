@@ -16,6 +16,48 @@ export const Kel = {
   ...KELEvents,
 } as const;
 
+export {
+  checkpointKeyState,
+  createKelCheckpoint,
+  type KelCheckpointFailureCode,
+  type KelCheckpointOptions,
+  type KelCheckpointResult,
+  type KelCheckpointSignatureFailureCode,
+  type KelCheckpointSignatureResult,
+  type KelCheckpointVerificationResult,
+  signKelCheckpoint,
+  verifyKelCheckpoint,
+  verifyKelCheckpointSignatures,
+} from './checkpoint.js';
+export {
+  type DelegationApprovalErrorCode,
+  type DelegationApprovalOptions,
+  type DelegationApprovalResult,
+  type DelegationApprovalStep,
+  verifyDelegationApproval,
+} from './delegation.js';
+export type {
+  DuplicitousEvent,
+  DuplicityRecord,
+  FirstSeenKel,
+  FirstSeenOptions,
+  FirstSeenRejection,
+} from './duplicity.js';
+export {
+  createKelEscrow,
+  DEFAULT_ESCROW_TIMEOUTS,
+  type EscrowEntry,
+  type EscrowOptions,
+  type EscrowReason,
+  type EscrowRejection,
+  type EscrowStep,
+  type EscrowTimeouts,
+  escrowAttachments,
+  escrowEvent,
+  type KelEscrow,
+  type PendingAttachments,
+  reprocessEscrow,
+} from './escrow.js';
 export { KELEvents } from './events.js';
 export { KELData } from './kel-data.js';
 export { KELOps } from './ops.js';
@@ -34,6 +76,11 @@ export type {
   ValidateControllerSignatureResult,
   VerifiedKeyState,
 } from './ops-types.js';
+export {
+  type PartialRotationInput,
+  type PartialRotationPlan,
+  planPartialRotation,
+} from './rotation.js';
 export {
   assessTelKelAnchor,
   assessTelKelAnchors,
@@ -41,9 +88,21 @@ export {
 } from './tel-kel-anchor.js';
 export * from './types.js';
 export {
+  type DelegationAnchorLocation,
   eventContainsAnchorForSaid,
+  findDelegationAnchor,
   isDelegationAnchor,
+  sealedSaids,
+  sealsDelegatedEvent,
   type VrcVerificationResult,
   verifyVrcAgainstThreshold,
   verifyWitnessReceipt,
 } from './validation-predicates.js';
+export {
+  compareKels,
+  type KelComparisonOptions,
+  type KelComparisonResult,
+  type KelSource,
+  type KelSourceEvidence,
+  type KelSourceStatus,
+} from './watcher.js';
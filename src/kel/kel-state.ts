@@ -7,9 +7,10 @@
  * @module kel/kel-state
  */
 
+import { formatSequenceNumber, parseSequenceNumber, type SequenceEncoding } from '../common/sequence-number.js';
 import type { AID, PublicKey, SAID, Threshold } from '../common/types.js';
 import { type NormalizedThreshold, normalizeThreshold } from './threshold-normalize.js';
-import type { CESREvent, DipEvent, DrtEvent, IcpEvent, KELEvent, RotEvent } from './types.js';
+import type { CESREvent, DipEvent, DrtEvent, IcpEvent, KELEvent, KelCheckpoint, RotEvent } from './types.js';
 
 export interface DerivationNote {
   code: 'missing-field' | 'unparseable-threshold' | 'unexpected-event-type' | 'malformed-witnesses';
@@ -68,26 +69,67 @@ function tryNormalize(
   }
 }
 
-export function reduceKelState(events: CESREvent[]): DerivedState[] {
+/**
+ * Stand-in for the last establishment event recorded by a checkpoint.
+ *
+ * Carries the fields later events are checked against (k/kt/n/nt, location);
+ * the prior-event link and witness deltas of the original event are not kept.
+ */
+export function checkpointEstablishment(checkpoint: KelCheckpoint): EstablishmentEvent {
+  const inception = parseSequenceNumber(checkpoint.ee.s) === 0;
+  const t = checkpoint.di ? (inception ? 'dip' : 'drt') : inception ? 'icp' : 'rot';
+  return {
+    v: checkpoint.v,
+    t,
+    d: checkpoint.ee.d,
+    i: checkpoint.i,
+    s: checkpoint.ee.s,
+    kt: checkpoint.kt,
+    k: checkpoint.k,
+    nt: checkpoint.nt,
+    n: checkpoint.n,
+    bt: checkpoint.bt,
+    b: checkpoint.b,
+    c: checkpoint.c,
+    a: [],
+    ...(checkpoint.di ? { di: checkpoint.di } : {}),
+  } as unknown as EstablishmentEvent;
+}
+
+/**
+ * @param events - KEL events in order
+ * @param encoding - Sequence encoding of the KEL; 'decimal' only for legacy KELs
+ * @param checkpoint - Trusted state at sequence N; `events` are then the events after N
+ */
+export function reduceKelState(
+  events: CESREvent[],
+  encoding: SequenceEncoding = 'hex',
+  checkpoint?: KelCheckpoint,
+): DerivedState[] {
   if (events.length === 0) return [];
 
   const states: DerivedState[] = [];
-  let kelAid: AID = '' as AID;
-  let signingKeys: PublicKey[] = [];
+  const offset = checkpoint ? parseSequenceNumber(checkpoint.s) + 1 : 0;
+  let kelAid: AID = (checkpoint?.i ?? '') as AID;
+  let signingKeys: PublicKey[] = (checkpoint?.k ?? []) as PublicKey[];
   let signingThreshold: NormalizedThreshold = { type: 'simple', m: 1, n: 1 };
-  let previousSaid: SAID | undefined;
-  let lastEstablishment: EstablishmentEvent | undefined;
-  let witnesses = new Set<string>();
-  let witnessThreshold: Threshold = '0';
-  let inceptionTraits: ReadonlySet<string> = new Set();
-  let nonTransferable = false;
-  let delegatorAid: AID | undefined;
+  let previousSaid: SAID | undefined = checkpoint?.ed as SAID | undefined;
+  let lastEstablishment: EstablishmentEvent | undefined = checkpoint ? checkpointEstablishment(checkpoint) : undefined;
+  let witnesses = new Set<string>(checkpoint?.b ?? []);
+  let witnessThreshold: Threshold = checkpoint?.bt ?? '0';
+  let inceptionTraits: ReadonlySet<string> = new Set(checkpoint?.c ?? []);
+  let nonTransferable = checkpoint ? checkpoint.n.length === 0 : false;
+  let delegatorAid: AID | undefined = checkpoint?.di ? (checkpoint.di as AID) : undefined;
+
+  if (checkpoint) {
+    signingThreshold = tryNormalize(checkpoint.kt, signingKeys.length || 1).threshold;
+  }
 
   for (let i = 0; i < events.length; i++) {
     const event = events[i]!.event;
     const notes: DerivationNote[] = [];
 
-    if (i === 0) {
+    if (i === 0 && !checkpoint) {
       kelAid = event.i as AID;
       if (!isInception(event)) {
         notes.push({
@@ -149,7 +191,7 @@ export function reduceKelState(events: CESREvent[]): DerivedState[] {
 
     states.push({
       index: i,
-      expectedSequence: String(i),
+      expectedSequence: formatSequenceNumber(offset + i, encoding),
       kelAid,
       signingKeys: [...signingKeys],
       signingThreshold,
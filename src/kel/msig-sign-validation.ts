@@ -8,6 +8,7 @@
  * @module kel/msig-sign-validation
  */
 
+import { digestAlgoOf } from '../cesr/digest.js';
 import { SAID_PLACEHOLDER } from '../common/data.js';
 import { deriveSaid, serializeForSigning } from '../common/derivation-surface.js';
 import type { PublicKey, SAID, Signature, Threshold } from '../common/types.js';
@@ -143,7 +144,8 @@ export function validateInceptionSignRequest(
 
   // 2. SAID integrity — recompute using same derivation as KELEvents.computeSaid
   const eventForDerivation = { ...icpEvent, d: SAID_PLACEHOLDER, i: SAID_PLACEHOLDER };
-  const { said: recomputedSaid } = deriveSaid(eventForDerivation, KEL_ICP_SURFACE);
+  const algo = digestAlgoOf(expectedEventSaid) ?? 'blake3-256';
+  const { said: recomputedSaid } = deriveSaid(eventForDerivation, KEL_ICP_SURFACE, undefined, algo);
   if (recomputedSaid !== expectedEventSaid) {
     return fail(
       'event-said-mismatch',
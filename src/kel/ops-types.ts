@@ -2,8 +2,9 @@
  * Types for KELOps — pure KEL interpretation and validation.
  */
 
+import type { SequenceEncoding } from '../common/sequence-number.js';
 import type { AID, CesrDigest, PublicKey, SAID, Threshold } from '../common/types.js';
-import type { DipEvent, DrtEvent, IcpEvent, IxnEvent, KSN, RotEvent } from './types.js';
+import type { CESREvent, DipEvent, DrtEvent, IcpEvent, IxnEvent, KSN, RotEvent } from './types.js';
 import type { EventValidationDetail, ValidationError } from './validation.js';
 
 /** A typed reference to a specific event in a KEL. */
@@ -36,14 +37,18 @@ export interface PreviousNextKeyCommitment {
 
 /**
  * Pure synchronous read surface over a materialised KEL.
- * Constructed via `KELOps.forKEL(aid, events)`.
+ * Constructed via `KELOps.forKEL(aid, events)`; lookups by SAID, sequence
+ * number and sealed SAID are indexed.
  */
 export interface KELView {
   head(): EventRef | undefined;
   inception(): EventRef<IcpEvent | DipEvent> | undefined;
   ksn(): KSN | undefined;
   eventsByType(type: string): EventRef[];
+  /** Event whose `s` encodes `sn`, in the KEL's own sequence encoding. */
   eventAtSequence(sn: number): EventRef | undefined;
+  /** Sequence encoding of the KEL: 'decimal' only for legacy kerits KELs. */
+  sequenceEncoding(): SequenceEncoding;
   length(): number;
   isEmpty(): boolean;
   lastEstablishment(): EventRef<EstablishmentEvent> | undefined;
@@ -51,6 +56,10 @@ export interface KELView {
   previousNextKeyCommitment(): PreviousNextKeyCommitment | undefined;
   interactions(): EventRef<IxnEvent>[];
   bySAID(said: SAID): EventRef | undefined;
+  /** First event whose `a[]` seals `said` (digest or event seal). */
+  anchoringEvent(said: string): EventRef | undefined;
+  /** Add the next event to the view and its indexes. Does not validate it; see validateAppend. */
+  append(event: CESREvent): EventRef;
 }
 
 /** Result of KELOps.validateAppend — domain errors only. */
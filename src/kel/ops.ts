@@ -8,9 +8,26 @@
  * @module kel/ops
  */
 
-import { digestVerfer } from '../cesr/digest.js';
+import { digestCode, digestCodesOf, digestVerfer } from '../cesr/digest.js';
+import type { DigestAlgo } from '../cesr/types.js';
+import {
+  detectSequenceEncoding,
+  formatSequenceNumber,
+  parseSequenceNumber,
+  type SequenceEncoding,
+} from '../common/sequence-number.js';
+import { versionStringKind } from '../common/serialization-kind.js';
 import type { AID, CesrDigest, PublicKey, SAID, Signature, Threshold } from '../common/types.js';
 import { verify } from '../signature/verify.js';
+import {
+  checkpointKeyState as _checkpointKeyState,
+  createKelCheckpoint as _createKelCheckpoint,
+  signKelCheckpoint as _signKelCheckpoint,
+  verifyKelCheckpoint as _verifyKelCheckpoint,
+  verifyKelCheckpointSignatures as _verifyKelCheckpointSignatures,
+} from './checkpoint.js';
+import { verifyDelegationApproval as _verifyDelegationApproval } from './delegation.js';
+import { reduceFirstSeen as _reduceFirstSeen } from './duplicity.js';
 import { encodeEventBytes } from './event-signing.js';
 import { reduceKelState as _reduceKelState } from './kel-state.js';
 import type {
@@ -27,10 +44,11 @@ import type {
   ValidateControllerSignatureResult,
   VerifiedKeyState,
 } from './ops-types.js';
+import { planPartialRotation as _planPartialRotation } from './rotation.js';
 import { checkThreshold } from './threshold.js';
 import type { CESREvent, DipEvent, IcpEvent, IxnEvent, KELEvent, KSN } from './types.js';
 import { KSNs } from './types.js';
-import type { EventValidationDetail, ValidationError } from './validation.js';
+import type { EventValidationDetail, KelValidationOptions, ValidationError } from './validation.js';
 import {
   isValidKeriEvent as _isValidKeriEvent,
   validateEventSaid as _validateEventSaid,
@@ -40,13 +58,14 @@ import {
   validateRequiredFields as _validateRequiredFields,
   validateSignedIcp as _validateSignedIcp,
 } from './validation.js';
+import { sealedSaids } from './validation-predicates.js';
 
 // ─── Internal helpers ───────────────────────────────────────────────────────
 
 function ksnToKeyState(ksn: KSN): VerifiedKeyState {
   return {
     aid: ksn.i as AID,
-    seqNo: parseInt(ksn.s, 16),
+    seqNo: parseSequenceNumber(ksn.s),
     digest: ksn.d,
     currentKeys: ksn.k as PublicKey[],
     threshold: ksn.kt,
@@ -72,15 +91,39 @@ export namespace KELOps {
   /**
    * Build a pure, synchronous interpretation surface over a KEL.
    *
-   * Events are normalised into `EventRef[]` once at construction time.
-   * All returned methods are O(n) scans — suitable for typical KEL sizes.
+   * Events are normalised into `EventRef[]` once at construction time, and
+   * indexed by event SAID, by sequence number and by the SAIDs sealed in their
+   * `a[]` (digest and event seals alike). Those lookups, and the head and
+   * establishment accessors, are O(1); `eventsByType`, `interactions` and
+   * `ksn` still scan. `append` extends the indexes one event at a time.
    *
    * @param aid  - The AID that owns this KEL
    * @param events - Ordered CESREvent envelopes
    */
   export function forKEL(aid: AID, events: CESREvent[]): KELView {
-    // Normalise once
-    const refs: EventRef[] = events.map(toEventRef);
+    const kel: CESREvent[] = [];
+    const refs: EventRef[] = [];
+    const establishments: EventRef<EstablishmentEvent>[] = [];
+    const bySaid = new Map<string, EventRef>();
+    const bySequence = new Map<string, EventRef>();
+    const anchors = new Map<string, EventRef>();
+    let encoding: SequenceEncoding = 'hex';
+
+    function index(env: CESREvent): EventRef {
+      const ref = toEventRef(env, refs.length);
+      kel.push(env);
+      refs.push(ref);
+      if (!bySaid.has(ref.said)) bySaid.set(ref.said, ref);
+      if (!bySequence.has(ref.event.s)) bySequence.set(ref.event.s, ref);
+      if (isEstablishmentType(ref.event.t)) establishments.push(ref as EventRef<EstablishmentEvent>);
+      for (const said of sealedSaids(ref.event)) {
+        if (!anchors.has(said)) anchors.set(said, ref);
+      }
+      return ref;
+    }
+
+    for (const env of events) index(env);
+    encoding = detectSequenceEncoding(refs.map((r) => r.event.s)) ?? 'hex';
 
     return {
       head(): EventRef | undefined {
@@ -98,7 +141,7 @@ export namespace KELOps {
       },
 
       ksn(): KSN | undefined {
-        return KSNs.fromKEL(aid, events);
+        return KSNs.fromKEL(aid, kel);
       },
 
       eventsByType(type: string): EventRef[] {
@@ -106,8 +149,11 @@ export namespace KELOps {
       },
 
       eventAtSequence(sn: number): EventRef | undefined {
-        const target = String(sn);
-        return refs.find((r) => r.event.s === target);
+        return bySequence.get(formatSequenceNumber(sn, encoding));
+      },
+
+      sequenceEncoding(): SequenceEncoding {
+        return encoding;
       },
 
       length(): number {
@@ -119,13 +165,7 @@ export namespace KELOps {
       },
 
       lastEstablishment(): EventRef<EstablishmentEvent> | undefined {
-        for (let i = refs.length - 1; i >= 0; i--) {
-          const ref = refs[i]!;
-          if (isEstablishmentType(ref.event.t)) {
-            return ref as EventRef<EstablishmentEvent>;
-          }
-        }
-        return undefined;
+        return establishments[establishments.length - 1];
       },
 
       currentKeySet(): CurrentKeySet | undefined {
@@ -143,13 +183,7 @@ export namespace KELOps {
       },
 
       previousNextKeyCommitment(): PreviousNextKeyCommitment | undefined {
-        // Find all establishment events, return commitment from the second-to-last
-        const establishments: EventRef<EstablishmentEvent>[] = [];
-        for (const ref of refs) {
-          if (isEstablishmentType(ref.event.t)) {
-            establishments.push(ref as EventRef<EstablishmentEvent>);
-          }
-        }
+        // The commitment in force is the one from the second-to-last establishment event
         if (establishments.length < 2) return undefined;
         const prev = establishments[establishments.length - 2]!;
         const evt = prev.event;
@@ -166,7 +200,20 @@ export namespace KELOps {
       },
 
       bySAID(said: SAID): EventRef | undefined {
-        return refs.find((r) => r.said === said);
+        return bySaid.get(said);
+      },
+
+      anchoringEvent(said: string): EventRef | undefined {
+        return anchors.get(said);
+      },
+
+      append(env: CESREvent): EventRef {
+        const ref = index(env);
+        // Hex and decimal only diverge from the eleventh event on
+        if (refs.length <= 11) {
+          encoding = detectSequenceEncoding(refs.map((r) => r.event.s)) ?? 'hex';
+        }
+        return ref;
       },
     };
   }
@@ -176,16 +223,23 @@ export namespace KELOps {
    *
    * Returns a discriminated union so callers branch on `ok` rather
    * than inspecting error array length. Uses core's EventValidationDetail
-   * directly without enrichment.
+   * directly without enrichment. Chain-level failures that have no per-event
+   * check (witness receipts, duplicate keys, config traits) are surfaced as the
+   * chain's first error.
    *
    * @param existingEvents - The current KEL events (already validated)
    * @param candidate - The new event to validate against the chain
+   * @param options - Validation options passed to validateKelChain (parentKel, mode)
    * @returns Discriminated union with `ok` flag and `EventValidationDetail`
    */
-  export function validateAppend(existingEvents: CESREvent[], candidate: CESREvent): ValidateAppendResult {
+  export function validateAppend(
+    existingEvents: CESREvent[],
+    candidate: CESREvent,
+    options?: Omit<KelValidationOptions, 'startIndex'>,
+  ): ValidateAppendResult {
     const allEvents = [...existingEvents, candidate];
     const startIndex = existingEvents.length;
-    const result = _validateKelChain(allEvents, { startIndex });
+    const result = _validateKelChain(allEvents, { ...options, startIndex });
     const candidateDetail = result.eventDetails[0];
 
     if (!candidateDetail) {
@@ -227,15 +281,19 @@ export namespace KELOps {
       return { ok: false, errors, validation: candidateDetail };
     }
 
+    if (!result.valid && result.firstError) {
+      return { ok: false, errors: [result.firstError], validation: candidateDetail };
+    }
+
     return { ok: true, validation: candidateDetail };
   }
 
   /** Check names that may fail on append while signatures are still being collected. */
-  const APPEND_ALLOWED_FAILURE_CHECKS = new Set(['signaturesValid', 'thresholdMet']);
+  const APPEND_ALLOWED_FAILURE_CHECKS = new Set(['signaturesValid', 'thresholdMet', 'priorNextThresholdMet']);
 
   /**
    * True when every failing validation check is limited to controller signatures
-   * or signing threshold (pending establishment). Used by KELAPI.append — not
+   * or signing thresholds (pending establishment). Used by KELAPI.append — not
    * for message-regex matching, which mis-classifies e.g. key-chain nt failures.
    */
   export function isOnlyPendingSignatureFailures(validation: EventValidationDetail): boolean {
@@ -305,14 +363,16 @@ export namespace KELOps {
     for (let i = 0; i < priorN.length; i++) {
       digestToNIndex.set(priorN[i]!, i);
     }
+    // Each key is digested with every digest code n[] uses
+    const codes = digestCodesOf(priorN);
 
     const revealed: { kIndex: number; nIndex: number }[] = [];
     const augmented: number[] = [];
     const matchedNIndices = new Set<number>();
 
     for (let kIdx = 0; kIdx < proposedK.length; kIdx++) {
-      const keyDigest = digestVerfer(proposedK[kIdx]!);
-      const nIdx = digestToNIndex.get(keyDigest);
+      const key = proposedK[kIdx]!;
+      const nIdx = codes.map((code) => digestToNIndex.get(digestVerfer(key, code))).find((i) => i !== undefined);
 
       if (nIdx !== undefined && !matchedNIndices.has(nIdx)) {
         revealed.push({ kIndex: kIdx, nIndex: nIdx });
@@ -374,21 +434,31 @@ export namespace KELOps {
   }
 
   /**
-   * Hash next public keys into their blake3 CESR qb64 digests to form
+   * Hash next public keys into their CESR qb64 digests (blake3 by default) to form
    * the next key commitment for an establishment event.
    *
+   * Reserve digests left unexposed by a partial rotation follow the fresh
+   * digests, so a weighted nextThreshold needs one weight for each.
+   *
    * @param nextPublicKeys - The public keys to commit to
    * @param nextThreshold - The signing threshold for the next key set
+   * @param reserve - Prior next key digests to carry forward unexposed
+   * @param algo - Digest algorithm for the fresh digests (default: blake3-256)
    * @returns The n[] digests and nt threshold for inclusion in an establishment event
    */
   export function buildNextCommitment(
     nextPublicKeys: string[],
     nextThreshold: Threshold,
+    reserve: string[] = [],
+    algo: DigestAlgo = 'blake3-256',
   ): { n: string[]; nt: Threshold } {
-    const n = nextPublicKeys.map((key) => digestVerfer(key));
+    const n = [...nextPublicKeys.map((key) => digestVerfer(key, digestCode(algo))), ...reserve];
     return { n, nt: nextThreshold };
   }
 
+  /** Plan a partial rotation: keys to rotate in, and commitments to keep in reserve. */
+  export const planPartialRotation = _planPartialRotation;
+
   /**
    * Check whether a simple numeric threshold kt is satisfiable given the
    * number of signing keys.
@@ -421,6 +491,12 @@ export namespace KELOps {
   /** Convenience: derive state then validate in one call. */
   export const validateKelChain = _validateKelChain;
 
+  /** Reduce events in first-seen order: detects duplicity and applies recovery rotations. */
+  export const reduceFirstSeen = _reduceFirstSeen;
+
+  /** Verify delegator approval of a dip/drt, walking nested delegators up to a non-delegated root. */
+  export const verifyDelegationApproval = _verifyDelegationApproval;
+
   /** Validate one signed inception envelope (ICP + signatures). */
   export const validateSignedIcp = _validateSignedIcp;
 
@@ -436,6 +512,23 @@ export namespace KELOps {
   /** Validate key chain continuity (k[] keys hash to prior n[] digests). */
   export const validateKeyChain = _validateKeyChain;
 
+  // ─── Checkpoints ──────────────────────────────────────────────────────────
+
+  /** Validate a KEL up to a sequence number and capture its state as a SAID-addressed checkpoint. */
+  export const createCheckpoint = _createKelCheckpoint;
+
+  /** Re-derive a checkpoint from the KEL and check it matches. */
+  export const verifyCheckpoint = _verifyKelCheckpoint;
+
+  /** Add a signature to a checkpoint envelope. */
+  export const signCheckpoint = _signKelCheckpoint;
+
+  /** Verify a checkpoint envelope's signatures against the signer's KEL. */
+  export const verifyCheckpointSignatures = _verifyKelCheckpointSignatures;
+
+  /** The verified key state recorded by a checkpoint. */
+  export const checkpointKeyState = _checkpointKeyState;
+
   // ─── Comparison helpers ───────────────────────────────────────────────────
 
   /**
@@ -460,15 +553,27 @@ export namespace KELOps {
    * Composes `validateKelChain` + `KSNs.fromKEL`. The AID is derived from the
    * inception event — callers check AID separately if needed.
    *
+   * With `options.checkpoint`, `events` are only those after the checkpoint
+   * and validation resumes from its state.
+   *
    * @param events - Ordered CESR events forming the KEL
+   * @param options - Validation options passed to validateKelChain (parentKel, mode, checkpoint)
    * @returns KeyStateResult with the validated key state, or an error
    */
-  export function extractKeyState(events: CESREvent[]): KeyStateResult {
+  export function extractKeyState(
+    events: CESREvent[],
+    options?: Omit<KelValidationOptions, 'startIndex'>,
+  ): KeyStateResult {
+    if (options?.checkpoint) {
+      const result = _createKelCheckpoint(events, options);
+      return result.ok ? { ok: true, keyState: _checkpointKeyState(result.checkpoint) } : result;
+    }
+
     if (events.length === 0) {
       return { ok: false, error: { kind: 'missing-inception' } };
     }
 
-    const validation = _validateKelChain(events);
+    const validation = _validateKelChain(events, options);
     if (!validation.valid) {
       const err = validation.firstError;
       return {
@@ -527,7 +632,7 @@ export namespace KELOps {
     }
 
     // 3. Cryptographic verification
-    const eventBytes = encodeEventBytes(event);
+    const eventBytes = encodeEventBytes(event, versionStringKind(event.v) ?? 'JSON');
     const publicKey = signingKeys[signature.keyIndex] as PublicKey;
     const valid = verify(publicKey, signature.sig as Signature, eventBytes);
     if (!valid) {
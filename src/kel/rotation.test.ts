@@ -6,14 +6,24 @@
  */
 
 import { describe, expect, test } from 'bun:test';
-import { digestVerfer } from '../cesr/digest.js';
+import { digestVerfer, digestVerferQb64 } from '../cesr/digest.js';
+import { decodeKey } from '../cesr/keys.js';
+import { encodeSig } from '../cesr/sigs.js';
+import type { AID, KeriKeyPair, SAID, Signature, Threshold } from '../common/types.js';
+import { KeriKeyPairs } from '../crypto/index.js';
+import { sign } from '../signature/primitives.js';
+import { canonicalizeEvent } from './event-crypto.js';
+import { KELEvents } from './events.js';
 import {
   assertCurrentThresholdSatisfiable,
   assertKeyRevelation,
   buildNextCommitment,
   matchKeyRevelation,
+  planPartialRotation,
   resolveCurrentKeys,
 } from './rotation.js';
+import type { CESREvent, KELEvent } from './types.js';
+import { validateKelChain } from './validation.js';
 
 // Valid Ed25519 CESR qb64 keys (from existing passing tests)
 const key1 = 'DGApkA68ECWhLmEVn3iVdSBvJEKINLeTHiqI_IBru1Dy';
@@ -68,6 +78,20 @@ describe('matchKeyRevelation', () => {
     expect(result.priorNtSatisfied).toBe(true);
   });
 
+  test('matches keys committed over their qb64 text, as KERIpy commits', () => {
+    const result = matchKeyRevelation({
+      priorN: [digestVerferQb64(key1), digestVerfer(key2)],
+      priorNt: '2',
+      proposedK: [key2, key1],
+    });
+
+    expect(result.revealed).toEqual([
+      { kIndex: 0, nIndex: 1 },
+      { kIndex: 1, nIndex: 0 },
+    ]);
+    expect(result.priorNtSatisfied).toBe(true);
+  });
+
   test('detects duplicate digests in priorN', () => {
     const digest = digestVerfer(key1);
     const result = matchKeyRevelation({
@@ -120,4 +144,124 @@ describe('buildNextCommitment', () => {
     expect(result.n[0]).toBe(digestVerfer(key1));
     expect(result.nt).toBe('1');
   });
+
+  test('appends reserve digests after the fresh ones', () => {
+    const reserve = digestVerfer(key2);
+    const result = buildNextCommitment([key1], [['1/2', '1/2']], [reserve]);
+
+    expect(result.n).toEqual([digestVerfer(key1), reserve]);
+  });
+});
+
+describe('planPartialRotation', () => {
+  const [a, b, c] = [1, 2, 3].map((n) => KeriKeyPairs.fromSeedNumber(n).publicKey);
+  const priorKsn = { n: [a!, b!, c!].map((key) => digestVerfer(key)), nt: [['1/2', '1/2', '1/2']] };
+
+  test('exposes every available committed key by default', () => {
+    const plan = planPartialRotation({ priorKsn, availableKeys: [c!, key1, a!], kt: '2' });
+
+    expect(plan.rotatable).toEqual([
+      { key: a!, nIndex: 0 },
+      { key: c!, nIndex: 2 },
+    ]);
+    expect(plan.uncommitted).toEqual([key1]);
+    expect(plan.k).toEqual([a!, c!]);
+    expect(plan.reserve).toEqual([priorKsn.n[1]!]);
+    expect(plan.priorNtSatisfied).toBe(true);
+    expect(plan.ktSatisfied).toBe(true);
+    expect(plan.errors).toEqual([]);
+  });
+
+  test('keeps unexposed commitments in reserve', () => {
+    const plan = planPartialRotation({ priorKsn, availableKeys: [a!, b!, c!], expose: [b!, a!], kt: '1' });
+
+    expect(plan.k).toEqual([a!, b!]);
+    expect(plan.reserve).toEqual([priorKsn.n[2]!]);
+    expect(plan.priorNtSatisfied).toBe(true);
+  });
+
+  test('reports a subset that misses the weighted prior nt', () => {
+    const plan = planPartialRotation({ priorKsn, availableKeys: [a!, b!, c!], expose: [b!], kt: '1' });
+
+    expect(plan.priorNtSatisfied).toBe(false);
+    expect(plan.ktSatisfied).toBe(true);
+    expect(plan.reserve).toHaveLength(2);
+  });
+
+  test('checks a weighted kt against the exposed keys', () => {
+    const ok = planPartialRotation({ priorKsn, availableKeys: [a!, b!], kt: [['1/2', '1/2']] });
+    expect(ok.ktSatisfied).toBe(true);
+
+    const mismatched = planPartialRotation({ priorKsn, availableKeys: [a!, b!], kt: [['1/3', '1/3', '1/3']] });
+    expect(mismatched.ktSatisfied).toBe(false);
+    expect(mismatched.errors[0]).toContain('Signing threshold');
+  });
+
+  test('rejects exposing keys that are not committed or not available', () => {
+    const plan = planPartialRotation({ priorKsn, availableKeys: [a!, b!], expose: [a!, c!, key1], kt: '1' });
+
+    expect(plan.k).toEqual([a!]);
+    expect(plan.errors).toHaveLength(2);
+  });
+});
+
+describe('partial rotation in a KEL', () => {
+  const signer = KeriKeyPairs.fromSeedNumber(10);
+  const [a, b, c, d] = [11, 12, 13, 14].map((n) => KeriKeyPairs.fromSeedNumber(n));
+
+  function signed(event: KELEvent, keypairs: KeriKeyPair[]): CESREvent {
+    return {
+      event,
+      attachments: keypairs.map((keypair, keyIndex) => ({
+        kind: 'sig' as const,
+        form: 'indexed' as const,
+        keyIndex,
+        sig: encodeSig(sign(canonicalizeEvent(event), decodeKey(keypair.privateKey).raw), true).qb64 as Signature,
+      })),
+      enc: 'JSON',
+    };
+  }
+
+  function rot(prior: KELEvent, plan: { k: string[]; kt: Threshold }, next: { n: string[]; nt: Threshold }): KELEvent {
+    const { unsignedEvent } = KELEvents.buildRot({
+      aid: prior.i as AID,
+      sequence: KELEvents.nextSequence(prior.s),
+      priorEventSaid: prior.d as SAID,
+      keys: plan.k,
+      nextKeyDigests: next.n,
+      signingThreshold: plan.kt,
+      nextThreshold: next.nt,
+    });
+    return KELEvents.finalize(unsignedEvent, false).event;
+  }
+
+  test('rotates in a subset, then a reserve key carried forward', () => {
+    const { unsignedEvent } = KELEvents.buildIcp({
+      keys: [signer.publicKey],
+      nextKeyDigests: [a!, b!, c!].map((kp) => digestVerfer(kp.publicKey)),
+      nextThreshold: '2',
+    });
+    const icp = KELEvents.finalize(unsignedEvent, true).event;
+
+    const first = planPartialRotation({
+      priorKsn: { n: icp.n, nt: icp.nt },
+      availableKeys: [a!.publicKey, b!.publicKey, c!.publicKey],
+      expose: [a!.publicKey, b!.publicKey],
+      kt: '2',
+    });
+    const rot1 = rot(icp, first, buildNextCommitment([d!.publicKey], '1', first.reserve));
+
+    const second = planPartialRotation({
+      priorKsn: { n: rot1.n, nt: rot1.nt },
+      availableKeys: [c!.publicKey],
+      kt: '1',
+    });
+    expect(second.priorNtSatisfied).toBe(true);
+    const rot2 = rot(rot1, second, buildNextCommitment([d!.publicKey], '1'));
+
+    const kel = [signed(icp, [signer]), signed(rot1, [a!, b!]), signed(rot2, [c!])];
+    const result = validateKelChain(kel);
+    expect(result.firstError).toBeUndefined();
+    expect(result.valid).toBe(true);
+  });
 });
@@ -9,7 +9,8 @@
  * @module kel/rotation
  */
 
-import { digestVerfer } from '../cesr/digest.js';
+import { digestCode, digestCodesOf, digestVerfer, digestVerferQb64 } from '../cesr/digest.js';
+import type { DigestAlgo } from '../cesr/types.js';
 import type { Threshold } from '../common/types.js';
 import { checkThreshold } from './threshold.js';
 
@@ -97,14 +98,20 @@ export function matchKeyRevelation(input: MatchKeyRevelationInput): MatchKeyReve
   for (let i = 0; i < priorN.length; i++) {
     digestToNIndex.set(priorN[i]!, i);
   }
+  // Each key is digested with every digest code n[] uses, over its raw bytes
+  // and over its qb64 text as KERIpy commits
+  const codes = digestCodesOf(priorN);
+  const digestsOf = (key: string) => codes.flatMap((code) => [digestVerfer(key, code), digestVerferQb64(key, code)]);
 
   const revealed: { kIndex: number; nIndex: number }[] = [];
   const augmented: number[] = [];
   const matchedNIndices = new Set<number>();
 
   for (let kIdx = 0; kIdx < proposedK.length; kIdx++) {
-    const keyDigest = digestVerfer(proposedK[kIdx]!);
-    const nIdx = digestToNIndex.get(keyDigest);
+    const key = proposedK[kIdx]!;
+    const nIdx = digestsOf(key)
+      .map((digest) => digestToNIndex.get(digest))
+      .find((i) => i !== undefined);
 
     if (nIdx !== undefined && !matchedNIndices.has(nIdx)) {
       revealed.push({ kIndex: kIdx, nIndex: nIdx });
@@ -169,17 +176,130 @@ export function assertCurrentThresholdSatisfiable(kt: Threshold, kLength: number
 }
 
 /**
- * Hash next public keys into their blake3 CESR qb64 digests to form
+ * Hash next public keys into their CESR qb64 digests (blake3 by default) to form
  * the next key commitment for an establishment event.
  *
+ * Reserve digests left unexposed by a partial rotation follow the fresh
+ * digests, so a weighted nextThreshold needs one weight for each.
+ *
  * @param nextPublicKeys - The public keys to commit to
  * @param nextThreshold - The signing threshold for the next key set
+ * @param reserve - Prior next key digests to carry forward unexposed
+ * @param algo - Digest algorithm for the fresh digests (default: blake3-256)
  * @returns The n[] digests and nt threshold for inclusion in an establishment event
  */
 export function buildNextCommitment(
   nextPublicKeys: string[],
   nextThreshold: Threshold,
+  reserve: string[] = [],
+  algo: DigestAlgo = 'blake3-256',
 ): { n: string[]; nt: Threshold } {
-  const n = nextPublicKeys.map((key) => digestVerfer(key));
+  const n = [...nextPublicKeys.map((key) => digestVerfer(key, digestCode(algo))), ...reserve];
   return { n, nt: nextThreshold };
 }
+
+// ---------------------------------------------------------------------------
+// Partial rotation planning
+// ---------------------------------------------------------------------------
+
+export interface PartialRotationInput {
+  /** Next key commitments (n[]/nt) of the prior establishment event, e.g. from its KSN */
+  priorKsn: { n: string[]; nt: Threshold };
+  /** Public keys the controller holds private keys for */
+  availableKeys: string[];
+  /**
+   * Committed keys to expose in the rotation's k[]. Defaults to every
+   * available committed key. Commitments left unexposed become reserve keys.
+   */
+  expose?: string[];
+  /** Signing threshold for the rotation's k[] */
+  kt: Threshold;
+}
+
+export interface PartialRotationPlan {
+  /** Available keys that are pre-images of prior n[] digests */
+  rotatable: { key: string; nIndex: number }[];
+  /** Available keys with no prior commitment; they can only augment k[] */
+  uncommitted: string[];
+  /** Keys to rotate in, in prior n[] order */
+  k: string[];
+  kt: Threshold;
+  /** Prior n[] digests left unexposed, to carry forward into the new n[] */
+  reserve: string[];
+  /** Whether the exposed keys satisfy the prior nt at their n[] positions */
+  priorNtSatisfied: boolean;
+  /** Whether the exposed keys satisfy kt over the new k[] */
+  ktSatisfied: boolean;
+  errors: string[];
+}
+
+function thresholdSatisfied(
+  threshold: Threshold,
+  indices: number[],
+  total: number,
+  label: string,
+  errors: string[],
+): boolean {
+  if (indices.length === 0) return false;
+  try {
+    return checkThreshold(threshold, indices, total).satisfied;
+  } catch (error) {
+    errors.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+/**
+ * Plan a partial rotation: which of the controller's available keys can be
+ * rotated in against the prior next key commitments, and which commitments
+ * must be carried forward as reserve keys.
+ *
+ * In a partial rotation the controller exposes only some of its committed
+ * next keys. The exposed keys must satisfy the prior nt, weighted or not,
+ * at their positions in the prior n[], and the new kt over the new k[]; a
+ * rotation signed by all of them satisfies both. The digests left unexposed
+ * stay unrevealed and remain usable only if the new n[] carries them
+ * forward (see `buildNextCommitment`).
+ */
+export function planPartialRotation(input: PartialRotationInput): PartialRotationPlan {
+  const { priorKsn, availableKeys, kt } = input;
+  const match = matchKeyRevelation({ priorN: priorKsn.n, priorNt: priorKsn.nt, proposedK: availableKeys });
+  const errors = [...match.errors];
+
+  const rotatable = match.revealed
+    .map((r) => ({ key: availableKeys[r.kIndex]!, nIndex: r.nIndex }))
+    .sort((a, b) => a.nIndex - b.nIndex);
+  const uncommitted = match.augmented.map((kIndex) => availableKeys[kIndex]!);
+
+  let exposed = rotatable;
+  if (input.expose) {
+    const requested = new Set(input.expose);
+    for (const key of requested) {
+      if (!rotatable.some((r) => r.key === key)) {
+        errors.push(`Cannot expose ${key}: not an available key committed in prior n[]`);
+      }
+    }
+    exposed = rotatable.filter((r) => requested.has(r.key));
+  }
+
+  const exposedIndices = new Set(exposed.map((r) => r.nIndex));
+  const k = exposed.map((r) => r.key);
+  const reserve = priorKsn.n.filter((_, nIndex) => !exposedIndices.has(nIndex));
+
+  const priorNtSatisfied = thresholdSatisfied(
+    priorKsn.nt,
+    [...exposedIndices],
+    priorKsn.n.length,
+    'Prior next threshold',
+    errors,
+  );
+  const ktSatisfied = thresholdSatisfied(
+    kt,
+    k.map((_, i) => i),
+    k.length,
+    'Signing threshold',
+    errors,
+  );
+
+  return { rotatable, uncommitted, k, kt, reserve, priorNtSatisfied, ktSatisfied, errors };
+}
@@ -1,3 +1,4 @@
+import type { KELView } from './ops-types.js';
 import type { KELEvent } from './types.js';
 import { eventContainsAnchorForSaid } from './validation-predicates.js';
 
@@ -17,6 +18,10 @@ export type TelKelAnchorResult =
       readonly reason: string;
     };
 
+function isKelView(kel: readonly KELEvent[] | KELView): kel is KELView {
+  return !Array.isArray(kel);
+}
+
 /**
  * Assess whether a TEL event SAID is sealed in an issuer KEL.
  *
@@ -24,35 +29,39 @@ export type TelKelAnchorResult =
  * Any KEL event whose `a[]` seals `telEventSaid` counts as anchored
  * (same match as {@link eventContainsAnchorForSaid}).
  *
+ * Pass a `KELView` (KELOps.forKEL) instead of the event bodies to look the
+ * seal up in its index rather than scanning the KEL.
+ *
  * Callers decide how to treat `missing`.
  */
-export function assessTelKelAnchor(kelEvents: readonly KELEvent[], telEventSaid: string): TelKelAnchorResult {
+export function assessTelKelAnchor(kel: readonly KELEvent[] | KELView, telEventSaid: string): TelKelAnchorResult {
   const said = telEventSaid.trim();
   if (!said) {
     return { status: 'invalid', reason: 'telEventSaid is required' };
   }
 
-  for (const event of kelEvents) {
-    if (eventContainsAnchorForSaid(event, said)) {
-      const kelEventSaid = typeof event.d === 'string' ? event.d : '';
-      if (!kelEventSaid) {
-        return { status: 'invalid', reason: 'KEL event sealing TEL lacks SAID (d)' };
-      }
-      return {
-        status: 'anchored',
-        telEventSaid: said,
-        kelEventSaid,
-      };
-    }
+  const event: KELEvent | undefined = isKelView(kel)
+    ? kel.anchoringEvent(said)?.event
+    : kel.find((e) => eventContainsAnchorForSaid(e, said));
+  if (!event) {
+    return { status: 'missing', telEventSaid: said };
   }
 
-  return { status: 'missing', telEventSaid: said };
+  const kelEventSaid = typeof event.d === 'string' ? event.d : '';
+  if (!kelEventSaid) {
+    return { status: 'invalid', reason: 'KEL event sealing TEL lacks SAID (d)' };
+  }
+  return {
+    status: 'anchored',
+    telEventSaid: said,
+    kelEventSaid,
+  };
 }
 
 /** Assess each TEL event SAID against the same KEL. */
 export function assessTelKelAnchors(
-  kelEvents: readonly KELEvent[],
+  kel: readonly KELEvent[] | KELView,
   telEventSaids: readonly string[],
 ): readonly TelKelAnchorResult[] {
-  return telEventSaids.map((said) => assessTelKelAnchor(kelEvents, said));
+  return telEventSaids.map((said) => assessTelKelAnchor(kel, said));
 }
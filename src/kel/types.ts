@@ -18,6 +18,7 @@
 
 import type { TSchema } from '@sinclair/typebox';
 import { type Static, Type } from '@sinclair/typebox';
+import { detectSequenceEncoding, toHexSequenceNumber } from '../common/sequence-number.js';
 import {
   type AID,
   CesrAidSchema,
@@ -29,6 +30,7 @@ import {
   type PublicKey,
   Qb64Schema,
   type SAID,
+  SequenceNumberSchema,
   type Threshold,
   ThresholdSchema,
   type Timestamp,
@@ -147,7 +149,7 @@ export const RotEventSchema = Type.Object(
     t: Type.Literal('rot'),
     d: CesrDigestSchema,
     i: CesrAidSchema,
-    s: NonEmpty('Sequence', 'Monotonic sequence as string', ['1', '2']),
+    s: SequenceNumberSchema(),
     p: CesrDigestSchema, // prior event SAID (prev)
     kt: ThresholdSchema,
     k: Type.Array(CesrKeyTransferableSchema, { minItems: 1 }),
@@ -172,7 +174,7 @@ export const IxnEventSchema = Type.Object(
     t: Type.Literal('ixn'),
     d: CesrDigestSchema,
     i: CesrAidSchema,
-    s: NonEmpty('Sequence', 'Monotonic sequence as string', ['1', '2']),
+    s: SequenceNumberSchema(),
     p: CesrDigestSchema, // prior event SAID
     a: Type.Array(Type.Unknown(), { default: [] }), // data seals
   },
@@ -208,7 +210,7 @@ export const KSNSchema = Type.Object(
 
     // Identity & linkage
     i: CesrAidSchema, // controller AID
-    s: NonEmpty('Sequence', 'Current sequence number as string', ['0', '1', '2']),
+    s: SequenceNumberSchema('Sequence', 'Current sequence number as lowercase hex'),
     p: CesrDigestSchema, // prior SAID (prev)
     d: CesrDigestSchema, // last event SAID (current head)
     et: Type.Union(
@@ -272,6 +274,71 @@ export const KSNSchema = Type.Object(
 );
 export type KSN = Static<typeof KSNSchema>;
 
+/* ------------------------------------------------------------------------------------------------
+ * KEL Checkpoint
+ * ----------------------------------------------------------------------------------------------*/
+
+/**
+ * KEL Checkpoint:
+ *  - Captures the verified state of a KEL at sequence `s`, so validation can
+ *    resume from it without the events up to `s`
+ *  - Self-addressing: `d` is the checkpoint's own SAID; `ed` is the SAID of
+ *    the event at `s`
+ *  - Carries the key state (k/kt/n/nt), the resulting witness set (b/bt), the
+ *    inception config traits (c), the delegator (di, '' when not delegated)
+ *    and an anchor index `a` from each SAID sealed in an event's `a[]` to the
+ *    sequence number of the first event sealing it
+ *
+ * Notes:
+ *  - A checkpoint is only as trustworthy as its signers; see KELOps.signCheckpoint
+ *  - KELOps.verifyCheckpoint re-derives it from the full KEL
+ */
+export const KelCheckpointSchema = Type.Object(
+  {
+    v: VersionSchema,
+    d: CesrDigestSchema, // checkpoint SAID
+    i: CesrAidSchema,
+    s: SequenceNumberSchema('Sequence', 'Sequence number of the last event covered, as lowercase hex'),
+    ed: CesrDigestSchema, // SAID of the event at s
+    et: Type.Union(
+      [Type.Literal('icp'), Type.Literal('rot'), Type.Literal('ixn'), Type.Literal('dip'), Type.Literal('drt')],
+      { title: 'Event Type at s' },
+    ),
+    kt: ThresholdSchema,
+    k: Type.Array(CesrKeyTransferableSchema, { minItems: 1, title: 'Current Keys' }),
+    nt: ThresholdSchema,
+    n: Type.Array(CesrDigestSchema, { title: 'Next Key Digests' }),
+    bt: ThresholdSchema,
+    b: Type.Array(CesrAidSchema, { title: 'Witness AIDs (current set)' }),
+    c: Type.Array(Type.String(), { title: 'Config Traits' }),
+    ee: Type.Object(
+      {
+        s: SequenceNumberSchema('Establishment Seq', 'Sequence number of the last establishment event'),
+        d: CesrDigestSchema,
+      },
+      { additionalProperties: false, title: 'Last Establishment Event pointer' },
+    ),
+    di: Type.String({ title: 'Delegator AID', description: 'Empty string when the AID is not delegated' }),
+    a: Type.Record(Type.String(), SequenceNumberSchema('Anchor Seq', 'Sequence number of the anchoring event'), {
+      title: 'Anchor Index',
+      description: 'SAID sealed in a[] → sequence number of the first event sealing it',
+    }),
+  },
+  {
+    additionalProperties: false,
+    $id: 'https://merits.dev/schemas/keri/kel.checkpoint.v1.json',
+    title: 'KEL Checkpoint',
+    description: 'SAID-addressed snapshot of verified KEL state at a sequence number.',
+  },
+);
+export type KelCheckpoint = Static<typeof KelCheckpointSchema>;
+
+/** A checkpoint with the signatures of the parties vouching for it. */
+export interface KelCheckpointEnvelope {
+  checkpoint: KelCheckpoint;
+  attachments: CesrAttachment[];
+}
+
 /* ------------------------------------------------------------------------------------------------
  * PublishedResource
  * ----------------------------------------------------------------------------------------------*/
@@ -453,11 +520,14 @@ export namespace KSNs {
       // ixn events don't change establishment state — skip
     }
 
+    // KSNs are always hex; a legacy decimal KEL is re-encoded here.
+    const encoding = detectSequenceEncoding(events.map((e) => e.event.s)) ?? 'hex';
+
     // Build KSN
     const ksn: KSN = {
       v: lastEvent.v,
       i: aid,
-      s: lastEvent.s,
+      s: encoding === 'decimal' ? toHexSequenceNumber(lastEvent.s) : lastEvent.s,
       // For KSN: inception uses its own SAID; others use previous event SAID
       p: prevEvent ? prevEvent.d : lastEvent.t === 'icp' ? lastEvent.d : '',
       d: lastEvent.d,
@@ -527,7 +597,7 @@ export const DrtEventSchema = Type.Object(
     t: Type.Literal('drt'),
     d: CesrDigestSchema,
     i: CesrAidSchema,
-    s: NonEmpty('Sequence', 'Monotonic sequence as string', ['1', '2']),
+    s: SequenceNumberSchema(),
     p: CesrDigestSchema,
     kt: ThresholdSchema,
     k: Type.Array(CesrKeyTransferableSchema, { minItems: 1 }),
@@ -611,7 +681,7 @@ export const CesrAttachment_WitnessReceipt = Type.Object(
 export const CesrSealSchema = Type.Object(
   {
     i: CesrAidSchema, // validator AID
-    s: NonEmpty('Sequence'), // validator's seq for the sealing event
+    s: SequenceNumberSchema(), // validator's seq for the sealing event
     d: CesrDigestSchema, // SAID of the sealing event
   },
   { additionalProperties: false, title: 'CESR Seal (i,s,d)' },
@@ -655,12 +725,183 @@ export const CesrAttachment_ValidatorReceipt = Type.Object(
   },
 );
 
-/** Generic attachment union (extend later if you add seals, anchors, etc.). */
+/** Witness indexed signature (-B): keyIndex indexes the event's witness list `b`. */
+export const CesrAttachment_WitnessSignature = Type.Object(
+  {
+    kind: Type.Literal('wig'),
+    keyIndex: Type.Integer({ minimum: 0, title: 'Witness Index' }),
+    sig: CesrSignatureSchema,
+  },
+  {
+    additionalProperties: false,
+    title: 'Witness Indexed Signature (wig)',
+    description: 'Witness signature over the event, indexed into the witness list',
+  },
+);
+
+/** First-seen replay couple (-E): when the sender first saw the event. */
+export const CesrAttachment_FirstSeen = Type.Object(
+  {
+    kind: Type.Literal('fsn'),
+    fn: SequenceNumberSchema('First-Seen Ordinal', 'First-seen ordinal as lowercase hex'), // position in the sender's first-seen log
+    dt: NonEmpty('First-Seen Datetime', 'ISO-8601 datetime as carried by a CESR Dater'),
+  },
+  {
+    additionalProperties: false,
+    title: 'First-Seen Replay Couple (fsn)',
+    description: 'First-seen ordinal and datetime attached when replaying a KEL',
+  },
+);
+
+/** Source seal (s,d) — locates an event in a KEL implied by context. */
+export const SourceSealSchema = Type.Object(
+  {
+    s: SequenceNumberSchema(), // sequence number of the sealing event
+    d: CesrDigestSchema, // SAID of the sealing event
+  },
+  { additionalProperties: false, title: 'Source Seal (s,d)' },
+);
+export type SourceSeal = Static<typeof SourceSealSchema>;
+
+/** Seal source couple (-G, seal s,d) or triple (-I, seal i,s,d) pointing at the anchoring event. */
+export const CesrAttachment_SealSource = Type.Object(
+  {
+    kind: Type.Literal('src'),
+    seal: Type.Union([CesrSealSchema, SourceSealSchema]),
+  },
+  {
+    additionalProperties: false,
+    title: 'Seal Source (src)',
+    description: 'Locates the event that anchors this one, e.g. the delegator event approving a dip/drt',
+  },
+);
+
+/** Indexed signature inside a signer group. */
+export const IndexedSignatureSchema = Type.Object(
+  {
+    keyIndex: Type.Integer({ minimum: 0, title: 'Key Index' }),
+    sig: CesrSignatureSchema,
+  },
+  { additionalProperties: false, title: 'Indexed Signature' },
+);
+export type IndexedSignature = Static<typeof IndexedSignatureSchema>;
+
+/** Transferable indexed signature group (-F): signer's establishment event seal plus its sigs. */
+export const CesrAttachment_TransSignatureGroup = Type.Object(
+  {
+    kind: Type.Literal('tsg'),
+    seal: CesrSealSchema, // signer AID and the establishment event whose keys signed
+    sigs: Type.Array(IndexedSignatureSchema, { minItems: 1 }),
+  },
+  {
+    additionalProperties: false,
+    title: 'Transferable Signature Group (tsg)',
+    description: 'Signatures by a transferable signer, pinned to one of its establishment events',
+  },
+);
+
+/** Last-establishment signature group (-H): signer AID plus sigs against its latest keys. */
+export const CesrAttachment_LastSignatureGroup = Type.Object(
+  {
+    kind: Type.Literal('lsg'),
+    i: CesrAidSchema, // signer AID
+    sigs: Type.Array(IndexedSignatureSchema, { minItems: 1 }),
+  },
+  {
+    additionalProperties: false,
+    title: 'Last Establishment Signature Group (lsg)',
+    description: "Signatures by a transferable signer against its latest establishment event's keys",
+  },
+);
+
+/** SAD path signature (-J): one signature group over the sub-artifact at `path`. */
+export const CesrAttachment_SadPathSignature = Type.Object(
+  {
+    kind: Type.Literal('sps'),
+    path: NonEmpty('SAD Path', "Field path into the artifact, e.g. '-a' or '-e-acdc'"),
+    sigs: Type.Union(
+      [
+        Type.Array(CesrAttachment_Signature, { minItems: 1 }),
+        Type.Array(CesrAttachment_WitnessReceipt, { minItems: 1 }),
+        Type.Array(CesrAttachment_TransSignatureGroup, { minItems: 1, maxItems: 1 }),
+      ],
+      { description: 'Indexed controller sigs (-A), non-transferable couples (-C), or one signer group (-F)' },
+    ),
+  },
+  {
+    additionalProperties: false,
+    title: 'SAD Path Signature (sps)',
+    description: 'Signatures over an embedded sub-artifact addressed by path',
+  },
+);
+
+/** SAD path signature group (-K): path signatures relative to a common root path. */
+export const CesrAttachment_SadPathSignatureGroup = Type.Object(
+  {
+    kind: Type.Literal('spsg'),
+    root: NonEmpty('Root SAD Path'),
+    items: Type.Array(CesrAttachment_SadPathSignature, { minItems: 1 }),
+  },
+  {
+    additionalProperties: false,
+    title: 'SAD Path Signature Group (spsg)',
+    description: 'Path signatures whose paths are relative to root',
+  },
+);
+
+/** Attachments that can appear nested inside pathed material. */
+export const CesrAttachmentGroupSchema = Type.Union(
+  [
+    CesrAttachment_Signature,
+    CesrAttachment_WitnessSignature,
+    CesrAttachment_WitnessReceipt,
+    CesrAttachment_ValidatorReceipt,
+    CesrAttachment_FirstSeen,
+    CesrAttachment_SealSource,
+    CesrAttachment_TransSignatureGroup,
+    CesrAttachment_LastSignatureGroup,
+    CesrAttachment_SadPathSignature,
+    CesrAttachment_SadPathSignatureGroup,
+  ],
+  {
+    title: 'CESR Attachment Group',
+    description: 'Any counted attachment group other than pathed material',
+  },
+);
+export type CesrAttachmentGroup = Static<typeof CesrAttachmentGroupSchema>;
+
+/** Pathed material (-L): attachment groups that apply to the sub-artifact at `path`. */
+export const CesrAttachment_PathedMaterial = Type.Object(
+  {
+    kind: Type.Literal('pathed'),
+    path: NonEmpty('SAD Path'),
+    attachments: Type.Array(CesrAttachmentGroupSchema),
+  },
+  {
+    additionalProperties: false,
+    title: 'Pathed Material (pathed)',
+    description: 'Attachment groups scoped to an embedded sub-artifact',
+  },
+);
+
+/** Every CESR v1 attachment group the codec reads and writes. */
 export const CesrAttachmentSchema = Type.Union(
-  [CesrAttachment_Signature, CesrAttachment_WitnessReceipt, CesrAttachment_ValidatorReceipt],
+  [
+    CesrAttachment_Signature,
+    CesrAttachment_WitnessSignature,
+    CesrAttachment_WitnessReceipt,
+    CesrAttachment_ValidatorReceipt,
+    CesrAttachment_FirstSeen,
+    CesrAttachment_SealSource,
+    CesrAttachment_TransSignatureGroup,
+    CesrAttachment_LastSignatureGroup,
+    CesrAttachment_SadPathSignature,
+    CesrAttachment_SadPathSignatureGroup,
+    CesrAttachment_PathedMaterial,
+  ],
   {
     title: 'CESR Attachment',
-    description: 'Signatures and receipts attached to an event',
+    description: 'Signatures, receipts, seal sources and replay material attached to an event',
   },
 );
 export type CesrAttachment = Static<typeof CesrAttachmentSchema>;
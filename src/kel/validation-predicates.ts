@@ -11,10 +11,11 @@
  * verifyWitnessReceipt must be replaced with witness key state resolution.
  */
 
+import { detectSequenceEncoding, parseSequenceNumber } from '../common/sequence-number.js';
 import type { AID, PublicKey, Signature, Threshold } from '../common/types.js';
 import { verifyEventSignature } from './event-crypto.js';
 import { checkNormalizedThreshold, normalizeThreshold } from './threshold-normalize.js';
-import type { KELEvent } from './types.js';
+import type { CESREvent, CesrAttachment, KELEvent } from './types.js';
 
 /**
  * Verify a witness receipt signature against an event's canonical bytes.
@@ -154,6 +155,20 @@ export function eventContainsAnchorForSaid(event: KELEvent, sealedSAID: string):
   );
 }
 
+/**
+ * The SAIDs an event seals: the `d` of every entry in its `a[]` array,
+ * digest seals and event seals alike. Same SAID-only match as
+ * {@link eventContainsAnchorForSaid}, for callers building an index.
+ */
+export function sealedSaids(event: KELEvent): string[] {
+  const anchors = (event as Record<string, unknown>).a;
+  if (!Array.isArray(anchors)) return [];
+
+  return anchors
+    .map((entry) => (typeof entry === 'object' && entry !== null ? (entry as { d?: unknown }).d : undefined))
+    .filter((d): d is string => typeof d === 'string');
+}
+
 /**
  * Is a specific parent event a delegation anchor for the given delegated event SAID?
  *
@@ -176,3 +191,77 @@ export function isDelegationAnchor(parentEvent: KELEvent, delegatedEventSAID: st
   }
   return eventContainsAnchorForSaid(parentEvent, delegatedEventSAID);
 }
+
+/**
+ * Does a parent event seal exactly this delegated event?
+ *
+ * Stricter than isDelegationAnchor: the seal must be an event seal
+ * {i, s, d} naming the delegate's AID, sequence number and SAID.
+ *
+ * @param parentEvent - A delegator KEL event
+ * @param delegated - The delegated event (dip/drt)
+ */
+export function sealsDelegatedEvent(parentEvent: KELEvent, delegated: KELEvent): boolean {
+  if (parentEvent.t !== 'ixn' && parentEvent.t !== 'rot' && parentEvent.t !== 'drt') return false;
+  const anchors = (parentEvent as Record<string, unknown>).a;
+  if (!Array.isArray(anchors)) return false;
+
+  return anchors.some((entry) => {
+    if (typeof entry !== 'object' || entry === null) return false;
+    const seal = entry as { i?: unknown; s?: unknown; d?: unknown };
+    return seal.i === delegated.i && seal.s === delegated.s && seal.d === delegated.d;
+  });
+}
+
+/** Where a delegated event's approving anchor sits in the delegator KEL. */
+export type DelegationAnchorLocation =
+  | { found: true; index: number; via: 'source-seal' | 'scan' }
+  | { found: false; reason: 'source-seal-mismatch' | 'anchor-missing'; message: string };
+
+/**
+ * Locate the delegator event that anchors (approves) a delegated event.
+ *
+ * With seal source couples (`src`) attached, they name the anchoring event
+ * by (s, d): the delegator event there must seal the delegated event. A
+ * couple pointing past the end of the delegator KEL is 'anchor-missing' (the
+ * delegator KEL may still grow); one pointing at a different or non-sealing
+ * event is 'source-seal-mismatch'. Without couples, the delegator KEL is
+ * scanned for the first event that seals the delegated event.
+ *
+ * @param delegated - The delegated event envelope
+ * @param delegatorKel - The delegator's KEL, in order
+ */
+export function findDelegationAnchor(
+  delegated: CESREvent,
+  delegatorKel: readonly CESREvent[],
+): DelegationAnchorLocation {
+  const event = delegated.event;
+  const sources = delegated.attachments.filter((a): a is Extract<CesrAttachment, { kind: 'src' }> => a.kind === 'src');
+
+  if (sources.length === 0) {
+    const index = delegatorKel.findIndex((p) => sealsDelegatedEvent(p.event, event));
+    return index >= 0
+      ? { found: true, index, via: 'scan' }
+      : { found: false, reason: 'anchor-missing', message: `No delegator event seals ${event.d}` };
+  }
+
+  const encoding = detectSequenceEncoding(delegatorKel.map((p) => p.event.s)) ?? 'hex';
+  let pending = false;
+  for (const { seal } of sources) {
+    const index = parseSequenceNumber(seal.s, encoding);
+    if (Number.isNaN(index)) continue;
+    const anchor = delegatorKel[index];
+    if (!anchor) {
+      pending = true;
+    } else if (anchor.event.d === seal.d && sealsDelegatedEvent(anchor.event, event)) {
+      return { found: true, index, via: 'source-seal' };
+    }
+  }
+  return pending
+    ? { found: false, reason: 'anchor-missing', message: `Delegator KEL does not yet hold the anchor for ${event.d}` }
+    : {
+        found: false,
+        reason: 'source-seal-mismatch',
+        message: `Seal source couple does not point at a delegator event sealing ${event.d}`,
+      };
+}
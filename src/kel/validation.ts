@@ -12,10 +12,11 @@
  * @module kel/validation
  */
 
-import { digestVerfer } from '../cesr/digest.js';
+import { digestCodesOf, digestVerfer } from '../cesr/digest.js';
 import { SAID_PLACEHOLDER } from '../common/data.js';
 import type { DerivationSurface } from '../common/derivation-surface.js';
 import { recomputeSaid } from '../common/derivation-surface.js';
+import { detectSequenceEncoding, parseSequenceNumber, type SequenceEncoding } from '../common/sequence-number.js';
 import type { PublicKey, Signature, Threshold } from '../common/types.js';
 import {
   KEL_DIP_SURFACE,
@@ -25,12 +26,28 @@ import {
   KEL_ROT_SURFACE,
 } from '../said/surfaces.js';
 import { verifyEventSignature } from './event-crypto.js';
-import { type DerivedState, reduceKelState } from './kel-state.js';
+import { checkpointEstablishment, type DerivedState, reduceKelState } from './kel-state.js';
 import { matchKeyRevelation } from './rotation.js';
 import { checkThreshold, type ThresholdSpec } from './threshold.js';
-import { checkNormalizedThreshold } from './threshold-normalize.js';
-import type { AID, CESREvent, CesrAttachment, DipEvent, DrtEvent, IcpEvent, KELEvent, RotEvent } from './types.js';
-import { verifyVrcAgainstThreshold, verifyWitnessReceipt } from './validation-predicates.js';
+import { checkNormalizedThreshold, normalizeThreshold } from './threshold-normalize.js';
+import type {
+  AID,
+  CESREvent,
+  CesrAttachment,
+  DipEvent,
+  DrtEvent,
+  IcpEvent,
+  KELEvent,
+  KelCheckpoint,
+  RotEvent,
+} from './types.js';
+import {
+  type DelegationAnchorLocation,
+  findDelegationAnchor,
+  type VrcVerificationResult,
+  verifyVrcAgainstThreshold,
+  verifyWitnessReceipt,
+} from './validation-predicates.js';
 
 /**
  * Error codes for KEL validation failures
@@ -58,7 +75,9 @@ export type ValidationErrorCode =
   | 'DUPLICATE_NEXT_DIGESTS'
   | 'WITNESS_RECEIPT_SIGNATURE_INVALID'
   | 'PARENT_THRESHOLD_NOT_MET'
-  | 'VRC_KEY_INDEX_INVALID';
+  | 'VRC_KEY_INDEX_INVALID'
+  | 'DELEGATION_ANCHOR_INVALID'
+  | 'PRIOR_NEXT_THRESHOLD_NOT_MET';
 
 /**
  * Validation error with details
@@ -96,6 +115,11 @@ export interface SignatureDetail {
   publicKey: string;
   valid: boolean;
   error?: string;
+  /**
+   * Position of the signing key in the prior establishment event's n[], for
+   * rotation signatures by an exposed prior next key
+   */
+  priorNextIndex?: number;
 }
 
 /** Valid KEL event types */
@@ -133,6 +157,19 @@ export interface EventValidationDetail {
     thresholdMet: CheckResult & {
       required?: string | number; // threshold spec
       validSignatureCount?: number;
+      /** Indices of the valid signatures carrying weight in the signing threshold */
+      signers?: number[];
+    };
+
+    /**
+     * For rotation events: signatures by exposed prior next keys meet the
+     * prior nt. In a custodial rotation these signers differ from the ones
+     * meeting kt (`thresholdMet`).
+     */
+    priorNextThresholdMet?: CheckResult & {
+      required?: string | number;
+      /** k[] indices of the valid signatures counted toward the prior nt */
+      signers?: number[];
     };
 
     /** For non-inception events: p field matches previous event's SAID */
@@ -151,6 +188,24 @@ export interface EventValidationDetail {
     delegationValid?: CheckResult & {
       parentAid?: string;
       missingParentKel?: boolean;
+      /** Typed verifyVrcAgainstThreshold failure reason, when VRCs were checked */
+      vrcFailureReason?: Extract<VrcVerificationResult, { passed: false }>['reason'];
+      /** How the delegator approved: validator receipts, or an anchor located by seal source couple */
+      approval?: 'vrc' | 'anchor';
+      /** Position of the anchoring event in the parent KEL, for anchor approvals */
+      anchorIndex?: number;
+      /**
+       * Why an anchor approval failed: a findDelegationAnchor reason when a seal
+       * source couple was checked, 'delegator-mismatch' when the parent KEL is
+       * not the delegator's, or 'delegator-kel-invalid' when the parent KEL does
+       * not validate up to the anchor
+       */
+      anchorFailureReason?:
+        | Extract<DelegationAnchorLocation, { found: false }>['reason']
+        | 'delegator-mismatch'
+        | 'delegator-kel-invalid';
+      /** The delegator's inception carries the DND (do-not-delegate) trait */
+      doNotDelegate?: boolean;
     };
   };
 }
@@ -186,6 +241,19 @@ export interface KelValidationOptions {
 
   /** Validation mode (default: 'structural') */
   mode?: ValidationPreset;
+
+  /**
+   * Sequence encoding of the KEL (default: 'hex', as keripy). Set 'decimal'
+   * to read a legacy kerits KEL; see detectSequenceEncoding.
+   */
+  sequenceEncoding?: SequenceEncoding;
+
+  /**
+   * Resume from a trusted checkpoint: the events are then only those after
+   * the checkpoint's sequence number, and event indices in the result are
+   * positions in that tail. See KELOps.createCheckpoint.
+   */
+  checkpoint?: KelCheckpoint;
 }
 
 // --------------------------------------------------------------------------------------
@@ -321,7 +389,7 @@ function validateSignaturesWithDetails(
     let isValid = false;
     let verifyError: string | undefined;
     try {
-      isValid = verifyEventSignature(event, publicKey, sigAtt.sig);
+      isValid = verifyEventSignature(event, publicKey, sigAtt.sig, cesrEvent.enc);
     } catch (err) {
       verifyError = err instanceof Error ? err.message : 'Signature verification failed';
     }
@@ -420,6 +488,8 @@ function validateKeyChainWithDetails(
   const rotEvent = currentEvent as RotEvent | DrtEvent;
   const prevNextDigests = previousEstablishment.n;
   const currentKeys = rotEvent.k;
+  // Report key digests in the algorithm of the prior commitments
+  const [code] = digestCodesOf(prevNextDigests);
 
   const matchResult = matchKeyRevelation({
     priorN: prevNextDigests,
@@ -432,14 +502,14 @@ function validateKeyChainWithDetails(
       passed: false,
       error: `Key revelation errors: ${matchResult.errors.join('; ')}`,
       expectedDigests: [...prevNextDigests],
-      actualDigests: currentKeys.map((k: string) => digestVerfer(k)),
+      actualDigests: currentKeys.map((k: string) => digestVerfer(k, code)),
       revealed: matchResult.revealed,
       augmented: matchResult.augmented,
     };
   }
 
   if (!matchResult.priorNtSatisfied) {
-    const actualDigests = currentKeys.map((k: string) => digestVerfer(k));
+    const actualDigests = currentKeys.map((k: string) => digestVerfer(k, code));
     return {
       passed: false,
       error: `Prior establishment n[] commitments not satisfied: revealed ${matchResult.revealed.length} of ${prevNextDigests.length} next-key digests (nt=${String(previousEstablishment.nt)}). Expected digests from prior n[]: ${prevNextDigests.join(', ')}. Got digests from rotation k[]: ${actualDigests.join(', ')}.`,
@@ -453,23 +523,74 @@ function validateKeyChainWithDetails(
   return {
     passed: true,
     expectedDigests: [...prevNextDigests],
-    actualDigests: currentKeys.map((k: string) => digestVerfer(k)),
+    actualDigests: currentKeys.map((k: string) => digestVerfer(k, code)),
     revealed: matchResult.revealed,
     augmented: matchResult.augmented,
   };
 }
 
+/**
+ * Key indices among `signed` that carry weight in a signing threshold.
+ * Custodial rotation keys have zero weight in kt, so they sign the rotation
+ * without being counted here.
+ */
+function weightedSigners(threshold: Threshold, signed: Set<number>): number[] {
+  const indices = [...signed].sort((a, b) => a - b);
+  if (!Array.isArray(threshold)) return indices;
+  return indices.filter((i) => threshold.some((clause) => Number.parseInt(clause[i] ?? '0', 10) > 0));
+}
+
+/**
+ * Validate that a rotation's signatures by exposed prior next keys satisfy
+ * the previous establishment event's nt, counting each signer at its
+ * position in the previous n[].
+ *
+ * @param revealed - k[]/n[] index pairs from key revelation matching
+ * @param validKeyIndices - k[] indices of signatures that verified
+ * @param previousEstablishment - Previous establishment event
+ */
+function validatePriorNextSignatures(
+  revealed: { kIndex: number; nIndex: number }[],
+  validKeyIndices: Set<number>,
+  previousEstablishment: IcpEvent | RotEvent | DipEvent | DrtEvent,
+): NonNullable<EventValidationDetail['checks']['priorNextThresholdMet']> {
+  const nt = previousEstablishment.nt as Threshold;
+  const required = typeof nt === 'string' ? nt : JSON.stringify(nt);
+  const signing = revealed.filter((r) => validKeyIndices.has(r.kIndex));
+
+  let passed = false;
+  if (signing.length > 0) {
+    try {
+      const normalized = normalizeThreshold(nt, previousEstablishment.n.length);
+      passed = checkNormalizedThreshold(normalized, new Set(signing.map((r) => r.nIndex))).satisfied;
+    } catch {
+      passed = false;
+    }
+  }
+
+  return {
+    passed,
+    required,
+    signers: signing.map((r) => r.kIndex).sort((a, b) => a - b),
+    error: passed
+      ? undefined
+      : `Prior next threshold not met: ${signing.length} valid signatures by exposed prior next keys (nt=${required})`,
+  };
+}
+
 /**
  * Validate delegated event using provided parent KEL
  *
  * @param cesrEvent - The delegated event
  * @param parentKel - Optional parent KEL events for validation
+ * @param delegatorAid - The delegator from the KEL's inception, for drt events
  * @returns Check result with delegation details
  */
 function validateDelegationWithDetails(
   cesrEvent: CESREvent,
   parentKel?: CESREvent[],
-): CheckResult & { parentAid?: string; missingParentKel?: boolean; vrcFailureReason?: string } {
+  delegatorAid?: AID,
+): NonNullable<EventValidationDetail['checks']['delegationValid']> {
   const event = cesrEvent.event;
 
   if (!isDelegatedEvent(event)) {
@@ -478,7 +599,7 @@ function validateDelegationWithDetails(
 
   // Try to get the delegator AID from the event.
   // dip events carry di; drt events do not (delegation established at inception).
-  const parentAid = ((event as any).di as string | undefined) ?? 'unknown';
+  const parentAid = ((event as any).di as string | undefined) ?? delegatorAid ?? 'unknown';
 
   if (!parentKel || parentKel.length === 0) {
     return {
@@ -489,13 +610,53 @@ function validateDelegationWithDetails(
     };
   }
 
+  const delegatorTraits = (parentKel[0]!.event as { c?: unknown }).c;
+  if (Array.isArray(delegatorTraits) && delegatorTraits.includes('DND')) {
+    return {
+      passed: false,
+      error: `Delegator ${parentAid} does not allow delegation (DND)`,
+      parentAid,
+      doNotDelegate: true,
+    };
+  }
+
   // Look for VRC (validator receipt) attachment from parent
   const vrcAttachments = getVrcAttachments(cesrEvent);
 
   if (vrcAttachments.length === 0) {
+    // keripy-style approval: the delegator seals the event in its own KEL and
+    // the event carries a seal source couple pointing at that anchor.
+    if (cesrEvent.attachments.some((a) => a.kind === 'src')) {
+      // Unlike a VRC, an anchor carries no delegator signature of its own: it
+      // approves only in the delegator's KEL, signed up to the anchor.
+      if (parentKel[0]!.event.i !== parentAid) {
+        return {
+          passed: false,
+          error: `Parent KEL is for ${parentKel[0]!.event.i}, not delegator ${parentAid}`,
+          parentAid,
+          anchorFailureReason: 'delegator-mismatch',
+        };
+      }
+      const anchor = findDelegationAnchor(cesrEvent, parentKel);
+      if (!anchor.found) {
+        return { passed: false, error: anchor.message, parentAid, anchorFailureReason: anchor.reason };
+      }
+      const parentValidation = validateKelChain(parentKel.slice(0, anchor.index + 1), {
+        sequenceEncoding: detectSequenceEncoding(parentKel.map((p) => p.event.s)) ?? 'hex',
+      });
+      if (!parentValidation.valid) {
+        return {
+          passed: false,
+          error: `Delegator KEL is invalid up to its anchor: ${parentValidation.firstError?.message ?? 'validation failed'}`,
+          parentAid,
+          anchorFailureReason: 'delegator-kel-invalid',
+        };
+      }
+      return { passed: true, parentAid, approval: 'anchor', anchorIndex: anchor.index };
+    }
     return {
       passed: false,
-      error: `No VRC attachment found for delegated event from parent ${parentAid}`,
+      error: `No VRC attachment or seal source couple found for delegated event from parent ${parentAid}`,
       parentAid,
     };
   }
@@ -504,12 +665,14 @@ function validateDelegationWithDetails(
   // The VRC seal's `s` field identifies the parent event sequence at which the delegator
   // endorsed this event. We need the most recent establishment event at or before that
   // sequence to get the correct signing keys (the delegator's key state at endorsement time).
+  // A legacy decimal parent KEL numbers its events, and so its seals, in decimal.
+  const parentEncoding = detectSequenceEncoding(parentKel.map((p) => p.event.s)) ?? 'hex';
   const sealSeq = vrcAttachments[0]?.seal?.s;
-  const sealSeqNum = sealSeq != null ? parseInt(sealSeq as string, 10) : undefined;
+  const sealSeqNum = sealSeq != null ? parseSequenceNumber(sealSeq, parentEncoding) : undefined;
 
   let parentEstablishment: (IcpEvent | RotEvent | DipEvent | DrtEvent) | undefined;
   for (const pEvent of parentKel) {
-    const pSeqNum = parseInt(pEvent.event.s as string, 10);
+    const pSeqNum = parseSequenceNumber(pEvent.event.s, parentEncoding);
     // Stop walking once we've passed the seal-referenced sequence
     if (sealSeqNum != null && pSeqNum > sealSeqNum) break;
     if (isEstablishmentEvent(pEvent.event)) {
@@ -553,7 +716,7 @@ function validateDelegationWithDetails(
     };
   }
 
-  return { passed: true, parentAid };
+  return { passed: true, parentAid, approval: 'vrc' };
 }
 
 // --------------------------------------------------------------------------------------
@@ -721,9 +884,12 @@ export function validateKel(
 
   const start = options?.startIndex ?? 0;
   const parentKel = options?.parentKel;
+  const checkpoint = options?.checkpoint;
 
   // Track the most recent establishment event for key chain validation
-  let lastEstablishment: (IcpEvent | RotEvent | DipEvent | DrtEvent) | undefined;
+  let lastEstablishment: (IcpEvent | RotEvent | DipEvent | DrtEvent) | undefined = checkpoint
+    ? checkpointEstablishment(checkpoint)
+    : undefined;
 
   // Find the last establishment event before startIndex
   for (let i = 0; i < start && i < events.length; i++) {
@@ -824,7 +990,7 @@ export function validateKel(
     }
 
     // 4. Previous event link validation (p field matches prior event's SAID)
-    const previousEvent = i > 0 ? events[i - 1]?.event : undefined;
+    const previousEvent = i > 0 ? events[i - 1]?.event : checkpoint ? ({ d: checkpoint.ed } as KELEvent) : undefined;
     const prevEventResult = validatePreviousEventLink(event, previousEvent);
     checks.previousEventValid = prevEventResult;
 
@@ -906,6 +1072,7 @@ export function validateKel(
       passed: thresholdMet,
       required: typeof threshold === 'string' ? threshold : JSON.stringify(threshold),
       validSignatureCount: sigResult.validKeyIndices.size,
+      signers: weightedSigners(threshold, sigResult.validKeyIndices),
       error: typeValid
         ? thresholdMet
           ? undefined
@@ -939,17 +1106,46 @@ export function validateKel(
         };
         overallValid = false;
       }
+
+      // 7b. Rotation signers: exposed prior next keys must meet the prior nt
+      if (keyChainResult.passed && keyChainResult.revealed) {
+        for (const detail of sigResult.details) {
+          const match = keyChainResult.revealed.find((r) => r.kIndex === detail.keyIndex);
+          if (detail.valid && match) detail.priorNextIndex = match.nIndex;
+        }
+        const priorNextResult = validatePriorNextSignatures(
+          keyChainResult.revealed,
+          sigResult.validKeyIndices,
+          lastEstablishment,
+        );
+        checks.priorNextThresholdMet = priorNextResult;
+
+        if (!priorNextResult.passed && !firstError) {
+          firstError = {
+            code: 'PRIOR_NEXT_THRESHOLD_NOT_MET',
+            scope: 'attachment',
+            severity: 'error',
+            message: `Prior next threshold not met for event ${i}: ${priorNextResult.signers?.length ?? 0} valid signatures by exposed prior next keys`,
+            eventIndex: i,
+          };
+          overallValid = false;
+        }
+      }
     }
 
     // 8. Delegation validation for delegated events
     if (isDelegatedEvent(event)) {
-      const delegationResult = validateDelegationWithDetails(cesrEvent, parentKel);
+      const delegationResult = validateDelegationWithDetails(cesrEvent, parentKel, state?.delegatorAid);
       checks.delegationValid = delegationResult;
 
       if (!delegationResult.passed && !firstError) {
         let errorCode: ValidationErrorCode;
         if (delegationResult.missingParentKel) {
           errorCode = 'MISSING_PARENT_KEL';
+        } else if (delegationResult.doNotDelegate) {
+          errorCode = 'CONFIG_TRAIT_VIOLATION';
+        } else if (delegationResult.anchorFailureReason) {
+          errorCode = 'DELEGATION_ANCHOR_INVALID';
         } else {
           // Use typed vrcFailureReason field — no fragile string matching
           const VRC_REASON_TO_CODE: Record<string, ValidationErrorCode> = {
@@ -988,7 +1184,7 @@ export function validateKel(
     }
 
     // 10. AID consistency (uses derived state)
-    if (state && i > 0 && event.i !== (state.kelAid as string)) {
+    if (state && (i > 0 || checkpoint) && event.i !== (state.kelAid as string)) {
       if (!firstError) {
         firstError = {
           code: 'AID_INCONSISTENT',
@@ -1002,7 +1198,7 @@ export function validateKel(
     }
 
     // 11. First event must be inception (uses derived state)
-    if (state && i === 0 && event.t !== 'icp' && event.t !== 'dip') {
+    if (state && i === 0 && !checkpoint && event.t !== 'icp' && event.t !== 'dip') {
       if (!firstError) {
         firstError = {
           code: 'FIRST_EVENT_NOT_INCEPTION',
@@ -1017,7 +1213,7 @@ export function validateKel(
 
     // 12. Non-transferable violation (uses derived state)
     // A non-transferable AID (n=[]) cannot have ANY subsequent events.
-    if (state?.nonTransferable && i > start) {
+    if (state?.nonTransferable && (i > start || checkpoint)) {
       if (!firstError) {
         firstError = {
           code: 'NON_TRANSFERABLE_VIOLATION',
@@ -1218,7 +1414,7 @@ export function validateKel(
  * @returns RichValidationResult with per-event details and overall validity
  */
 export function validateKelChain(events: CESREvent[], options?: KelValidationOptions): RichValidationResult {
-  const states = reduceKelState(events);
+  const states = reduceKelState(events, options?.sequenceEncoding, options?.checkpoint);
   return validateKel(events, states, options);
 }
 
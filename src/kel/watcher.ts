@@ -0,0 +1,181 @@
+/**
+ * Watcher-style KEL Comparison
+ *
+ * Compares copies of one AID's KEL pulled from several remotes (e.g. each
+ * host listed in an AidManifest). Each copy is validated on its own; the
+ * verified prefixes are then compared event by event. A copy that is a strict
+ * prefix of the longest verified KEL is lagging, one that disagrees with it
+ * at some sequence number is forked, and one carrying events that fail
+ * validation is invalid.
+ *
+ * Pure — no I/O. Fetching the copies is the caller's job.
+ *
+ * @module kel/watcher
+ */
+
+import type { AID, SAID } from '../common/types.js';
+import { type RemoteRecord, resourceKey } from '../remote/kel-resource-types.js';
+import { KELOps } from './ops.js';
+import type { KeyStateError, VerifiedKeyState } from './ops-types.js';
+import type { CESREvent } from './types.js';
+import type { KelValidationOptions, ValidationError } from './validation.js';
+import { validateKelChain } from './validation.js';
+
+/** One remote's copy of the KEL. */
+export interface KelSource {
+  record: RemoteRecord;
+  events: readonly CESREvent[];
+}
+
+/**
+ * How a source relates to the reference KEL (the longest verified copy).
+ *
+ * - `consistent`: holds the whole reference KEL
+ * - `lagging`: holds a strict prefix of it
+ * - `forked`: holds a different event at `sequence`
+ * - `invalid`: its event at `sequence` fails validation (or belongs to another AID);
+ *   the events before it still count towards the comparison
+ */
+export type KelSourceStatus =
+  | { kind: 'consistent' }
+  | { kind: 'lagging'; missing: number }
+  | { kind: 'forked'; sequence: number; said: SAID; referenceSaid: SAID }
+  | { kind: 'invalid'; sequence: number; error: ValidationError };
+
+export interface KelSourceEvidence {
+  /** resourceKey of the source's record. */
+  key: string;
+  record: RemoteRecord;
+  status: KelSourceStatus;
+  /** Number of leading events that validated. */
+  verifiedLength: number;
+  /** SAID of the last verified event, if any. */
+  headSaid?: SAID;
+}
+
+/**
+ * Verdict of a KEL comparison, in the shape of KeyStateResult: the key state
+ * of the reference KEL when no source forks, otherwise the first fork found.
+ */
+export type KelComparisonResult = ({ ok: true; keyState: VerifiedKeyState } | { ok: false; error: KeyStateError }) & {
+  /** Events every source verified and agrees on. */
+  commonPrefix: CESREvent[];
+  sources: KelSourceEvidence[];
+};
+
+export interface KelComparisonOptions extends Omit<KelValidationOptions, 'startIndex'> {
+  /** Expected AID. Defaults to the AID of the first source with a verified inception. */
+  aid?: AID;
+}
+
+/** Leading events that validate, and the first error after them if any. */
+function verifiedPrefix(
+  events: readonly CESREvent[],
+  options: Omit<KelValidationOptions, 'startIndex'>,
+): { prefix: CESREvent[]; error?: ValidationError } {
+  if (events.length === 0) return { prefix: [] };
+  const result = validateKelChain([...events], options);
+  if (result.valid) return { prefix: [...events] };
+
+  const error = result.firstError ?? {
+    code: 'MISSING_REQUIRED_FIELD',
+    scope: 'chain',
+    severity: 'error',
+    message: 'KEL failed validation',
+    eventIndex: 0,
+  };
+  return { prefix: events.slice(0, error.eventIndex ?? 0), error };
+}
+
+function firstDivergence(a: readonly CESREvent[], b: readonly CESREvent[]): number {
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    if (!KELOps.eventsEqual(a[i]!, b[i]!)) return i;
+  }
+  return n;
+}
+
+/**
+ * Compare copies of a KEL from several remotes.
+ *
+ * Every source is validated independently and cut at its first invalid event.
+ * The longest verified copy (the earliest source on ties) is the reference;
+ * each source is classified against it and the common prefix is the longest
+ * run of events all sources verified and agree on.
+ *
+ * @param sources - KEL copies keyed by the RemoteRecord they were fetched from
+ * @param options - Expected AID and validation options (parentKel, mode)
+ */
+export function compareKels(sources: readonly KelSource[], options: KelComparisonOptions = {}): KelComparisonResult {
+  const { aid: expectedAid, ...validation } = options;
+
+  const verified = sources.map((source) => {
+    const { prefix, error } = verifiedPrefix(source.events, validation);
+    return { source, prefix, error };
+  });
+
+  const aid = expectedAid ?? (verified.find((v) => v.prefix.length > 0)?.prefix[0]?.event.i as AID | undefined);
+  for (const v of verified) {
+    if (v.prefix.length > 0 && v.prefix[0]!.event.i !== aid) {
+      v.error = {
+        code: 'AID_INCONSISTENT',
+        scope: 'chain',
+        severity: 'error',
+        message: `KEL belongs to ${v.prefix[0]!.event.i}, expected ${aid}`,
+        eventIndex: 0,
+      };
+      v.prefix = [];
+    }
+  }
+
+  const reference = verified.reduce<CESREvent[]>((best, v) => (v.prefix.length > best.length ? v.prefix : best), []);
+
+  let commonLength = verified.length === 0 ? 0 : reference.length;
+  const evidence: KelSourceEvidence[] = verified.map(({ source, prefix, error }) => {
+    const divergence = firstDivergence(prefix, reference);
+    commonLength = Math.min(commonLength, divergence);
+
+    let status: KelSourceStatus;
+    if (divergence < prefix.length) {
+      status = {
+        kind: 'forked',
+        sequence: divergence,
+        said: prefix[divergence]!.event.d as SAID,
+        referenceSaid: reference[divergence]!.event.d as SAID,
+      };
+    } else if (error) {
+      status = { kind: 'invalid', sequence: error.eventIndex ?? prefix.length, error };
+    } else if (prefix.length < reference.length) {
+      status = { kind: 'lagging', missing: reference.length - prefix.length };
+    } else {
+      status = { kind: 'consistent' };
+    }
+
+    return {
+      key: resourceKey(source.record.resource),
+      record: source.record,
+      status,
+      verifiedLength: prefix.length,
+      ...(prefix.length > 0 ? { headSaid: prefix[prefix.length - 1]!.event.d as SAID } : {}),
+    };
+  });
+
+  const commonPrefix = reference.slice(0, commonLength);
+  const fork = evidence.find((e) => e.status.kind === 'forked')?.status;
+  if (fork?.kind === 'forked') {
+    return {
+      ok: false,
+      error: { kind: 'kel-fork', seqNo: fork.sequence, existingDigest: fork.referenceSaid, newDigest: fork.said },
+      commonPrefix,
+      sources: evidence,
+    };
+  }
+  if (reference.length === 0) {
+    return { ok: false, error: { kind: 'missing-inception' }, commonPrefix, sources: evidence };
+  }
+
+  const keyState = KELOps.extractKeyState(reference, validation);
+  return keyState.ok
+    ? { ok: true, keyState: keyState.keyState, commonPrefix, sources: evidence }
+    : { ok: false, error: keyState.error, commonPrefix, sources: evidence };
+}
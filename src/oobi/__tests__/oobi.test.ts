@@ -0,0 +1,289 @@
+import { describe, expect, test } from 'bun:test';
+import { digestVerfer } from '../../cesr/digest.js';
+import { decodeKey, encodeKey } from '../../cesr/keys.js';
+import { deriveSaid } from '../../common/derivation-surface.js';
+import type { AID, KeriKeyPair, SAID } from '../../common/types.js';
+import { KeriKeyPairs } from '../../crypto/index.js';
+import { canonicalizeEvent } from '../../kel/event-crypto.js';
+import { KELEvents } from '../../kel/events.js';
+import type { CESREvent, CesrAttachment, KELEvent } from '../../kel/types.js';
+import type { RemotePath, RemoteStore } from '../../remote/types.js';
+import { RPYMessages } from '../../routing/messages.js';
+import { RoutingOps } from '../../routing/ops.js';
+import type { RpyEnvelope } from '../../routing/types.js';
+import { buildJsonSchemaSurface } from '../../said/surfaces.js';
+import { SchemaData } from '../../schema/schema-data.js';
+import { Signers } from '../../signature/signers.js';
+import { OOBIOps } from '../ops.js';
+import type { ParsedOobi } from '../types.js';
+import { OOBIUrls } from '../urls.js';
+
+// ── Fixtures ────────────────────────────────────────────────────────
+const CONTROLLER = KeriKeyPairs.fromSeedNumber(1);
+const NEXT = KeriKeyPairs.fromSeedNumber(2);
+const WITNESS = KeriKeyPairs.fromSeedNumber(3);
+const WITNESS_AID = encodeKey(decodeKey(WITNESS.publicKey).raw, false).qb64 as AID;
+const BASE = 'http://witness.example:5642';
+const DT = '2025-01-15T12:00:00.000000+00:00';
+const LATER = '2025-01-16T12:00:00.000000+00:00';
+
+/** In-memory RemoteStore keyed by joined path segments. */
+function memoryStore(): RemoteStore & { put(path: RemotePath, data: Uint8Array): void } {
+  const data = new Map<string, Uint8Array>();
+  return {
+    put: (path, bytes) => data.set(path.join('/'), bytes),
+    async publish(path, payload) {
+      const status = data.has(path.join('/')) ? 'updated' : 'published';
+      data.set(path.join('/'), payload);
+      return { status, path };
+    },
+    async fetch(path) {
+      return data.get(path.join('/'));
+    },
+  };
+}
+
+async function signEvent(event: KELEvent, keypair: KeriKeyPair): Promise<CesrAttachment> {
+  const sig = await Signers.fromKeyPair(keypair).signBytes(canonicalizeEvent(event));
+  return { kind: 'sig', form: 'indexed', keyIndex: 0, sig };
+}
+
+async function controllerKel(): Promise<CESREvent[]> {
+  const { unsignedEvent } = KELEvents.buildIcp({
+    keys: [CONTROLLER.publicKey],
+    nextKeyDigests: [digestVerfer(NEXT.publicKey)],
+    witnesses: [WITNESS_AID],
+    witnessThreshold: '1',
+  });
+  const { event } = KELEvents.finalize(unsignedEvent, true);
+  return [{ event, attachments: [await signEvent(event, CONTROLLER)], enc: 'JSON' }];
+}
+
+async function endRole(kel: CESREvent[], dt = DT, signer = CONTROLLER): Promise<RpyEnvelope> {
+  const { i, s, d } = kel[0]!.event;
+  const env = RPYMessages.endRoleAdd({ cid: i as AID, role: 'witness', eid: WITNESS_AID, datetime: dt });
+  return RoutingOps.signRpyWithSigner(env, Signers.fromKeyPair(signer), { seal: { i, s, d } });
+}
+
+async function locScheme(url = `${BASE}/`, dt = DT): Promise<RpyEnvelope> {
+  const env = RPYMessages.locScheme({ eid: WITNESS_AID, scheme: 'http', url, datetime: dt });
+  return RoutingOps.signRpyWithSigner(env, Signers.fromKeyPair(WITNESS), { nonTransferable: WITNESS_AID });
+}
+
+function parsed(url: string): ParsedOobi {
+  const result = OOBIUrls.parse(url);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.value;
+}
+
+// ── OOBIUrls ────────────────────────────────────────────────────────
+describe('OOBIUrls', () => {
+  test('parses role-qualified OOBIs with and without an endpoint AID', () => {
+    expect(parsed(`${BASE}/oobi/Ecid/witness/Beid?name=alice`)).toEqual({
+      url: `${BASE}/oobi/Ecid/witness/Beid?name=alice`,
+      baseUrl: BASE,
+      alias: 'alice',
+      kind: 'role',
+      aid: 'Ecid' as AID,
+      role: 'witness',
+      eid: 'Beid' as AID,
+    });
+    expect(parsed(`${BASE}/oobi/Ecid/controller`)).toMatchObject({ kind: 'role', aid: 'Ecid', role: 'controller' });
+  });
+
+  test('parses well-known and bare OOBIs under a path prefix', () => {
+    expect(parsed(`${BASE}/.well-known/keri/oobi/Ecid`)).toMatchObject({ kind: 'well-known', aid: 'Ecid' });
+    expect(parsed(`${BASE}/agents/oobi/Esaid`)).toMatchObject({ kind: 'bare', id: 'Esaid', baseUrl: `${BASE}/agents` });
+  });
+
+  test('rejects URLs that are not OOBIs', () => {
+    const notUrl = OOBIUrls.parse('oobi/Ecid');
+    expect(notUrl.ok).toBe(false);
+    if (!notUrl.ok) expect(notUrl.error.kind).toBe('invalid-url');
+
+    const notOobi = OOBIUrls.parse(`${BASE}/kel/Ecid`);
+    expect(notOobi.ok).toBe(false);
+    if (!notOobi.ok) expect(notOobi.error.kind).toBe('not-an-oobi');
+
+    const badRole = OOBIUrls.parse(`${BASE}/oobi/Ecid/landlord`);
+    expect(badRole.ok).toBe(false);
+    if (!badRole.ok) expect(badRole.error.kind).toBe('unknown-role');
+  });
+
+  test('builds URLs that parse back', () => {
+    const cid = 'Ecid' as AID;
+    expect(parsed(OOBIUrls.role(`${BASE}/`, cid, 'witness', WITNESS_AID))).toMatchObject({
+      kind: 'role',
+      aid: cid,
+      role: 'witness',
+      eid: WITNESS_AID,
+    });
+    expect(OOBIUrls.wellKnown(BASE, cid)).toBe(`${BASE}/.well-known/keri/oobi/Ecid`);
+    expect(parsed(OOBIUrls.data(BASE, 'Esaid' as SAID))).toMatchObject({ kind: 'bare', id: 'Esaid' });
+    expect(OOBIUrls.remotePath(parsed(OOBIUrls.role(BASE, cid, 'mailbox')))).toEqual(['oobi', 'Ecid', 'mailbox']);
+  });
+});
+
+// ── OOBIOps.resolveOobi ─────────────────────────────────────────────
+describe('OOBIOps.resolveOobi', () => {
+  test('resolves a witness OOBI: KEL, key state and endpoint records', async () => {
+    const kel = await controllerKel();
+    const cid = kel[0]!.event.i as AID;
+    const oobi = parsed(OOBIUrls.role(BASE, cid, 'witness', WITNESS_AID));
+    const store = memoryStore();
+    store.put(OOBIUrls.remotePath(oobi), OOBIOps.encodeOobiResponse(kel, [await endRole(kel), await locScheme()]));
+
+    const result = await OOBIOps.resolveOobi(oobi, store);
+    expect(result.ok).toBe(true);
+    if (result.ok && result.value.kind === 'kel') {
+      expect(result.value.aid).toBe(cid);
+      expect(result.value.kel).toHaveLength(1);
+      expect(result.value.keyState.currentKeys).toEqual([CONTROLLER.publicKey]);
+      expect(result.value.endpoints.roles).toMatchObject([{ cid, role: 'witness', eid: WITNESS_AID, allowed: true }]);
+      expect(result.value.endpoints.locations).toMatchObject([{ eid: WITNESS_AID, scheme: 'http', url: `${BASE}/` }]);
+      expect(result.value.rejected).toEqual([]);
+    }
+  });
+
+  test('rejects endpoint replies signed by the wrong AID', async () => {
+    const kel = await controllerKel();
+    const cid = kel[0]!.event.i as AID;
+    const forged = await endRole(kel, DT, NEXT);
+    const oobi = parsed(OOBIUrls.wellKnown(BASE, cid));
+    const store = memoryStore();
+    store.put(OOBIUrls.remotePath(oobi), OOBIOps.encodeOobiResponse(kel, [forged]));
+
+    const result = await OOBIOps.resolveOobi(oobi, store);
+    expect(result.ok).toBe(true);
+    if (result.ok && result.value.kind === 'kel') {
+      expect(result.value.endpoints.roles).toEqual([]);
+      expect(result.value.rejected).toMatchObject([{ said: forged.rpy.d, route: '/end/role/add' }]);
+    }
+  });
+
+  test('verifies replies sealed at the establishment event before later interactions', async () => {
+    const kel = await controllerKel();
+    const cid = kel[0]!.event.i as AID;
+    const { unsignedEvent } = KELEvents.buildIxn({
+      aid: cid,
+      sequence: '1',
+      priorEventSaid: kel[0]!.event.d as SAID,
+      anchors: [],
+    });
+    const { event: ixn } = KELEvents.finalize(unsignedEvent, false);
+    const withIxn: CESREvent[] = [...kel, { event: ixn, attachments: [await signEvent(ixn, CONTROLLER)], enc: 'JSON' }];
+    const oobi = parsed(OOBIUrls.wellKnown(BASE, cid));
+    const store = memoryStore();
+    store.put(OOBIUrls.remotePath(oobi), OOBIOps.encodeOobiResponse(withIxn, [await endRole(kel)]));
+
+    const result = await OOBIOps.resolveOobi(oobi, store);
+    expect(result.ok).toBe(true);
+    if (result.ok && result.value.kind === 'kel') {
+      expect(result.value.keyState.seqNo).toBe(1);
+      expect(result.value.endpoints.roles).toMatchObject([{ cid, role: 'witness', eid: WITNESS_AID, allowed: true }]);
+      expect(result.value.rejected).toEqual([]);
+    }
+  });
+
+  test('fails a role OOBI whose endpoint is not authorized', async () => {
+    const kel = await controllerKel();
+    const oobi = parsed(OOBIUrls.role(BASE, kel[0]!.event.i as AID, 'witness', WITNESS_AID));
+    const store = memoryStore();
+    store.put(OOBIUrls.remotePath(oobi), OOBIOps.encodeOobiResponse(kel, [await locScheme()]));
+
+    const result = await OOBIOps.resolveOobi(oobi, store);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.step).toBe('apply-replies');
+  });
+
+  test('reports the failing step', async () => {
+    const kel = await controllerKel();
+    const oobi = parsed(OOBIUrls.wellKnown(BASE, kel[0]!.event.i as AID));
+    const store = memoryStore();
+
+    const missing = await OOBIOps.resolveOobi(oobi, store);
+    expect(!missing.ok && missing.error.step).toBe('fetch');
+
+    store.put(OOBIUrls.remotePath(oobi), new TextEncoder().encode('not cesr'));
+    const garbled = await OOBIOps.resolveOobi(oobi, store);
+    expect(!garbled.ok && garbled.error.step).toBe('parse');
+
+    const other = parsed(OOBIUrls.wellKnown(BASE, 'Eother' as AID));
+    store.put(OOBIUrls.remotePath(other), OOBIOps.encodeOobiResponse(kel));
+    const wrongKel = await OOBIOps.resolveOobi(other, store);
+    expect(!wrongKel.ok && wrongKel.error.step).toBe('verify-kel');
+  });
+
+  test('resolves a data OOBI to a schema whose SAID matches', async () => {
+    const schema = SchemaData.create({ title: 'Example', type: 'object', properties: {} });
+    const oobi = parsed(OOBIUrls.data(BASE, schema.d as SAID));
+    const store = memoryStore();
+    store.put(OOBIUrls.remotePath(oobi), new TextEncoder().encode(JSON.stringify(schema)));
+
+    const result = await OOBIOps.resolveOobi(oobi, store);
+    expect(result.ok).toBe(true);
+    if (result.ok && result.value.kind === 'data') expect(result.value.said).toBe(schema.d as SAID);
+
+    const elsewhere = parsed(OOBIUrls.data(BASE, 'Eother' as SAID));
+    store.put(OOBIUrls.remotePath(elsewhere), new TextEncoder().encode(JSON.stringify(schema)));
+    const mismatch = await OOBIOps.resolveOobi(elsewhere, store);
+    expect(!mismatch.ok && mismatch.error.step).toBe('parse');
+  });
+
+  test('resolves a data OOBI to a bare JSON Schema identified by its $id', async () => {
+    const { sealed: schema } = deriveSaid(
+      { $id: '', $schema: 'http://json-schema.org/draft-07/schema#', title: 'Example', type: 'object' },
+      buildJsonSchemaSurface({ $id: '', $schema: '', title: '', type: '' }),
+      'JSON',
+    );
+    const oobi = parsed(OOBIUrls.data(BASE, schema.$id as SAID));
+    const store = memoryStore();
+    store.put(OOBIUrls.remotePath(oobi), new TextEncoder().encode(JSON.stringify(schema)));
+
+    const result = await OOBIOps.resolveOobi(oobi, store);
+    expect(result.ok).toBe(true);
+    if (result.ok && result.value.kind === 'data') {
+      expect(result.value.said).toBe(schema.$id as SAID);
+      expect(result.value.schema.s).toEqual(schema);
+    }
+
+    store.put(OOBIUrls.remotePath(oobi), new TextEncoder().encode(JSON.stringify({ ...schema, title: 'Forged' })));
+    const forged = await OOBIOps.resolveOobi(oobi, store);
+    expect(!forged.ok && forged.error.step).toBe('parse');
+  });
+
+  test('verifies replies from ECDSA non-transferable witnesses', async () => {
+    const kel = await controllerKel();
+    const witness = KeriKeyPairs.fromSeedNumber(4, 'p256');
+    const eid = encodeKey(decodeKey(witness.publicKey).raw, false, 'p256').qb64 as AID;
+    const env = RPYMessages.locScheme({ eid, scheme: 'http', url: `${BASE}/`, datetime: DT });
+    const reply = await RoutingOps.signRpyWithSigner(env, Signers.fromEcdsaKeyPair(witness), { nonTransferable: eid });
+    const oobi = parsed(OOBIUrls.wellKnown(BASE, kel[0]!.event.i as AID));
+    const store = memoryStore();
+    store.put(OOBIUrls.remotePath(oobi), OOBIOps.encodeOobiResponse(kel, [reply]));
+
+    const result = await OOBIOps.resolveOobi(oobi, store);
+    expect(result.ok && result.value.kind === 'kel' && result.value.endpoints.locations).toMatchObject([
+      { eid, scheme: 'http' },
+    ]);
+  });
+});
+
+// ── OOBIOps.applyEndpointReply ──────────────────────────────────────
+describe('OOBIOps.applyEndpointReply', () => {
+  test('keeps the latest reply per endpoint and applies cuts', async () => {
+    const kel = await controllerKel();
+    const cid = kel[0]!.event.i as AID;
+    const older = (await locScheme(`${BASE}/old`, DT)).rpy;
+    const newer = (await locScheme(`${BASE}/new`, LATER)).rpy;
+
+    let endpoints = OOBIOps.applyEndpointReply({ roles: [], locations: [] }, newer);
+    endpoints = OOBIOps.applyEndpointReply(endpoints, older);
+    expect(endpoints.locations.map((l) => l.url)).toEqual([`${BASE}/new`]);
+
+    endpoints = OOBIOps.applyEndpointReply(endpoints, (await endRole(kel)).rpy);
+    const cut = RPYMessages.endRoleCut({ cid, role: 'witness', eid: WITNESS_AID, datetime: LATER }).rpy;
+    endpoints = OOBIOps.applyEndpointReply(endpoints, cut);
+    expect(endpoints.roles).toMatchObject([{ cid, eid: WITNESS_AID, allowed: false }]);
+  });
+});
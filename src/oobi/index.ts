@@ -0,0 +1,11 @@
+import { OOBIOps } from './ops.js';
+import { OOBIUrls } from './urls.js';
+
+export const Oobi = {
+  ...OOBIOps,
+  urls: OOBIUrls,
+} as const;
+
+export { OOBIOps } from './ops.js';
+export type * from './types.js';
+export { OOBIUrls } from './urls.js';
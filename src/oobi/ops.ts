@@ -0,0 +1,312 @@
+import { encodeAttachmentGroups } from '../cesr/attachments.js';
+import { isNonTransferableKey } from '../cesr/keys.js';
+import { parseCesrMessages, serializeCesrStream } from '../cesr/stream.js';
+import { encodeBase64 } from '../common/base64.js';
+import type { AID, SAID } from '../common/types.js';
+import { KELOps } from '../kel/ops.js';
+import type { VerifiedKeyState } from '../kel/ops-types.js';
+import type { CESREvent, CesrSeal, KELEvent } from '../kel/types.js';
+import type { RemoteStore } from '../remote/types.js';
+import { err, ok, type Result } from '../result.js';
+import { RPYMessages } from '../routing/messages.js';
+import { RoutingOps } from '../routing/ops.js';
+import {
+  type EndpointRole,
+  type EndpointScheme,
+  type RpyEnvelope,
+  type RpyMessage,
+  type RpyRouteSpec,
+  RpyRoutes,
+} from '../routing/types.js';
+import { SchemaResolver } from '../schema/resolver.js';
+import type {
+  EndRoleRecord,
+  LocSchemeRecord,
+  OobiEndpoints,
+  OobiResolution,
+  OobiResolutionError,
+  OobiResponse,
+  ParsedOobi,
+  RejectedReply,
+} from './types.js';
+import { OOBIUrls } from './urls.js';
+
+const KEL_ILKS = new Set(['icp', 'rot', 'ixn', 'dip', 'drt']);
+
+const EMPTY_ENDPOINTS: OobiEndpoints = { roles: [], locations: [] };
+
+function failure(step: OobiResolutionError['step'], message: string): Result<never, OobiResolutionError> {
+  return err({ step, message });
+}
+
+function isNewer(dt: string, than: string): boolean {
+  return Date.parse(dt) > Date.parse(than);
+}
+
+/** The AID whose KEL an OOBI introduces. */
+function oobiAid(oobi: ParsedOobi): AID {
+  return oobi.kind === 'bare' ? (oobi.id as AID) : oobi.aid;
+}
+
+/**
+ * Encode an OOBI response as served by keripy: the KEL events followed by
+ * the endpoint replies, each with its attachments, as one CESR stream.
+ */
+function encodeOobiResponse(events: readonly CESREvent[], replies: readonly RpyEnvelope[] = []): Uint8Array {
+  const parts: Uint8Array[] = [serializeCesrStream(events)];
+  for (const env of replies) {
+    parts.push(RPYMessages.encodeRpyBytes(env.rpy, env.enc), encodeAttachmentGroups(env.attachments));
+  }
+
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Step 1: fetch the OOBI response from a RemoteStore at OOBIUrls.remotePath.
+ */
+async function fetchOobi(oobi: ParsedOobi, store: RemoteStore): Promise<Result<Uint8Array, OobiResolutionError>> {
+  try {
+    const data = await store.fetch(OOBIUrls.remotePath(oobi));
+    return data === undefined ? failure('fetch', `Nothing found at ${oobi.url}`) : ok(data);
+  } catch (e) {
+    return failure('fetch', `Fetching ${oobi.url} failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/**
+ * A schema document: an envelope of type `sch`, or a bare JSON Schema
+ * identified by its `$id` as keripy and vLEI schema servers serve them.
+ */
+function isDataDocument(body: unknown): boolean {
+  if (body === null || typeof body !== 'object' || Array.isArray(body)) return false;
+  const { t, $id } = body as { t?: unknown; $id?: unknown };
+  return t === 'sch' || (t === undefined && typeof $id === 'string');
+}
+
+/**
+ * Step 2: parse an OOBI response.
+ *
+ * A single JSON schema document (see isDataDocument) is a data OOBI response;
+ * anything else must be a CESR stream of KEL events and `rpy` messages. Other
+ * message types on the stream are skipped.
+ */
+function parseOobiResponse(data: Uint8Array): Result<OobiResponse, OobiResolutionError> {
+  try {
+    const body = JSON.parse(new TextDecoder().decode(data)) as unknown;
+    if (isDataDocument(body)) return ok({ kind: 'data', body });
+  } catch {
+    // Not a lone JSON document: parse as a CESR stream.
+  }
+
+  try {
+    const events: CESREvent[] = [];
+    const replies: RpyEnvelope[] = [];
+    for (const message of parseCesrMessages(data)) {
+      const ilk = message.body.t;
+      if (typeof ilk === 'string' && KEL_ILKS.has(ilk)) {
+        events.push({
+          event: message.body as KELEvent,
+          attachments: [...message.attachments],
+          enc: message.kind,
+          bytesB64: encodeBase64(message.raw),
+        });
+      } else if (ilk === 'rpy') {
+        replies.push({ rpy: message.body as RpyMessage, attachments: [...message.attachments], enc: message.kind });
+      }
+    }
+    return ok({ kind: 'cesr', events, replies });
+  } catch (e) {
+    return failure('parse', `Invalid CESR stream: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/**
+ * Step 3: validate the KEL of `aid` among the response's events and derive
+ * its key state. Events for other AIDs (e.g. witnesses) are ignored here.
+ */
+function verifyOobiKel(
+  aid: AID,
+  events: readonly CESREvent[],
+): Result<{ kel: CESREvent[]; keyState: VerifiedKeyState }, OobiResolutionError> {
+  const kel = events.filter((e) => e.event.i === aid);
+  if (kel.length === 0) return failure('verify-kel', `Response carries no KEL for ${aid}`);
+
+  const result = KELOps.extractKeyState(kel);
+  if (!result.ok) return failure('verify-kel', `KEL for ${aid} is invalid: ${result.error.kind}`);
+  return ok({ kel, keyState: result.keyState });
+}
+
+/**
+ * Key states for every AID with a valid KEL on the response, falling back to
+ * the AID itself as the key for non-transferable AIDs (witnesses). Given the
+ * seal of a signature group, the key state is the one at the sealed event.
+ */
+function keyStatesOf(events: readonly CESREvent[]): (aid: AID, seal?: CesrSeal) => VerifiedKeyState | undefined {
+  const byAid = new Map<string, CESREvent[]>();
+  for (const env of events) byAid.set(env.event.i, [...(byAid.get(env.event.i) ?? []), env]);
+
+  return (aid, seal) => {
+    const kel = byAid.get(aid);
+    if (kel) {
+      const sealed = seal ? kel.findIndex((e) => e.event.s === seal.s && e.event.d === seal.d) : -1;
+      const result = KELOps.extractKeyState(sealed >= 0 ? kel.slice(0, sealed + 1) : kel);
+      return result.ok ? result.keyState : undefined;
+    }
+    // Non-transferable AIDs are their own (single) signing key.
+    if (!isNonTransferableKey(aid)) return undefined;
+    return { aid, seqNo: 0, digest: aid, currentKeys: [aid], threshold: '1', nextKeyDigests: [] };
+  };
+}
+
+/**
+ * Fold one verified endpoint reply into endpoint state. Later replies
+ * (by `dt`) for the same (cid, role, eid) or (eid, scheme) replace earlier
+ * ones; stale replies and other routes leave the state unchanged.
+ */
+function applyEndpointReply(endpoints: OobiEndpoints, rpy: RpyMessage): OobiEndpoints {
+  const a = rpy.a as Record<string, string>;
+  if (rpy.r === '/end/role/add' || rpy.r === '/end/role/cut') {
+    const record: EndRoleRecord = {
+      cid: a.cid as AID,
+      role: a.role as EndpointRole,
+      eid: a.eid as AID,
+      allowed: rpy.r === '/end/role/add',
+      dt: rpy.dt,
+      said: rpy.d as SAID,
+    };
+    const same = (r: EndRoleRecord) => r.cid === record.cid && r.role === record.role && r.eid === record.eid;
+    const prior = endpoints.roles.find(same);
+    if (prior && !isNewer(record.dt, prior.dt)) return endpoints;
+    return { ...endpoints, roles: [...endpoints.roles.filter((r) => !same(r)), record] };
+  }
+  if (rpy.r === '/loc/scheme') {
+    const record: LocSchemeRecord = {
+      eid: a.eid as AID,
+      scheme: a.scheme as EndpointScheme,
+      url: a.url!,
+      dt: rpy.dt,
+      said: rpy.d as SAID,
+    };
+    const same = (r: LocSchemeRecord) => r.eid === record.eid && r.scheme === record.scheme;
+    const prior = endpoints.locations.find(same);
+    if (prior && !isNewer(record.dt, prior.dt)) return endpoints;
+    return { ...endpoints, locations: [...endpoints.locations.filter((r) => !same(r)), record] };
+  }
+  return endpoints;
+}
+
+/**
+ * Step 4: verify endpoint replies and fold them into endpoint state.
+ *
+ * Each `/end/role/*` or `/loc/scheme` reply must be structurally valid and
+ * signed by the AID its route names (`cid` or `eid`), verified against that
+ * AID's key state, at the establishment event its signature group seals if
+ * it has one. Replies that fail are returned as rejected; `/ksn` and other
+ * routes are ignored.
+ */
+function applyOobiReplies(
+  endpoints: OobiEndpoints,
+  replies: readonly RpyEnvelope[],
+  keyStateOf: (aid: AID, seal?: CesrSeal) => VerifiedKeyState | undefined,
+): { endpoints: OobiEndpoints; rejected: RejectedReply[] } {
+  let next = endpoints;
+  const rejected: RejectedReply[] = [];
+  for (const env of replies) {
+    const { rpy } = env;
+    const signerField = (RpyRoutes as Record<string, RpyRouteSpec>)[rpy.r]?.signer;
+    if (signerField === undefined) continue;
+
+    const reject = (reason: string) => rejected.push({ said: rpy.d as SAID, route: rpy.r, reason });
+    const validation = RoutingOps.validateRpy(rpy);
+    if (!validation.ok) {
+      reject(validation.errors.map((e) => `${e.field}: ${e.message}`).join('; '));
+      continue;
+    }
+    const signer = rpy.a[signerField] as AID;
+    const group = env.attachments.find((a) => a.kind === 'tsg' && a.seal.i === signer);
+    const keyState = keyStateOf(signer, group?.kind === 'tsg' ? group.seal : undefined);
+    if (!keyState) {
+      reject(`No key state for ${signer}`);
+      continue;
+    }
+    const verified = RoutingOps.verifyRpy(env, keyState);
+    if (!verified.ok) {
+      reject(verified.reason);
+      continue;
+    }
+    next = applyEndpointReply(next, rpy);
+  }
+  return { endpoints: next, rejected };
+}
+
+/**
+ * Resolve an OOBI through a RemoteStore: fetch, parse, verify the KEL of the
+ * OOBI's AID, and apply the endpoint replies that travel with it.
+ *
+ * Data OOBIs resolve to a schema whose SAID must match the OOBI. A role OOBI
+ * naming an `eid` (other than the controller itself) only resolves when the
+ * response authorizes that endpoint for the role.
+ *
+ * @param oobi - A parsed OOBI (see OOBIUrls.parse)
+ * @param store - Where to fetch the OOBI from (network or in-memory)
+ * @param endpoints - Endpoint state to apply replies onto (default empty)
+ */
+async function resolveOobi(
+  oobi: ParsedOobi,
+  store: RemoteStore,
+  endpoints: OobiEndpoints = EMPTY_ENDPOINTS,
+): Promise<Result<OobiResolution, OobiResolutionError>> {
+  const fetched = await fetchOobi(oobi, store);
+  if (!fetched.ok) return fetched;
+
+  const response = parseOobiResponse(fetched.value);
+  if (!response.ok) return response;
+
+  if (response.value.kind === 'data') {
+    if (oobi.kind !== 'bare') return failure('parse', `Expected a KEL for ${oobi.aid}, got a data document`);
+    const schema = SchemaResolver.verifySchema(response.value.body, oobi.id as SAID);
+    if (!schema.ok) return failure('parse', schema.error.message);
+    return ok({ kind: 'data', oobi, said: schema.value.d as SAID, schema: schema.value });
+  }
+
+  const { events, replies } = response.value;
+  const aid = oobiAid(oobi);
+  const verified = verifyOobiKel(aid, events);
+  if (!verified.ok) return verified;
+
+  const applied = applyOobiReplies(endpoints, replies, keyStatesOf(events));
+  if (oobi.kind === 'role' && oobi.eid !== undefined && oobi.eid !== aid) {
+    const authorized = applied.endpoints.roles.some(
+      (r) => r.cid === aid && r.role === oobi.role && r.eid === oobi.eid && r.allowed,
+    );
+    if (!authorized) {
+      return failure('apply-replies', `No ${oobi.role} authorization for ${oobi.eid} by ${aid}`);
+    }
+  }
+
+  return ok({
+    kind: 'kel',
+    oobi,
+    aid,
+    kel: verified.value.kel,
+    keyState: verified.value.keyState,
+    endpoints: applied.endpoints,
+    rejected: applied.rejected,
+  });
+}
+
+export const OOBIOps = {
+  encodeOobiResponse,
+  fetchOobi,
+  parseOobiResponse,
+  verifyOobiKel,
+  applyEndpointReply,
+  applyOobiReplies,
+  resolveOobi,
+} as const;
@@ -0,0 +1,95 @@
+import type { AID, SAID } from '../common/types.js';
+import type { VerifiedKeyState } from '../kel/ops-types.js';
+import type { CESREvent } from '../kel/types.js';
+import type { EndpointRole, EndpointScheme, RpyEnvelope } from '../routing/types.js';
+import type { ACDCSchema } from '../schema/types.js';
+
+// ── OOBI URLs ───────────────────────────────────────────────────────
+
+type OobiUrlFields = {
+  /** The OOBI URL as given. */
+  readonly url: string;
+  /** Scheme, host and any path prefix before the OOBI path. */
+  readonly baseUrl: string;
+  /** Alias suggested by the `name` query parameter. */
+  readonly alias?: string;
+};
+
+/**
+ * A parsed OOBI URL.
+ *
+ * - `role`: `/oobi/{aid}/{role}[/{eid}]` — the AID's KEL as served by an
+ *   endpoint acting in `role` (witness, mailbox, agent, ...)
+ * - `well-known`: `/.well-known/keri/oobi/{aid}` — self-hosted KEL
+ * - `bare`: `/oobi/{id}` — either a controller OOBI for an AID or a data
+ *   OOBI for a SAID (e.g. a schema). As in keripy, the response decides.
+ */
+export type ParsedOobi =
+  | (OobiUrlFields & { readonly kind: 'role'; readonly aid: AID; readonly role: EndpointRole; readonly eid?: AID })
+  | (OobiUrlFields & { readonly kind: 'well-known'; readonly aid: AID })
+  | (OobiUrlFields & { readonly kind: 'bare'; readonly id: string });
+
+export type OobiParseError = {
+  readonly kind: 'invalid-url' | 'not-an-oobi' | 'unknown-role';
+  readonly message: string;
+};
+
+// ── Endpoint records ────────────────────────────────────────────────
+
+/** Latest `/end/role/add` or `/end/role/cut` reply for a (cid, role, eid). */
+export type EndRoleRecord = {
+  readonly cid: AID;
+  readonly role: EndpointRole;
+  readonly eid: AID;
+  /** True for `/end/role/add`, false once cut. */
+  readonly allowed: boolean;
+  readonly dt: string;
+  readonly said: SAID;
+};
+
+/** Latest `/loc/scheme` reply for an (eid, scheme). */
+export type LocSchemeRecord = {
+  readonly eid: AID;
+  readonly scheme: EndpointScheme;
+  readonly url: string;
+  readonly dt: string;
+  readonly said: SAID;
+};
+
+/** Endpoint state accumulated from verified replies. */
+export type OobiEndpoints = {
+  readonly roles: readonly EndRoleRecord[];
+  readonly locations: readonly LocSchemeRecord[];
+};
+
+export type RejectedReply = { readonly said: SAID; readonly route: string; readonly reason: string };
+
+// ── Resolution ──────────────────────────────────────────────────────
+
+/**
+ * OOBI resolution steps, in order:
+ * 1. `fetch` — read the OOBI path from a RemoteStore
+ * 2. `parse` — decode the response as a CESR stream or a data document
+ * 3. `verify-kel` — validate the KEL of the OOBI's AID and derive its key state
+ * 4. `apply-replies` — verify `rpy` endpoint records and fold them into endpoint state
+ */
+export type OobiResolutionStep = 'fetch' | 'parse' | 'verify-kel' | 'apply-replies';
+
+export type OobiResolutionError = { readonly step: OobiResolutionStep; readonly message: string };
+
+/** A parsed OOBI response body. */
+export type OobiResponse =
+  | { readonly kind: 'cesr'; readonly events: readonly CESREvent[]; readonly replies: readonly RpyEnvelope[] }
+  | { readonly kind: 'data'; readonly body: unknown };
+
+export type OobiResolution =
+  | {
+      readonly kind: 'kel';
+      readonly oobi: ParsedOobi;
+      readonly aid: AID;
+      readonly kel: readonly CESREvent[];
+      readonly keyState: VerifiedKeyState;
+      readonly endpoints: OobiEndpoints;
+      readonly rejected: readonly RejectedReply[];
+    }
+  | { readonly kind: 'data'; readonly oobi: ParsedOobi; readonly said: SAID; readonly schema: ACDCSchema };
@@ -0,0 +1,92 @@
+/**
+ * OOBI URLs - parse and build out-of-band introduction URLs
+ *
+ * Supports the forms keripy serves and resolves:
+ * - `{base}/oobi/{aid}/{role}[/{eid}]` — role-qualified endpoint OOBIs
+ * - `{base}/.well-known/keri/oobi/{aid}` — well-known OOBIs (CanonicalPaths.oobi)
+ * - `{base}/oobi/{said}` — data OOBIs, e.g. schemas by SAID
+ *
+ * @module oobi/urls
+ */
+
+import type { AID, SAID } from '../common/types.js';
+import { CanonicalPaths } from '../keri/canonical-paths.js';
+import type { RemotePath } from '../remote/types.js';
+import { err, ok, type Result } from '../result.js';
+import { type EndpointRole, EndpointRoleSchema } from '../routing/types.js';
+import type { OobiParseError, ParsedOobi } from './types.js';
+
+const ENDPOINT_ROLES: ReadonlySet<string> = new Set(EndpointRoleSchema.anyOf.map((s) => s.const as string));
+
+const WELL_KNOWN_PATH = /^(.*?)\/\.well-known\/keri\/oobi\/([^/]+)\/?$/;
+const OOBI_PATH = /^(.*?)\/oobi\/([^/]+)(?:\/([^/]+)(?:\/([^/]+))?)?\/?$/;
+
+function trimBase(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '');
+}
+
+export namespace OOBIUrls {
+  /**
+   * Parse an OOBI URL.
+   *
+   * The OOBI path may sit under a path prefix, which is kept in `baseUrl`.
+   * A `name` query parameter is surfaced as `alias`.
+   */
+  export function parse(url: string): Result<ParsedOobi, OobiParseError> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return err({ kind: 'invalid-url', message: `Not a URL: ${url}` });
+    }
+
+    const alias = parsed.searchParams.get('name') ?? undefined;
+    const fields = (prefix: string) => ({
+      url,
+      baseUrl: `${parsed.origin}${prefix}`,
+      ...(alias !== undefined ? { alias } : {}),
+    });
+
+    const wellKnown = WELL_KNOWN_PATH.exec(parsed.pathname);
+    if (wellKnown) {
+      return ok({ ...fields(wellKnown[1]!), kind: 'well-known', aid: decodeURIComponent(wellKnown[2]!) as AID });
+    }
+
+    const match = OOBI_PATH.exec(parsed.pathname);
+    if (!match) return err({ kind: 'not-an-oobi', message: `No OOBI path in ${url}` });
+
+    const [, prefix, id, role, eid] = match;
+    if (role === undefined) {
+      return ok({ ...fields(prefix!), kind: 'bare', id: decodeURIComponent(id!) });
+    }
+    if (!ENDPOINT_ROLES.has(role)) return err({ kind: 'unknown-role', message: `Unknown endpoint role '${role}'` });
+    return ok({
+      ...fields(prefix!),
+      kind: 'role',
+      aid: decodeURIComponent(id!) as AID,
+      role: role as EndpointRole,
+      ...(eid !== undefined ? { eid: decodeURIComponent(eid) as AID } : {}),
+    });
+  }
+
+  /** Role-qualified OOBI: `{base}/oobi/{aid}/{role}[/{eid}]`. */
+  export function role(baseUrl: string, aid: AID, endpointRole: EndpointRole, eid?: AID): string {
+    const path = `/oobi/${aid}/${endpointRole}${eid !== undefined ? `/${eid}` : ''}`;
+    return `${trimBase(baseUrl)}${path}`;
+  }
+
+  /** Well-known OOBI: `{base}/.well-known/keri/oobi/{aid}`. */
+  export function wellKnown(baseUrl: string, aid: AID): string {
+    return CanonicalPaths.fullUrl(baseUrl, CanonicalPaths.oobi(aid));
+  }
+
+  /** Data OOBI for a SAID-addressed document such as a schema: `{base}/oobi/{said}`. */
+  export function data(baseUrl: string, said: SAID): string {
+    return `${trimBase(baseUrl)}/oobi/${said}`;
+  }
+
+  /** RemoteStore path for an OOBI: the URL path segments. */
+  export function remotePath(oobi: ParsedOobi): RemotePath {
+    return new URL(oobi.url).pathname.split('/').filter((segment) => segment.length > 0);
+  }
+}
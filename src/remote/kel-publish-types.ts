@@ -38,6 +38,9 @@ export type KELPublishEventsResult = {
  * Implementations may no-op `publishKsn` if the backend derives KSN
  * server-side. The contract is: "ensure an equivalent KSN is available
  * at the backend's canonical KSN location."
+ *
+ * KERI witnesses and watchers exchange key state as a signed `/ksn` reply
+ * rather than bare JSON; see RPYMessages.keyStateNotice.
  */
 export interface KELTransport {
   /**
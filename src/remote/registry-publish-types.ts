@@ -1,10 +1,14 @@
 import type { ACDCCredential } from '../acdc/types.js';
 import type { SAID } from '../common/types.js';
 import type { Result } from '../result.js';
+import type { BackerReceipt } from '../tel/types.js';
 import type { PublishError, PublishStatus } from './publish-types.js';
 
-/** Placeholder type for backer receipts — not yet modelled as a domain type. */
-export type BackerReceiptsJson = unknown;
+/**
+ * Backer receipts for one TEL event, as CESR attachments (see TELBackers).
+ * @deprecated Use `readonly BackerReceipt[]`.
+ */
+export type BackerReceiptsJson = readonly BackerReceipt[];
 
 /**
  * Transport-agnostic publisher for non-TEL registry artifacts (ACDC, receipts).
@@ -14,5 +18,8 @@ export type BackerReceiptsJson = unknown;
  */
 export interface RegistryPublisher {
   publishAcdc(said: SAID, acdc: ACDCCredential): Promise<Result<PublishStatus, PublishError>>;
-  publishBackerReceiptsRaw(eventSaid: SAID, receipts: BackerReceiptsJson): Promise<Result<PublishStatus, PublishError>>;
+  publishBackerReceiptsRaw(
+    eventSaid: SAID,
+    receipts: readonly BackerReceipt[],
+  ): Promise<Result<PublishStatus, PublishError>>;
 }
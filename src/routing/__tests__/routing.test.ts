@@ -0,0 +1,303 @@
+import { describe, expect, test } from 'bun:test';
+import { digestVerfer } from '../../cesr/digest.js';
+import { recomputeSaid } from '../../common/derivation-surface.js';
+import type { AID, KeriKeyPair, SAID } from '../../common/types.js';
+import { KeriKeyPairs } from '../../crypto/index.js';
+import { canonicalizeEvent } from '../../kel/event-crypto.js';
+import { KELEvents } from '../../kel/events.js';
+import { KELOps } from '../../kel/ops.js';
+import type { VerifiedKeyState } from '../../kel/ops-types.js';
+import type { CESREvent, CesrAttachment, CesrSeal, KELEvent } from '../../kel/types.js';
+import { KSNs } from '../../kel/types.js';
+import { QRY_SURFACE, RPY_SURFACE } from '../../said/surfaces.js';
+import { Signers } from '../../signature/signers.js';
+import { QRYMessages, RPYMessages } from '../messages.js';
+import { RoutingOps } from '../ops.js';
+import type { RpyEnvelope } from '../types.js';
+
+// ── Fixtures ────────────────────────────────────────────────────────
+const KEY1 = KeriKeyPairs.fromSeedNumber(1);
+const KEY2 = KeriKeyPairs.fromSeedNumber(2);
+const KEY3 = KeriKeyPairs.fromSeedNumber(3);
+const KEY4 = KeriKeyPairs.fromSeedNumber(4);
+const WITNESS = KeriKeyPairs.fromSeedNumber(5);
+const DT = '2025-01-15T12:00:00.000000+00:00';
+
+async function signEvent(event: KELEvent, keypair: KeriKeyPair, keyIndex: number): Promise<CesrAttachment> {
+  const sig = await Signers.fromKeyPair(keypair).signBytes(canonicalizeEvent(event));
+  return { kind: 'sig', form: 'indexed', keyIndex, sig };
+}
+
+/** Two-key controller KEL (kt '2') with next keys KEY3/KEY4. */
+async function controllerKel(): Promise<CESREvent[]> {
+  const { unsignedEvent } = KELEvents.buildIcp({
+    keys: [KEY1.publicKey, KEY2.publicKey],
+    nextKeyDigests: [digestVerfer(KEY3.publicKey), digestVerfer(KEY4.publicKey)],
+    signingThreshold: '2',
+    nextThreshold: '2',
+  });
+  const { event } = KELEvents.finalize(unsignedEvent, true);
+  return [{ event, attachments: [await signEvent(event, KEY1, 0), await signEvent(event, KEY2, 1)], enc: 'JSON' }];
+}
+
+function keyStateOf(kel: CESREvent[]): VerifiedKeyState {
+  const result = KELOps.extractKeyState(kel);
+  if (!result.ok) throw new Error(`extractKeyState failed: ${result.error.kind}`);
+  return result.keyState;
+}
+
+function sealOf(kel: CESREvent[]): CesrSeal {
+  const { i, s, d } = kel[0]!.event;
+  return { i, s, d };
+}
+
+/** Key state of a non-transferable witness: its AID is its public key. */
+const witnessState: VerifiedKeyState = {
+  aid: WITNESS.publicKey as unknown as AID,
+  seqNo: 0,
+  digest: WITNESS.publicKey,
+  currentKeys: [WITNESS.publicKey],
+  threshold: '1',
+  nextKeyDigests: [],
+};
+
+async function signBoth(env: RpyEnvelope, kel: CESREvent[], keys: KeriKeyPair[] = [KEY1, KEY2]): Promise<RpyEnvelope> {
+  let signed = env;
+  for (const [keyIndex, keypair] of keys.entries()) {
+    signed = await RoutingOps.signRpyWithSigner(signed, Signers.fromKeyPair(keypair), { keyIndex, seal: sealOf(kel) });
+  }
+  return signed;
+}
+
+// ── QRYMessages ─────────────────────────────────────────────────────
+describe('QRYMessages', () => {
+  test('builds fields in keripy order', () => {
+    const { unsignedQry } = QRYMessages.buildQry({ route: 'logs', query: { i: 'Eaid' }, datetime: DT });
+    expect(Object.keys(unsignedQry)).toEqual(['v', 't', 'd', 'dt', 'r', 'rr', 'q']);
+    expect(unsignedQry.rr).toBe('');
+  });
+
+  test('builds logs and ksn queries with SAIDs that recompute', async () => {
+    const aid = (await controllerKel())[0]!.event.i as AID;
+    const logs = QRYMessages.logs({ aid, sequence: '0', source: witnessState.aid, datetime: DT });
+    const ksn = QRYMessages.ksn({ aid, replyRoute: '/ksn', datetime: DT });
+
+    expect(logs.qry.q).toEqual({ i: aid, s: '0', src: witnessState.aid });
+    expect(ksn.qry).toMatchObject({ r: 'ksn', rr: '/ksn', q: { i: aid } });
+    expect(recomputeSaid(logs.qry, QRY_SURFACE).matches).toBe(true);
+    expect(Number.parseInt(ksn.qry.v.slice(10, 16), 16)).toBe(QRYMessages.encodeQryBytes(ksn.qry).length);
+  });
+});
+
+// ── RPYMessages ─────────────────────────────────────────────────────
+describe('RPYMessages', () => {
+  test('builds endpoint role and location replies', async () => {
+    const cid = (await controllerKel())[0]!.event.i as AID;
+    const role = RPYMessages.endRoleAdd({ cid, role: 'witness', eid: witnessState.aid, datetime: DT });
+    const loc = RPYMessages.locScheme({
+      eid: witnessState.aid,
+      scheme: 'http',
+      url: 'http://127.0.0.1:5642/',
+      datetime: DT,
+    });
+
+    expect(Object.keys(role.rpy)).toEqual(['v', 't', 'd', 'dt', 'r', 'a']);
+    expect(role.rpy.a).toEqual({ cid, role: 'witness', eid: witnessState.aid });
+    expect(loc.rpy.r).toBe('/loc/scheme');
+    expect(recomputeSaid(role.rpy, RPY_SURFACE).matches).toBe(true);
+    expect(recomputeSaid(loc.rpy, RPY_SURFACE).matches).toBe(true);
+  });
+
+  test('routes a key state notice on /ksn/<replier>', async () => {
+    const kel = await controllerKel();
+    const ksn = KSNs.fromKEL(kel[0]!.event.i as AID, kel)!;
+    const env = RPYMessages.keyStateNotice({ ksn, replier: witnessState.aid, datetime: DT });
+
+    expect(env.rpy.r).toBe(`/ksn/${witnessState.aid}`);
+    expect(env.rpy.a).toEqual({ ...ksn });
+  });
+});
+
+// ── RoutingOps validation ───────────────────────────────────────────
+describe('RoutingOps.validateQry / validateRpy', () => {
+  test('accepts well-formed messages', async () => {
+    const kel = await controllerKel();
+    const aid = kel[0]!.event.i as AID;
+    const ksn = KSNs.fromKEL(aid, kel)!;
+
+    expect(RoutingOps.validateQry(QRYMessages.ksn({ aid, datetime: DT }).qry)).toEqual({ ok: true });
+    expect(
+      RoutingOps.validateRpy(RPYMessages.keyStateNotice({ ksn, replier: witnessState.aid, datetime: DT }).rpy),
+    ).toEqual({ ok: true });
+  });
+
+  test('reports missing query parameters and route payload fields', () => {
+    const qry = QRYMessages.assemble({ route: 'logs', query: { src: witnessState.aid }, datetime: DT }).qry;
+    const qryResult = RoutingOps.validateQry(qry);
+    expect(qryResult.ok).toBe(false);
+    if (!qryResult.ok) expect(qryResult.errors.map((e) => e.field)).toContain('q/i');
+
+    const rpy = RPYMessages.assemble({
+      route: '/loc/scheme',
+      payload: { eid: witnessState.aid, scheme: 'ftp' },
+      datetime: DT,
+    }).rpy;
+    const rpyResult = RoutingOps.validateRpy(rpy);
+    expect(rpyResult.ok).toBe(false);
+    if (!rpyResult.ok) {
+      const fields = rpyResult.errors.map((e) => e.field);
+      expect(fields).toContain('a/scheme');
+      expect(fields).toContain('a/url');
+    }
+  });
+
+  test('rejects a tampered payload', async () => {
+    const cid = (await controllerKel())[0]!.event.i as AID;
+    const { rpy } = RPYMessages.endRoleAdd({ cid, role: 'witness', eid: witnessState.aid, datetime: DT });
+    const result = RoutingOps.validateRpy({ ...rpy, a: { ...rpy.a, role: 'watcher' } });
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors.map((e) => e.field)).toEqual(['d']);
+  });
+});
+
+// ── RoutingOps verification ─────────────────────────────────────────
+describe('RoutingOps.verifyRpy / verifyQry', () => {
+  test('verifies a transferable signature group against the controller key state', async () => {
+    const kel = await controllerKel();
+    const cid = kel[0]!.event.i as AID;
+    const env = await signBoth(
+      RPYMessages.endRoleAdd({ cid, role: 'witness', eid: witnessState.aid, datetime: DT }),
+      kel,
+    );
+
+    expect(env.attachments.filter((a) => a.kind === 'tsg')).toHaveLength(1);
+    const result = RoutingOps.verifyRpy(env, keyStateOf(kel));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.signer).toBe(cid);
+      expect(result.validKeyIndices).toEqual([0, 1]);
+    }
+  });
+
+  test('verifies a witness /loc/scheme reply signed with a non-transferable couple', async () => {
+    const eid = witnessState.aid;
+    let env = RPYMessages.locScheme({ eid, scheme: 'http', url: 'http://127.0.0.1:5642/', datetime: DT });
+    env = await RoutingOps.signRpyWithSigner(env, Signers.fromKeyPair(WITNESS), { nonTransferable: eid });
+
+    expect(env.attachments).toEqual([{ kind: 'rct', by: eid, sig: expect.any(String) }]);
+    expect(RoutingOps.verifyRpy(env, witnessState).ok).toBe(true);
+  });
+
+  test('verifies a signed query with indexed signatures', async () => {
+    const kel = await controllerKel();
+    let env = QRYMessages.ksn({ aid: kel[0]!.event.i as AID, datetime: DT });
+    env = await RoutingOps.signQryWithSigner(env, Signers.fromKeyPair(KEY1), { keyIndex: 0 });
+    env = await RoutingOps.signQryWithSigner(env, Signers.fromKeyPair(KEY2), { keyIndex: 1 });
+
+    expect(RoutingOps.verifyQry(env, keyStateOf(kel)).ok).toBe(true);
+  });
+
+  test('rejects a role authorization not signed by its controller', async () => {
+    const kel = await controllerKel();
+    const cid = kel[0]!.event.i as AID;
+    let env = RPYMessages.endRoleAdd({ cid, role: 'witness', eid: witnessState.aid, datetime: DT });
+    env = await RoutingOps.signRpyWithSigner(env, Signers.fromKeyPair(WITNESS), { nonTransferable: witnessState.aid });
+
+    const result = RoutingOps.verifyRpy(env, witnessState);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.code).toBe('unauthorized-signer');
+  });
+
+  test('fails when the signing threshold is not met', async () => {
+    const kel = await controllerKel();
+    const cid = kel[0]!.event.i as AID;
+    const env = await signBoth(
+      RPYMessages.endRoleAdd({ cid, role: 'witness', eid: witnessState.aid, datetime: DT }),
+      kel,
+      [KEY1],
+    );
+
+    const result = RoutingOps.verifyRpy(env, keyStateOf(kel));
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.code).toBe('threshold-not-met');
+  });
+
+  test('fails on a signature from a key outside the key state', async () => {
+    const kel = await controllerKel();
+    const cid = kel[0]!.event.i as AID;
+    const env = await signBoth(
+      RPYMessages.endRoleAdd({ cid, role: 'witness', eid: witnessState.aid, datetime: DT }),
+      kel,
+      [KEY1, KEY3],
+    );
+
+    const result = RoutingOps.verifyRpy(env, keyStateOf(kel));
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.code).toBe('signature-invalid');
+  });
+
+  test('fails when the signature group names another signer or a later event', async () => {
+    const kel = await controllerKel();
+    const ksn = KSNs.fromKEL(kel[0]!.event.i as AID, kel)!;
+    const env = await signBoth(RPYMessages.keyStateNotice({ ksn, datetime: DT }), kel);
+
+    const other = RoutingOps.verifyRpy(env, witnessState);
+    expect(other.ok).toBe(false);
+    if (!other.ok) expect(other.code).toBe('signer-mismatch');
+
+    const behind = RoutingOps.verifyRpy(env, { ...keyStateOf(kel), digest: 'Eother' });
+    expect(behind.ok).toBe(false);
+    if (!behind.ok) expect(behind.code).toBe('stale-key-state');
+  });
+
+  test('fails on a signature group whose seal is malformed or names an earlier event', async () => {
+    const kel = await controllerKel();
+    const cid = kel[0]!.event.i as AID;
+    const unsigned = RPYMessages.endRoleAdd({ cid, role: 'witness', eid: witnessState.aid, datetime: DT });
+
+    let malformed = unsigned;
+    for (const [keyIndex, keypair] of [KEY1, KEY2].entries()) {
+      malformed = await RoutingOps.signRpyWithSigner(malformed, Signers.fromKeyPair(keypair), {
+        keyIndex,
+        seal: { ...sealOf(kel), s: 'zz' },
+      });
+    }
+    const unparseable = RoutingOps.verifyRpy(malformed, keyStateOf(kel));
+    expect(unparseable.ok).toBe(false);
+    if (!unparseable.ok) expect(unparseable.code).toBe('malformed-seal');
+
+    // An ixn moves the key state past the inception the group seals.
+    const { unsignedEvent } = KELEvents.buildIxn({
+      aid: cid,
+      sequence: '1',
+      priorEventSaid: kel[0]!.event.d as SAID,
+      anchors: [],
+    });
+    const { event: ixn } = KELEvents.finalize(unsignedEvent, false);
+    const later = [
+      ...kel,
+      { event: ixn, attachments: [await signEvent(ixn, KEY1, 0), await signEvent(ixn, KEY2, 1)], enc: 'JSON' as const },
+    ];
+    const env = await signBoth(unsigned, kel);
+
+    const earlier = RoutingOps.verifyRpy(env, keyStateOf(later));
+    expect(earlier.ok).toBe(false);
+    if (!earlier.ok) expect(earlier.code).toBe('unsupported-seal');
+    expect(RoutingOps.verifyRpy(env, keyStateOf(kel)).ok).toBe(true);
+  });
+
+  test('fails on a tampered or unsigned message', async () => {
+    const kel = await controllerKel();
+    const cid = kel[0]!.event.i as AID;
+    const unsigned = RPYMessages.endRoleAdd({ cid, role: 'witness', eid: witnessState.aid, datetime: DT });
+    const signed = await signBoth(unsigned, kel);
+
+    const tampered = RoutingOps.verifyRpy({ ...signed, rpy: { ...signed.rpy, r: '/end/role/cut' } }, keyStateOf(kel));
+    expect(tampered.ok).toBe(false);
+    if (!tampered.ok) expect(tampered.code).toBe('said-mismatch');
+
+    const noSigs = RoutingOps.verifyRpy(unsigned, keyStateOf(kel));
+    expect(noSigs.ok).toBe(false);
+    if (!noSigs.ok) expect(noSigs.code).toBe('no-signatures');
+  });
+});
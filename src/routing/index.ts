@@ -0,0 +1,30 @@
+import { QRYMessages, RPYMessages } from './messages.js';
+import { RoutingOps } from './ops.js';
+
+export const Routing = {
+  ...RoutingOps,
+  query: QRYMessages,
+  reply: RPYMessages,
+} as const;
+
+export type {
+  EndRoleParams,
+  FinalizedQryResult,
+  FinalizedRpyResult,
+  KsnQueryParams,
+  KsnReplyParams,
+  LocSchemeParams,
+  LogsQueryParams,
+  QryParams,
+  RpyParams,
+} from './messages.js';
+export { QRYMessages, RPYMessages } from './messages.js';
+export type {
+  RoutedSignOptions,
+  RoutedValidationError,
+  RoutedValidationResult,
+  RoutedVerificationFailureCode,
+  RoutedVerificationResult,
+} from './ops.js';
+export { RoutingOps } from './ops.js';
+export * from './types.js';
@@ -0,0 +1,256 @@
+/**
+ * Routed Messages - Factory functions for building `qry` and `rpy` messages
+ *
+ * Queries ask a witness or watcher for key state (`ksn`) or a KEL replay
+ * (`logs`). Replies publish signed, routed data: key state notices (`/ksn`),
+ * endpoint role authorizations (`/end/role/add`, `/end/role/cut`) and endpoint
+ * locations (`/loc/scheme`). Byte- and SAID-compatible with keripy's
+ * `eventing.query()` and `eventing.reply()`.
+ *
+ * Pattern:
+ * 1. Build the unsigned message (placeholder d/v)
+ * 2. Compute the SAID and version string
+ * 3. Frame as an unsigned envelope, then sign with RoutingOps
+ *
+ * @module routing/messages
+ */
+
+import { deriveSaid, serializeForSigning } from '../common/derivation-surface.js';
+import type { SerializationKind } from '../common/serialization-kind.js';
+import type { AID, SAID } from '../common/types.js';
+import type { KSN } from '../kel/types.js';
+import { QRY_SURFACE, RPY_SURFACE } from '../said/surfaces.js';
+import type {
+  EndpointRole,
+  EndpointScheme,
+  QryEnvelope,
+  QryMessage,
+  RpyEnvelope,
+  RpyMessage,
+  UnsignedQryMessage,
+  UnsignedRpyMessage,
+} from './types.js';
+
+// ── Param interfaces ────────────────────────────────────────────────
+
+export interface QryParams {
+  route: string;
+  /** Route the reply should be sent on. */
+  replyRoute?: string;
+  query?: Record<string, unknown>;
+  datetime: string;
+  kind?: SerializationKind;
+}
+
+export interface RpyParams {
+  route: string;
+  payload?: Record<string, unknown>;
+  datetime: string;
+  kind?: SerializationKind;
+}
+
+export interface LogsQueryParams {
+  /** AID whose KEL is requested. */
+  aid: AID;
+  /** Replay from this sequence number. */
+  sequence?: string;
+  /** AID of the witness or watcher being asked. */
+  source?: AID;
+  replyRoute?: string;
+  datetime: string;
+  kind?: SerializationKind;
+}
+
+export interface KsnQueryParams {
+  /** AID whose key state is requested. */
+  aid: AID;
+  /** AID of the witness or watcher being asked. */
+  source?: AID;
+  replyRoute?: string;
+  datetime: string;
+  kind?: SerializationKind;
+}
+
+export interface EndRoleParams {
+  /** Controller AID authorizing (or revoking) the endpoint. */
+  cid: AID;
+  role: EndpointRole;
+  /** Endpoint provider AID. */
+  eid: AID;
+  datetime: string;
+  kind?: SerializationKind;
+}
+
+export interface LocSchemeParams {
+  /** Endpoint provider AID. */
+  eid: AID;
+  scheme: EndpointScheme;
+  url: string;
+  datetime: string;
+  kind?: SerializationKind;
+}
+
+export interface KsnReplyParams {
+  /** Key state carried as the reply payload. */
+  ksn: KSN;
+  /** When given, the reply is routed on `/ksn/<replier>` as keripy does. */
+  replier?: AID;
+  datetime: string;
+  kind?: SerializationKind;
+}
+
+// ── Result types ────────────────────────────────────────────────────
+
+export interface FinalizedQryResult {
+  qry: QryMessage;
+  canonFinal: { raw: Uint8Array; text: string };
+  said: SAID;
+}
+
+export interface FinalizedRpyResult {
+  rpy: RpyMessage;
+  canonFinal: { raw: Uint8Array; text: string };
+  said: SAID;
+}
+
+// ── QRYMessages namespace ───────────────────────────────────────────
+
+export namespace QRYMessages {
+  /**
+   * Build an unsigned qry message.
+   * Canonical field order: v, t, d, dt, r, rr, q
+   */
+  export function buildQry(params: QryParams): { unsignedQry: UnsignedQryMessage } {
+    const unsignedQry: UnsignedQryMessage = {
+      v: `KERI10${params.kind ?? 'JSON'}000000_`,
+      t: 'qry',
+      d: '',
+      dt: params.datetime,
+      r: params.route,
+      rr: params.replyRoute ?? '',
+      q: params.query ?? {},
+    };
+    return { unsignedQry };
+  }
+
+  /**
+   * Compute the SAID and version string of a qry message.
+   *
+   * @param unsignedQry - Message with placeholder d and v
+   * @returns Finalized message, canonical signing bytes, and SAID
+   */
+  export function computeSaid(unsignedQry: UnsignedQryMessage): FinalizedQryResult {
+    const { sealed: qry, said } = deriveSaid(unsignedQry, QRY_SURFACE);
+    return { qry, canonFinal: serializeForSigning(qry, QRY_SURFACE), said: said as SAID };
+  }
+
+  /** Build and finalize a qry message as an unsigned envelope. */
+  export function assemble(params: QryParams): QryEnvelope {
+    const { qry } = computeSaid(buildQry(params).unsignedQry);
+    return { qry, attachments: [], enc: params.kind ?? 'JSON' };
+  }
+
+  /** Query for a KEL replay (`logs`), optionally from a sequence number. */
+  export function logs(params: LogsQueryParams): QryEnvelope {
+    const query: Record<string, unknown> = { i: params.aid };
+    if (params.sequence !== undefined) query.s = params.sequence;
+    if (params.source !== undefined) query.src = params.source;
+    return assemble({
+      route: 'logs',
+      replyRoute: params.replyRoute,
+      query,
+      datetime: params.datetime,
+      kind: params.kind,
+    });
+  }
+
+  /** Query for a key state notice (`ksn`). */
+  export function ksn(params: KsnQueryParams): QryEnvelope {
+    const query: Record<string, unknown> = { i: params.aid };
+    if (params.source !== undefined) query.src = params.source;
+    return assemble({
+      route: 'ksn',
+      replyRoute: params.replyRoute,
+      query,
+      datetime: params.datetime,
+      kind: params.kind,
+    });
+  }
+
+  /**
+   * Encode a qry message to the bytes that are signed, in `kind`
+   * (defaulting to the kind declared by its version string).
+   */
+  export function encodeQryBytes(qry: QryMessage, kind?: SerializationKind): Uint8Array {
+    return serializeForSigning(qry, QRY_SURFACE, kind).raw;
+  }
+}
+
+// ── RPYMessages namespace ───────────────────────────────────────────
+
+export namespace RPYMessages {
+  /**
+   * Build an unsigned rpy message.
+   * Canonical field order: v, t, d, dt, r, a
+   */
+  export function buildRpy(params: RpyParams): { unsignedRpy: UnsignedRpyMessage } {
+    const unsignedRpy: UnsignedRpyMessage = {
+      v: `KERI10${params.kind ?? 'JSON'}000000_`,
+      t: 'rpy',
+      d: '',
+      dt: params.datetime,
+      r: params.route,
+      a: params.payload ?? {},
+    };
+    return { unsignedRpy };
+  }
+
+  /**
+   * Compute the SAID and version string of a rpy message.
+   *
+   * @param unsignedRpy - Message with placeholder d and v
+   * @returns Finalized message, canonical signing bytes, and SAID
+   */
+  export function computeSaid(unsignedRpy: UnsignedRpyMessage): FinalizedRpyResult {
+    const { sealed: rpy, said } = deriveSaid(unsignedRpy, RPY_SURFACE);
+    return { rpy, canonFinal: serializeForSigning(rpy, RPY_SURFACE), said: said as SAID };
+  }
+
+  /** Build and finalize a rpy message as an unsigned envelope. */
+  export function assemble(params: RpyParams): RpyEnvelope {
+    const { rpy } = computeSaid(buildRpy(params).unsignedRpy);
+    return { rpy, attachments: [], enc: params.kind ?? 'JSON' };
+  }
+
+  /** Authorize `eid` to serve `role` for controller `cid`. Must be signed by `cid`. */
+  export function endRoleAdd(params: EndRoleParams): RpyEnvelope {
+    const { cid, role, eid, datetime, kind } = params;
+    return assemble({ route: '/end/role/add', payload: { cid, role, eid }, datetime, kind });
+  }
+
+  /** Revoke an endpoint role authorization. Must be signed by `cid`. */
+  export function endRoleCut(params: EndRoleParams): RpyEnvelope {
+    const { cid, role, eid, datetime, kind } = params;
+    return assemble({ route: '/end/role/cut', payload: { cid, role, eid }, datetime, kind });
+  }
+
+  /** Advertise the URL `eid` is reachable at for `scheme`. Must be signed by `eid`. */
+  export function locScheme(params: LocSchemeParams): RpyEnvelope {
+    const { eid, scheme, url, datetime, kind } = params;
+    return assemble({ route: '/loc/scheme', payload: { eid, scheme, url }, datetime, kind });
+  }
+
+  /** Deliver a key state notice as a `/ksn` reply, signed by the replier. */
+  export function keyStateNotice(params: KsnReplyParams): RpyEnvelope {
+    const route = params.replier === undefined ? '/ksn' : `/ksn/${params.replier}`;
+    return assemble({ route, payload: { ...params.ksn }, datetime: params.datetime, kind: params.kind });
+  }
+
+  /**
+   * Encode a rpy message to the bytes that are signed, in `kind`
+   * (defaulting to the kind declared by its version string).
+   */
+  export function encodeRpyBytes(rpy: RpyMessage, kind?: SerializationKind): Uint8Array {
+    return serializeForSigning(rpy, RPY_SURFACE, kind).raw;
+  }
+}
@@ -0,0 +1,250 @@
+import { Value } from '@sinclair/typebox/value';
+import { type DerivationSurface, recomputeSaid } from '../common/derivation-surface.js';
+import { parseSequenceNumber } from '../common/sequence-number.js';
+import type { AID } from '../common/types.js';
+import type { VerifiedKeyState } from '../kel/ops-types.js';
+import type { CesrAttachment, CesrSeal } from '../kel/types.js';
+import { QRY_SURFACE, RPY_SURFACE } from '../said/surfaces.js';
+import { attachSignature, verifyAttachedSignatures } from '../signature/attached.js';
+import type { Signer } from '../signature/signer.js';
+import { QRYMessages, RPYMessages } from './messages.js';
+import {
+  type QryEnvelope,
+  type QryMessage,
+  QryMessageSchema,
+  type QryRouteSpec,
+  QryRoutes,
+  type RpyEnvelope,
+  type RpyMessage,
+  RpyMessageSchema,
+  type RpyRouteSpec,
+  RpyRoutes,
+} from './types.js';
+
+type RoutedValidationError = { field: string; message: string };
+type RoutedValidationResult = { ok: true } | { ok: false; errors: RoutedValidationError[] };
+
+/** Why a qry or rpy message failed verification against the signer's key state. */
+type RoutedVerificationFailureCode =
+  | 'said-mismatch'
+  | 'signer-mismatch'
+  | 'unauthorized-signer'
+  | 'malformed-seal'
+  | 'stale-key-state'
+  | 'unsupported-seal'
+  | 'no-signatures'
+  | 'signature-invalid'
+  | 'threshold-not-met';
+
+type RoutedVerificationResult =
+  | { ok: true; signer: AID; validKeyIndices: number[] }
+  | { ok: false; code: RoutedVerificationFailureCode; reason: string };
+
+/**
+ * How to attach a signature. With `seal` it joins the transferable signature
+ * group (-F) for that establishment event; with `nonTransferable` it is a
+ * non-transferable receipt couple (-C) for that AID, as witnesses sign;
+ * otherwise it is a controller indexed signature (-A) at `keyIndex`.
+ */
+type RoutedSignOptions = { keyIndex?: number; seal?: CesrSeal; nonTransferable?: AID };
+
+function fail(code: RoutedVerificationFailureCode, reason: string): RoutedVerificationResult {
+  return { ok: false, code, reason };
+}
+
+/**
+ * Route spec for a rpy route. keripy routes key state notices on
+ * `/ksn/<replier>`, so sub-routes fall back to their parent route.
+ */
+function rpyRouteSpec(route: string): RpyRouteSpec | undefined {
+  const routes = RpyRoutes as Record<string, RpyRouteSpec>;
+  if (routes[route]) return routes[route];
+  const parent = Object.keys(routes).find((r) => route.startsWith(`${r}/`));
+  return parent ? routes[parent] : undefined;
+}
+
+function schemaErrors(schema: Parameters<typeof Value.Errors>[0], value: unknown, prefix: string) {
+  // CESR format validators are not registered in core; see TELOps.validateEvent.
+  return [...Value.Errors(schema, value)]
+    .filter((e) => !e.message.startsWith('Unknown format'))
+    .map((err) => ({ field: `${prefix}${err.path}`.replace(/^\//, '') || err.path, message: err.message }));
+}
+
+function validateRouted(
+  msg: Record<string, unknown>,
+  schema: Parameters<typeof Value.Errors>[0],
+  surface: DerivationSurface,
+  section: { field: string; schema?: Parameters<typeof Value.Errors>[0] },
+): RoutedValidationResult {
+  const typeboxErrors = schemaErrors(schema, msg, '');
+  if (typeboxErrors.length > 0) return { ok: false, errors: typeboxErrors };
+
+  const errors: RoutedValidationError[] = section.schema
+    ? schemaErrors(section.schema, msg[section.field], section.field)
+    : [];
+  if (!recomputeSaid(msg, surface).matches) {
+    errors.push({ field: 'd', message: 'SAID does not match message content' });
+  }
+  return errors.length === 0 ? { ok: true } : { ok: false, errors };
+}
+
+/**
+ * Validate a qry message's structure, its query parameters (for routes listed
+ * in QryRoutes) and its SAID.
+ */
+function validateQry(qry: QryMessage): RoutedValidationResult {
+  const spec = (QryRoutes as Record<string, QryRouteSpec>)[qry.r];
+  return validateRouted(qry, QryMessageSchema, QRY_SURFACE, { field: 'q', schema: spec?.query });
+}
+
+/**
+ * Validate a rpy message's structure, its route payload (for routes listed in
+ * RpyRoutes, including `/ksn/<replier>`) and its SAID.
+ */
+function validateRpy(rpy: RpyMessage): RoutedValidationResult {
+  const spec = rpyRouteSpec(rpy.r);
+  return validateRouted(rpy, RpyMessageSchema, RPY_SURFACE, { field: 'a', schema: spec?.payload });
+}
+
+function attachRoutedSignature(
+  attachments: CesrAttachment[],
+  sig: string,
+  options: RoutedSignOptions,
+): CesrAttachment[] {
+  if (options.nonTransferable !== undefined) {
+    return [...attachments, { kind: 'rct', by: options.nonTransferable, sig }];
+  }
+  return attachSignature(attachments, sig, options);
+}
+
+/**
+ * Signs a qry envelope with a specific Signer.
+ *
+ * @param env - The qry envelope to sign
+ * @param signer - The Signer instance to use for signing
+ * @param options - keyIndex (default 0), and a seal or non-transferable AID
+ * @returns Updated envelope with the signature attached
+ */
+async function signQryWithSigner(
+  env: QryEnvelope,
+  signer: Signer,
+  options: RoutedSignOptions = {},
+): Promise<QryEnvelope> {
+  const sig = await signer.signBytes(QRYMessages.encodeQryBytes(env.qry, env.enc));
+  return { ...env, attachments: attachRoutedSignature(env.attachments, sig, options) };
+}
+
+/**
+ * Signs a rpy envelope with a specific Signer.
+ *
+ * @param env - The rpy envelope to sign
+ * @param signer - The Signer instance to use for signing
+ * @param options - keyIndex (default 0), and a seal or non-transferable AID
+ * @returns Updated envelope with the signature attached
+ */
+async function signRpyWithSigner(
+  env: RpyEnvelope,
+  signer: Signer,
+  options: RoutedSignOptions = {},
+): Promise<RpyEnvelope> {
+  const sig = await signer.signBytes(RPYMessages.encodeRpyBytes(env.rpy, env.enc));
+  return { ...env, attachments: attachRoutedSignature(env.attachments, sig, options) };
+}
+
+/**
+ * Verify attached signatures against `keyState`. A signature group must name
+ * exactly the key state's event (s, d), since only its keys are known here.
+ * Groups for an earlier establishment event are unsupported: verify them
+ * against the key state at that event.
+ */
+function verifySignatures(
+  raw: Uint8Array,
+  attachments: CesrAttachment[],
+  keyState: VerifiedKeyState,
+): RoutedVerificationResult {
+  for (const a of attachments) {
+    if (a.kind !== 'tsg' || a.seal.i !== keyState.aid) continue;
+    const sealSeq = parseSequenceNumber(a.seal.s);
+    if (Number.isNaN(sealSeq)) {
+      return fail('malformed-seal', `Unparseable sequence number '${a.seal.s}' in signature group seal`);
+    }
+    if (sealSeq > keyState.seqNo || (sealSeq === keyState.seqNo && a.seal.d !== keyState.digest)) {
+      return fail(
+        'stale-key-state',
+        `Signed at establishment event ${a.seal.d} (${a.seal.s}), beyond key state at ${keyState.seqNo}`,
+      );
+    }
+    if (sealSeq < keyState.seqNo) {
+      return fail(
+        'unsupported-seal',
+        `Signed at earlier establishment event ${a.seal.d} (${a.seal.s}); verify against the key state at that event`,
+      );
+    }
+  }
+
+  const verified = verifyAttachedSignatures(raw, attachments, {
+    aid: keyState.aid,
+    keys: keyState.currentKeys,
+    threshold: keyState.threshold,
+  });
+  return verified.ok ? { ok: true, signer: keyState.aid, validKeyIndices: verified.validKeyIndices } : verified;
+}
+
+/**
+ * Verify a qry envelope against the requester's key state.
+ *
+ * Checks the SAID, then verifies every signature (indexed -A, signer groups
+ * -F/-H, or a non-transferable couple -C) against `keyState.currentKeys`; the
+ * valid signatures must satisfy `keyState.threshold`.
+ *
+ * @param env - The signed qry envelope
+ * @param keyState - Requester key state (e.g. from KELOps.extractKeyState)
+ */
+function verifyQry(env: QryEnvelope, keyState: VerifiedKeyState): RoutedVerificationResult {
+  const said = recomputeSaid(env.qry, QRY_SURFACE);
+  if (!said.matches) {
+    return fail('said-mismatch', `SAID mismatch: declared ${said.declared}, recomputed ${said.recomputed}`);
+  }
+  return verifySignatures(QRYMessages.encodeQryBytes(env.qry, env.enc), env.attachments, keyState);
+}
+
+/**
+ * Verify a rpy envelope against the replier's key state.
+ *
+ * As verifyQry, and for routes that only accept replies from the AID named
+ * in the payload (`cid` for `/end/role/*`, `eid` for `/loc/scheme`), the key
+ * state must belong to that AID.
+ *
+ * @param env - The signed rpy envelope
+ * @param keyState - Replier key state (e.g. from KELOps.extractKeyState)
+ */
+function verifyRpy(env: RpyEnvelope, keyState: VerifiedKeyState): RoutedVerificationResult {
+  const rpy = env.rpy;
+  const said = recomputeSaid(rpy, RPY_SURFACE);
+  if (!said.matches) {
+    return fail('said-mismatch', `SAID mismatch: declared ${said.declared}, recomputed ${said.recomputed}`);
+  }
+
+  const signerField = rpyRouteSpec(rpy.r)?.signer;
+  if (signerField !== undefined && rpy.a[signerField] !== keyState.aid) {
+    return fail('unauthorized-signer', `Route ${rpy.r} must be signed by ${String(rpy.a[signerField])}`);
+  }
+  return verifySignatures(RPYMessages.encodeRpyBytes(rpy, env.enc), env.attachments, keyState);
+}
+
+export type {
+  RoutedSignOptions,
+  RoutedValidationError,
+  RoutedValidationResult,
+  RoutedVerificationFailureCode,
+  RoutedVerificationResult,
+};
+
+export const RoutingOps = {
+  validateQry,
+  validateRpy,
+  signQryWithSigner,
+  signRpyWithSigner,
+  verifyQry,
+  verifyRpy,
+} as const;
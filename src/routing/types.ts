@@ -0,0 +1,159 @@
+import { type Static, type TSchema, Type } from '@sinclair/typebox';
+import {
+  CesrAidSchema,
+  CesrDigestSchema,
+  CesrKeyTransferableSchema,
+  NonEmpty,
+  ThresholdSchema,
+  VersionSchema,
+} from '../common/types.js';
+import { CesrAttachmentSchema } from '../kel/types.js';
+
+const EncodingSchema = Type.Union([Type.Literal('JSON'), Type.Literal('CBOR'), Type.Literal('MGPK')], {
+  default: 'JSON',
+});
+
+// ── QRY Message (Query) ─────────────────────────────────────────────
+// Keripy canonical order: ['v', 't', 'd', 'dt', 'r', 'rr', 'q']
+// `r` names the query (e.g. logs, ksn); `rr` is the route replies are sent on.
+export const QryMessageSchema = Type.Object(
+  {
+    v: VersionSchema,
+    t: Type.Literal('qry'),
+    d: CesrDigestSchema,
+    dt: NonEmpty('Datetime', 'ISO-8601 datetime of the query, e.g. 2021-01-01T00:00:00.000000+00:00'),
+    r: NonEmpty('Route', 'Query route, e.g. logs or ksn'),
+    rr: Type.String({ title: 'Return Route', description: 'Route for the reply, or empty' }),
+    q: Type.Record(Type.String(), Type.Unknown(), { title: 'Query Parameters' }),
+  },
+  { additionalProperties: false },
+);
+export type QryMessage = Static<typeof QryMessageSchema>;
+
+/** A qry message before its SAID and size are computed: `d` is empty and `v` has a placeholder size. */
+export type UnsignedQryMessage = QryMessage;
+
+/** A qry message with its CESR attachments (the requester's signatures). */
+export const QryEnvelopeSchema = Type.Object(
+  {
+    qry: QryMessageSchema,
+    attachments: Type.Array(CesrAttachmentSchema, { default: [] }),
+    enc: EncodingSchema,
+  },
+  { additionalProperties: false, title: 'QRY Envelope' },
+);
+export type QryEnvelope = Static<typeof QryEnvelopeSchema>;
+
+// ── RPY Message (Reply) ─────────────────────────────────────────────
+// Keripy canonical order: ['v', 't', 'd', 'dt', 'r', 'a']
+// The replier is not named in the body; it is identified by the signature attachments.
+export const RpyMessageSchema = Type.Object(
+  {
+    v: VersionSchema,
+    t: Type.Literal('rpy'),
+    d: CesrDigestSchema,
+    dt: NonEmpty('Datetime', 'ISO-8601 datetime of the reply, e.g. 2021-01-01T00:00:00.000000+00:00'),
+    r: Type.String({ pattern: '^/', title: 'Route', description: 'Reply route, e.g. /end/role/add' }),
+    a: Type.Record(Type.String(), Type.Unknown(), { title: 'Attributes (route payload)' }),
+  },
+  { additionalProperties: false },
+);
+export type RpyMessage = Static<typeof RpyMessageSchema>;
+
+/** A rpy message before its SAID and size are computed: `d` is empty and `v` has a placeholder size. */
+export type UnsignedRpyMessage = RpyMessage;
+
+/** A rpy message with its CESR attachments (the replier's signatures). */
+export const RpyEnvelopeSchema = Type.Object(
+  {
+    rpy: RpyMessageSchema,
+    attachments: Type.Array(CesrAttachmentSchema, { default: [] }),
+    enc: EncodingSchema,
+  },
+  { additionalProperties: false, title: 'RPY Envelope' },
+);
+export type RpyEnvelope = Static<typeof RpyEnvelopeSchema>;
+
+// ── Routes ──────────────────────────────────────────────────────────
+
+/** Endpoint roles authorized by `/end/role/add` (keripy `Roles`). */
+export const EndpointRoleSchema = Type.Union(
+  [
+    Type.Literal('controller'),
+    Type.Literal('witness'),
+    Type.Literal('registrar'),
+    Type.Literal('gateway'),
+    Type.Literal('watcher'),
+    Type.Literal('judge'),
+    Type.Literal('juror'),
+    Type.Literal('peer'),
+    Type.Literal('mailbox'),
+    Type.Literal('agent'),
+    Type.Literal('indexer'),
+  ],
+  { title: 'Endpoint Role' },
+);
+export type EndpointRole = Static<typeof EndpointRoleSchema>;
+
+/** Transport schemes advertised by `/loc/scheme` (keripy `Schemes`). */
+export const EndpointSchemeSchema = Type.Union([Type.Literal('http'), Type.Literal('https'), Type.Literal('tcp')], {
+  title: 'Endpoint Scheme',
+});
+export type EndpointScheme = Static<typeof EndpointSchemeSchema>;
+
+const EndRolePayload = Type.Object({ cid: CesrAidSchema, role: EndpointRoleSchema, eid: CesrAidSchema });
+
+/**
+ * `/ksn` payload: the fields shared by keripy's KeyStateRecord and our KSN,
+ * so a reply carrying either shape validates.
+ */
+const KeyStatePayload = Type.Object({
+  i: CesrAidSchema,
+  s: NonEmpty('Sequence'),
+  d: CesrDigestSchema,
+  et: Type.String(),
+  kt: ThresholdSchema,
+  k: Type.Array(CesrKeyTransferableSchema, { minItems: 1 }),
+  nt: ThresholdSchema,
+  n: Type.Array(CesrDigestSchema),
+  bt: ThresholdSchema,
+  b: Type.Array(CesrAidSchema),
+});
+
+export interface QryRouteSpec {
+  /** Schema for the `q` section. Additional properties are allowed. */
+  query: TSchema;
+}
+
+export interface RpyRouteSpec {
+  /** Schema for the `a` section. Additional properties are allowed. */
+  payload: TSchema;
+  /**
+   * Payload field naming the AID that must have signed the reply, when the
+   * route only accepts replies from that AID (keripy rejects others).
+   */
+  signer?: string;
+}
+
+export const QryRoutes = {
+  logs: {
+    query: Type.Object({
+      i: CesrAidSchema,
+      s: Type.Optional(NonEmpty('Sequence', 'Replay the KEL from this sequence number')),
+      src: Type.Optional(CesrAidSchema),
+    }),
+  },
+  ksn: { query: Type.Object({ i: CesrAidSchema, src: Type.Optional(CesrAidSchema) }) },
+} as const satisfies Record<string, QryRouteSpec>;
+export type QryRoute = keyof typeof QryRoutes;
+
+export const RpyRoutes = {
+  '/end/role/add': { payload: EndRolePayload, signer: 'cid' },
+  '/end/role/cut': { payload: EndRolePayload, signer: 'cid' },
+  '/loc/scheme': {
+    payload: Type.Object({ eid: CesrAidSchema, scheme: EndpointSchemeSchema, url: Type.String() }),
+    signer: 'eid',
+  },
+  '/ksn': { payload: KeyStatePayload },
+} as const satisfies Record<string, RpyRouteSpec>;
+export type RpyRoute = keyof typeof RpyRoutes;
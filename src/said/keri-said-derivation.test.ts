@@ -3,6 +3,7 @@ import { Data, SAID_PLACEHOLDER } from '../common/data.js';
 import { deriveSaid, recomputeSaid, serializeForSigning } from '../common/derivation-surface.js';
 import type { DerivationSurface } from '../common/derivation-surface.js';
 import { serializeInsertionOrder, type JsonValue } from '../common/serialize-insertion-order.js';
+import { serializeKind } from '../common/serialization-kind.js';
 
 // ---- Shared fixture loading ----
 
@@ -591,6 +592,42 @@ describe('keri-said-derivation: serializeForSigning', () => {
   });
 });
 
+describe('keri-said-derivation: serialization kinds', () => {
+  const surface: DerivationSurface = {
+    saidField: 'd',
+    derivedFieldsInOrder: ['v', 't', 'd', 'i', 's', 'p', 'a'],
+    hasVersionString: true,
+    versionStringField: 'v',
+    protocol: 'KERI',
+  };
+  const ixn = (v: string) => ({ v, t: 'ixn', d: '', i: 'Exyz', s: '1', p: 'Eprior', a: [] });
+
+  for (const kind of ['CBOR', 'MGPK'] as const) {
+    it(`[${kind.toLowerCase()}-version-string-and-said] Kind from the seeded version string drives size measurement and digest`, () => {
+      const { sealed, said } = deriveSaid(ixn(`KERI10${kind}000000_`), surface);
+      expect(sealed.v.slice(0, 10)).toBe(`KERI10${kind}`);
+
+      const preimage = { ...sealed, d: SAID_PLACEHOLDER } as JsonValue;
+      const bytes = serializeKind(preimage, kind);
+      expect(Number.parseInt(sealed.v.slice(10, 16), 16)).toBe(bytes.length);
+      expect(said).toBe(Data.digest(bytes));
+
+      const jsonSaid = deriveSaid(ixn('KERI10JSON000000_'), surface).said;
+      expect(said).not.toBe(jsonSaid);
+    });
+
+    it(`[${kind.toLowerCase()}-recompute-and-sign-bytes] recomputeSaid and serializeForSigning follow the sealed version-string kind`, () => {
+      const { sealed } = deriveSaid(ixn('KERI10JSON000000_'), surface, kind);
+      expect(recomputeSaid(sealed, surface).matches).toBe(true);
+      expect(recomputeSaid(sealed, surface, 'JSON').matches).toBe(false);
+
+      const { raw } = serializeForSigning(sealed, surface);
+      expect(raw).toEqual(serializeKind(sealed as JsonValue, kind));
+      expect(raw.length).toBe(Number.parseInt(sealed.v.slice(10, 16), 16));
+    });
+  }
+});
+
 describe('keri-said-derivation: regression', () => {
   it('[data-saidify-unchanged-rfc8785] Data.saidify() still uses RFC-8785 canonicalization and produces the same SAID regardless of insertion-order changes to the KERI derivation path', () => {
     const obj = { d: '', z: 1, a: 2 };
@@ -1,6 +1,7 @@
 import { Serials } from 'cesr-ts/src/core';
 import { MtrDex } from 'cesr-ts/src/matter';
 import { Saider } from 'cesr-ts/src/saider';
+import { digestCode } from '../cesr/digest.js';
 import type { Qb64, SaidAlgo } from '../cesr/types.js';
 import { Data } from '../common/data.js';
 import type { SAID } from '../common/types.js';
@@ -19,7 +20,7 @@ import type { SAID } from '../common/types.js';
  * @returns The SAID qb64 string
  */
 export function encodeSAID(value: Record<string, any>, algo: SaidAlgo = 'blake3-256', label: string = 'd'): Qb64 {
-  const code = algo === 'blake3-256' ? MtrDex.Blake3_256 : MtrDex.Blake3_256;
+  const code = digestCode(algo);
   const [saider, _] = Saider.saidify(value, code, Serials.JSON, label);
   return saider.qb64;
 }
@@ -64,6 +64,18 @@ export const KEL_DRT_SURFACE: DerivationSurface = {
   protocol: 'KERI',
 } as const;
 
+/**
+ * KEL checkpoint surface (kerits-specific, not a KERI message type).
+ * d = SAID of the checkpoint itself; ed = SAID of the event it covers up to.
+ */
+export const KEL_CHECKPOINT_SURFACE: DerivationSurface = {
+  saidField: 'd',
+  derivedFieldsInOrder: ['v', 'd', 'i', 's', 'ed', 'et', 'kt', 'k', 'nt', 'n', 'bt', 'b', 'c', 'ee', 'di', 'a'],
+  hasVersionString: true,
+  versionStringField: 'v',
+  protocol: 'KERI',
+} as const;
+
 // ── TEL Surfaces ────────────────────────────────────────────────────
 
 /** VCP (Registry Inception): ['v','t','d','i','ii','s','c','bt','b','n'] */
@@ -140,6 +152,19 @@ export const ACDC_SCHEMA_SURFACE: DerivationSurface = {
   protocol: 'ACDC',
 } as const;
 
+/**
+ * Bare JSON Schema identified by its `$id`, as keripy and vLEI schema servers
+ * serve ACDC schemas: the SAID is `$id`, derived over all fields in insertion order.
+ */
+export function buildJsonSchemaSurface(schema: Record<string, unknown>): DerivationSurface {
+  if (!('$id' in schema)) throw new Error("buildJsonSchemaSurface: schema has no '$id' field");
+  return {
+    saidField: '$id',
+    derivedFieldsInOrder: Object.keys(schema) as [string, ...string[]],
+    hasVersionString: false,
+  };
+}
+
 /**
  * ACDC Credential (v1, minimal — inline attributes, no nonce/edges/rules).
  * For credentials with optional fields (u, ri, e, r), build a surface
@@ -172,3 +197,46 @@ export function buildACDCCredentialSurface(artifact: Record<string, unknown>): D
     protocol: 'ACDC',
   };
 }
+
+/**
+ * Build an unversioned surface for a nested ACDC block: an attribute, edge or
+ * rule section, or a blinded attribute block ({d, u, <label>}). Every field
+ * participates, in the block's own insertion order; 'd' must be present.
+ */
+export function buildACDCSectionSurface(section: Record<string, unknown>): DerivationSurface {
+  if (!('d' in section)) throw new Error("buildACDCSectionSurface: section has no 'd' field");
+  return {
+    saidField: 'd',
+    derivedFieldsInOrder: Object.keys(section) as [string, ...string[]],
+    hasVersionString: false,
+  };
+}
+
+// ── Exchange Surfaces ───────────────────────────────────────────────
+
+/** EXN (Peer-to-peer Exchange): ['v','t','d','i','rp','p','dt','r','q','a','e'] */
+export const EXN_SURFACE: DerivationSurface = {
+  saidField: 'd',
+  derivedFieldsInOrder: ['v', 't', 'd', 'i', 'rp', 'p', 'dt', 'r', 'q', 'a', 'e'],
+  hasVersionString: true,
+  versionStringField: 'v',
+  protocol: 'KERI',
+} as const;
+
+/** QRY (Query): ['v','t','d','dt','r','rr','q'] */
+export const QRY_SURFACE: DerivationSurface = {
+  saidField: 'd',
+  derivedFieldsInOrder: ['v', 't', 'd', 'dt', 'r', 'rr', 'q'],
+  hasVersionString: true,
+  versionStringField: 'v',
+  protocol: 'KERI',
+} as const;
+
+/** RPY (Reply): ['v','t','d','dt','r','a'] */
+export const RPY_SURFACE: DerivationSurface = {
+  saidField: 'd',
+  derivedFieldsInOrder: ['v', 't', 'd', 'dt', 'r', 'a'],
+  hasVersionString: true,
+  versionStringField: 'v',
+  protocol: 'KERI',
+} as const;
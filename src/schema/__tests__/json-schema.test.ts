@@ -0,0 +1,246 @@
+import { describe, expect, test } from 'bun:test';
+import { validateJsonSchema } from '../json-schema.js';
+
+const keywords = (schema: unknown, data: unknown) => validateJsonSchema(schema, data).map((e) => e.keyword);
+
+describe('validateJsonSchema validation keywords', () => {
+  test('type, including integer, null and type arrays', () => {
+    expect(keywords({ type: 'integer' }, 3)).toEqual([]);
+    expect(keywords({ type: 'integer' }, 3.5)).toEqual(['type']);
+    expect(keywords({ type: 'number' }, 3)).toEqual([]);
+    expect(keywords({ type: ['string', 'null'] }, null)).toEqual([]);
+    expect(validateJsonSchema({ type: ['string', 'null'] }, 1)).toEqual([
+      { path: '', message: 'Expected string or null', keyword: 'type' },
+    ]);
+  });
+
+  test('enum and const compare structurally', () => {
+    expect(keywords({ enum: ['a', { b: [1] }] }, { b: [1] })).toEqual([]);
+    expect(keywords({ enum: ['a', 'b'] }, 'c')).toEqual(['enum']);
+    expect(keywords({ const: { x: 1 } }, { x: 2 })).toEqual(['const']);
+  });
+
+  test('string length counts code points, pattern is a unicode regex', () => {
+    expect(keywords({ minLength: 2 }, '😀')).toEqual(['minLength']);
+    expect(keywords({ maxLength: 1 }, '😀')).toEqual([]);
+    expect(keywords({ pattern: '^E[A-Za-z0-9_-]{43}$' }, `E${'A'.repeat(43)}`)).toEqual([]);
+    expect(keywords({ pattern: '^E' }, 'D')).toEqual(['pattern']);
+  });
+
+  test('numeric bounds and multipleOf', () => {
+    const schema = { minimum: 1, exclusiveMaximum: 10, multipleOf: 0.5 };
+    expect(keywords(schema, 9.5)).toEqual([]);
+    expect(keywords(schema, 0)).toEqual(['minimum']);
+    expect(keywords(schema, 10)).toEqual(['exclusiveMaximum']);
+    expect(keywords(schema, 1.25)).toEqual(['multipleOf']);
+  });
+
+  test('formats', () => {
+    expect(keywords({ format: 'date-time' }, '2024-02-29T12:00:00.000+00:00')).toEqual([]);
+    expect(keywords({ format: 'date-time' }, '2023-02-29T12:00:00Z')).toEqual(['format']);
+    expect(keywords({ format: 'email' }, 'a@example.com')).toEqual([]);
+    expect(keywords({ format: 'uri' }, 'not a uri')).toEqual(['format']);
+    expect(keywords({ format: 'ipv4' }, '256.0.0.1')).toEqual(['format']);
+    expect(keywords({ format: 'ipv6' }, '::1')).toEqual([]);
+    expect(keywords({ format: 'uuid' }, '123e4567-e89b-12d3-a456-426614174000')).toEqual([]);
+    // Unknown formats are not asserted
+    expect(keywords({ format: 'vlei-lei' }, 'anything')).toEqual([]);
+  });
+
+  test('arrays: items, prefixItems, contains and uniqueItems', () => {
+    const schema = {
+      prefixItems: [{ type: 'string' }],
+      items: { type: 'integer' },
+      contains: { const: 2 },
+      maxContains: 1,
+      uniqueItems: true,
+    };
+    expect(keywords(schema, ['a', 1, 2])).toEqual([]);
+    expect(validateJsonSchema(schema, ['a', 'b', 2])).toEqual([
+      { path: '/1', message: 'Expected integer', keyword: 'type' },
+    ]);
+    expect(keywords(schema, ['a', 1])).toEqual(['contains']);
+    expect(keywords(schema, ['a', 2, 2])).toEqual(['uniqueItems', 'maxContains']);
+    expect(keywords({ prefixItems: [true], items: false }, [1, 2])).toEqual(['items']);
+  });
+});
+
+describe('validateJsonSchema objects', () => {
+  const schema = {
+    type: 'object',
+    properties: { name: { type: 'string' }, 'a/b': { type: 'number' } },
+    patternProperties: { '^x-': { type: 'string' } },
+    additionalProperties: false,
+    required: ['name'],
+    dependentRequired: { street: ['city'] },
+  };
+
+  test('reports JSON Pointer paths, escaping ~ and /', () => {
+    expect(validateJsonSchema(schema, { 'a/b': 'x', 'x-y': 1 })).toEqual([
+      { path: '/name', message: 'Missing required field: name', keyword: 'required' },
+      { path: '/a~1b', message: 'Expected number', keyword: 'type' },
+      { path: '/x-y', message: 'Expected string', keyword: 'type' },
+    ]);
+  });
+
+  test('rejects properties not covered by properties or patternProperties', () => {
+    expect(validateJsonSchema(schema, { name: 'n', 'x-ok': 's', extra: 1 })).toEqual([
+      { path: '/extra', message: 'Unexpected property: extra', keyword: 'additionalProperties' },
+    ]);
+  });
+
+  test('propertyNames, min/maxProperties and dependentRequired', () => {
+    expect(keywords({ propertyNames: { pattern: '^[a-z]+$' } }, { Ab: 1 })).toEqual(['propertyNames']);
+    expect(keywords({ minProperties: 2 }, { a: 1 })).toEqual(['minProperties']);
+    expect(keywords({ dependentRequired: { street: ['city'] } }, { street: 's' })).toEqual(['dependentRequired']);
+  });
+});
+
+describe('validateJsonSchema applicators', () => {
+  test('oneOf must match exactly one branch', () => {
+    const schema = { oneOf: [{ type: 'string' }, { type: 'object', required: ['d'] }] };
+    expect(keywords(schema, 'Esaid')).toEqual([]);
+    expect(keywords(schema, { d: 'x' })).toEqual([]);
+    expect(validateJsonSchema(schema, 1)).toEqual([
+      { path: '', message: 'Must match exactly one schema in oneOf (matched 0)', keyword: 'oneOf' },
+    ]);
+    expect(keywords({ oneOf: [{ type: 'number' }, { minimum: 0 }] }, 1)).toEqual(['oneOf']);
+  });
+
+  test('anyOf, allOf, not and if/then/else', () => {
+    expect(keywords({ anyOf: [{ type: 'string' }, { type: 'number' }] }, true)).toEqual(['anyOf']);
+    expect(keywords({ allOf: [{ minimum: 1 }, { maximum: 2 }] }, 3)).toEqual(['maximum']);
+    expect(keywords({ not: { type: 'null' } }, null)).toEqual(['not']);
+
+    // Built from entries: a literal `then` key trips the thenable lint
+    const conditional = Object.fromEntries([
+      ['if', { properties: { kind: { const: 'a' } } }],
+      ['then', { required: ['a'] }],
+      ['else', { required: ['b'] }],
+    ]);
+    expect(keywords(conditional, { kind: 'a' })).toEqual(['required']);
+    expect(keywords(conditional, { kind: 'b', b: 1 })).toEqual([]);
+  });
+
+  test('unevaluatedProperties sees properties evaluated by passing subschemas', () => {
+    const schema = {
+      allOf: [{ properties: { a: true } }],
+      anyOf: [
+        { properties: { b: true }, required: ['b'] },
+        { properties: { c: true }, required: ['c'] },
+      ],
+      unevaluatedProperties: false,
+    };
+    expect(keywords(schema, { a: 1, b: 1 })).toEqual([]);
+    expect(validateJsonSchema(schema, { a: 1, b: 1, d: 1 })).toEqual([
+      { path: '/d', message: 'Unexpected property: d', keyword: 'unevaluatedProperties' },
+    ]);
+  });
+
+  test('unevaluatedItems', () => {
+    const schema = { prefixItems: [true], allOf: [{ contains: { type: 'string' } }], unevaluatedItems: false };
+    expect(keywords(schema, [1, 'a'])).toEqual([]);
+    expect(keywords(schema, [1, 'a', 2])).toEqual(['unevaluatedItems']);
+  });
+});
+
+describe('validateJsonSchema references', () => {
+  test('$ref into $defs, with sibling keywords applied', () => {
+    const schema = {
+      $defs: { said: { type: 'string', pattern: '^E' } },
+      properties: { d: { $ref: '#/$defs/said', minLength: 2 } },
+    };
+    expect(keywords(schema, { d: 'Ex' })).toEqual([]);
+    expect(keywords(schema, { d: 'D' })).toEqual(['pattern', 'minLength']);
+  });
+
+  test('recursive $ref and $anchor', () => {
+    const tree = {
+      $defs: { node: { $anchor: 'node', type: 'object', properties: { children: { items: { $ref: '#node' } } } } },
+      $ref: '#/$defs/node',
+    };
+    expect(validateJsonSchema(tree, { children: [{ children: [1] }] })).toEqual([
+      { path: '/children/0/children/0', message: 'Expected object', keyword: 'type' },
+    ]);
+  });
+
+  test('$ref to an embedded resource by $id', () => {
+    const schema = {
+      $id: 'https://example.com/root.json',
+      $defs: { lei: { $id: 'lei.json', type: 'string', minLength: 20 } },
+      properties: { LEI: { $ref: 'https://example.com/lei.json' } },
+    };
+    expect(keywords(schema, { LEI: 'short' })).toEqual(['minLength']);
+  });
+
+  test('$dynamicRef resolves to the outermost dynamic anchor', () => {
+    const list = {
+      $id: 'https://example.com/list',
+      $defs: { item: { $dynamicAnchor: 'item' } },
+      type: 'array',
+      items: { $dynamicRef: '#item' },
+    };
+    const strings = {
+      $id: 'https://example.com/strings',
+      $ref: 'list',
+      $defs: { list, item: { $dynamicAnchor: 'item', type: 'string' } },
+    };
+    expect(keywords(list, [1])).toEqual([]);
+    expect(keywords(strings, ['a', 1])).toEqual(['type']);
+  });
+
+  test('reports unresolvable references', () => {
+    expect(validateJsonSchema({ $ref: '#/$defs/missing' }, 1)).toEqual([
+      { path: '', message: 'Cannot resolve $ref: #/$defs/missing', keyword: '$ref' },
+    ]);
+  });
+
+  test('boolean schemas', () => {
+    expect(keywords(true, 1)).toEqual([]);
+    expect(keywords({ properties: { x: false } }, { x: 1 })).toEqual(['false']);
+  });
+});
+
+describe('validateJsonSchema with a vLEI-style ACDC schema', () => {
+  const schema = {
+    $id: 'EBfdlu8R27Fbx-ehrqwImnK-8Cm79sqbAQ4MmvEAYqao',
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    type: 'object',
+    definitions: { said: { type: 'string', pattern: '^E' } },
+    properties: {
+      d: { $ref: '#/definitions/said' },
+      a: {
+        oneOf: [
+          { type: 'string' },
+          {
+            $id: 'EJ3QmCZYv6ZPMwiQHuQn5xwpNlMEQK7A1AOxxjqjrZl6',
+            type: 'object',
+            properties: {
+              d: { $ref: '#/definitions/said' },
+              dt: { type: 'string', format: 'date-time' },
+              LEI: { type: 'string', pattern: '^[A-Z0-9]{18}[0-9]{2}$' },
+            },
+            additionalProperties: false,
+            required: ['d', 'dt', 'LEI'],
+          },
+        ],
+      },
+    },
+    additionalProperties: false,
+    required: ['d', 'a'],
+  };
+
+  test('accepts compact and expanded attribute sections', () => {
+    expect(keywords(schema, { d: 'Ecred', a: 'Eattrs' })).toEqual([]);
+    expect(
+      keywords(schema, { d: 'Ecred', a: { d: 'Eattrs', dt: '2024-01-01T00:00:00Z', LEI: '5493001KJTIIGC8Y1R17' } }),
+    ).toEqual([]);
+  });
+
+  test('rejects a credential that violates the schema', () => {
+    expect(keywords(schema, { d: 'Ecred', a: { d: 'Eattrs', dt: 'yesterday', LEI: '5493001KJTIIGC8Y1R17' } })).toEqual([
+      'oneOf',
+    ]);
+    expect(keywords(schema, { d: 'Dcred', a: 'Eattrs', extra: true })).toEqual(['pattern', 'additionalProperties']);
+  });
+});
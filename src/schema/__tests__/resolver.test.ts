@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test';
+import type { SAID } from '../../common/types.js';
+import { SchemaOps } from '../ops.js';
+import { type SchemaLoader, SchemaResolver } from '../resolver.js';
+import { SchemaData } from '../schema-data.js';
+import type { ACDCSchema } from '../types.js';
+
+const $schema = 'https://json-schema.org/draft/2020-12/schema';
+
+const lei = SchemaData.create({ $schema, type: 'string', pattern: '^[A-Z0-9]{18}[0-9]{2}$' });
+const entity = SchemaData.create({
+  $schema,
+  type: 'object',
+  properties: { LEI: { $ref: `did:keri:${lei.d}` } },
+  required: ['LEI'],
+});
+const credential = SchemaData.create({
+  $schema,
+  type: 'object',
+  properties: {
+    a: { oneOf: [{ type: 'string' }, { $ref: entity.d }] },
+  },
+  required: ['a'],
+});
+
+function loaderOf(...schemas: ACDCSchema[]): SchemaLoader {
+  const bySaid = new Map(schemas.map((s) => [s.d, s]));
+  return async (said: SAID) => bySaid.get(said);
+}
+
+describe('SchemaResolver.resolveSchema', () => {
+  test('follows $refs by SAID, bare and as did:keri URIs', async () => {
+    const result = await SchemaResolver.resolveSchema(credential.d as SAID, loaderOf(credential, entity, lei));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.schema).toEqual(credential);
+    expect([...result.value.externals.keys()].sort()).toEqual([entity.d, lei.d].sort());
+  });
+
+  test('validation follows the resolved references', async () => {
+    const result = await SchemaResolver.resolveSchema(credential, loaderOf(entity, lei));
+    if (!result.ok) throw new Error(result.error.message);
+    const { schema, externals } = result.value;
+
+    expect(SchemaOps.validate(schema, { a: { LEI: '5493001KJTIIGC8Y1R17' } }, externals).valid).toBe(true);
+    expect(SchemaOps.validate(schema, { a: 'Eattributes' }, externals).valid).toBe(true);
+    expect(SchemaOps.validate(entity, { LEI: 'short' }, externals).errors).toEqual([
+      { path: '/LEI', message: 'Must match pattern ^[A-Z0-9]{18}[0-9]{2}$', keyword: 'pattern' },
+    ]);
+    expect(SchemaOps.validate(entity, { LEI: 'short' }).errors?.[0]?.keyword).toBe('$ref');
+  });
+
+  test('reports a schema the loader does not have', async () => {
+    const result = await SchemaResolver.resolveSchema(credential, loaderOf(entity));
+    expect(result).toEqual({
+      ok: false,
+      error: { kind: 'not-found', said: lei.d as SAID, message: `Schema ${lei.d} not found` },
+    });
+  });
+
+  test('rejects a schema whose content does not match its SAID', async () => {
+    const tampered = { ...entity, s: { ...entity.s, required: [] } };
+    const result = await SchemaResolver.resolveSchema(credential, loaderOf(tampered, lei));
+    expect(!result.ok && result.error.kind).toBe('invalid');
+  });
+
+  test('rejects a valid schema served for a different SAID', async () => {
+    const result = await SchemaResolver.resolveSchema(credential, async () => lei);
+    expect(!result.ok && result.error).toMatchObject({ kind: 'said-mismatch', said: entity.d });
+  });
+});
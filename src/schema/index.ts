@@ -1,13 +1,17 @@
 import { SchemaOps } from './ops.js';
+import { SchemaResolver } from './resolver.js';
 import { SchemaData } from './schema-data.js';
 
 export const Schema = {
   ...SchemaData,
   ...SchemaOps,
+  ...SchemaResolver,
 } as const;
 
 export type { SchemaVerifyResult } from './ops.js';
 export { SchemaOps } from './ops.js';
+export type { ResolvedSchema, SchemaLoader, SchemaResolutionError } from './resolver.js';
+export { SchemaResolver } from './resolver.js';
 export type { SchemaParseResult } from './schema-data.js';
 export { SchemaData } from './schema-data.js';
 export * from './types.js';
@@ -0,0 +1,671 @@
+/**
+ * JSON Schema draft 2020-12 validator.
+ *
+ * An interpreter: schemas are walked as data on every call, with no code
+ * generation (`new Function`/`eval`), so it runs in browsers and Workers.
+ *
+ * Covers the core, applicator, validation, unevaluated and format-assertion
+ * vocabularies: `$ref`/`$dynamicRef` into `$defs`, `$anchor`s and embedded
+ * `$id` resources; `allOf`/`anyOf`/`oneOf`/`not`/`if`; `unevaluatedProperties`
+ * and `unevaluatedItems`. Draft-07 `definitions` and array-form `items` /
+ * `additionalItems` are read too, as vLEI schemas still use them.
+ *
+ * Errors carry the JSON Pointer of the failing instance location ('' is the
+ * root) and the keyword that failed. Type names outside JSON Schema, such as
+ * kerits' `schemaSaid`, and unknown formats are not asserted.
+ *
+ * @module schema/json-schema
+ */
+
+import type { SchemaValidationError } from './types.js';
+
+type SchemaNode = boolean | Record<string, unknown>;
+
+/** A schema resource: the document root or a subschema with its own `$id`. */
+interface Resource {
+  base: string;
+  root: SchemaNode;
+  /** Root of the document the resource is embedded in. */
+  document: SchemaNode;
+  anchors: Map<string, SchemaNode>;
+  dynamicAnchors: Map<string, SchemaNode>;
+}
+
+interface Registry {
+  document: Resource;
+  resources: Map<string, Resource>;
+  /** The resource each schema object belongs to. */
+  owners: WeakMap<object, Resource>;
+  /** Every `$ref`/`$dynamicRef`, resolved to an absolute URI. */
+  refs: string[];
+}
+
+interface Context {
+  registry: Registry;
+  /** Resources entered so far, outermost first, for `$dynamicRef`. */
+  dynamicScope: Resource[];
+  depth: number;
+}
+
+/** Errors at one instance location, plus the property names / item indices evaluated there. */
+interface Outcome {
+  errors: SchemaValidationError[];
+  props: Set<string>;
+  items: Set<number>;
+}
+
+const DEFAULT_BASE = 'urn:kerits:schema';
+const MAX_DEPTH = 256;
+
+/** Keywords whose value is one subschema, an array of them, or a map of them. */
+const SUBSCHEMA_KEYWORDS = [
+  'additionalProperties',
+  'propertyNames',
+  'contains',
+  'not',
+  'if',
+  'then',
+  'else',
+  'unevaluatedItems',
+  'unevaluatedProperties',
+  'additionalItems',
+  'items',
+] as const;
+const SUBSCHEMA_ARRAY_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'prefixItems', 'items'] as const;
+const SUBSCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', '$defs', 'definitions', 'dependentSchemas'] as const;
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSchema(value: unknown): value is SchemaNode {
+  return typeof value === 'boolean' || isObject(value);
+}
+
+function pointer(base: string, token: string | number): string {
+  return `${base}/${String(token).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a)) {
+    return Array.isArray(b) && a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((k) => k in b && deepEqual(a[k], b[k]));
+  }
+  return false;
+}
+
+const regexCache = new Map<string, RegExp | null>();
+
+function compilePattern(source: string): RegExp | null {
+  let re = regexCache.get(source);
+  if (re === undefined) {
+    try {
+      re = new RegExp(source, 'u');
+    } catch {
+      re = null;
+    }
+    regexCache.set(source, re);
+  }
+  return re;
+}
+
+function outcome(errors: SchemaValidationError[] = []): Outcome {
+  return { errors, props: new Set(), items: new Set() };
+}
+
+function absorb(into: Outcome, from: Outcome): void {
+  into.errors.push(...from.errors);
+  if (from.errors.length > 0) return;
+  for (const p of from.props) into.props.add(p);
+  for (const i of from.items) into.items.add(i);
+}
+
+// ── Formats ─────────────────────────────────────────────────────────
+
+const DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME = /^(\d{2}):(\d{2}):(\d{2})(\.\d+)?(z|[+-](\d{2}):(\d{2}))$/i;
+const DURATION = /^P(?!$)((\d+Y)?(\d+M)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+S)?)?|\d+W)$/;
+const EMAIL = /^[^\s@"]+@[^\s@]+\.[^\s@]+$/;
+const HOSTNAME = /^(?=.{1,253}$)[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*\.?$/i;
+const IPV4 = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const URI_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+const JSON_POINTER = /^(\/([^~/]|~[01])*)*$/;
+const RELATIVE_JSON_POINTER = /^(0|[1-9]\d*)(#|(\/([^~/]|~[01])*)*)$/;
+
+function isDate(value: string): boolean {
+  const m = DATE.exec(value);
+  if (!m) return false;
+  const [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  const leap = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+  const days = [31, leap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+  return days !== undefined && day >= 1 && day <= days;
+}
+
+function isTime(value: string): boolean {
+  const m = TIME.exec(value);
+  if (!m) return false;
+  const [hour, minute, second] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  const offset = m[6] === undefined || (Number(m[6]) <= 23 && Number(m[7]) <= 59);
+  // Leap seconds are accepted at any minute; the offset is not applied.
+  return hour <= 23 && minute <= 59 && second <= 60 && offset;
+}
+
+function isUri(value: string, relative: boolean): boolean {
+  if (/[\s<>"{}|\\^`]/.test(value)) return false;
+  if (!relative && !URI_SCHEME.test(value)) return false;
+  try {
+    new URL(value, 'http://base.invalid/');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isIpv6(value: string): boolean {
+  if (!value.includes(':') || /[^0-9a-f:.]/i.test(value)) return false;
+  try {
+    new URL(`http://[${value}]/`);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+  'date-time': (v) => {
+    const t = v.search(/t/i);
+    return t > 0 && isDate(v.slice(0, t)) && isTime(v.slice(t + 1));
+  },
+  date: isDate,
+  time: isTime,
+  duration: (v) => DURATION.test(v),
+  email: (v) => EMAIL.test(v),
+  'idn-email': (v) => EMAIL.test(v),
+  hostname: (v) => HOSTNAME.test(v),
+  'idn-hostname': (v) => v.length > 0 && !/[\s/@:]/.test(v),
+  ipv4: (v) => IPV4.test(v),
+  ipv6: isIpv6,
+  uri: (v) => isUri(v, false),
+  'uri-reference': (v) => isUri(v, true),
+  iri: (v) => URI_SCHEME.test(v) && !/\s/.test(v),
+  'iri-reference': (v) => !/\s/.test(v),
+  uuid: (v) => UUID.test(v),
+  'json-pointer': (v) => JSON_POINTER.test(v),
+  'relative-json-pointer': (v) => RELATIVE_JSON_POINTER.test(v),
+  regex: (v) => compilePattern(v) !== null,
+};
+
+// ── Resources and references ────────────────────────────────────────
+
+function resolveUri(ref: string, base: string): string {
+  try {
+    return new URL(ref, base).href;
+  } catch {
+    return ref.startsWith('#') ? `${base.split('#')[0]}${ref}` : ref;
+  }
+}
+
+function stripFragment(uri: string): string {
+  const hash = uri.indexOf('#');
+  return hash < 0 ? uri : uri.slice(0, hash);
+}
+
+function buildRegistry(root: SchemaNode, external: ReadonlyMap<string, unknown> = new Map()): Registry {
+  const resources = new Map<string, Resource>();
+  const owners = new WeakMap<object, Resource>();
+  const refs: string[] = [];
+
+  const documentResource = (node: SchemaNode, base: string): Resource => {
+    const id = isObject(node) && typeof node.$id === 'string' ? node.$id : '';
+    const resource: Resource = {
+      base: stripFragment(id ? resolveUri(id, base) : base),
+      root: node,
+      document: node,
+      anchors: new Map(),
+      dynamicAnchors: new Map(),
+    };
+    resources.set(resource.base, resource);
+    return resource;
+  };
+
+  const walk = (node: unknown, resource: Resource): void => {
+    if (!isObject(node) || owners.has(node)) return;
+    let current = resource;
+    if (node !== resource.document && typeof node.$id === 'string') {
+      const base = stripFragment(resolveUri(node.$id, resource.base));
+      current = { base, root: node, document: resource.document, anchors: new Map(), dynamicAnchors: new Map() };
+      resources.set(base, current);
+    }
+    owners.set(node, current);
+    for (const keyword of ['$ref', '$dynamicRef']) {
+      if (typeof node[keyword] === 'string') refs.push(resolveUri(node[keyword], current.base));
+    }
+    if (typeof node.$anchor === 'string') current.anchors.set(node.$anchor, node);
+    if (typeof node.$dynamicAnchor === 'string') {
+      current.anchors.set(node.$dynamicAnchor, node);
+      current.dynamicAnchors.set(node.$dynamicAnchor, node);
+    }
+
+    for (const keyword of SUBSCHEMA_KEYWORDS) walk(node[keyword], current);
+    for (const keyword of SUBSCHEMA_ARRAY_KEYWORDS) {
+      const value = node[keyword];
+      if (Array.isArray(value)) for (const sub of value) walk(sub, current);
+    }
+    for (const keyword of SUBSCHEMA_MAP_KEYWORDS) {
+      const value = node[keyword];
+      if (isObject(value)) for (const sub of Object.values(value)) walk(sub, current);
+    }
+  };
+  const document = documentResource(root, DEFAULT_BASE);
+  walk(root, document);
+
+  // External documents are registered under the URI they were fetched by,
+  // as well as under their own `$id`.
+  for (const [uri, schema] of external) {
+    if (!isSchema(schema)) continue;
+    const known = isObject(schema) ? owners.get(schema) : undefined;
+    if (known) {
+      resources.set(uri, known);
+      continue;
+    }
+    const resource = documentResource(schema, uri);
+    resources.set(uri, resource);
+    walk(schema, resource);
+  }
+
+  return { document, resources, owners, refs };
+}
+
+function followPointer(root: SchemaNode, fragment: string): SchemaNode | undefined {
+  let node: unknown = root;
+  for (const raw of fragment.split('/').slice(1)) {
+    const token = raw.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (Array.isArray(node)) node = node[Number(token)];
+    else if (isObject(node)) node = node[token];
+    else return undefined;
+  }
+  return isSchema(node) ? node : undefined;
+}
+
+function resolveRef(ref: string, resource: Resource, registry: Registry): SchemaNode | undefined {
+  const full = resolveUri(ref, resource.base);
+  const hash = full.indexOf('#');
+  const uri = hash < 0 ? full : full.slice(0, hash);
+  let fragment = hash < 0 ? '' : full.slice(hash + 1);
+  try {
+    fragment = decodeURIComponent(fragment);
+  } catch {
+    return undefined;
+  }
+
+  const target = uri === '' ? resource : registry.resources.get(uri);
+  if (!target) return undefined;
+  if (fragment === '') return target.root;
+  if (fragment.startsWith('/')) {
+    // ACDC schemas give subschemas their own SAID `$id` but point into the
+    // document's `$defs`; fall back to the document when the resource misses.
+    return followPointer(target.root, fragment) ?? followPointer(target.document, fragment);
+  }
+  return target.anchors.get(fragment);
+}
+
+function resolveDynamicRef(ref: string, resource: Resource, ctx: Context): SchemaNode | undefined {
+  const initial = resolveRef(ref, resource, ctx.registry);
+  const hash = ref.indexOf('#');
+  const name = hash < 0 ? '' : ref.slice(hash + 1);
+  if (initial === undefined || !isObject(initial) || initial.$dynamicAnchor !== name) return initial;
+
+  for (const scope of ctx.dynamicScope) {
+    const dynamic = scope.dynamicAnchors.get(name);
+    if (dynamic !== undefined) return dynamic;
+  }
+  return initial;
+}
+
+// ── Evaluation ──────────────────────────────────────────────────────
+
+function evaluate(schema: SchemaNode, data: unknown, path: string, ctx: Context): Outcome {
+  if (schema === true) return outcome();
+  if (schema === false) {
+    return outcome([{ path, message: 'No value is allowed here', keyword: 'false' }]);
+  }
+  if (ctx.depth > MAX_DEPTH) {
+    return outcome([{ path, message: 'Maximum schema nesting depth exceeded', keyword: '$ref' }]);
+  }
+
+  const resource = ctx.registry.owners.get(schema) ?? ctx.registry.document;
+  const entered = ctx.dynamicScope[ctx.dynamicScope.length - 1] !== resource;
+  const inner: Context = {
+    registry: ctx.registry,
+    dynamicScope: entered ? [...ctx.dynamicScope, resource] : ctx.dynamicScope,
+    depth: ctx.depth + 1,
+  };
+
+  const result = outcome();
+  const fail = (message: string, keyword: string, at = path) => {
+    result.errors.push({ path: at, message, keyword });
+  };
+
+  // Type
+  if (schema.type !== undefined) {
+    const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter(
+      (t): t is string => typeof t === 'string',
+    );
+    const actual = typeOf(data);
+    const known = types.filter((t) =>
+      ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'].includes(t),
+    );
+    const matches =
+      known.length < types.length || known.some((t) => t === actual || (t === 'integer' && Number.isInteger(data)));
+    if (!matches) {
+      fail(`Expected ${known.join(' or ')}`, 'type');
+      return result;
+    }
+  }
+
+  if (schema.enum !== undefined && Array.isArray(schema.enum) && !schema.enum.some((v) => deepEqual(v, data))) {
+    fail(`Must be one of: ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`, 'enum');
+  }
+  if ('const' in schema && !deepEqual(schema.const, data)) {
+    fail(`Must equal ${JSON.stringify(schema.const)}`, 'const');
+  }
+
+  // References
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(schema.$ref, resource, ctx.registry);
+    if (target === undefined) fail(`Cannot resolve $ref: ${schema.$ref}`, '$ref');
+    else absorb(result, evaluate(target, data, path, inner));
+  }
+  if (typeof schema.$dynamicRef === 'string') {
+    const target = resolveDynamicRef(schema.$dynamicRef, resource, inner);
+    if (target === undefined) fail(`Cannot resolve $dynamicRef: ${schema.$dynamicRef}`, '$dynamicRef');
+    else absorb(result, evaluate(target, data, path, inner));
+  }
+
+  // Combinators
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) if (isSchema(sub)) absorb(result, evaluate(sub, data, path, inner));
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const outcomes = schema.anyOf.filter(isSchema).map((sub) => evaluate(sub, data, path, inner));
+    const passing = outcomes.filter((o) => o.errors.length === 0);
+    if (passing.length === 0) fail('Must match at least one schema in anyOf', 'anyOf');
+    for (const o of passing) absorb(result, o);
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const outcomes = schema.oneOf.filter(isSchema).map((sub) => evaluate(sub, data, path, inner));
+    const passing = outcomes.filter((o) => o.errors.length === 0);
+    if (passing.length !== 1) {
+      fail(`Must match exactly one schema in oneOf (matched ${passing.length})`, 'oneOf');
+    } else {
+      absorb(result, passing[0]!);
+    }
+  }
+  if (isSchema(schema.not) && evaluate(schema.not, data, path, inner).errors.length === 0) {
+    fail('Must not match the schema in not', 'not');
+  }
+  if (isSchema(schema.if)) {
+    const condition = evaluate(schema.if, data, path, inner);
+    if (condition.errors.length === 0) {
+      absorb(result, condition);
+      if (isSchema(schema.then)) absorb(result, evaluate(schema.then, data, path, inner));
+    } else if (isSchema(schema.else)) {
+      absorb(result, evaluate(schema.else, data, path, inner));
+    }
+  }
+
+  if (typeof data === 'string') validateString(schema, data, fail);
+  if (typeof data === 'number') validateNumber(schema, data, fail);
+  if (Array.isArray(data)) validateArray(schema, data, path, inner, result, fail);
+  if (isObject(data)) validateObject(schema, data, path, inner, result, fail);
+
+  return result;
+}
+
+type Fail = (message: string, keyword: string, at?: string) => void;
+
+function validateString(schema: Record<string, unknown>, data: string, fail: Fail): void {
+  const length = [...data].length;
+  if (typeof schema.minLength === 'number' && length < schema.minLength) {
+    fail(`Must be at least ${schema.minLength} characters`, 'minLength');
+  }
+  if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+    fail(`Must be at most ${schema.maxLength} characters`, 'maxLength');
+  }
+  if (typeof schema.pattern === 'string') {
+    const re = compilePattern(schema.pattern);
+    if (!re) fail(`Invalid pattern: ${schema.pattern}`, 'pattern');
+    else if (!re.test(data)) fail(`Must match pattern ${schema.pattern}`, 'pattern');
+  }
+  if (typeof schema.format === 'string') {
+    const check = FORMATS[schema.format];
+    if (check && !check(data)) fail(`Must be a valid ${schema.format}`, 'format');
+  }
+}
+
+function validateNumber(schema: Record<string, unknown>, data: number, fail: Fail): void {
+  if (typeof schema.minimum === 'number' && data < schema.minimum) {
+    fail(`Must be >= ${schema.minimum}`, 'minimum');
+  }
+  if (typeof schema.maximum === 'number' && data > schema.maximum) {
+    fail(`Must be <= ${schema.maximum}`, 'maximum');
+  }
+  if (typeof schema.exclusiveMinimum === 'number' && data <= schema.exclusiveMinimum) {
+    fail(`Must be > ${schema.exclusiveMinimum}`, 'exclusiveMinimum');
+  }
+  if (typeof schema.exclusiveMaximum === 'number' && data >= schema.exclusiveMaximum) {
+    fail(`Must be < ${schema.exclusiveMaximum}`, 'exclusiveMaximum');
+  }
+  if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+    const quotient = data / schema.multipleOf;
+    if (!Number.isFinite(quotient) || Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      fail(`Must be a multiple of ${schema.multipleOf}`, 'multipleOf');
+    }
+  }
+}
+
+function validateArray(
+  schema: Record<string, unknown>,
+  data: unknown[],
+  path: string,
+  ctx: Context,
+  result: Outcome,
+  fail: Fail,
+): void {
+  if (typeof schema.minItems === 'number' && data.length < schema.minItems) {
+    fail(`Must have at least ${schema.minItems} items`, 'minItems');
+  }
+  if (typeof schema.maxItems === 'number' && data.length > schema.maxItems) {
+    fail(`Must have at most ${schema.maxItems} items`, 'maxItems');
+  }
+  if (schema.uniqueItems === true) {
+    for (let i = 1; i < data.length; i++) {
+      const j = data.slice(0, i).findIndex((earlier) => deepEqual(earlier, data[i]));
+      if (j >= 0) {
+        fail(`Items ${j} and ${i} are identical`, 'uniqueItems');
+        break;
+      }
+    }
+  }
+
+  // 2020-12 prefixItems/items, or draft-07 array-form items/additionalItems
+  const prefix = Array.isArray(schema.prefixItems)
+    ? schema.prefixItems
+    : Array.isArray(schema.items)
+      ? schema.items
+      : [];
+  const rest = Array.isArray(schema.items) ? schema.additionalItems : schema.items;
+  const restKeyword = Array.isArray(schema.items) ? 'additionalItems' : 'items';
+  data.forEach((item, i) => {
+    const sub = i < prefix.length ? prefix[i] : rest;
+    if (!isSchema(sub)) return;
+    if (sub === false && i >= prefix.length) fail(`Unexpected item at index ${i}`, restKeyword, pointer(path, i));
+    else result.errors.push(...evaluate(sub, item, pointer(path, i), ctx).errors);
+    result.items.add(i);
+  });
+
+  if (isSchema(schema.contains)) {
+    const contains = schema.contains;
+    let count = 0;
+    data.forEach((item, i) => {
+      if (evaluate(contains, item, pointer(path, i), ctx).errors.length === 0) {
+        count++;
+        result.items.add(i);
+      }
+    });
+    const min = typeof schema.minContains === 'number' ? schema.minContains : 1;
+    if (count < min) fail(`Must contain at least ${min} matching items (found ${count})`, 'contains');
+    if (typeof schema.maxContains === 'number' && count > schema.maxContains) {
+      fail(`Must contain at most ${schema.maxContains} matching items (found ${count})`, 'maxContains');
+    }
+  }
+
+  if (isSchema(schema.unevaluatedItems)) {
+    const unevaluated = schema.unevaluatedItems;
+    data.forEach((item, i) => {
+      if (result.items.has(i)) return;
+      if (unevaluated === false) fail(`Unexpected item at index ${i}`, 'unevaluatedItems', pointer(path, i));
+      else result.errors.push(...evaluate(unevaluated, item, pointer(path, i), ctx).errors);
+      result.items.add(i);
+    });
+  }
+}
+
+function validateObject(
+  schema: Record<string, unknown>,
+  data: Record<string, unknown>,
+  path: string,
+  ctx: Context,
+  result: Outcome,
+  fail: Fail,
+): void {
+  const keys = Object.keys(data);
+
+  if (Array.isArray(schema.required)) {
+    for (const field of schema.required) {
+      if (typeof field === 'string' && !(field in data)) {
+        fail(`Missing required field: ${field}`, 'required', pointer(path, field));
+      }
+    }
+  }
+  if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+    fail(`Must have at least ${schema.minProperties} properties`, 'minProperties');
+  }
+  if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+    fail(`Must have at most ${schema.maxProperties} properties`, 'maxProperties');
+  }
+  if (isObject(schema.dependentRequired)) {
+    for (const [key, needed] of Object.entries(schema.dependentRequired)) {
+      if (!(key in data) || !Array.isArray(needed)) continue;
+      for (const field of needed) {
+        if (typeof field === 'string' && !(field in data)) {
+          fail(`Missing field ${field}, required with ${key}`, 'dependentRequired', pointer(path, field));
+        }
+      }
+    }
+  }
+  if (isSchema(schema.propertyNames)) {
+    for (const key of keys) {
+      if (evaluate(schema.propertyNames, key, pointer(path, key), ctx).errors.length > 0) {
+        fail(`Invalid property name: ${key}`, 'propertyNames', pointer(path, key));
+      }
+    }
+  }
+
+  const properties = isObject(schema.properties) ? schema.properties : {};
+  const patterns = isObject(schema.patternProperties)
+    ? Object.entries(schema.patternProperties).map(([source, sub]) => [compilePattern(source), sub] as const)
+    : [];
+  for (const key of keys) {
+    let matched = false;
+    const sub = properties[key];
+    if (Object.hasOwn(properties, key) && isSchema(sub)) {
+      matched = true;
+      result.errors.push(...evaluate(sub, data[key], pointer(path, key), ctx).errors);
+    }
+    for (const [re, patternSub] of patterns) {
+      if (re?.test(key) && isSchema(patternSub)) {
+        matched = true;
+        result.errors.push(...evaluate(patternSub, data[key], pointer(path, key), ctx).errors);
+      }
+    }
+    if (matched) {
+      result.props.add(key);
+    } else if (schema.additionalProperties === false) {
+      fail(`Unexpected property: ${key}`, 'additionalProperties', pointer(path, key));
+      result.props.add(key);
+    } else if (isSchema(schema.additionalProperties)) {
+      result.errors.push(...evaluate(schema.additionalProperties, data[key], pointer(path, key), ctx).errors);
+      result.props.add(key);
+    }
+  }
+
+  if (isObject(schema.dependentSchemas)) {
+    for (const [key, sub] of Object.entries(schema.dependentSchemas)) {
+      if (key in data && isSchema(sub)) absorb(result, evaluate(sub, data, path, ctx));
+    }
+  }
+
+  if (isSchema(schema.unevaluatedProperties)) {
+    const unevaluated = schema.unevaluatedProperties;
+    for (const key of keys) {
+      if (result.props.has(key)) continue;
+      if (unevaluated === false) {
+        fail(`Unexpected property: ${key}`, 'unevaluatedProperties', pointer(path, key));
+      } else {
+        result.errors.push(...evaluate(unevaluated, data[key], pointer(path, key), ctx).errors);
+      }
+      result.props.add(key);
+    }
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema (draft 2020-12).
+ *
+ * @param schema - The schema; `$ref`s resolve within it
+ * @param data - The value to validate
+ * @param external - Other schema documents `$ref`s may point into, by URI
+ * @returns Every failure found, empty when the value is valid
+ */
+export function validateJsonSchema(
+  schema: unknown,
+  data: unknown,
+  external?: ReadonlyMap<string, unknown>,
+): SchemaValidationError[] {
+  if (!isSchema(schema)) {
+    return [{ path: '', message: 'Schema must be an object or boolean', keyword: 'schema' }];
+  }
+  const registry = buildRegistry(schema, external);
+  return evaluate(schema, data, '', { registry, dynamicScope: [registry.document], depth: 0 }).errors;
+}
+
+/**
+ * List the documents a schema's `$ref`s point to that are neither the schema
+ * itself nor a resource embedded in it.
+ *
+ * @returns Absolute URIs without fragments, in first-seen order
+ */
+export function unresolvedReferences(schema: unknown): string[] {
+  if (!isSchema(schema)) return [];
+  const registry = buildRegistry(schema);
+  const missing = new Set<string>();
+  for (const ref of registry.refs) {
+    const uri = stripFragment(ref);
+    if (uri !== '' && !registry.resources.has(uri)) missing.add(uri);
+  }
+  return [...missing];
+}
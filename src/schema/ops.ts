@@ -1,8 +1,9 @@
 import { recomputeSaid } from '../common/derivation-surface.js';
 import type { SAID } from '../common/types.js';
-import { ACDC_SCHEMA_SURFACE } from '../said/surfaces.js';
+import { ACDC_SCHEMA_SURFACE, buildJsonSchemaSurface } from '../said/surfaces.js';
+import { validateJsonSchema } from './json-schema.js';
 import { SchemaData } from './schema-data.js';
-import type { ACDCSchema, FlatField, JSONSchema, SchemaValidationError, SchemaValidationResult } from './types.js';
+import type { ACDCSchema, FlatField, JSONSchema, SchemaValidationResult } from './types.js';
 
 type SchemaVerifyResult = { ok: true; schema: ACDCSchema } | { ok: false; reason: string };
 
@@ -18,13 +19,19 @@ function verifySaid(schema: ACDCSchema): boolean {
  * Validate the SAID of an ACDC schema envelope.
  *
  * SAID is derived from the envelope body (v, t, d, s) with $id stripped
- * from s, matching the behavior of `SchemaData.create`.
+ * from s, matching the behavior of `SchemaData.create`. A bare JSON Schema
+ * (see SchemaData.parse), whose `$id` is the SAID, is derived over itself.
  */
 function validateSaid(schema: ACDCSchema): {
   valid: boolean;
   expected: string;
   actual: string;
 } {
+  if (schema.s.$id === schema.d) {
+    const bare = recomputeSaid(schema.s, buildJsonSchemaSurface(schema.s), 'JSON');
+    return { valid: bare.matches, expected: bare.recomputed, actual: schema.d };
+  }
+
   const cleanS = { ...schema.s };
   delete cleanS.$id;
 
@@ -59,64 +66,31 @@ function parseAndVerifySaid(data: unknown): SchemaVerifyResult {
   return { ok: true, schema: parseResult.schema };
 }
 
-function validate(schema: ACDCSchema, data: unknown): SchemaValidationResult {
-  const jsonSchema = schema.s as JSONSchema;
-  const errors = validateJsonSchema(jsonSchema, data, '');
+/**
+ * Validate data against the schema's JSON Schema (draft 2020-12).
+ *
+ * Errors carry the JSON Pointer of the failing value and the failing keyword;
+ * see validateJsonSchema for the supported vocabularies.
+ *
+ * @param externals - Schemas that `$ref`s may name by SAID (see SchemaResolver)
+ */
+function validate(
+  schema: ACDCSchema,
+  data: unknown,
+  externals?: ReadonlyMap<SAID, ACDCSchema>,
+): SchemaValidationResult {
+  const documents = new Map<string, unknown>();
+  for (const [said, external] of externals ?? []) {
+    documents.set(said, external.s);
+    documents.set(`did:keri:${said}`, external.s);
+  }
+  const errors = validateJsonSchema(schema.s, data, documents);
   return {
     valid: errors.length === 0,
     errors: errors.length > 0 ? errors : undefined,
   };
 }
 
-function validateJsonSchema(schema: JSONSchema, data: unknown, path: string): SchemaValidationError[] {
-  const errors: SchemaValidationError[] = [];
-
-  if (schema.type === 'object') {
-    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
-      errors.push({ path: path || '/', message: 'Expected object', keyword: 'type' });
-      return errors;
-    }
-
-    const obj = data as Record<string, unknown>;
-
-    for (const field of schema.required ?? []) {
-      if (!(field in obj)) {
-        errors.push({
-          path: `${path}/${field}`,
-          message: `Missing required field: ${field}`,
-          keyword: 'required',
-        });
-      }
-    }
-
-    if (schema.properties) {
-      for (const [key, propSchema] of Object.entries(schema.properties)) {
-        if (key in obj && propSchema && typeof propSchema === 'object') {
-          errors.push(...validateJsonSchema(propSchema as JSONSchema, obj[key], `${path}/${key}`));
-        }
-      }
-    }
-  } else if (schema.type === 'string') {
-    if (typeof data !== 'string') {
-      errors.push({ path: path || '/', message: 'Expected string', keyword: 'type' });
-    }
-  } else if (schema.type === 'number') {
-    if (typeof data !== 'number') {
-      errors.push({ path: path || '/', message: 'Expected number', keyword: 'type' });
-    }
-  } else if (schema.type === 'boolean') {
-    if (typeof data !== 'boolean') {
-      errors.push({ path: path || '/', message: 'Expected boolean', keyword: 'type' });
-    }
-  } else if (schema.type === 'array') {
-    if (!Array.isArray(data)) {
-      errors.push({ path: path || '/', message: 'Expected array', keyword: 'type' });
-    }
-  }
-
-  return errors;
-}
-
 /**
  * Flatten schema properties into path/type pairs (sync-only).
  *
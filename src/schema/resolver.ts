@@ -0,0 +1,114 @@
+/**
+ * ACDC schema composition: resolve `$ref`s to other schemas by SAID.
+ *
+ * ACDC schemas are content-addressed, so a `$ref` whose URI is a SAID (bare
+ * or as `did:keri:<SAID>`) names exactly one schema. The resolver fetches
+ * each such schema through a caller-supplied loader, checks that its SAID
+ * verifies and matches the reference, and follows the loaded schema's own
+ * references in turn. References to anything other than a SAID are left for
+ * validation to report.
+ *
+ * @module schema/resolver
+ */
+
+import type { SAID } from '../common/types.js';
+import { err, ok, type Result } from '../result.js';
+import { unresolvedReferences } from './json-schema.js';
+import { SchemaOps } from './ops.js';
+import type { ACDCSchema } from './types.js';
+
+/** Upper bound on the schemas one resolution may load. */
+const MAX_SCHEMAS = 64;
+
+const SAID_REF = /^(?:did:keri:)?([A-Za-z0-9_-]{44}|0[A-Za-z][A-Za-z0-9_-]{86})$/;
+
+/**
+ * Fetch a schema by SAID. Returns the parsed JSON of the schema envelope
+ * (`{ v, t, d, s }`) or bare JSON Schema, or undefined when the schema is not
+ * available.
+ */
+export type SchemaLoader = (said: SAID) => Promise<unknown>;
+
+/** A schema together with every schema its `$ref`s reach by SAID. */
+export type ResolvedSchema = {
+  schema: ACDCSchema;
+  /** Referenced schemas by SAID, excluding the root. */
+  externals: ReadonlyMap<SAID, ACDCSchema>;
+};
+
+export type SchemaResolutionError = {
+  kind: 'not-found' | 'invalid' | 'said-mismatch' | 'too-many';
+  said: SAID;
+  message: string;
+};
+
+/** The SAID a reference URI names, if it names one. */
+function saidOfReference(uri: string): SAID | undefined {
+  return SAID_REF.exec(uri)?.[1] as SAID | undefined;
+}
+
+/**
+ * Parse a schema document, as an envelope or a bare JSON Schema identified by
+ * its `$id`, and check that its SAID verifies and is `said`.
+ */
+function verifySchema(data: unknown, said: SAID): Result<ACDCSchema, SchemaResolutionError> {
+  const verified = SchemaOps.parseAndVerifySaid(data);
+  if (!verified.ok) return err({ kind: 'invalid', said, message: verified.reason });
+  if (verified.schema.d !== said) {
+    return err({ kind: 'said-mismatch', said, message: `Loaded schema ${verified.schema.d} for reference ${said}` });
+  }
+  return ok(verified.schema);
+}
+
+async function loadSchema(said: SAID, loader: SchemaLoader): Promise<Result<ACDCSchema, SchemaResolutionError>> {
+  const data = await loader(said);
+  if (data === undefined) return err({ kind: 'not-found', said, message: `Schema ${said} not found` });
+  return verifySchema(data, said);
+}
+
+/**
+ * Resolve every schema reachable from a schema through `$ref`s by SAID.
+ *
+ * Each loaded schema must parse and verify as by
+ * `SchemaOps.parseAndVerifySaid`, and its SAID must be the one referenced.
+ * Resolution stops at the first schema that fails.
+ *
+ * @param root - The schema, or its SAID to load it through `loader` as well
+ * @param loader - Fetches schemas by SAID
+ */
+async function resolveSchema(
+  root: ACDCSchema | SAID,
+  loader: SchemaLoader,
+): Promise<Result<ResolvedSchema, SchemaResolutionError>> {
+  let schema: ACDCSchema;
+  if (typeof root === 'string') {
+    const loaded = await loadSchema(root, loader);
+    if (!loaded.ok) return loaded;
+    schema = loaded.value;
+  } else {
+    schema = root;
+  }
+
+  const externals = new Map<SAID, ACDCSchema>();
+  const pending = [schema];
+  for (let next = pending.pop(); next !== undefined; next = pending.pop()) {
+    for (const uri of unresolvedReferences(next.s)) {
+      const said = saidOfReference(uri);
+      if (said === undefined || said === schema.d || externals.has(said)) continue;
+      if (externals.size >= MAX_SCHEMAS) {
+        return err({ kind: 'too-many', said, message: `Schema references more than ${MAX_SCHEMAS} schemas` });
+      }
+      const loaded = await loadSchema(said, loader);
+      if (!loaded.ok) return loaded;
+      externals.set(said, loaded.value);
+      pending.push(loaded.value);
+    }
+  }
+
+  return ok({ schema, externals });
+}
+
+export const SchemaResolver = {
+  verifySchema,
+  resolveSchema,
+} as const;
@@ -36,6 +36,12 @@ function parse(data: unknown): SchemaParseResult {
 
   const obj = data as Record<string, unknown>;
 
+  // A bare JSON Schema whose `$id` is its SAID, as keripy serves schemas, has
+  // no envelope: wrap it, without a version string.
+  if (!('t' in obj) && typeof obj.$id === 'string') {
+    return { ok: true, schema: { v: '', t: 'sch', d: obj.$id, s: obj } };
+  }
+
   for (const key of Object.keys(obj)) {
     if (!PERMITTED_SCHEMA_FIELDS.has(key)) {
       return { ok: false, reason: `schema has unknown top-level field: '${key}'` };
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'bun:test';
+import type { AID, PublicKey } from '../common/types.js';
+import { KeriKeyPairs } from '../crypto/keypairs.js';
+import type { CesrSeal } from '../kel/types.js';
+import { attachSignature, verifyAttachedSignatures } from './attached.js';
+import { Signers } from './signers.js';
+
+const KEY1 = KeriKeyPairs.fromSeedNumber(1);
+const KEY2 = KeriKeyPairs.fromSeedNumber(2);
+const SIGNER = 'ESigner00000000000000000000000000000000000' as AID;
+const OTHER = 'EOther000000000000000000000000000000000000' as AID;
+const RAW = new TextEncoder().encode('signed message');
+const SEAL: CesrSeal = { i: SIGNER, s: '0', d: 'EEstablishment0000000000000000000000000000' };
+
+const signer = {
+  aid: SIGNER,
+  keys: [KEY1.publicKey, KEY2.publicKey] as PublicKey[],
+  threshold: '2',
+};
+
+async function sigBy(keypair: typeof KEY1): Promise<string> {
+  return Signers.fromKeyPair(keypair).signBytes(RAW);
+}
+
+describe('attachSignature', () => {
+  it('adds indexed signatures, recording the signer when given', async () => {
+    const sig = await sigBy(KEY1);
+
+    expect(attachSignature([], sig)).toEqual([{ kind: 'sig', form: 'indexed', keyIndex: 0, sig }]);
+    expect(attachSignature([], sig, { keyIndex: 1, signerAid: SIGNER })).toEqual([
+      { kind: 'sig', form: 'indexed', signerAid: SIGNER, keyIndex: 1, sig },
+    ]);
+  });
+
+  it('joins the signature group for the same seal and opens one for another', async () => {
+    const [sig1, sig2] = [await sigBy(KEY1), await sigBy(KEY2)];
+    const grouped = attachSignature(attachSignature([], sig1, { seal: SEAL }), sig2, { keyIndex: 1, seal: SEAL });
+
+    expect(grouped).toEqual([
+      {
+        kind: 'tsg',
+        seal: SEAL,
+        sigs: [
+          { keyIndex: 0, sig: sig1 },
+          { keyIndex: 1, sig: sig2 },
+        ],
+      },
+    ]);
+    expect(attachSignature(grouped, sig1, { seal: { ...SEAL, s: '1' } })).toHaveLength(2);
+  });
+});
+
+describe('verifyAttachedSignatures', () => {
+  it('verifies indexed signatures and signature groups against the signer keys', async () => {
+    const indexed = attachSignature(attachSignature([], await sigBy(KEY1)), await sigBy(KEY2), { keyIndex: 1 });
+    const grouped = attachSignature(attachSignature([], await sigBy(KEY1), { seal: SEAL }), await sigBy(KEY2), {
+      keyIndex: 1,
+      seal: SEAL,
+    });
+
+    expect(verifyAttachedSignatures(RAW, indexed, signer)).toEqual({ ok: true, validKeyIndices: [0, 1] });
+    expect(verifyAttachedSignatures(RAW, grouped, signer)).toEqual({ ok: true, validKeyIndices: [0, 1] });
+  });
+
+  it('fails on a signature that names another signer', async () => {
+    const sig = await sigBy(KEY1);
+
+    expect(verifyAttachedSignatures(RAW, attachSignature([], sig, { signerAid: OTHER }), signer)).toMatchObject({
+      ok: false,
+      code: 'signer-mismatch',
+    });
+    expect(
+      verifyAttachedSignatures(RAW, attachSignature([], sig, { seal: { ...SEAL, i: OTHER } }), signer),
+    ).toMatchObject({ ok: false, code: 'signer-mismatch' });
+  });
+
+  it('fails without signatures, on an invalid one, or below the threshold', async () => {
+    const sig1 = await sigBy(KEY1);
+
+    expect(verifyAttachedSignatures(RAW, [], signer)).toMatchObject({ ok: false, code: 'no-signatures' });
+    expect(verifyAttachedSignatures(RAW, attachSignature([], sig1, { keyIndex: 1 }), signer)).toMatchObject({
+      ok: false,
+      code: 'signature-invalid',
+    });
+    expect(verifyAttachedSignatures(RAW, attachSignature([], sig1), signer)).toMatchObject({
+      ok: false,
+      code: 'threshold-not-met',
+    });
+  });
+});
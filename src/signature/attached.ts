@@ -0,0 +1,156 @@
+/**
+ * Attached Signatures
+ *
+ * Signatures carried as CESR attachments on messages signed outside a KEL:
+ * exn, qry and rpy messages and KEL checkpoints. A signer attaches an indexed
+ * signature (-A), or joins the transferable signature group (-F) for its
+ * establishment seal. Verification reads every attached form as key-indexed
+ * signatures for one signer, failing on any that names another, then checks
+ * each against that signer's keys and threshold.
+ *
+ * @module signature/attached
+ */
+
+import type { AID, PublicKey, Signature, Threshold } from '../common/types.js';
+import { checkThreshold } from '../kel/threshold.js';
+import type { CesrAttachment, CesrSeal, IndexedSignature } from '../kel/types.js';
+import { verify } from './verify.js';
+
+/** Why attached signatures failed verification. */
+export type AttachedSignatureFailureCode =
+  | 'signer-mismatch'
+  | 'no-signatures'
+  | 'signature-invalid'
+  | 'threshold-not-met';
+
+export type AttachedSignatureResult =
+  | { ok: true; validKeyIndices: number[] }
+  | { ok: false; code: AttachedSignatureFailureCode; reason: string };
+
+/** The signer attached signatures must come from, with the keys and threshold in force. */
+export type AttachedSigner = { aid: AID; keys: readonly PublicKey[]; threshold: Threshold };
+
+export type AttachSignatureOptions = {
+  /** Index of the signing key (default 0) */
+  keyIndex?: number;
+  /** Signer's establishment seal; joins the -F group for it instead of -A */
+  seal?: CesrSeal;
+  /** Signer recorded on an -A signature, for provenance */
+  signerAid?: AID;
+};
+
+/**
+ * Add a signature to a message's attachments: as an indexed signature without
+ * a seal, else to the transferable signature group for the seal, creating the
+ * group if needed.
+ */
+export function attachSignature(
+  attachments: readonly CesrAttachment[],
+  sig: string,
+  options: AttachSignatureOptions = {},
+): CesrAttachment[] {
+  const keyIndex = options.keyIndex ?? 0;
+  const seal = options.seal;
+  if (!seal) {
+    const indexed: CesrAttachment =
+      options.signerAid === undefined
+        ? { kind: 'sig', form: 'indexed', keyIndex, sig }
+        : { kind: 'sig', form: 'indexed', signerAid: options.signerAid, keyIndex, sig };
+    return [...attachments, indexed];
+  }
+
+  const sameSeal = (a: CesrAttachment) =>
+    a.kind === 'tsg' && a.seal.i === seal.i && a.seal.s === seal.s && a.seal.d === seal.d;
+  if (!attachments.some(sameSeal)) {
+    return [...attachments, { kind: 'tsg', seal, sigs: [{ keyIndex, sig }] }];
+  }
+  return attachments.map((a) => (a.kind === 'tsg' && sameSeal(a) ? { ...a, sigs: [...a.sigs, { keyIndex, sig }] } : a));
+}
+
+/**
+ * Collect signatures from every supported attachment form (-A, -F, -H, -C)
+ * as key-indexed signatures against `signer`, or fail if one names another
+ * signer. Other attachments are ignored.
+ */
+function collectSignatures(
+  attachments: readonly CesrAttachment[],
+  signer: AttachedSigner,
+): { ok: true; sigs: IndexedSignature[] } | Extract<AttachedSignatureResult, { ok: false }> {
+  const mismatch = (reason: string) => ({ ok: false as const, code: 'signer-mismatch' as const, reason });
+  const sigs: IndexedSignature[] = [];
+  for (const a of attachments) {
+    switch (a.kind) {
+      case 'sig':
+        if (a.signerAid !== undefined && a.signerAid !== signer.aid) {
+          return mismatch(`Signature by ${a.signerAid}, not ${signer.aid}`);
+        }
+        sigs.push({
+          keyIndex: typeof a.keyIndex === 'number' ? a.keyIndex : parseInt(a.keyIndex ?? '0', 10),
+          sig: a.sig,
+        });
+        break;
+      case 'tsg':
+        if (a.seal.i !== signer.aid) return mismatch(`Signature group for ${a.seal.i}, not ${signer.aid}`);
+        sigs.push(...a.sigs);
+        break;
+      case 'lsg':
+        if (a.i !== signer.aid) return mismatch(`Signature group for ${a.i}, not ${signer.aid}`);
+        sigs.push(...a.sigs);
+        break;
+      case 'rct': {
+        const keyIndex = signer.keys.indexOf(a.by as PublicKey);
+        if (a.by !== signer.aid || keyIndex < 0) {
+          return mismatch(`Non-transferable signature by ${a.by}, not ${signer.aid}`);
+        }
+        sigs.push({ keyIndex, sig: a.sig });
+        break;
+      }
+    }
+  }
+  return { ok: true, sigs };
+}
+
+/**
+ * Verify the signatures attached to a message against its signer.
+ *
+ * Every signature must come from `signer` and verify against the key at its
+ * index, and together the valid ones must satisfy `signer.threshold`.
+ *
+ * @param raw - The signed bytes
+ * @param attachments - The message's attachments
+ * @param signer - The signer's AID, keys and threshold
+ */
+export function verifyAttachedSignatures(
+  raw: Uint8Array,
+  attachments: readonly CesrAttachment[],
+  signer: AttachedSigner,
+): AttachedSignatureResult {
+  const collected = collectSignatures(attachments, signer);
+  if (!collected.ok) return collected;
+  if (collected.sigs.length === 0) return { ok: false, code: 'no-signatures', reason: 'No signatures attached' };
+
+  const validKeyIndices = new Set<number>();
+  for (const { keyIndex, sig } of collected.sigs) {
+    const key = signer.keys[keyIndex];
+    if (!key || !verify(key, sig as Signature, raw)) {
+      return { ok: false, code: 'signature-invalid', reason: `Signature at key index ${keyIndex} is invalid` };
+    }
+    validKeyIndices.add(keyIndex);
+  }
+
+  let satisfied = false;
+  try {
+    satisfied = checkThreshold(signer.threshold, validKeyIndices, signer.keys.length).satisfied;
+  } catch {
+    satisfied = false;
+  }
+  if (!satisfied) {
+    return {
+      ok: false,
+      code: 'threshold-not-met',
+      reason: `Threshold not met: ${validKeyIndices.size} valid signatures`,
+    };
+  }
+
+  return { ok: true, validKeyIndices: [...validKeyIndices].sort((a, b) => a - b) };
+}
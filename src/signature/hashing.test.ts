@@ -20,6 +20,19 @@ describe('hash (blake3)', () => {
   });
 });
 
+describe('hash (other 256-bit algorithms)', () => {
+  const abc = new TextEncoder().encode('abc');
+
+  it.each([
+    ['blake2b', 'bddd813c634239723171ef3fee98579b94964e3bb1cb3e427262c8c068d52319'],
+    ['blake2s', '508c5e8c327c14e2e1a72ba34eeb452f37458b209ed63a294d999b4c86675982'],
+    ['sha3-256', '3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532'],
+    ['sha2-256', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+  ] as const)('%s matches the reference digest of "abc"', (algorithm, expected) => {
+    expect(hashHex(abc, algorithm)).toBe(expected);
+  });
+});
+
 describe('hashHex', () => {
   it('returns 64-char hex string for 32-byte hash', () => {
     const data = new TextEncoder().encode('hello world');
@@ -1,8 +1,8 @@
 /**
  * Cryptographic Hashing Module
  *
- * Provides Blake3-256 hashing for KERI compliance.
- * Extensible design allows for additional algorithms if needed in the future.
+ * Provides the 256-bit hashes behind CESR digests: Blake3 (the KERI
+ * default), Blake2b, Blake2s, SHA3 and SHA2.
  *
  * Blake3-256 is the KERI standard hash algorithm:
  * - Fast, secure, parallelizable
@@ -10,14 +10,17 @@
  * - Works in Node.js, browsers, and Cloudflare Workers
  */
 
+import { blake2b, blake2s } from '@noble/hashes/blake2.js';
 import { blake3 } from '@noble/hashes/blake3.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { sha3_256 } from '@noble/hashes/sha3.js';
 import { canonical } from '../common/canonical.js';
 
 /**
- * Supported hash algorithms
- * Currently only Blake3-256 (KERI standard)
+ * Supported hash algorithms, all with 32-byte output
+ * Blake3-256 is the KERI standard; the others are accepted by keripy
  */
-export type HashAlgorithm = 'blake3';
+export type HashAlgorithm = 'blake3' | 'blake2b' | 'blake2s' | 'sha3-256' | 'sha2-256';
 
 /**
  * Hash data using specified algorithm
@@ -37,6 +40,14 @@ export function hash(data: Uint8Array, algorithm: HashAlgorithm = 'blake3'): Uin
   switch (algorithm) {
     case 'blake3':
       return blake3(data, { dkLen: 32 });
+    case 'blake2b':
+      return blake2b(data, { dkLen: 32 });
+    case 'blake2s':
+      return blake2s(data, { dkLen: 32 });
+    case 'sha3-256':
+      return sha3_256(data);
+    case 'sha2-256':
+      return sha256(data);
     default: {
       const exhaustiveCheck: never = algorithm;
       throw new Error(`Unknown hash algorithm: ${exhaustiveCheck}`);
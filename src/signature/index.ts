@@ -8,6 +8,13 @@ export const Signature = {
   verify,
 } as const;
 
+export type {
+  AttachedSignatureFailureCode,
+  AttachedSignatureResult,
+  AttachedSigner,
+  AttachSignatureOptions,
+} from './attached.js';
+export { attachSignature, verifyAttachedSignatures } from './attached.js';
 export type { Ed25519Signer, Secp256k1Signer, Signer } from './signer.js';
 export { isEd25519Signer, isSecp256k1Signer } from './signer.js';
 export { Signers } from './signers.js';
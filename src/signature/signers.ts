@@ -1,4 +1,6 @@
 import { ed25519 } from '@noble/curves/ed25519.js';
+import { p256 } from '@noble/curves/nist.js';
+import { secp256k1 } from '@noble/curves/secp256k1.js';
 import { decodeKey } from '../cesr/keys.js';
 import { encodeSig } from '../cesr/sigs.js';
 import type { KeriKeyPair, PublicKey, SAID, Signature } from '../common/types.js';
@@ -6,7 +8,7 @@ import { hkdfBlake3 } from '../crypto/hkdf.js';
 import { deriveSharedSecret, ed25519ToX25519Private } from '../crypto/x25519.js';
 import type { KeyAgreementInput } from './key-agreement.js';
 import { MAX_HKDF_DERIVE_LENGTH } from './key-agreement.js';
-import type { Ed25519Signer } from './signer.js';
+import type { Ed25519Signer, Signer } from './signer.js';
 import { verify as verifySignature } from './verify.js';
 
 export namespace Signers {
@@ -56,6 +58,38 @@ export namespace Signers {
     };
   }
 
+  /**
+   * Create a CESR Signer from an ECDSA secp256k1 or P-256 KeriKeyPair
+   * (see `KeriKeyPairs.fromSeed(seed, algo)`).
+   *
+   * Signs SHA-256 of the data, as keripy does, producing `0C` (secp256k1)
+   * or `0I` (P-256) signatures. Unlike `Secp256k1Signer`, the output is a
+   * KERI signature usable in KEL, TEL and ACDC attachments.
+   */
+  export function fromEcdsaKeyPair(keypair: KeriKeyPair): Signer {
+    const { algo, raw: privateKeyBytes } = decodeKey(keypair.privateKey);
+    if (algo === 'ed25519') {
+      throw new Error('fromEcdsaKeyPair: expected a secp256k1 or P-256 key pair; use fromKeyPair for Ed25519');
+    }
+    const curve = algo === 'p256' ? p256 : secp256k1;
+
+    return {
+      publicKey: keypair.publicKey,
+
+      async exists(publicKey: PublicKey): Promise<boolean> {
+        return keypair.publicKey === publicKey;
+      },
+
+      async signBytes(data: Uint8Array): Promise<Signature> {
+        return encodeSig(curve.sign(data, privateKeyBytes), true, algo).qb64 as Signature;
+      },
+
+      async signSaid(said: SAID): Promise<Signature> {
+        return this.signBytes(new TextEncoder().encode(said));
+      },
+    };
+  }
+
   /**
    * Verify a signature against data using a public key.
    *
@@ -1,8 +1,11 @@
 import { describe, expect, it } from 'bun:test';
-import { encodeKey } from '../cesr/keys.js';
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { decodeKey, encodeKey } from '../cesr/keys.js';
 import { encodeSig } from '../cesr/sigs.js';
 import type { PublicKey, Signature } from '../common/types.js';
+import { KeriKeyPairs } from '../crypto/keypairs.js';
 import { generateKeyPair, sign } from './primitives.js';
+import { Signers } from './signers.js';
 import { verify } from './verify.js';
 
 describe('verify', () => {
@@ -33,4 +36,35 @@ describe('verify', () => {
   it('returns false for malformed input instead of throwing', () => {
     expect(verify('not-a-key' as PublicKey, 'not-a-sig' as Signature, new Uint8Array([1]))).toBe(false);
   });
+
+  it('verifies ECDSA secp256k1 and P-256 signatures', async () => {
+    const data = new TextEncoder().encode('hello world');
+    for (const algo of ['secp256k1', 'p256'] as const) {
+      const keypair = KeriKeyPairs.fromSeedNumber(7, algo);
+      const signature = await Signers.fromEcdsaKeyPair(keypair).signBytes(data);
+
+      expect(verify(keypair.publicKey as PublicKey, signature, data)).toBe(true);
+      expect(verify(keypair.publicKey as PublicKey, signature, new TextEncoder().encode('other'))).toBe(false);
+    }
+  });
+
+  it('accepts high-S ECDSA signatures', () => {
+    const data = new TextEncoder().encode('hello world');
+    const keypair = KeriKeyPairs.fromSeedNumber(8, 'secp256k1');
+    const low = secp256k1.Signature.fromBytes(secp256k1.sign(data, decodeKey(keypair.privateKey).raw));
+    const high = new secp256k1.Signature(low.r, secp256k1.Point.CURVE().n - low.s).toBytes();
+
+    expect(verify(keypair.publicKey as PublicKey, encodeSig(high, true, 'secp256k1').qb64 as Signature, data)).toBe(
+      true,
+    );
+  });
+
+  it('rejects a signature whose algorithm differs from the key', async () => {
+    const data = new TextEncoder().encode('hello world');
+    const k1 = KeriKeyPairs.fromSeedNumber(9, 'secp256k1');
+    const r1 = KeriKeyPairs.fromSeedNumber(9, 'p256');
+    const signature = await Signers.fromEcdsaKeyPair(k1).signBytes(data);
+
+    expect(verify(r1.publicKey as PublicKey, signature, data)).toBe(false);
+  });
 });
@@ -1,4 +1,6 @@
 import { ed25519 } from '@noble/curves/ed25519.js';
+import { p256 } from '@noble/curves/nist.js';
+import { secp256k1 } from '@noble/curves/secp256k1.js';
 import { decodeKey } from '../cesr/keys.js';
 import { decodeSig } from '../cesr/sigs.js';
 import type { PublicKey, Signature } from '../common/types.js';
@@ -6,6 +8,11 @@ import type { PublicKey, Signature } from '../common/types.js';
 /**
  * Verify a signature against data using a public key
  *
+ * Supports Ed25519, and ECDSA secp256k1 and P-256 over SHA-256 of the data
+ * (as keripy signs). ECDSA signatures are accepted in either S form, since
+ * other implementations need not normalize to low-S. The signature's
+ * algorithm must match the key's.
+ *
  * @param publicKey - Public key in CESR qb64 format
  * @param signature - Signature in CESR qb64 format
  * @param data - Raw bytes that were signed
@@ -13,9 +20,17 @@ import type { PublicKey, Signature } from '../common/types.js';
  */
 export function verify(publicKey: PublicKey, signature: Signature, data: Uint8Array): boolean {
   try {
-    const pubKeyBytes = decodeKey(publicKey).raw;
-    const sigBytes = decodeSig(signature).raw;
-    return ed25519.verify(sigBytes, data, pubKeyBytes);
+    const key = decodeKey(publicKey);
+    const sig = decodeSig(signature);
+    if (key.algo !== sig.algo) return false;
+    switch (key.algo) {
+      case 'ed25519':
+        return ed25519.verify(sig.raw, data, key.raw);
+      case 'secp256k1':
+        return secp256k1.verify(sig.raw, data, key.raw, { lowS: false });
+      case 'p256':
+        return p256.verify(sig.raw, data, key.raw, { lowS: false });
+    }
   } catch {
     return false;
   }
@@ -0,0 +1,188 @@
+/**
+ * Backer state, backer receipts, and receipt thresholds for backed registries.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { digestVerfer } from '../../cesr/digest.js';
+import { decodeKey, encodeKey } from '../../cesr/keys.js';
+import { encodeSig } from '../../cesr/sigs.js';
+import type { AID, KeriKeyPair, SAID } from '../../common/types.js';
+import { KeriKeyPairs } from '../../crypto/index.js';
+import { canonicalizeEvent } from '../../kel/event-crypto.js';
+import { KELEvents } from '../../kel/events.js';
+import type { CESREvent } from '../../kel/types.js';
+import { sign } from '../../signature/primitives.js';
+import { Signers } from '../../signature/signers.js';
+import { TELBackers } from '../backers.js';
+import { TELEvents } from '../events.js';
+import type { BackerReceipt, TelCESREvent, TelEvent } from '../types.js';
+import { verifyTel } from '../verifier.js';
+
+const CONTROLLER = KeriKeyPairs.fromSeedNumber(1);
+const NEXT = KeriKeyPairs.fromSeedNumber(2);
+const B1 = KeriKeyPairs.fromSeedNumber(3);
+const B2 = KeriKeyPairs.fromSeedNumber(4);
+const B3 = KeriKeyPairs.fromSeedNumber(5);
+
+function backerAid(keypair: KeriKeyPair): AID {
+  return encodeKey(decodeKey(keypair.publicKey).raw, false).qb64 as AID;
+}
+
+const [A1, A2, A3] = [backerAid(B1), backerAid(B2), backerAid(B3)];
+
+function kelEvent(unsignedEvent: unknown, isInception: boolean): CESREvent {
+  const { event } = KELEvents.finalize(unsignedEvent, isInception);
+  const sig = encodeSig(sign(canonicalizeEvent(event), decodeKey(CONTROLLER.privateKey).raw), true).qb64;
+  return KELEvents.assembleSignedEvent({ event, signatures: [{ keyIndex: 0, sig }] });
+}
+
+function issuerKel(...sealed: TelEvent[]): CESREvent[] {
+  const icp = kelEvent(
+    KELEvents.buildIcp({ keys: [CONTROLLER.publicKey], nextKeyDigests: [digestVerfer(NEXT.publicKey)] }).unsignedEvent,
+    true,
+  );
+  const { unsignedEvent } = KELEvents.buildIxn({
+    aid: icp.event.i as AID,
+    sequence: KELEvents.nextSequence(icp.event.s),
+    priorEventSaid: icp.event.d as SAID,
+    anchors: sealed.map((e) => ({ i: e.i, s: e.s, d: e.d })),
+  });
+  return [icp, kelEvent(unsignedEvent, false)];
+}
+
+function registry(issuer: AID) {
+  const vcp = TELEvents.computeSaid(
+    TELEvents.buildVcp({ issuerAid: issuer, backers: [A1, A2], backerThreshold: '1' }).unsignedEvent,
+    true,
+  ).event;
+  const vrt = TELEvents.computeSaid(
+    TELEvents.buildVrt({
+      registryId: vcp.i as SAID,
+      sequence: '1',
+      priorEventSaid: vcp.d as SAID,
+      backerThreshold: '1',
+      backersRemoved: [A1],
+      backersAdded: [A3],
+    }).unsignedEvent,
+  ).event;
+  return { vcp, vrt };
+}
+
+async function receipted(event: TelEvent, ...backers: [KeriKeyPair, AID][]): Promise<TelCESREvent> {
+  const attachments: BackerReceipt[] = [];
+  for (const [keypair, aid] of backers) {
+    attachments.push(await TELBackers.receipt(event, Signers.fromKeyPair(keypair), { aid }));
+  }
+  return { event, attachments };
+}
+
+const ISSUER = issuerKel()[0]!.event.i as AID;
+
+describe('TELBackers.backerStates', () => {
+  it('applies VRT removals and additions in order', () => {
+    const { vcp, vrt } = registry(ISSUER);
+    const result = TELBackers.backerStates([vcp, vrt]);
+
+    expect(result.ok).toBe(true);
+    expect(result.states).toEqual([
+      { backed: true, backers: [A1, A2], threshold: 1 },
+      { backed: true, backers: [A2, A3], threshold: 1 },
+    ]);
+  });
+
+  it('fails a VRT that removes a non-backer', () => {
+    const { vcp, vrt } = registry(ISSUER);
+    const result = TELBackers.backerStates([vcp, { ...vrt, br: [A3] }]);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.index).toBe(1);
+      expect(result.states).toHaveLength(1);
+    }
+  });
+
+  it('fails a threshold the backer set cannot meet', () => {
+    const { vcp } = registry(ISSUER);
+    expect(TELBackers.backerStates([{ ...vcp, bt: '3' }]).ok).toBe(false);
+  });
+
+  it('reads bt as hex', () => {
+    const { vcp } = registry(ISSUER);
+    const backers = Array.from({ length: 16 }, (_, n) => backerAid(KeriKeyPairs.fromSeedNumber(10 + n)));
+    const wide = { ...vcp, b: backers };
+
+    expect(TELBackers.backerStates([{ ...wide, bt: 'a' }]).states[0]!.threshold).toBe(10);
+    expect(TELBackers.backerStates([{ ...wide, bt: '10' }]).states[0]!.threshold).toBe(16);
+    expect(TELBackers.backerStates([{ ...wide, bt: '11' }])).toMatchObject({
+      ok: false,
+      message: 'backer threshold 17 exceeds 16 backers',
+    });
+    expect(TELBackers.backerStates([{ ...wide, bt: 'A' }]).ok).toBe(false);
+  });
+
+  it('treats NB registries as backerless', () => {
+    const vcp = TELEvents.computeSaid(
+      TELEvents.buildVcp({ issuerAid: ISSUER, backers: [], config: ['NB'] }).unsignedEvent,
+      true,
+    ).event;
+    const result = TELBackers.backerStates([vcp]);
+    expect(result.states[0]!.backed).toBe(false);
+    expect(TELBackers.verifyReceipts({ event: vcp, attachments: [] }, result.states[0]!).ok).toBe(true);
+  });
+});
+
+describe('TELBackers.verifyReceipts', () => {
+  const { vcp } = registry(ISSUER);
+  const state = { backed: true, backers: [A1, A2], threshold: 2 };
+
+  it('counts rct and wig receipts from distinct backers', async () => {
+    const rct = await TELBackers.receipt(vcp, Signers.fromKeyPair(B1), { aid: A1 });
+    const wig = await TELBackers.receipt(vcp, Signers.fromKeyPair(B2), { index: 1 });
+
+    const result = TELBackers.verifyReceipts({ event: vcp, attachments: [rct, rct, wig] }, state);
+    expect(result).toEqual({ ok: true, receipted: [A1, A2] });
+  });
+
+  it('ignores receipts from non-backers when counting', async () => {
+    const envelope = await receipted(vcp, [B1, A1], [B3, A3]);
+
+    const result = TELBackers.verifyReceipts(envelope, state);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.reason).toBe('threshold-not-met');
+      expect(result.receipted).toEqual([A1]);
+    }
+  });
+
+  it('fails a receipt whose signature does not verify', async () => {
+    const forged = await TELBackers.receipt(vcp, Signers.fromKeyPair(B3), { aid: A1 });
+
+    const result = TELBackers.verifyReceipts({ event: vcp, attachments: [forged] }, state);
+    expect(!result.ok && result.reason).toBe('receipt-invalid');
+  });
+});
+
+describe('verifyTel with backer receipts', () => {
+  it('requires receipts from the backer set in force after each rotation', async () => {
+    const kel = issuerKel();
+    const { vcp, vrt } = registry(kel[0]!.event.i as AID);
+    const anchored = issuerKel(vcp, vrt);
+
+    const good = verifyTel([await receipted(vcp, [B1, A1]), await receipted(vrt, [B3, A3])], anchored);
+    expect(good.errors).toEqual([]);
+    expect(good.verifiedLength).toBe(2);
+
+    // A1 was rotated out by the VRT, so its receipt no longer counts.
+    const stale = verifyTel([await receipted(vcp, [B1, A1]), await receipted(vrt, [B1, A1])], anchored);
+    expect(stale.errors).toMatchObject([{ code: 'backer-threshold-not-met', index: 1 }]);
+    expect(stale.verifiedLength).toBe(1);
+  });
+
+  it('reports an inconsistent rotation', async () => {
+    const { vcp, vrt } = registry(ISSUER);
+    const bad = TELEvents.computeSaid({ ...vrt, d: '', ba: [A2] }).event;
+    const result = verifyTel([await receipted(vcp, [B1, A1]), await receipted(bad, [B2, A2])], issuerKel(vcp, bad));
+
+    expect(result.errors).toMatchObject([{ code: 'backer-rotation-invalid', index: 1 }]);
+  });
+});
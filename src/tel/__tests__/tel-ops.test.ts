@@ -209,6 +209,27 @@ describe('TELOps.validateAppend', () => {
     const vrtFirst = { ...vrt, s: '0' } as any;
     expect(TELOps.validateAppend([], vrtFirst).ok).toBe(false);
   });
+
+  test('continues a ten-event TEL in either encoding, then keeps the one it chose', () => {
+    const issAt = (s: string, n: number): IssEvent => ({
+      ...iss,
+      d: `EissSaid${String(n).padStart(2, '0')}`.padEnd(44, '0'),
+      i: `EcredSaid${String(n).padStart(2, '0')}`.padEnd(44, '0'),
+      s,
+    });
+    const ten: TelEvent[] = [vcp, ...Array.from({ length: 9 }, (_, n) => issAt(String(n + 1), n + 1))];
+
+    expect(TELOps.validateAppend(ten, issAt('10', 10)).ok).toBe(true);
+    expect(TELOps.validateAppend(ten, issAt('a', 10)).ok).toBe(true);
+
+    const decimal = [...ten, issAt('10', 10)];
+    expect(TELOps.validateAppend(decimal, issAt('11', 11)).ok).toBe(true);
+    expect(TELOps.validateAppend(decimal, issAt('b', 11)).ok).toBe(false);
+
+    const hex = [...ten, issAt('a', 10)];
+    expect(TELOps.validateAppend(hex, issAt('b', 11)).ok).toBe(true);
+    expect(TELOps.validateAppend(hex, issAt('11', 11)).ok).toBe(false);
+  });
 });
 
 describe('TELOps.validateChain', () => {
@@ -0,0 +1,194 @@
+/**
+ * End-to-end TEL verification against the issuer KEL.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { ACDCData } from '../../acdc/acdc-data.js';
+import { ACDCOps } from '../../acdc/ops.js';
+import { digestVerfer } from '../../cesr/digest.js';
+import { decodeKey } from '../../cesr/keys.js';
+import { encodeSig } from '../../cesr/sigs.js';
+import type { AID, KeriKeyPair, SAID } from '../../common/types.js';
+import { KeriKeyPairs } from '../../crypto/index.js';
+import { canonicalizeEvent } from '../../kel/event-crypto.js';
+import { KELEvents } from '../../kel/events.js';
+import type { CESREvent, KELEvent } from '../../kel/types.js';
+import { sign } from '../../signature/primitives.js';
+import { TELEvents } from '../events.js';
+import type { TelEvent } from '../types.js';
+import { verifyTel } from '../verifier.js';
+
+const KEY1 = KeriKeyPairs.fromSeedNumber(1);
+const KEY2 = KeriKeyPairs.fromSeedNumber(2);
+const DT = '2025-01-15T12:00:00.000Z';
+const SCHEMA = 'EschemaSaid12345678901234567890123456789012' as SAID;
+
+function signEvent(event: KELEvent, keypair: KeriKeyPair): string {
+  const raw = canonicalizeEvent(event);
+  return encodeSig(sign(raw, decodeKey(keypair.privateKey).raw), true).qb64;
+}
+
+function assemble(unsignedEvent: unknown, isInception: boolean): CESREvent {
+  const { event } = KELEvents.finalize(unsignedEvent, isInception);
+  return KELEvents.assembleSignedEvent({ event, signatures: [{ keyIndex: 0, sig: signEvent(event, KEY1) }] });
+}
+
+function icp(): CESREvent {
+  const { unsignedEvent } = KELEvents.buildIcp({
+    keys: [KEY1.publicKey],
+    nextKeyDigests: [digestVerfer(KEY2.publicKey)],
+  });
+  return assemble(unsignedEvent, true);
+}
+
+/** Append an ixn sealing the given TEL events. */
+function anchor(kel: CESREvent[], ...events: TelEvent[]): CESREvent[] {
+  const prior = kel[kel.length - 1]!;
+  const { unsignedEvent } = KELEvents.buildIxn({
+    aid: prior.event.i as AID,
+    sequence: KELEvents.nextSequence(prior.event.s),
+    priorEventSaid: prior.event.d as SAID,
+    anchors: events.map((e) => ({ i: e.i, s: e.s, d: e.d })),
+  });
+  return [...kel, assemble(unsignedEvent, false)];
+}
+
+function fixture() {
+  const inception = icp();
+  const issuer = inception.event.i as AID;
+  const vcp = TELEvents.computeSaid(
+    TELEvents.buildVcp({ issuerAid: issuer, backers: [], config: ['NB'] }).unsignedEvent,
+    true,
+  ).event;
+  const registryId = vcp.i as SAID;
+  const credential = ACDCData.create({ i: issuer, s: SCHEMA, ri: registryId, a: { name: 'Alice' } });
+  const iss = TELEvents.computeSaid(
+    TELEvents.buildIss({ credentialSaid: credential.d as SAID, registryId, sequence: '1', datetime: DT }).unsignedEvent,
+  ).event;
+  const rev = TELEvents.computeSaid(
+    TELEvents.buildRev({
+      credentialSaid: credential.d as SAID,
+      registryId,
+      sequence: '2',
+      priorEventSaid: iss.d as SAID,
+      datetime: DT,
+    }).unsignedEvent,
+  ).event;
+  return { inception, issuer, registryId, credential, vcp, iss, rev };
+}
+
+describe('verifyTel', () => {
+  it('verifies an anchored TEL and yields evidence for ACDCOps', () => {
+    const { inception, issuer, registryId, credential, vcp, iss, rev } = fixture();
+    const kel = anchor(anchor(anchor([inception], vcp), iss), rev);
+
+    const result = verifyTel([vcp, iss, rev], kel, [credential]);
+    expect(result.ok).toBe(true);
+    expect(result.registryId).toBe(registryId);
+    expect(result.issuer).toBe(issuer);
+    expect(result.verifiedLength).toBe(3);
+    expect(result.anchors.map((a) => a.kelSeqNo)).toEqual([1, 2, 3]);
+
+    const [verdict] = result.credentials;
+    expect(verdict!.status).toBe('revoked');
+    expect(ACDCOps.evidence(verdict!.sources)).toEqual([
+      { source: 'tel', status: 'issued', rid: registryId, issSaid: iss.d, issIndex: 1 },
+      { source: 'tel', status: 'revoked', rid: registryId, issSaid: iss.d, revSaid: rev.d, revIndex: 2 },
+    ]);
+  });
+
+  it('cuts the TEL at an unanchored event and keeps the verified prefix', () => {
+    const { inception, credential, vcp, iss, rev } = fixture();
+    const kel = anchor(anchor([inception], vcp), iss);
+
+    const result = verifyTel([vcp, iss, rev], kel, [credential]);
+    expect(result.ok).toBe(false);
+    expect(result.verifiedLength).toBe(2);
+    expect(result.errors).toMatchObject([{ code: 'anchor-missing', index: 2, said: rev.d }]);
+
+    const [verdict] = result.credentials;
+    expect(verdict!.status).toBe('issued');
+    expect(verdict!.verified).toBe(false);
+    expect(verdict!.errors.map((e) => e.code)).toEqual(['event-unverified']);
+  });
+
+  it('rejects anchors that appear out of TEL order', () => {
+    const { inception, credential, vcp, iss } = fixture();
+    const kel = anchor(anchor([inception], iss), vcp);
+
+    const result = verifyTel([vcp, iss], kel, [credential]);
+    expect(result.errors).toMatchObject([{ code: 'anchor-out-of-order', index: 1 }]);
+  });
+
+  it('recomputes TEL event SAIDs', () => {
+    const { inception, vcp, iss } = fixture();
+    const tampered = { ...iss, dt: '2026-01-01T00:00:00.000Z' };
+    const kel = anchor(anchor([inception], vcp), tampered);
+
+    const result = verifyTel([vcp, tampered], kel);
+    expect(result.errors).toMatchObject([{ code: 'said-mismatch', index: 1 }]);
+  });
+
+  it('fails the registry when the KEL belongs to another issuer', () => {
+    const { vcp, iss, credential } = fixture();
+    const stranger = TELEvents.computeSaid(
+      TELEvents.buildVcp({ issuerAid: 'EOtherIssuer000000000000000000000000000000' as AID, backers: [] }).unsignedEvent,
+      true,
+    ).event;
+    const kel = anchor([fixture().inception], stranger);
+
+    const result = verifyTel([stranger], kel);
+    expect(result.errors.map((e) => e.code)).toEqual(['issuer-mismatch']);
+    expect(result.verifiedLength).toBe(0);
+
+    const credentialOnly = verifyTel([vcp, iss], [], [credential]);
+    expect(credentialOnly.errors.map((e) => e.code)).toEqual(['kel-invalid']);
+    expect(credentialOnly.credentials[0]!.sources).toEqual([]);
+  });
+
+  it('flags credentials from another issuer or registry', () => {
+    const { inception, registryId, vcp, iss } = fixture();
+    const kel = anchor(anchor([inception], vcp), iss);
+    const foreign = ACDCData.create({
+      i: 'EOtherIssuer000000000000000000000000000000' as AID,
+      s: SCHEMA,
+      ri: 'EOtherRegistry0000000000000000000000000000' as SAID,
+      a: {},
+    });
+
+    const result = verifyTel([vcp, iss], kel, [foreign]);
+    expect(result.errors).toEqual([]);
+    expect(result.registryId).toBe(registryId);
+    expect(result.credentials[0]!.errors.map((e) => e.code)).toEqual([
+      'credential-issuer-mismatch',
+      'credential-registry-mismatch',
+      'credential-not-issued',
+    ]);
+  });
+
+  it('does not verify a credential the TEL never issued', () => {
+    const { inception, issuer, registryId, vcp, iss } = fixture();
+    const kel = anchor(anchor([inception], vcp), iss);
+    const unissued = ACDCData.create({ i: issuer, s: SCHEMA, ri: registryId, a: { name: 'Bob' } });
+
+    const result = verifyTel([vcp, iss], kel, [unissued]);
+    expect(result.ok).toBe(false);
+    expect(result.credentials[0]).toMatchObject({ verified: false, status: 'unknown', sources: [] });
+    expect(result.credentials[0]!.errors.map((e) => e.code)).toEqual(['credential-not-issued']);
+  });
+
+  it('matches a compact credential by the SAID its ISS names', () => {
+    const { inception, credential, registryId, vcp } = fixture();
+    const compacted = ACDCData.compact(credential);
+    const iss = TELEvents.computeSaid(
+      TELEvents.buildIss({ credentialSaid: compacted.d as SAID, registryId, sequence: '1', datetime: DT })
+        .unsignedEvent,
+    ).event;
+    const kel = anchor(anchor([inception], vcp), iss);
+
+    const result = verifyTel([vcp, iss], kel, [compacted, credential]);
+    expect(result.credentials[0]).toMatchObject({ acdcSaid: iss.i, verified: true, status: 'issued' });
+    // The full form has a SAID of its own, which this ISS does not name.
+    expect(result.credentials[1]!.errors.map((e) => e.code)).toEqual(['credential-not-issued']);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * TEL Backers
+ *
+ * Backer state and backer receipts for backed registries. A registry is
+ * backed unless its VCP carries the `NB` (no backers) config trait; each of
+ * its events then needs `bt` receipts from the backer set in force at that
+ * event. VCP sets the initial set; VRT applies `br` removals, then `ba`
+ * additions, and replaces `bt`. As with KEL rotations, a VRT is receipted
+ * by the backers it rotates in.
+ *
+ * Backers are non-transferable AIDs, so a backer's AID is its public key.
+ *
+ * @module tel/backers
+ */
+
+import { parseSequenceNumber } from '../common/sequence-number.js';
+import type { AID, PublicKey, Signature } from '../common/types.js';
+import type { Signer } from '../signature/signer.js';
+import { verify } from '../signature/verify.js';
+import { TELEvents } from './events.js';
+import { TELData } from './tel-data.js';
+import type { BackerReceipt, TelCESREvent, TelEvent } from './types.js';
+
+/** Config trait marking a backerless registry. */
+const NO_BACKERS = 'NB';
+
+export interface BackerState {
+  /** False for backerless (`NB`) registries, which need no receipts. */
+  backed: boolean;
+  /** Backers in force, in list order (the order `wig` indices refer to). */
+  backers: AID[];
+  threshold: number;
+}
+
+export type BackerStatesResult =
+  | { ok: true; states: BackerState[] }
+  | { ok: false; index: number; message: string; states: BackerState[] };
+
+export type BackerReceiptResult =
+  | { ok: true; receipted: AID[] }
+  | {
+      ok: false;
+      reason: 'receipt-invalid' | 'threshold-not-met';
+      message: string;
+      receipted: AID[];
+    };
+
+/** Backer thresholds are plain hex counts; weighted forms are not valid for `bt`. */
+function parseThreshold(bt: unknown): number {
+  return typeof bt === 'string' ? parseSequenceNumber(bt, 'hex') : Number.NaN;
+}
+
+/**
+ * Backer state in force at each event of a TEL, applying VRT deltas in order.
+ * Fails at the first event whose backer fields are inconsistent: duplicate
+ * backers, removing a non-backer, adding a current backer, or a threshold
+ * the backer set cannot meet. `states` covers the events before that point.
+ */
+function backerStates(tel: readonly TelEvent[]): BackerStatesResult {
+  const states: BackerState[] = [];
+  let current: BackerState | undefined;
+  const fail = (index: number, message: string): BackerStatesResult => ({ ok: false, index, message, states });
+
+  for (let index = 0; index < tel.length; index++) {
+    const event = tel[index]!;
+    if (TELData.isVcp(event)) {
+      const backers = [...event.b] as AID[];
+      if (new Set(backers).size !== backers.length) return fail(index, 'VCP lists a backer more than once');
+      current = { backed: !event.c.includes(NO_BACKERS), backers, threshold: parseThreshold(event.bt) };
+    } else if (TELData.isVrt(event)) {
+      if (!current) return fail(index, 'VRT before VCP');
+      if (!current.backed) return fail(index, 'VRT on a backerless registry');
+      const removed = new Set(event.br as string[]);
+      for (const aid of removed) {
+        if (!current.backers.includes(aid as AID)) return fail(index, `VRT removes ${aid}, which is not a backer`);
+      }
+      const kept = current.backers.filter((aid) => !removed.has(aid));
+      for (const aid of event.ba as AID[]) {
+        if (kept.includes(aid)) return fail(index, `VRT adds ${aid}, which is already a backer`);
+        kept.push(aid);
+      }
+      current = { backed: true, backers: kept, threshold: parseThreshold(event.bt) };
+    } else if (!current) {
+      return fail(index, 'first event must be VCP');
+    }
+
+    if (Number.isNaN(current.threshold)) return fail(index, `invalid backer threshold at event ${index}`);
+    if (current.threshold > current.backers.length) {
+      return fail(index, `backer threshold ${current.threshold} exceeds ${current.backers.length} backers`);
+    }
+    states.push(current);
+  }
+  return { ok: true, states };
+}
+
+/**
+ * Receipt a finalized TEL event as a backer.
+ *
+ * Without `index` the receipt is a non-transferable receipt couple (`rct`)
+ * naming the backer; with `index` it is a signature indexed into the backer
+ * list in force at the event (`wig`).
+ */
+async function receipt(
+  event: TelEvent,
+  signer: Signer,
+  backer: { aid: AID } | { index: number },
+): Promise<BackerReceipt> {
+  const sig = await signer.signBytes(TELEvents.serialize(event));
+  return 'aid' in backer ? { kind: 'rct', by: backer.aid, sig } : { kind: 'wig', keyIndex: backer.index, sig };
+}
+
+/** The backer receipts among an envelope's attachments. */
+function receiptsOf(envelope: TelCESREvent): BackerReceipt[] {
+  return envelope.attachments.filter((a): a is BackerReceipt => a.kind === 'rct' || a.kind === 'wig');
+}
+
+/**
+ * Verify an event's backer receipts against the backer state in force.
+ *
+ * Receipts from AIDs outside the backer set (or `wig` indices past its end)
+ * are ignored, as for KEL witness receipts; a bad signature from a backer
+ * fails. Each backer counts once towards `bt`. Backerless registries and a
+ * threshold of zero always pass.
+ */
+function verifyReceipts(envelope: TelCESREvent, state: BackerState): BackerReceiptResult {
+  const receipted: AID[] = [];
+  if (!state.backed || state.threshold === 0) return { ok: true, receipted };
+
+  const raw = TELEvents.serialize(envelope.event);
+  for (const r of receiptsOf(envelope)) {
+    const backer = r.kind === 'rct' ? (r.by as AID) : state.backers[r.keyIndex];
+    if (backer === undefined || !state.backers.includes(backer)) continue;
+    if (!verify(backer as unknown as PublicKey, r.sig as Signature, raw)) {
+      return {
+        ok: false,
+        reason: 'receipt-invalid',
+        message: `Receipt by backer ${backer} does not verify`,
+        receipted,
+      };
+    }
+    if (!receipted.includes(backer)) receipted.push(backer);
+  }
+
+  if (receipted.length < state.threshold) {
+    return {
+      ok: false,
+      reason: 'threshold-not-met',
+      message: `${receipted.length} backer receipts, need ${state.threshold}`,
+      receipted,
+    };
+  }
+  return { ok: true, receipted };
+}
+
+export const TELBackers = {
+  backerStates,
+  receipt,
+  receiptsOf,
+  verifyReceipts,
+} as const;
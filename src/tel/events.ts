@@ -11,9 +11,15 @@
  * @module tel/events
  */
 
+import type { SaidAlgo } from '../cesr/types.js';
 import { SAID_PLACEHOLDER } from '../common/data.js';
 import type { DerivationSurface } from '../common/derivation-surface.js';
-import { deriveSaid, serializeForSigning } from '../common/derivation-surface.js';
+import {
+  deriveSaid,
+  recomputeSaid as recomputeSurfaceSaid,
+  serializeForSigning,
+} from '../common/derivation-surface.js';
+import { isSequenceNumber, nextSequenceNumber, type SequenceEncoding } from '../common/sequence-number.js';
 import type { AID, SAID } from '../common/types.js';
 import {
   TEL_BIS_SURFACE,
@@ -238,9 +244,17 @@ export namespace TELEvents {
    *
    * @param unsignedEvent - Unsigned event with placeholder d, i, v
    * @param isInception - Whether this is a VCP inception event where i=d
+   * @param algo - SAID digest algorithm (default: blake3-256)
    * @returns Finalized event, canonical representations, and SAID
    */
-  export function computeSaid(unsignedEvent: any, isInception = false): FinalizedTelEventResult {
+  export function computeSaid(
+    unsignedEvent: any,
+    isInception = false,
+    algo: SaidAlgo = 'blake3-256',
+  ): FinalizedTelEventResult {
+    if (!isSequenceNumber(unsignedEvent.s)) {
+      throw new Error(`computeSaid: sequence '${unsignedEvent.s}' is not lowercase hex`);
+    }
     const hasNonce = 'n' in unsignedEvent && unsignedEvent.n !== undefined;
     const surface = selectSurface(unsignedEvent.t, hasNonce);
 
@@ -252,7 +266,7 @@ export namespace TELEvents {
     const canonUnsigned = serializeForSigning(eventForDerivation, surface);
 
     // Derive SAID using keripy-compatible insertion-order serialization
-    const { sealed, said } = deriveSaid(eventForDerivation, surface);
+    const { sealed, said } = deriveSaid(eventForDerivation, surface, undefined, algo);
 
     // For VCP inception events, set i = d = said (registry AID === its SAID)
     const event: TelEvent = isInception ? { ...sealed, i: said } : (sealed as TelEvent);
@@ -269,12 +283,40 @@ export namespace TELEvents {
   }
 
   /**
-   * Increment a sequence number string by 1.
+   * Recompute a TEL event's SAID with its TEL_*_SURFACE and compare it with `d`.
+   * A VCP must also carry its SAID as the registry identifier (i === d); its
+   * SAID is recomputed with both d and i as placeholders, as in computeSaid.
+   */
+  export function recomputeSaid(event: TelEvent): {
+    matches: boolean;
+    declared: string | undefined;
+    recomputed: string;
+  } {
+    const surface = selectSurface(event.t, 'n' in event && event.n !== undefined);
+    if (event.t !== 'vcp') return recomputeSurfaceSaid(event, surface);
+
+    const result = recomputeSurfaceSaid({ ...event, i: SAID_PLACEHOLDER }, surface);
+    return { ...result, matches: result.matches && event.i === event.d };
+  }
+
+  /**
+   * Serialize a finalized TEL event in its surface field order: the bytes
+   * backers sign when they receipt the event.
+   */
+  export function serialize(event: TelEvent): Uint8Array {
+    return serializeForSigning(event, selectSurface(event.t, 'n' in event && event.n !== undefined)).raw;
+  }
+
+  /**
+   * Increment a sequence number string by 1. Sequence numbers are lowercase
+   * hex, as in keripy; pass 'decimal' only to extend a legacy decimal TEL.
+   * Throws when `priorSeq` is malformed.
    *
-   * @param priorSeq - Prior sequence number as string (e.g. '0', '42')
-   * @returns Next sequence number as string (e.g. '1', '43')
+   * @param priorSeq - Prior sequence number (e.g. '0', '9', 'ff')
+   * @param encoding - Sequence encoding of the log being extended (default 'hex')
+   * @returns Next sequence number (e.g. '1', 'a', '100')
    */
-  export function nextSequence(priorSeq: string): string {
-    return String(Number.parseInt(priorSeq, 10) + 1);
+  export function nextSequence(priorSeq: string, encoding: SequenceEncoding = 'hex'): string {
+    return nextSequenceNumber(priorSeq, encoding);
   }
 }
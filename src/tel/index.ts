@@ -8,8 +8,18 @@ export const Tel = {
   ...TELEvents,
 } as const;
 
+export type { BackerReceiptResult, BackerState, BackerStatesResult } from './backers.js';
+export { TELBackers } from './backers.js';
 export { TELEvents } from './events.js';
 export type { TelValidationError, TelValidationResult } from './ops.js';
 export { TELOps } from './ops.js';
 export { TELData } from './tel-data.js';
 export * from './types.js';
+export type {
+  TelCredentialVerdict,
+  TelEventAnchor,
+  TelVerificationError,
+  TelVerificationErrorCode,
+  TelVerificationResult,
+} from './verifier.js';
+export { verifyTel } from './verifier.js';
@@ -1,4 +1,10 @@
 import { Value } from '@sinclair/typebox/value';
+import {
+  formatSequenceNumber,
+  isSequenceNumber,
+  parseSequenceNumber,
+  type SequenceEncoding,
+} from '../common/sequence-number.js';
 import type { AID } from '../common/types.js';
 import { TELData } from './tel-data.js';
 import {
@@ -102,10 +108,9 @@ function validateEvent(event: TelEvent): TelValidationResult {
     errors.push({ field: 'i', message: 'missing or empty identifier' });
   }
 
-  // Sequence is a valid non-negative integer
-  const sn = parseInt(event.s, 10);
-  if (Number.isNaN(sn) || sn < 0) {
-    errors.push({ field: 's', message: 'sequence must be a non-negative integer string' });
+  // Sequence is lowercase hex (legacy decimal sequences are a subset)
+  if (!isSequenceNumber(event.s)) {
+    errors.push({ field: 's', message: 'sequence must be a lowercase hex string' });
   }
 
   return errors.length === 0 ? { ok: true } : { ok: false, errors };
@@ -131,14 +136,19 @@ function validateAppend(existing: TelEvent[], candidate: TelEvent): TelValidatio
   const structural = validateEvent(candidate);
   if (!structural.ok) return structural;
 
+  // A legacy decimal TEL keeps its encoding. Up to ten events a run reads the
+  // same in hex and decimal, so the candidate may continue it in either.
+  const encodings = (['hex', 'decimal'] as const).filter((encoding) =>
+    existing.every((e, i) => e.s === formatSequenceNumber(i, encoding)),
+  );
+  const candidateEncodings: readonly SequenceEncoding[] = encodings.length > 0 ? encodings : ['hex'];
   const expectedSeq = existing.length;
-  const candidateSeq = parseInt(candidate.s, 10);
 
   // Sequence contiguity
-  if (candidateSeq !== expectedSeq) {
+  if (!candidateEncodings.some((encoding) => parseSequenceNumber(candidate.s, encoding) === expectedSeq)) {
     errors.push({
       field: 's',
-      message: `expected sequence ${expectedSeq}, got ${candidateSeq}`,
+      message: `expected sequence ${expectedSeq}, got ${parseSequenceNumber(candidate.s, candidateEncodings[0])}`,
     });
   }
 
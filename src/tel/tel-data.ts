@@ -1,5 +1,6 @@
 import type { DerivationSurface } from '../common/derivation-surface.js';
 import { deriveSaid } from '../common/derivation-surface.js';
+import { parseSequenceNumber, type SequenceEncoding } from '../common/sequence-number.js';
 import type { SAID } from '../common/types.js';
 import type {
   BisEvent,
@@ -106,8 +107,9 @@ function registryId(event: TelEvent): string {
   return (event as TelEvent).i;
 }
 
-function sequenceNumber(event: TelEvent): number {
-  return parseInt(event.s, 10);
+/** Parsed `s`; NaN when malformed. Pass 'decimal' only for a legacy decimal TEL. */
+function sequenceNumber(event: TelEvent, encoding: SequenceEncoding = 'hex'): number {
+  return parseSequenceNumber(event.s, encoding);
 }
 
 // ── RSN derivation ──────────────────────────────────────────────────
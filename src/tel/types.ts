@@ -2,12 +2,12 @@ import { type Static, Type } from '@sinclair/typebox';
 import {
   CesrAidSchema,
   CesrDigestSchema,
-  NonEmpty,
+  SequenceNumberSchema,
   ThresholdSchema,
   TimestampSchema,
   VersionSchema,
 } from '../common/types.js';
-import { CesrSealSchema } from '../kel/types.js';
+import { type CesrAttachment, CesrAttachmentSchema, CesrSealSchema } from '../kel/types.js';
 
 // ── VCP Event (Registry Inception) ──────────────────────────────────
 // Keripy canonical order: ['v', 't', 'd', 'i', 'ii', 's', 'c', 'bt', 'b', 'n']
@@ -38,7 +38,7 @@ export const VrtEventSchema = Type.Object(
     d: CesrDigestSchema,
     i: CesrDigestSchema,
     p: CesrDigestSchema,
-    s: NonEmpty('Sequence Number'),
+    s: SequenceNumberSchema('Sequence Number'),
     bt: ThresholdSchema,
     br: Type.Array(CesrAidSchema),
     ba: Type.Array(CesrAidSchema),
@@ -55,7 +55,7 @@ export const IssEventSchema = Type.Object(
     t: Type.Literal('iss'),
     d: CesrDigestSchema,
     i: CesrDigestSchema,
-    s: NonEmpty('Sequence Number'),
+    s: SequenceNumberSchema('Sequence Number'),
     ri: CesrDigestSchema,
     dt: TimestampSchema,
   },
@@ -71,7 +71,7 @@ export const RevEventSchema = Type.Object(
     t: Type.Literal('rev'),
     d: CesrDigestSchema,
     i: CesrDigestSchema,
-    s: NonEmpty('Sequence Number'),
+    s: SequenceNumberSchema('Sequence Number'),
     ri: CesrDigestSchema,
     p: CesrDigestSchema,
     dt: TimestampSchema,
@@ -89,7 +89,7 @@ export const BisEventSchema = Type.Object(
     d: CesrDigestSchema,
     i: CesrDigestSchema,
     ii: CesrAidSchema,
-    s: NonEmpty('Sequence Number'),
+    s: SequenceNumberSchema('Sequence Number'),
     ra: CesrSealSchema,
     dt: TimestampSchema,
   },
@@ -105,7 +105,7 @@ export const BrvEventSchema = Type.Object(
     t: Type.Literal('brv'),
     d: CesrDigestSchema,
     i: CesrDigestSchema,
-    s: NonEmpty('Sequence Number'),
+    s: SequenceNumberSchema('Sequence Number'),
     p: CesrDigestSchema,
     ra: CesrSealSchema,
     dt: TimestampSchema,
@@ -127,12 +127,27 @@ export type TelEvent = Static<typeof TelEventSchema>;
 
 export type EstablishmentTelEvent = VcpEvent | VrtEvent;
 
+// ── TEL event envelope ──────────────────────────────────────────────
+// A TEL event with its CESR attachments. Backers receipt an event either
+// with a non-transferable receipt couple (rct, by backer AID) or with a
+// signature indexed into the backer list in force at that event (wig).
+export const TelCESREventSchema = Type.Object(
+  {
+    event: TelEventSchema,
+    attachments: Type.Array(CesrAttachmentSchema, { default: [] }),
+  },
+  { additionalProperties: false },
+);
+export type TelCESREvent = Static<typeof TelCESREventSchema>;
+
+export type BackerReceipt = Extract<CesrAttachment, { kind: 'rct' | 'wig' }>;
+
 // ── RSN (Registry State Notice) ─────────────────────────────────────
 export const RSNSchema = Type.Object(
   {
     v: VersionSchema,
     i: CesrDigestSchema,
-    s: NonEmpty('Sequence Number'),
+    s: SequenceNumberSchema('Sequence Number'),
     d: CesrDigestSchema,
     et: Type.Union([
       Type.Literal('vcp'),
@@ -0,0 +1,302 @@
+/**
+ * TEL Verifier
+ *
+ * Verifies a registry's TEL end to end against its issuer's KEL: chain
+ * structure (TELOps.validateAppend), each event's SAID (TEL_*_SURFACE), the
+ * issuer KEL itself (signatures and chain), and a KEL seal for every TEL
+ * event. Anchors must appear in TEL order, so no event is sealed under a key
+ * state older than the one that sealed its predecessor. Given TEL envelopes,
+ * backed registries also need `bt` backer receipts on every event
+ * (see TELBackers).
+ *
+ * The TEL is verified as a chain and cut at its first bad event; events after
+ * the cut are never trusted. Credentials get a verdict each, whose `sources`
+ * hold only verified events and feed ACDCOps.evidence directly.
+ *
+ * Pure — no I/O.
+ *
+ * @module tel/verifier
+ */
+
+import { ACDCOps } from '../acdc/ops.js';
+import type { ACDCCredential, CompactACDCCredential, CredentialStatus, CredentialStatusSource } from '../acdc/types.js';
+import type { AID, SAID } from '../common/types.js';
+import type { CESREvent } from '../kel/types.js';
+import { validateKelChain } from '../kel/validation.js';
+import { type BackerStatesResult, TELBackers } from './backers.js';
+import { TELEvents } from './events.js';
+import { TELOps } from './ops.js';
+import { TELData } from './tel-data.js';
+import type { TelCESREvent, TelEvent } from './types.js';
+
+export type TelVerificationErrorCode =
+  | 'kel-invalid'
+  | 'issuer-mismatch'
+  | 'chain-invalid'
+  | 'said-mismatch'
+  | 'registry-seal-mismatch'
+  | 'anchor-missing'
+  | 'anchor-out-of-order'
+  | 'backer-rotation-invalid'
+  | 'backer-receipt-invalid'
+  | 'backer-threshold-not-met'
+  | 'event-unverified'
+  | 'credential-said-mismatch'
+  | 'credential-issuer-mismatch'
+  | 'credential-registry-mismatch'
+  | 'credential-not-issued';
+
+export interface TelVerificationError {
+  code: TelVerificationErrorCode;
+  message: string;
+  /** Position of the offending TEL event, if any. */
+  index?: number;
+  /** SAID of the offending TEL event or credential, if any. */
+  said?: string;
+}
+
+/** Where a verified TEL event is sealed in the issuer's KEL. */
+export interface TelEventAnchor {
+  index: number;
+  telEventSaid: SAID;
+  kelEventSaid: SAID;
+  /** Sequence number of the sealing KEL event. */
+  kelSeqNo: number;
+}
+
+export interface TelCredentialVerdict {
+  acdcSaid: SAID;
+  /** True when the credential and all of its TEL events verified. */
+  verified: boolean;
+  /** Status over verified events only (ACDCOps.status). */
+  status: CredentialStatus;
+  /** Verified ISS/BIS and REV/BRV events, ready for ACDCOps.evidence. */
+  sources: CredentialStatusSource[];
+  errors: TelVerificationError[];
+}
+
+export interface TelVerificationResult {
+  /** True when the whole TEL and every credential verified. */
+  ok: boolean;
+  registryId?: SAID;
+  issuer?: AID;
+  /** Number of leading TEL events that verified. */
+  verifiedLength: number;
+  anchors: TelEventAnchor[];
+  /** Registry-level failures: the KEL, or the TEL event the chain was cut at. */
+  errors: TelVerificationError[];
+  credentials: TelCredentialVerdict[];
+}
+
+/** Position of the first KEL event whose `a[]` seals the TEL event's (i, d). */
+function findAnchor(kel: readonly CESREvent[], event: TelEvent): number {
+  for (let k = 0; k < kel.length; k++) {
+    const anchors = (kel[k]!.event as Record<string, unknown>).a;
+    if (!Array.isArray(anchors)) continue;
+    const sealed = anchors.some(
+      (seal) =>
+        typeof seal === 'object' &&
+        seal !== null &&
+        (seal as { i?: unknown }).i === event.i &&
+        (seal as { d?: unknown }).d === event.d,
+    );
+    if (sealed) return k;
+  }
+  return -1;
+}
+
+/**
+ * Check one TEL event after its predecessors verified. Returns the error that
+ * cuts the chain here, or the KEL position of its anchor.
+ */
+function verifyEvent(
+  tel: readonly TelEvent[],
+  index: number,
+  kel: readonly CESREvent[],
+  lastAnchor: number,
+): { error: TelVerificationError } | { anchor: number } {
+  const event = tel[index]!;
+  const fail = (code: TelVerificationErrorCode, message: string) => ({
+    error: { code, message, index, said: event.d },
+  });
+
+  const append = TELOps.validateAppend(tel.slice(0, index), event);
+  if (!append.ok) {
+    return fail('chain-invalid', append.errors.map((e) => `${e.field}: ${e.message}`).join('; '));
+  }
+
+  const said = TELEvents.recomputeSaid(event);
+  if (!said.matches)
+    return fail('said-mismatch', `${event.t} at ${index} hashes to ${said.recomputed}, not ${event.d}`);
+
+  if (TELData.isBis(event) || TELData.isBrv(event)) {
+    const { ra } = event;
+    const management = tel
+      .slice(0, index)
+      .some((e) => (TELData.isVcp(e) || TELData.isVrt(e)) && e.i === ra.i && e.s === ra.s && e.d === ra.d);
+    if (!management) {
+      return fail('registry-seal-mismatch', `${event.t} at ${index} seals no prior registry event (${ra.i}, ${ra.s})`);
+    }
+  }
+
+  const anchor = findAnchor(kel, event);
+  if (anchor < 0) return fail('anchor-missing', `${event.t} at ${index} is not sealed in the issuer KEL`);
+  if (anchor < lastAnchor) {
+    return fail('anchor-out-of-order', `${event.t} at ${index} is sealed before the event that precedes it`);
+  }
+  return { anchor };
+}
+
+/** Check an event's backer receipts; undefined when they satisfy the backer state in force. */
+function verifyBackers(
+  envelope: TelCESREvent,
+  backers: BackerStatesResult,
+  index: number,
+): TelVerificationError | undefined {
+  const { event } = envelope;
+  const state = backers.states[index];
+  if (!state) {
+    const message = backers.ok ? `No backer state for ${event.t} at ${index}` : backers.message;
+    return { code: 'backer-rotation-invalid', message, index, said: event.d };
+  }
+
+  const result = TELBackers.verifyReceipts(envelope, state);
+  if (result.ok) return undefined;
+  return {
+    code: result.reason === 'receipt-invalid' ? 'backer-receipt-invalid' : 'backer-threshold-not-met',
+    message: `${event.t} at ${index}: ${result.message}`,
+    index,
+    said: event.d,
+  };
+}
+
+function credentialVerdict(
+  credential: ACDCCredential | CompactACDCCredential,
+  tel: readonly TelEvent[],
+  verifiedLength: number,
+  registryId: SAID | undefined,
+  issuer: AID | undefined,
+): TelCredentialVerdict {
+  const acdcSaid = credential.d as SAID;
+  const errors: TelVerificationError[] = [];
+
+  const said = ACDCOps.validateSaid(credential);
+  if (!said.valid) {
+    errors.push({
+      code: 'credential-said-mismatch',
+      message: `Credential hashes to ${said.expected}, not ${said.actual}`,
+      said: acdcSaid,
+    });
+  }
+  if (issuer !== undefined && credential.i !== issuer) {
+    errors.push({
+      code: 'credential-issuer-mismatch',
+      message: `Credential issued by ${credential.i}, registry belongs to ${issuer}`,
+      said: acdcSaid,
+    });
+  }
+  const rid = credential.ri ?? credential.rd;
+  if (rid !== undefined && registryId !== undefined && rid !== registryId) {
+    errors.push({
+      code: 'credential-registry-mismatch',
+      message: `Credential names registry ${rid}, TEL is ${registryId}`,
+      said: acdcSaid,
+    });
+  }
+
+  const sources: CredentialStatusSource[] = [];
+  tel.forEach((event, index) => {
+    if (event.i !== acdcSaid || TELData.isVcp(event) || TELData.isVrt(event)) return;
+    if (index >= verifiedLength || registryId === undefined) {
+      errors.push({
+        code: 'event-unverified',
+        message: `${event.t} at ${index} was not verified`,
+        index,
+        said: event.d,
+      });
+      return;
+    }
+    const kind = TELData.isIss(event) || TELData.isBis(event) ? 'tel-iss' : 'tel-rev';
+    sources.push({ acdcSaid, kind, rid: registryId, eventSaid: event.d as SAID, index });
+  });
+  if (!sources.some((source) => source.kind === 'tel-iss')) {
+    errors.push({
+      code: 'credential-not-issued',
+      message: `No verified ISS or BIS event issues ${acdcSaid}`,
+      said: acdcSaid,
+    });
+  }
+
+  return { acdcSaid, verified: errors.length === 0, status: ACDCOps.status(sources), sources, errors };
+}
+
+/**
+ * Verify a registry's TEL against its issuer's KEL and derive a verdict for
+ * each credential.
+ *
+ * @param events - The registry's TEL, VCP first; pass envelopes to check backer receipts
+ * @param kel - The issuer's KEL, with signature attachments
+ * @param credentials - ACDCs (full or compact) whose status is wanted
+ */
+export function verifyTel(
+  events: readonly TelEvent[] | readonly TelCESREvent[],
+  kel: readonly CESREvent[],
+  credentials: readonly (ACDCCredential | CompactACDCCredential)[] = [],
+): TelVerificationResult {
+  const envelopes = events.length > 0 && 'event' in events[0]! ? (events as readonly TelCESREvent[]) : undefined;
+  const tel = envelopes ? envelopes.map((e) => e.event) : (events as readonly TelEvent[]);
+  const backers = envelopes ? TELBackers.backerStates(tel) : undefined;
+  const errors: TelVerificationError[] = [];
+  const anchors: TelEventAnchor[] = [];
+  const first = tel[0];
+  const registryId = first && TELData.isVcp(first) ? (first.i as SAID) : undefined;
+  const issuer = TELOps.issuerId([...tel]);
+
+  const kelResult = kel.length > 0 ? validateKelChain([...kel]) : undefined;
+  if (!kelResult?.valid) {
+    const detail = kelResult?.firstError?.message ?? 'KEL is empty';
+    errors.push({ code: 'kel-invalid', message: `Issuer KEL is invalid: ${detail}` });
+  } else if (issuer !== undefined && kel[0]!.event.i !== issuer) {
+    errors.push({
+      code: 'issuer-mismatch',
+      message: `KEL belongs to ${kel[0]!.event.i}, registry issuer is ${issuer}`,
+    });
+  }
+
+  let verifiedLength = 0;
+  if (errors.length === 0) {
+    let lastAnchor = 0;
+    for (let index = 0; index < tel.length; index++) {
+      const step = verifyEvent(tel, index, kel, lastAnchor);
+      if ('error' in step) {
+        errors.push(step.error);
+        break;
+      }
+      const backerError = envelopes && backers ? verifyBackers(envelopes[index]!, backers, index) : undefined;
+      if (backerError) {
+        errors.push(backerError);
+        break;
+      }
+      lastAnchor = step.anchor;
+      const sealing = kel[step.anchor]!.event;
+      anchors.push({
+        index,
+        telEventSaid: tel[index]!.d as SAID,
+        kelEventSaid: sealing.d as SAID,
+        kelSeqNo: step.anchor,
+      });
+      verifiedLength = index + 1;
+    }
+  }
+
+  const verdicts = credentials.map((c) => credentialVerdict(c, tel, verifiedLength, registryId, issuer));
+  return {
+    ok: errors.length === 0 && verdicts.every((v) => v.verified),
+    ...(registryId !== undefined ? { registryId } : {}),
+    ...(issuer !== undefined ? { issuer } : {}),
+    verifiedLength,
+    anchors,
+    errors,
+    credentials: verdicts,
+  };
+}